@@ -1,6 +1,7 @@
-import { app, BrowserWindow, ipcMain, dialog, shell, Menu, MenuItemConstructorOptions } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog, shell, Menu, MenuItemConstructorOptions, WebContents } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs/promises';
+import * as zlib from 'zlib';
 import { execFile, spawn, ChildProcessWithoutNullStreams } from 'child_process';
 import chokidar, { FSWatcher } from 'chokidar';
 import { APP_EDITION } from '../shared/appInfo';
@@ -9,6 +10,32 @@ import {
   parseLatexDiagnostics,
   summarizeLatexError,
 } from '../shared/latexDiagnostics';
+import { resolveRootDocument, RootDocumentHost, samePath } from '../shared/rootDocument';
+import { AuxLabel, findAuxInputs, parseAuxLabels } from '../shared/auxFile';
+import { extractGraphicsPaths, FILE_COMMANDS, getIncludeCandidates } from '../shared/latexSymbols';
+import { parseSyncTex, SyncTexData, syncTexForward, syncTexInverse, SyncTexRect } from '../shared/synctex';
+import { CompileOutputBatch } from '../shared/compileOutput';
+import { getAffixEncoding, matchDictionary } from '../shared/hunspell';
+import { CHKTEX_FORMAT, parseChktexOutput } from '../shared/latexLint';
+import {
+  createDefaultProjectSettings,
+  describeProjectCommands,
+  parseProjectSettings,
+  ProjectSettings,
+  PROJECT_SETTINGS_FILENAME,
+  withoutProjectCommands,
+} from '../shared/projectSettings';
+import {
+  DEFAULT_RECIPE,
+  expandRecipePlaceholders,
+  isLatexStep,
+  RECIPE_TOOL_TIMEOUTS,
+  recipeConditionHolds,
+  recipeStepRepeat,
+  RecipeStep,
+  RecipeVariables,
+  resolveBuildRecipe,
+} from '../shared/buildRecipes';
 // no util.promisify needed after switching to execFile/spawn helpers
 
 // execFile promise wrapper to avoid shell interpolation
@@ -33,25 +60,35 @@ const execFileAsync = (
   });
 };
 
+// 'superseded' means a newer compile replaced this one; 'user' is an explicit Stop.
+type ProcessCancelReason = 'superseded' | 'user';
+
 type ProcessCancelToken = {
   cancelled: boolean;
+  reason?: ProcessCancelReason;
   processes: Set<ChildProcessWithoutNullStreams>;
+  // When the work began, so a cancel only cleans up what it wrote.
+  startedAt?: number;
 };
 
-const cancelProcessToken = (token: ProcessCancelToken) => {
+const cancelProcessToken = (token: ProcessCancelToken, reason: ProcessCancelReason = 'superseded') => {
   token.cancelled = true;
+  token.reason = token.reason ?? reason;
   for (const child of token.processes) {
     try { child.kill(); } catch {}
   }
 };
 
-// spawn collector with timeout
+type OutputLineListener = (line: string, stream: 'stdout' | 'stderr') => void;
+
+// spawn collector with timeout; onLine receives output as complete lines while the process runs
 const spawnCollect = (
   command: string,
   args: string[],
   options: any = {},
   timeoutMs = 120000,
-  cancelToken?: ProcessCancelToken
+  cancelToken?: ProcessCancelToken,
+  onLine?: OutputLineListener
 ): Promise<{ stdout: string; stderr: string; code: number | null }> => {
   return new Promise((resolve, reject) => {
     if (cancelToken?.cancelled) {
@@ -65,6 +102,15 @@ const spawnCollect = (
     let stderr = '';
     let settled = false;
     let timedOut = false;
+    const partialLines = { stdout: '', stderr: '' };
+    const forwardLines = (stream: 'stdout' | 'stderr', text: string, final = false) => {
+      if (!onLine) return;
+      const lines = (partialLines[stream] + text).split(/\r?\n/);
+      partialLines[stream] = final ? '' : lines.pop() ?? '';
+      for (const line of lines) {
+        if (!final || line) onLine(line, stream);
+      }
+    };
     const timer = setTimeout(() => {
       if (!settled) {
         timedOut = true;
@@ -72,10 +118,20 @@ const spawnCollect = (
       }
     }, timeoutMs);
 
-    child.stdout.on('data', (d) => { stdout += d.toString(); });
-    child.stderr.on('data', (d) => { stderr += d.toString(); });
+    child.stdout.on('data', (d) => {
+      const text = d.toString();
+      stdout += text;
+      forwardLines('stdout', text);
+    });
+    child.stderr.on('data', (d) => {
+      const text = d.toString();
+      stderr += text;
+      forwardLines('stderr', text);
+    });
     child.on('error', (err) => {
       clearTimeout(timer);
+      forwardLines('stdout', '', true);
+      forwardLines('stderr', '', true);
       cancelToken?.processes.delete(child);
       if (settled) return;
       settled = true;
@@ -85,6 +141,8 @@ const spawnCollect = (
     });
     child.on('exit', (code, signal) => {
       clearTimeout(timer);
+      forwardLines('stdout', '', true);
+      forwardLines('stderr', '', true);
       cancelToken?.processes.delete(child);
       if (settled) return;
       settled = true;
@@ -112,6 +170,40 @@ const spawnCollect = (
   });
 };
 
+const COMPILE_OUTPUT_FLUSH_MS = 100;
+
+// Batches output lines per tool run so long logs do not flood the IPC channel.
+const createCompileOutputSender = (sender: WebContents, requestId?: number) => {
+  let pending: CompileOutputBatch | null = null;
+  let timer: NodeJS.Timeout | null = null;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (pending && pending.lines.length > 0 && !sender.isDestroyed()) {
+      sender.send('compilation-output', pending);
+    }
+    pending = null;
+  };
+
+  const forTool = (tool: string, pass = 0): OutputLineListener => (line) => {
+    if (pending && (pending.tool !== tool || pending.pass !== pass)) {
+      flush();
+    }
+    if (!pending) {
+      pending = { requestId, tool, pass, lines: [] };
+    }
+    pending.lines.push(line);
+    if (!timer) {
+      timer = setTimeout(flush, COMPILE_OUTPUT_FLUSH_MS);
+    }
+  };
+
+  return { forTool, flush };
+};
+
 let mainWindow: BrowserWindow | null = null;
 const gitCmd = process.platform === 'win32' ? 'git.exe' : 'git';
 // Git-only terminal sessions (stores running process and cwd per sender)
@@ -143,6 +235,195 @@ const buildUniqueDestination = async (destinationDir: string, baseName: string):
   return candidate;
 };
 
+// Directories that never contain project sources worth scanning for includes
+const SCAN_SKIP_DIRECTORIES = new Set(['.git', 'node_modules', '.openotex']);
+const MAX_SCANNED_FILES = 2000;
+
+const listProjectFiles = async (projectRoot: string, namePattern: RegExp): Promise<string[]> => {
+  const results: string[] = [];
+  const walk = async (dirPath: string, depth: number) => {
+    if (depth > 8 || results.length >= MAX_SCANNED_FILES) return;
+    let entries;
+    try {
+      entries = await fs.readdir(dirPath, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        if (SCAN_SKIP_DIRECTORIES.has(entry.name) || entry.name.endsWith('_backups_')) continue;
+        await walk(entryPath, depth + 1);
+      } else if (namePattern.test(entry.name)) {
+        results.push(entryPath);
+        if (results.length >= MAX_SCANNED_FILES) return;
+      }
+    }
+  };
+  await walk(projectRoot, 0);
+  return results;
+};
+
+const listTexFiles = (projectRoot: string) => listProjectFiles(projectRoot, /\.(tex|latex)$/i);
+
+const rootDocumentHost: RootDocumentHost = {
+  path,
+  readFile: async (filePath: string) => {
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+  },
+  listTexFiles,
+};
+
+// Files an interrupted run may leave half-written; stale ones break the next compile.
+const PARTIAL_BUILD_EXTENSIONS = ['.pdf', '.aux', '.synctex.gz', '.synctex(busy)', '.synctex.gz(busy)', '.fls', '.fdb_latexmk'];
+
+// Only files modified since `since` are removed, so the last good PDF survives a run stopped early.
+const removePartialBuildOutput = async (buildDir: string, jobName: string, since: number) => {
+  await Promise.all(PARTIAL_BUILD_EXTENSIONS.map(async ext => {
+    const filePath = path.join(buildDir, `${jobName}${ext}`);
+    try {
+      if ((await fs.stat(filePath)).mtimeMs >= since) {
+        await fs.unlink(filePath);
+      }
+    } catch {
+      // Not written, or already gone
+    }
+  }));
+};
+
+const makeCancelledCompileResult = async (
+  token: ProcessCancelToken,
+  buildDir: string | null,
+  jobName: string,
+  log = ''
+) => {
+  // A superseding compile may already be writing the same files, so only an explicit stop cleans up.
+  if (token.reason === 'user' && buildDir && token.startedAt !== undefined) {
+    await removePartialBuildOutput(buildDir, jobName, token.startedAt);
+  }
+  return {
+    success: false,
+    cancelled: true,
+    error: 'Compilation cancelled',
+    log,
+    details: '',
+    diagnostics: []
+  };
+};
+
+const readProjectSettings = async (projectRoot?: string): Promise<ProjectSettings> => {
+  if (!projectRoot) {
+    return createDefaultProjectSettings();
+  }
+  try {
+    const text = await fs.readFile(path.join(projectRoot, PROJECT_SETTINGS_FILENAME), 'utf-8');
+    const { settings, warnings } = parseProjectSettings(text);
+    for (const warning of warnings) {
+      console.warn(`${PROJECT_SETTINGS_FILENAME}: ${warning}`);
+    }
+    return settings;
+  } catch {
+    return createDefaultProjectSettings();
+  }
+};
+
+// Project recipes, engine arguments and environment the user allowed, by project folder. The
+// stored description must match the current one, so an edit to them (say, from a pull) asks again.
+const getTrustedProjectsPath = () => path.join(app.getPath('userData'), 'trusted-projects.json');
+// Declined for this session, so auto-compile does not ask on every save.
+const declinedProjectCommands = new Map<string, string>();
+const pendingTrustPrompts = new Map<string, Promise<boolean>>();
+
+const readTrustedProjects = async (): Promise<Record<string, string>> => {
+  try {
+    const trusted = JSON.parse(await fs.readFile(getTrustedProjectsPath(), 'utf-8'));
+    return trusted && typeof trusted === 'object' ? trusted : {};
+  } catch {
+    return {};
+  }
+};
+
+const askToTrustProject = async (sender: WebContents, projectRoot: string, commands: string[]): Promise<boolean> => {
+  const owner = BrowserWindow.fromWebContents(sender) ?? mainWindow;
+  const options = {
+    type: 'warning' as const,
+    buttons: ['Trust and Build', 'Build Without Them'],
+    defaultId: 1,
+    cancelId: 1,
+    title: 'Trust Project Build Settings',
+    message: `${path.basename(projectRoot)} sets its own build commands`,
+    detail: `${commands.join('\n')}\n\nThese come from ${PROJECT_SETTINGS_FILENAME} and can run any program on this computer. `
+      + 'Only trust them if you trust where the project came from.',
+  };
+  const { response } = owner ? await dialog.showMessageBox(owner, options) : await dialog.showMessageBox(options);
+  return response === 0;
+};
+
+/**
+ * The settings a build may use: the project's engine arguments, environment and recipe only
+ * once the user has trusted them, and the defaults in their place otherwise.
+ */
+const applyProjectTrust = async (sender: WebContents, projectRoot: string | undefined, settings: ProjectSettings) => {
+  const commands = describeProjectCommands(settings);
+  if (!projectRoot || !commands) {
+    return settings;
+  }
+  const description = commands.join('\n');
+  const trusted = await readTrustedProjects();
+  if (trusted[projectRoot] === description) {
+    return settings;
+  }
+  if (declinedProjectCommands.get(projectRoot) === description) {
+    return withoutProjectCommands(settings);
+  }
+  let prompt = pendingTrustPrompts.get(projectRoot);
+  if (!prompt) {
+    prompt = askToTrustProject(sender, projectRoot, commands);
+    pendingTrustPrompts.set(projectRoot, prompt);
+    const forget = () => pendingTrustPrompts.delete(projectRoot);
+    prompt.then(forget, forget);
+  }
+  if (!(await prompt)) {
+    console.warn(`Building ${projectRoot} without its own engine arguments, environment and recipe.`);
+    declinedProjectCommands.set(projectRoot, description);
+    return withoutProjectCommands(settings);
+  }
+  declinedProjectCommands.delete(projectRoot);
+  const latest = await readTrustedProjects();
+  if (latest[projectRoot] !== description) {
+    await fs.mkdir(path.dirname(getTrustedProjectsPath()), { recursive: true });
+    await fs.writeFile(getTrustedProjectsPath(), JSON.stringify({ ...latest, [projectRoot]: description }, null, 2), 'utf-8');
+  }
+  return settings;
+};
+
+const isInsideDirectory = (filePath: string, directory: string) => {
+  const relative = path.relative(directory, filePath);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+};
+
+// Without an explicit output directory the engine writes next to the root document. One that
+// leads out of the project (or, without a project, the root document's folder) is ignored.
+const resolveOutputDirectory = (rootDir: string, settings: ProjectSettings, projectRoot?: string) => {
+  if (!settings.outputDirectory) {
+    return rootDir;
+  }
+  const outputDir = path.resolve(rootDir, settings.outputDirectory);
+  if (!isInsideDirectory(outputDir, path.resolve(projectRoot ?? rootDir))) {
+    console.warn(`${PROJECT_SETTINGS_FILENAME}: ignoring outputDirectory ${settings.outputDirectory}, which is outside the project.`);
+    return rootDir;
+  }
+  return outputDir;
+};
+
+const normalizeProjectRoot = (projectRoot: unknown) => (
+  typeof projectRoot === 'string' && projectRoot ? projectRoot : undefined
+);
+
 const runGit = async (args: string[], cwd: string) => {
   return execFileAsync(gitCmd, args, { cwd });
 };
@@ -534,6 +815,35 @@ ipcMain.handle('save-zip-file', async (event, options: { defaultPath: string; da
   }
 });
 
+ipcMain.handle('save-file-as', async (event, options: {
+  title: string;
+  defaultPath: string;
+  data: string;
+  encoding: 'utf-8' | 'base64';
+  filters: Array<{ name: string; extensions: string[] }>;
+}) => {
+  try {
+    if (!mainWindow) {
+      return { success: false, error: 'Window is not available.' };
+    }
+
+    const result = await dialog.showSaveDialog(mainWindow, {
+      title: options.title,
+      defaultPath: options.defaultPath,
+      filters: options.filters,
+    });
+    if (result.canceled || !result.filePath) {
+      return { success: false, canceled: true };
+    }
+
+    const data = options.encoding === 'base64' ? Buffer.from(options.data, 'base64') : options.data;
+    await fs.writeFile(result.filePath, data);
+    return { success: true, filePath: result.filePath };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
 ipcMain.handle('create-file', async (event, filePath: string) => {
   try {
     await fs.writeFile(filePath, '', 'utf-8');
@@ -1159,22 +1469,163 @@ const installLatexPackage = async (packageName: string): Promise<{ success: bool
   }
 };
 
+ipcMain.handle('resolve-root-document', async (_event, payload: { filePath?: string; projectRoot?: string }) => {
+  const filePath = payload?.filePath;
+  if (!filePath || typeof filePath !== 'string') {
+    return { success: false, error: 'Missing file path.' };
+  }
+  try {
+    const projectRoot = normalizeProjectRoot(payload.projectRoot);
+    const settings = await readProjectSettings(projectRoot);
+    const result = await resolveRootDocument(filePath, rootDocumentHost, {
+      projectRoot,
+      defaultRoot: settings.root ?? undefined,
+    });
+    return { success: true, rootFile: result.rootPath, reason: result.reason };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+// Target of a Ctrl+click on an \input, \include, \includegraphics or \bibliography argument
+ipcMain.handle('resolve-include-path', async (_event, payload: { filePath?: string; projectRoot?: string; command?: string; target?: string }) => {
+  const filePath = payload?.filePath;
+  if (!filePath || typeof filePath !== 'string') {
+    return { success: false, error: 'Missing file path.' };
+  }
+  if (typeof payload.command !== 'string' || typeof payload.target !== 'string') {
+    return { success: false, error: 'Missing include target.' };
+  }
+  try {
+    const projectRoot = normalizeProjectRoot(payload.projectRoot);
+    const settings = await readProjectSettings(projectRoot);
+    const { rootPath } = await resolveRootDocument(filePath, rootDocumentHost, {
+      projectRoot,
+      defaultRoot: settings.root ?? undefined,
+    });
+    const graphicsPaths = FILE_COMMANDS[payload.command] === 'graphics'
+      ? extractGraphicsPaths((await rootDocumentHost.readFile(rootPath)) || '')
+      : [];
+    const candidates = getIncludeCandidates(payload.command, payload.target, graphicsPaths);
+    // TeX resolves paths from the root document's directory; a file compiled on its own uses its own.
+    const baseDirs = Array.from(new Set([path.dirname(rootPath), path.dirname(filePath)]));
+    for (const baseDir of baseDirs) {
+      for (const candidate of candidates) {
+        const resolved = path.resolve(baseDir, candidate);
+        try {
+          if ((await fs.stat(resolved)).isFile()) {
+            return { success: true, path: resolved };
+          }
+        } catch {
+          // Try the next candidate
+        }
+      }
+    }
+    return { success: false, error: `File not found: ${payload.target}` };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+// Label numbers from the last build's .aux files, including those of \include'd chapters
+ipcMain.handle('read-aux-labels', async (_event, payload: { filePath?: string; projectRoot?: string }) => {
+  const filePath = payload?.filePath;
+  if (!filePath || typeof filePath !== 'string') {
+    return { success: false, error: 'Missing file path.' };
+  }
+  try {
+    const projectRoot = normalizeProjectRoot(payload.projectRoot);
+    const settings = await readProjectSettings(projectRoot);
+    const { rootPath } = await resolveRootDocument(filePath, rootDocumentHost, {
+      projectRoot,
+      defaultRoot: settings.root ?? undefined,
+    });
+    const auxFile = await findBuildOutput(rootPath, settings, '.aux', projectRoot);
+    const labels: Record<string, AuxLabel> = {};
+    if (!auxFile) {
+      return { success: true, labels };
+    }
+    const pending = [auxFile];
+    const visited = new Set<string>();
+    while (pending.length > 0) {
+      const current = pending.shift()!;
+      if (visited.has(current)) continue;
+      visited.add(current);
+      const content = await rootDocumentHost.readFile(current);
+      if (content === null) continue;
+      parseAuxLabels(content).forEach((label, key) => {
+        labels[key] = label;
+      });
+      findAuxInputs(content).forEach(input => pending.push(path.resolve(path.dirname(auxFile), input)));
+    }
+    return { success: true, labels, auxFile };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('list-project-files', async (_event, payload: { projectRoot?: string; extensions?: string[] }) => {
+  const projectRoot = payload?.projectRoot;
+  if (!projectRoot || typeof projectRoot !== 'string') {
+    return { success: false, error: 'Missing project root.' };
+  }
+  try {
+    const extensions = (Array.isArray(payload.extensions) ? payload.extensions : [])
+      .filter(extension => typeof extension === 'string' && /^[A-Za-z0-9]+$/.test(extension));
+    const namePattern = extensions.length > 0 ? new RegExp(`\\.(${extensions.join('|')})$`, 'i') : /./;
+    const files = await listProjectFiles(path.resolve(projectRoot), namePattern);
+    return { success: true, files };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
 // Compile LaTeX file
-ipcMain.handle('compile-latex', async (event, texFilePath: string, engine: 'pdflatex' | 'xelatex' | 'lualatex' = 'pdflatex') => {
+ipcMain.handle('compile-latex', async (
+  event,
+  sourceFilePath: string,
+  engine: 'pdflatex' | 'xelatex' | 'lualatex' = 'pdflatex',
+  options: { projectRoot?: string; requestId?: number } = {}
+) => {
   const senderId = event.sender.id;
   const previousCompile = latexCompileSessions.get(senderId);
   if (previousCompile) {
     cancelProcessToken(previousCompile);
   }
-  const cancelToken: ProcessCancelToken = { cancelled: false, processes: new Set() };
+  const cancelToken: ProcessCancelToken = { cancelled: false, processes: new Set(), startedAt: Date.now() };
   latexCompileSessions.set(senderId, cancelToken);
+  let texFilePath = sourceFilePath;
+  // Directory the current run writes into, for cleanup after a cancel
+  let buildDir: string | null = null;
+  const output = createCompileOutputSender(
+    event.sender,
+    typeof options?.requestId === 'number' ? options.requestId : undefined
+  );
 
   try {
+    const projectRoot = normalizeProjectRoot(options?.projectRoot);
+    const settings = await applyProjectTrust(event.sender, projectRoot, await readProjectSettings(projectRoot));
+    // Compile the root document even when a chapter file is the one being edited
+    ({ rootPath: texFilePath } = await resolveRootDocument(sourceFilePath, rootDocumentHost, {
+      projectRoot,
+      defaultRoot: settings.root ?? undefined,
+    }));
     const dir = path.dirname(texFilePath);
     const filename = path.basename(texFilePath, '.tex');
-    const pdfPath = path.join(dir, `${filename}.pdf`);
-    const auxPath = path.join(dir, `${filename}.aux`);
+    const recipe = resolveBuildRecipe(
+      settings.recipe,
+      settings.recipes,
+      settings.bibliography,
+      settings.recipe === DEFAULT_RECIPE && await isLatexmkAvailable()
+    );
+    // latexmk keeps its files out of the source folder unless an output directory is set.
+    const outputDir = recipe.steps.some(step => step.tool === 'latexmk') && !settings.outputDirectory
+      ? path.join(dir, '.openotex', 'build', filename)
+      : resolveOutputDirectory(dir, settings, projectRoot);
+    buildDir = outputDir;
+    const pdfPath = path.join(outputDir, `${filename}.pdf`);
     const distribution = await detectLatexDistribution();
+    await fs.mkdir(outputDir, { recursive: true });
 
     // Run LaTeX engine with proper flags
     // -interaction=nonstopmode: don't stop on errors
@@ -1183,28 +1634,54 @@ ipcMain.handle('compile-latex', async (event, texFilePath: string, engine: 'pdfl
     // Set environment variable to suppress MiKTeX update warnings
     process.env.MIKTEX_AUTOINSTALL = '1';
     process.env.MIKTEX_ENABLE_INSTALLER = '1';
+    const compileEnv: NodeJS.ProcessEnv = { ...process.env, ...settings.env };
+    const compileTimeoutMs = settings.timeouts.compile * 1000;
 
     const allowedEngines = ['pdflatex', 'xelatex', 'lualatex'] as const;
     if (!allowedEngines.includes(engine as any)) {
       engine = 'pdflatex';
     }
-    const args = [
-      '-interaction=nonstopmode',
-      '-halt-on-error',
-      '-file-line-error',  // emit errors as file:line:message for easier parsing
-      '-synctex=1',
-      `-output-directory=${dir}`,
-      texFilePath
-    ];
+    const variables: RecipeVariables = { DOC: path.join(dir, filename), DOCFILE: filename, DIR: dir, OUTDIR: outputDir };
+    const expand = (value: string) => expandRecipePlaceholders(value, variables);
 
-    console.log('Compiling LaTeX with', engine, 'args:', args.join(' '));
-
-    // Allow up to 5 minutes per pass — large documents or first-time package
-    // downloads can easily exceed the old 2-minute limit.
-    const runLatexEngine = async () => {
-      return spawnCollect(engine, args, { cwd: dir }, 300000, cancelToken);
+    // The engine and latexmk get the usual flags, then the step's own arguments and the document.
+    const latexCommand = (step: RecipeStep): { command: string; args: string[] } => {
+      if (step.tool === 'latexmk') {
+        const latexmkMode = engine === 'xelatex' ? '-xelatex' : engine === 'lualatex' ? '-lualatex' : '-pdf';
+        return {
+          command: 'latexmk',
+          args: [
+            latexmkMode,
+            '-g',
+            '-interaction=nonstopmode',
+            '-halt-on-error',
+            '-file-line-error',
+            '-synctex=1',
+            `-outdir=${outputDir}`,
+            ...(settings.bibliography === 'none' ? ['-bibtex-'] : []),
+            ...settings.engineArgs.map(arg => `-latexoption=${arg}`),
+            ...step.args.map(expand),
+            texFilePath
+          ]
+        };
+      }
+      return {
+        command: engine,
+        args: [
+          '-interaction=nonstopmode',
+          '-halt-on-error',
+          '-file-line-error',  // emit errors as file:line:message for easier parsing
+          '-synctex=1',
+          `-output-directory=${outputDir}`,
+          ...settings.engineArgs,
+          ...step.args.map(expand),
+          texFilePath
+        ]
+      };
     };
 
+    console.log(`Compiling ${filename} with the ${recipe.name} recipe:`, recipe.steps.map(step => step.tool).join(' → '));
+
     const installedPackages = new Set<string>(); // Track installed packages to avoid loops
     let attemptedFontFallback = false;
 
@@ -1216,15 +1693,17 @@ ipcMain.handle('compile-latex', async (event, texFilePath: string, engine: 'pdfl
       diagnostics: parseLatexDiagnostics(output, texFilePath)
     });
 
-    const readCompiledPdf = async (log: string, warnings = '', targetPdfPath = pdfPath) => {
+    const readCompiledPdf = async (log: string, warnings = '') => {
       try {
-        await fs.access(targetPdfPath);
-        const pdfBuffer = await fs.readFile(targetPdfPath);
+        await fs.access(pdfPath);
+        invalidateSyncTex(pdfPath, path.dirname(texFilePath));
+        const pdfBuffer = await fs.readFile(pdfPath);
         const pdfBase64 = pdfBuffer.toString('base64');
 
         return {
           success: true,
-          pdfPath: targetPdfPath,
+          rootFile: texFilePath,
+          pdfPath,
           pdfData: pdfBase64,
           log,
           warnings,
@@ -1253,9 +1732,9 @@ ipcMain.handle('compile-latex', async (event, texFilePath: string, engine: 'pdfl
 
           try {
             // Delete potentially corrupted auxiliary files
-            await fs.unlink(path.join(dir, `${filename}.aux`)).catch(() => {});
-            await fs.unlink(path.join(dir, `${filename}.out`)).catch(() => {});
-            await fs.unlink(path.join(dir, `${filename}.bbl`)).catch(() => {});
+            await fs.unlink(path.join(outputDir, `${filename}.aux`)).catch(() => {});
+            await fs.unlink(path.join(outputDir, `${filename}.out`)).catch(() => {});
+            await fs.unlink(path.join(outputDir, `${filename}.bbl`)).catch(() => {});
 
             console.log('Auxiliary files cleaned, retrying compilation...');
             event.sender.send('compilation-status', {
@@ -1373,169 +1852,118 @@ ipcMain.handle('compile-latex', async (event, texFilePath: string, engine: 'pdfl
         return { retry: false };
     };
 
-    const compileWithLatexmk = async () => {
-      const latexmkOutputDir = path.join(dir, '.openotex', 'build', filename);
-      const latexmkPdfPath = path.join(latexmkOutputDir, `${filename}.pdf`);
-      await fs.mkdir(latexmkOutputDir, { recursive: true });
-
-      const latexmkMode = engine === 'xelatex' ? '-xelatex' : engine === 'lualatex' ? '-lualatex' : '-pdf';
-      const latexmkArgs = [
-        latexmkMode,
-        '-g',
-        '-interaction=nonstopmode',
-        '-halt-on-error',
-        '-file-line-error',
-        '-synctex=1',
-        `-outdir=${latexmkOutputDir}`,
-        texFilePath
-      ];
-
-      const maxLatexmkAttempts = 4;
-      for (let attempt = 1; attempt <= maxLatexmkAttempts; attempt++) {
-        console.log(`Compilation attempt ${attempt}/${maxLatexmkAttempts} using latexmk`);
-        event.sender.send('compilation-status', {
-          stage: 'compile',
-          message: attempt === 1 ? 'Compiling with latexmk...' : `Retrying with latexmk (${attempt}/${maxLatexmkAttempts})...`
-        });
-
+    // One engine or latexmk run, retried after installing missing packages or fonts.
+    let latexRuns = 0;
+    const runLatexStep = async (step: RecipeStep, isRerun: boolean) => {
+      const { command, args } = latexCommand(step);
+      latexRuns += 1;
+      const pass = latexRuns;
+      const maxAttempts = step.tool === 'latexmk' ? 4 : 5;
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        console.log(`${command} run ${pass}, attempt ${attempt}/${maxAttempts}`);
+        event.sender.send('compilation-status', attempt > 1
+          ? { stage: 'compile', message: `Retrying ${command} (${attempt}/${maxAttempts})...` }
+          : isRerun
+            ? { stage: 'retry', message: `Finalizing document (pass ${pass})...` }
+            : { stage: 'compile', message: step.tool === 'latexmk' ? 'Compiling with latexmk...' : 'Compiling...' });
         try {
-          const result = await spawnCollect('latexmk', latexmkArgs, { cwd: dir }, 300000, cancelToken);
-          return await readCompiledPdf(result.stdout, result.stderr, latexmkPdfPath);
+          const result = await spawnCollect(command, args, { cwd: dir, env: compileEnv }, compileTimeoutMs, cancelToken, output.forTool(command, pass));
+          return { result };
         } catch (error: any) {
           const errorOutput = (error.stdout || '') + (error.stderr || '');
+          if (cancelToken.cancelled) {
+            return { failure: await makeCancelledCompileResult(cancelToken, buildDir, filename, errorOutput) };
+          }
           const recovery = await recoverFromLatexFailure(errorOutput, attempt);
           if ('failure' in recovery && recovery.failure) {
-            return recovery.failure;
+            return { failure: recovery.failure };
           }
-          if (recovery.retry && attempt < maxLatexmkAttempts) {
+          if (recovery.retry && attempt < maxAttempts) {
             continue;
           }
-          return makeFailure(errorOutput, error.message || 'latexmk failed');
+          return { failure: makeFailure(errorOutput, error.message || `${command} failed`) };
         }
       }
-
-      return makeFailure('', 'latexmk failed after all attempts');
+      return { failure: makeFailure('', `${command} failed after all attempts`) };
     };
 
-    if (await isLatexmkAvailable()) {
-      return await compileWithLatexmk();
-    }
-
-    let currentAttempt: { stdout: string; stderr: string } | undefined;
-    let attemptCount = 0;
-    const maxAttempts = 5;
-
-    while (attemptCount < maxAttempts) {
-      attemptCount++;
-      console.log(`Compilation attempt ${attemptCount}/${maxAttempts}`);
-      event.sender.send('compilation-status', {
-        stage: 'compile',
-        message: attemptCount === 1 ? 'Compiling...' : `Retrying compilation (${attemptCount}/${maxAttempts})...`
-      });
-
+    // With a separate output directory the tools run there and find .bib/.bst files through BIBINPUTS.
+    const searchPathEnv = (name: string) => (
+      outputDir === dir ? compileEnv[name] : `${dir}${path.delimiter}${compileEnv[name] || ''}`
+    );
+    const toolEnv = {
+      ...compileEnv,
+      BIBINPUTS: searchPathEnv('BIBINPUTS'),
+      BSTINPUTS: searchPathEnv('BSTINPUTS'),
+    };
+    const readBuildFile = async (filePath: string) => {
       try {
-        currentAttempt = await runLatexEngine();
-        break;
-      } catch (error: any) {
-        const errorOutput = (error.stdout || '') + (error.stderr || '');
-        const recovery = await recoverFromLatexFailure(errorOutput, attemptCount);
-
-        if ('failure' in recovery && recovery.failure) {
-          return recovery.failure;
-        }
-        if (recovery.retry && attemptCount < maxAttempts) {
-          continue;
-        }
-
-        return makeFailure(errorOutput, error.message || 'Compilation failed');
+        return await fs.readFile(path.resolve(dir, filePath), 'utf-8');
+      } catch {
+        return null;
       }
-    }
-
-    if (!currentAttempt) {
-      return makeFailure('', 'Failed to compile after all attempts');
-    }
-
-    const { stdout, stderr } = currentAttempt;
+    };
 
-    let combinedStdout = stdout;
-    let combinedStderr = stderr;
+    let combinedStdout = '';
+    let combinedStderr = '';
+    const appendLog = (label: string, stdout: string, stderr: string) => {
+      combinedStdout += combinedStdout ? `\n\n[${label}]\n${stdout}` : stdout;
+      combinedStderr += combinedStderr ? `\n\n[${label}]\n${stderr}` : stderr;
+    };
+    // A tool ran since the last LaTeX run, or that run asked to be run again.
+    let rerun = false;
+    let toolRan = false;
 
-    let ranPostProcessor = false;
+    for (const step of recipe.steps) {
+      if (cancelToken.cancelled) {
+        return await makeCancelledCompileResult(cancelToken, buildDir, filename, combinedStdout);
+      }
+      if (!(await recipeConditionHolds(step.when, { variables, rerun, readFile: readBuildFile }))) {
+        continue;
+      }
 
-    // --- Bibliography: Biber (biblatex) or BibTeX (classic) ---
-    const bcfPath = path.join(dir, `${filename}.bcf`);
-    try {
-      const bcfExists = await pathExists(bcfPath);
-      if (bcfExists) {
-        // biblatex + biber workflow
-        console.log('Running Biber:', filename);
-        event.sender.send('compilation-status', { stage: 'biber', message: 'Running Biber bibliography processor...' });
-        try {
-          const { stdout: biberOut, stderr: biberErr } = await execFileAsync('biber', [filename], { cwd: dir, timeout: 120000 } as any);
-          combinedStdout += `\n\n[Biber]\n${biberOut}`;
-          combinedStderr += `\n\n[Biber]\n${biberErr}`;
-          ranPostProcessor = true;
-        } catch (biberErr: any) {
-          console.warn('Biber failed:', biberErr);
-          combinedStdout += `\n\n[Biber - failed]\n${biberErr.stdout || ''}`;
-          combinedStderr += `\n\n[Biber - failed]\n${biberErr.stderr || ''}`;
-        }
-      } else {
-        // Classic BibTeX workflow
-        const auxContent = await fs.readFile(auxPath, 'utf-8');
-        if (auxContent.includes('\\bibdata')) {
-          console.log('Running BibTeX:', filename);
-          event.sender.send('compilation-status', { stage: 'bibtex', message: 'Running BibTeX bibliography processor...' });
-          const { stdout: bibOut, stderr: bibErr } = await execFileAsync('bibtex', [filename], { cwd: dir, timeout: 120000 } as any);
-          combinedStdout += `\n\n[BibTeX]\n${bibOut}`;
-          combinedStderr += `\n\n[BibTeX]\n${bibErr}`;
-          ranPostProcessor = true;
+      if (isLatexStep(step)) {
+        const maxRuns = recipeStepRepeat(step, toolRan);
+        toolRan = false;
+        for (let run = 1; run <= maxRuns; run++) {
+          const { result, failure } = await runLatexStep(step, Boolean(step.when?.rerun) || run > 1);
+          if (failure) {
+            return failure;
+          }
+          appendLog(`${step.tool === 'latexmk' ? 'latexmk' : engine} pass ${latexRuns}`, result.stdout, result.stderr);
+          rerun = needsRecompilation(result.stdout + result.stderr);
+          if (!rerun) break;
         }
+        continue;
       }
-    } catch (bibError) {
-      console.warn('Bibliography step skipped or failed:', bibError);
-    }
 
-    // --- Index: MakeIndex ---
-    const idxPath = path.join(dir, `${filename}.idx`);
-    try {
-      if (await pathExists(idxPath)) {
-        console.log('Running MakeIndex:', filename);
-        event.sender.send('compilation-status', { stage: 'makeindex', message: 'Generating document index...' });
-        const { stdout: idxOut, stderr: idxErr } = await execFileAsync('makeindex', [`${filename}.idx`], { cwd: dir, timeout: 60000 } as any);
-        combinedStdout += `\n\n[MakeIndex]\n${idxOut}`;
-        combinedStderr += `\n\n[MakeIndex]\n${idxErr}`;
-        ranPostProcessor = true;
+      // Other tools report problems in the log; LaTeX decides whether the build failed.
+      const args = step.args.map(expand);
+      const cwd = step.cwd === 'root' ? dir : outputDir;
+      const timeoutMs = settings.timeouts[RECIPE_TOOL_TIMEOUTS[step.tool]] * 1000;
+      console.log(`Running ${step.tool}:`, args.join(' '));
+      event.sender.send('compilation-status', { stage: step.tool, message: `Running ${step.tool}...` });
+      try {
+        const { stdout, stderr } = await spawnCollect(step.tool, args, { cwd, env: toolEnv }, timeoutMs, cancelToken, output.forTool(step.tool));
+        appendLog(step.tool, stdout, stderr);
+        rerun = true;
+        toolRan = true;
+      } catch (toolError: any) {
+        console.warn(`${step.tool} failed:`, toolError);
+        appendLog(`${step.tool} - failed`, toolError.stdout || toolError.message || '', toolError.stderr || '');
       }
-    } catch (idxError) {
-      console.warn('MakeIndex step skipped or failed:', idxError);
     }
 
-    // --- Final passes: recompile until stable or limit reached ---
-    if (ranPostProcessor || needsRecompilation(combinedStdout + combinedStderr)) {
-      const maxFinalPasses = ranPostProcessor ? 3 : 5;
-      for (let pass = 1; pass <= maxFinalPasses; pass++) {
-        event.sender.send('compilation-status', {
-          stage: 'retry',
-          message: `Finalizing document (pass ${pass}/${maxFinalPasses})...`
-        });
-        try {
-          const finalPass = await runLatexEngine();
-          combinedStdout += `\n\n[Final pass ${pass}]\n${finalPass.stdout}`;
-          combinedStderr += `\n\n[Final pass ${pass}]\n${finalPass.stderr}`;
-          if (!needsRecompilation(finalPass.stdout + finalPass.stderr)) break;
-        } catch (error: any) {
-          const errorOutput = (error.stdout || '') + (error.stderr || '');
-          combinedStdout += `\n\n[Final pass ${pass} - failed]\n${error.stdout || ''}`;
-          combinedStderr += `\n\n[Final pass ${pass} - failed]\n${error.stderr || ''}`;
-          return makeFailure(errorOutput, error.message || 'Final LaTeX pass failed');
-        }
-      }
+    if (cancelToken.cancelled) {
+      return await makeCancelledCompileResult(cancelToken, buildDir, filename, combinedStdout);
     }
 
     return await readCompiledPdf(combinedStdout, combinedStderr);
   } catch (error: any) {
     const output = `${error.stdout || ''}\n${error.stderr || ''}`;
+    if (cancelToken.cancelled) {
+      return await makeCancelledCompileResult(cancelToken, buildDir, path.basename(texFilePath, '.tex'), output.trim());
+    }
     return {
       success: false,
       error: output.trim() ? summarizeLatexError(output, texFilePath) : (error.message || 'Compilation error'),
@@ -1544,12 +1972,22 @@ ipcMain.handle('compile-latex', async (event, texFilePath: string, engine: 'pdfl
       diagnostics: output.trim() ? parseLatexDiagnostics(output, texFilePath) : []
     };
   } finally {
+    output.flush();
     if (latexCompileSessions.get(senderId) === cancelToken) {
       latexCompileSessions.delete(senderId);
     }
   }
 });
 
+ipcMain.handle('cancel-compile', async (event) => {
+  const session = latexCompileSessions.get(event.sender.id);
+  if (!session) {
+    return { success: false, error: 'No compilation is running.' };
+  }
+  cancelProcessToken(session, 'user');
+  return { success: true };
+});
+
 // --- SyncTeX: forward (source -> PDF) and inverse (PDF -> source) ---
 //
 // synctex view -i LINE:COLUMN:TEXFILE -o PDFFILE
@@ -1558,11 +1996,9 @@ ipcMain.handle('compile-latex', async (event, texFilePath: string, engine: 'pdfl
 // Coordinates are in PDF points (72dpi), with h measured from the left of the
 // page and v measured from the top.
 
-type SynctexRect = { page: number; h: number; v: number; W: number; H: number };
-
-const parseSyncTexViewOutput = (output: string): SynctexRect[] => {
-  const rects: SynctexRect[] = [];
-  let current: Partial<SynctexRect> = {};
+const parseSyncTexViewOutput = (output: string): SyncTexRect[] => {
+  const rects: SyncTexRect[] = [];
+  let current: Partial<SyncTexRect> = {};
 
   const commit = () => {
     if (
@@ -1575,7 +2011,7 @@ const parseSyncTexViewOutput = (output: string): SynctexRect[] => {
       Number.isFinite(current.h) &&
       Number.isFinite(current.v)
     ) {
-      rects.push(current as SynctexRect);
+      rects.push(current as SyncTexRect);
     }
     current = {};
   };
@@ -1622,7 +2058,144 @@ const parseSyncTexEditOutput = (output: string) => {
   return { input, line, column };
 };
 
-ipcMain.handle('synctex-forward', async (_event, payload: { texFile: string; line: number; column?: number; pdfFile?: string }) => {
+// SyncTeX files are read and parsed in-process; the synctex CLI is only a fallback for
+// files the reader cannot handle. Parsed data is cached per PDF and re-read when the
+// .synctex.gz next to it changes.
+type SyncTexCacheEntry = { synctexPath: string; mtimeMs: number; size: number; data: SyncTexData };
+
+const syncTexCache = new Map<string, SyncTexCacheEntry>();
+// Directory each PDF was compiled from, for resolving relative Input paths.
+const syncTexSourceDirs = new Map<string, string>();
+
+const gunzipAsync = (buffer: Buffer): Promise<Buffer> => new Promise((resolve, reject) => {
+  zlib.gunzip(buffer, (error, result) => (error ? reject(error) : resolve(result)));
+});
+
+const invalidateSyncTex = (pdfFile: string, sourceDir?: string) => {
+  const key = path.resolve(pdfFile);
+  syncTexCache.delete(key);
+  if (sourceDir) {
+    syncTexSourceDirs.set(key, sourceDir);
+  }
+};
+
+const loadSyncTexData = async (pdfFile: string): Promise<SyncTexData | null> => {
+  const key = path.resolve(pdfFile);
+  const base = key.replace(/\.pdf$/i, '');
+  for (const synctexPath of [`${base}.synctex.gz`, `${base}.synctex`]) {
+    let stats;
+    try {
+      stats = await fs.stat(synctexPath);
+    } catch {
+      continue;
+    }
+    const cached = syncTexCache.get(key);
+    if (cached && cached.synctexPath === synctexPath && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+      return cached.data;
+    }
+    const raw = await fs.readFile(synctexPath);
+    const text = synctexPath.endsWith('.gz') ? (await gunzipAsync(raw)).toString('utf8') : raw.toString('utf8');
+    const data = parseSyncTex(text);
+    syncTexCache.set(key, { synctexPath, mtimeMs: stats.mtimeMs, size: stats.size, data });
+    return data;
+  }
+  syncTexCache.delete(key);
+  return null;
+};
+
+// Relative Input paths are relative to the directory TeX ran in. For latexmk builds in
+// .openotex/build/<name> that is a few levels above the PDF.
+const resolveSyncTexInputs = async (data: SyncTexData, pdfFile: string): Promise<Map<string, string>> => {
+  const key = path.resolve(pdfFile);
+  const baseDirs: string[] = [];
+  const sourceDir = syncTexSourceDirs.get(key);
+  if (sourceDir) baseDirs.push(sourceDir);
+  let dir = path.dirname(key);
+  for (let depth = 0; depth < 4; depth++) {
+    baseDirs.push(dir);
+    dir = path.dirname(dir);
+  }
+
+  const resolved = new Map<string, string>();
+  for (const input of new Set(data.inputs.values())) {
+    if (path.isAbsolute(input)) {
+      resolved.set(input, path.normalize(input));
+      continue;
+    }
+    let match = path.resolve(baseDirs[0], input);
+    for (const baseDir of baseDirs) {
+      const candidate = path.resolve(baseDir, input);
+      if (await pathExists(candidate)) {
+        match = candidate;
+        break;
+      }
+    }
+    resolved.set(input, match);
+  }
+  return resolved;
+};
+
+// The newest `<root>.<extension>` among the configured output directory and the latexmk build directory.
+const findBuildOutput = async (
+  rootPath: string,
+  settings: ProjectSettings,
+  extension: string,
+  projectRoot?: string
+): Promise<string | null> => {
+  const rootDir = path.dirname(rootPath);
+  const base = path.basename(rootPath, path.extname(rootPath));
+  const candidates = [
+    path.join(resolveOutputDirectory(rootDir, settings, projectRoot), `${base}${extension}`),
+    path.join(rootDir, '.openotex', 'build', base, `${base}${extension}`),
+  ];
+  let newest: { file: string; mtimeMs: number } | null = null;
+  for (const file of candidates) {
+    try {
+      const stats = await fs.stat(file);
+      if (!newest || stats.mtimeMs > newest.mtimeMs) newest = { file, mtimeMs: stats.mtimeMs };
+    } catch {
+      // Not built there
+    }
+  }
+  return newest ? newest.file : null;
+};
+
+const syncTexForwardInProcess = async (pdfFile: string, texFile: string, line: number): Promise<{ rects?: SyncTexRect[]; error?: string }> => {
+  try {
+    const data = await loadSyncTexData(pdfFile);
+    if (!data) {
+      return { error: 'No SyncTeX data next to the PDF. Compile the document first.' };
+    }
+    const inputs = await resolveSyncTexInputs(data, pdfFile);
+    const target = path.resolve(texFile);
+    const rects = syncTexForward(data, input => samePath(inputs.get(input) || input, target), line);
+    return rects.length > 0 ? { rects } : { error: 'No matching location in PDF (is synctex enabled?).' };
+  } catch (error) {
+    return { error: `Unable to read SyncTeX data: ${(error as Error).message}` };
+  }
+};
+
+const syncTexInverseInProcess = async (pdfFile: string, page: number, h: number, v: number): Promise<{ file?: string; line?: number; column?: number; error?: string }> => {
+  try {
+    const data = await loadSyncTexData(pdfFile);
+    if (!data) {
+      return { error: 'No SyncTeX data next to the PDF. Compile the document first.' };
+    }
+    const location = syncTexInverse(data, page, h, v);
+    if (!location) {
+      return { error: 'No source mapping found for that location.' };
+    }
+    const inputs = await resolveSyncTexInputs(data, pdfFile);
+    return { file: inputs.get(location.input) || location.input, line: location.line, column: location.column };
+  } catch (error) {
+    return { error: `Unable to read SyncTeX data: ${(error as Error).message}` };
+  }
+};
+
+const isMissingExecutable = (error: any) => Boolean(error && error.code === 'ENOENT');
+
+ipcMain.handle('synctex-forward', async (_event, payload: { texFile: string; line: number; column?: number; pdfFile?: string; projectRoot?: string }) => {
+  let inProcessError = '';
   try {
     const texFile = payload?.texFile;
     if (!texFile || typeof texFile !== 'string') {
@@ -1630,14 +2203,26 @@ ipcMain.handle('synctex-forward', async (_event, payload: { texFile: string; lin
     }
     const line = Math.max(1, Math.floor(Number(payload?.line) || 1));
     const column = Math.max(0, Math.floor(Number(payload?.column) || 0));
-    const dir = path.dirname(texFile);
-    const base = path.basename(texFile, path.extname(texFile));
+    // The PDF belongs to the root document, not to the included chapter file.
+    const projectRoot = normalizeProjectRoot(payload?.projectRoot);
+    const settings = await readProjectSettings(projectRoot);
+    const { rootPath } = await resolveRootDocument(texFile, rootDocumentHost, {
+      projectRoot,
+      defaultRoot: settings.root ?? undefined,
+    });
     const pdfFile = payload?.pdfFile && typeof payload.pdfFile === 'string'
       ? payload.pdfFile
-      : path.join(dir, `${base}.pdf`);
-    if (!(await pathExists(pdfFile))) {
+      : await findBuildOutput(rootPath, settings, '.pdf', projectRoot);
+    if (!pdfFile || !(await pathExists(pdfFile))) {
       return { success: false, error: 'No compiled PDF found. Compile the document first.' };
     }
+
+    const inProcess = await syncTexForwardInProcess(pdfFile, texFile, line);
+    if (inProcess.rects) {
+      return { success: true, rects: inProcess.rects, pdfFile };
+    }
+    inProcessError = inProcess.error || '';
+
     const inputArg = `${line}:${column}:${texFile}`;
     const { stdout } = await execFileAsync('synctex', ['view', '-i', inputArg, '-o', pdfFile], { cwd: path.dirname(pdfFile), timeout: 15000 } as any);
     const rects = parseSyncTexViewOutput(stdout);
@@ -1646,12 +2231,16 @@ ipcMain.handle('synctex-forward', async (_event, payload: { texFile: string; lin
     }
     return { success: true, rects, pdfFile };
   } catch (error: any) {
+    if (inProcessError && isMissingExecutable(error)) {
+      return { success: false, error: inProcessError };
+    }
     const msg = (error && (error.stderr || error.message)) || 'synctex view failed.';
     return { success: false, error: msg };
   }
 });
 
 ipcMain.handle('synctex-inverse', async (_event, payload: { pdfFile: string; page: number; h: number; v: number }) => {
+  let inProcessError = '';
   try {
     const pdfFile = payload?.pdfFile;
     if (!pdfFile || typeof pdfFile !== 'string') {
@@ -1666,6 +2255,13 @@ ipcMain.handle('synctex-inverse', async (_event, payload: { pdfFile: string; pag
     if (!(await pathExists(pdfFile))) {
       return { success: false, error: 'PDF not found.' };
     }
+
+    const inProcess = await syncTexInverseInProcess(pdfFile, page, h, v);
+    if (inProcess.file) {
+      return { success: true, file: inProcess.file, line: inProcess.line, column: inProcess.column };
+    }
+    inProcessError = inProcess.error || '';
+
     const dir = path.dirname(pdfFile);
     const inputArg = `${page}:${h.toFixed(2)}:${v.toFixed(2)}:${pdfFile}`;
     const { stdout } = await execFileAsync('synctex', ['edit', '-o', inputArg], { cwd: dir, timeout: 15000 } as any);
@@ -1680,8 +2276,140 @@ ipcMain.handle('synctex-inverse', async (_event, payload: { pdfFile: string; pag
       column: Number.isFinite(parsed.column) && parsed.column > 0 ? parsed.column : 1,
     };
   } catch (error: any) {
+    if (inProcessError && isMissingExecutable(error)) {
+      return { success: false, error: inProcessError };
+    }
     const msg = (error && (error.stderr || error.message)) || 'synctex edit failed.';
     return { success: false, error: msg };
   }
 });
 
+// Hunspell dictionaries, in order of preference: ones the user dropped into the app's data
+// folder, the ones shipped with the app, then whatever the system has installed.
+const getDictionaryDirectories = () => {
+  const os = require('os');
+  const homeDir = os.homedir();
+  return [
+    { source: 'user', dir: path.join(app.getPath('userData'), 'dictionaries') },
+    { source: 'bundled', dir: path.join(app.isPackaged ? process.resourcesPath : app.getAppPath(), 'dictionaries') },
+    { source: 'system', dir: '/usr/share/hunspell' },
+    { source: 'system', dir: '/usr/share/myspell' },
+    { source: 'system', dir: '/usr/share/myspell/dicts' },
+    { source: 'system', dir: '/Library/Spelling' },
+    { source: 'system', dir: path.join(homeDir, 'Library', 'Spelling') },
+  ];
+};
+
+const listDictionaries = async () => {
+  const dictionaries: Array<{ language: string; affPath: string; dicPath: string; source: string }> = [];
+  for (const { source, dir } of getDictionaryDirectories()) {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(dir);
+    } catch {
+      continue;
+    }
+    entries
+      .filter(entry => entry.toLowerCase().endsWith('.aff'))
+      .forEach(entry => {
+        const language = entry.slice(0, -4);
+        const dicName = entries.find(other => other.toLowerCase() === `${language.toLowerCase()}.dic`);
+        if (!dicName || dictionaries.some(known => known.language === language)) return;
+        dictionaries.push({ language, affPath: path.join(dir, entry), dicPath: path.join(dir, dicName), source });
+      });
+  }
+  return dictionaries;
+};
+
+ipcMain.handle('spellcheck-list-dictionaries', async () => {
+  try {
+    return { success: true, dictionaries: await listDictionaries() };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+ipcMain.handle('spellcheck-load-dictionary', async (_event, language: string) => {
+  try {
+    const dictionaries = await listDictionaries();
+    const match = matchDictionary(dictionaries.map(dictionary => dictionary.language), language);
+    const dictionary = dictionaries.find(candidate => candidate.language === match);
+    if (!dictionary) {
+      return { success: false, error: `No Hunspell dictionary found for ${language}.` };
+    }
+
+    const [affBuffer, dicBuffer] = await Promise.all([fs.readFile(dictionary.affPath), fs.readFile(dictionary.dicPath)]);
+    // Both files use the encoding named by the affix file's SET line.
+    const decoder = new TextDecoder(getAffixEncoding(affBuffer.toString('latin1')));
+    return {
+      success: true,
+      language: dictionary.language,
+      aff: decoder.decode(affBuffer),
+      dic: decoder.decode(dicBuffer),
+    };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+});
+
+// chktex checks the editor buffer, which may be unsaved, so it reads a temporary copy; the
+// working directory stays the file's folder for its `.chktexrc` lookup.
+ipcMain.handle('run-chktex', async (_event, payload: { filePath: string; content: string }) => {
+  const tempFile = path.join(app.getPath('temp'), `openotex-chktex-${process.pid}-${Date.now()}.tex`);
+  try {
+    await fs.writeFile(tempFile, payload.content, 'utf-8');
+    const { stdout } = await spawnCollect(
+      'chktex',
+      ['-q', '-I0', '-f', CHKTEX_FORMAT, tempFile],
+      { cwd: path.dirname(payload.filePath) },
+      15000
+    );
+    return { success: true, diagnostics: parseChktexOutput(stdout, payload.filePath) };
+  } catch (error: any) {
+    if (isMissingExecutable(error)) {
+      return { success: false, missing: true, error: 'chktex is not installed.' };
+    }
+    // chktex exits with a non-zero status when it printed warnings.
+    if (typeof error?.code === 'number' && error.stdout) {
+      return { success: true, diagnostics: parseChktexOutput(error.stdout, payload.filePath) };
+    }
+    return { success: false, error: (error as Error).message };
+  } finally {
+    await fs.unlink(tempFile).catch(() => undefined);
+  }
+});
+
+const LATEXINDENT_SETTINGS_FILES = ['localSettings.yaml', 'latexindent.yaml', '.localSettings.yaml', '.latexindent.yaml'];
+
+// Like chktex, latexindent formats a temporary copy of the buffer. It prints the result to
+// stdout; its log and backups go to the temporary folder, and the project's own settings file
+// is passed on so `-l` does not look next to the copy.
+ipcMain.handle('run-latexindent', async (_event, payload: { filePath: string; content: string; indent: number }) => {
+  const tempDir = app.getPath('temp');
+  const tempFile = path.join(tempDir, `openotex-latexindent-${process.pid}-${Date.now()}.tex`);
+  try {
+    await fs.writeFile(tempFile, payload.content, 'utf-8');
+    const args = ['-s', `-c=${tempDir}${path.sep}`];
+    // A YAML double-quoted string, so a backslash-t is a tab.
+    const indent = payload.indent > 0 ? ' '.repeat(payload.indent) : '\\t';
+    args.push(`-y=defaultIndent:"${indent}"`);
+    for (const name of LATEXINDENT_SETTINGS_FILES) {
+      const candidate = path.join(path.dirname(payload.filePath), name);
+      if (await pathExists(candidate)) {
+        args.push(`-l=${candidate}`);
+        break;
+      }
+    }
+    args.push(tempFile);
+    const { stdout } = await spawnCollect('latexindent', args, { cwd: path.dirname(payload.filePath) }, 30000);
+    return { success: true, content: stdout };
+  } catch (error: any) {
+    if (isMissingExecutable(error)) {
+      return { success: false, missing: true, error: 'latexindent is not installed.' };
+    }
+    return { success: false, error: (error?.stderr || (error as Error).message || 'latexindent failed.').trim() };
+  } finally {
+    await fs.unlink(tempFile).catch(() => undefined);
+  }
+});
+
@@ -14,10 +14,19 @@ contextBridge.exposeInMainWorld('api', {
   readFileBase64: (filePath: string) => ipcRenderer.invoke('read-file-base64', filePath),
   writeFile: (filePath: string, content: string) => ipcRenderer.invoke('write-file', filePath, content),
   saveZipFile: (opts: { defaultPath: string; data: string }) => ipcRenderer.invoke('save-zip-file', opts),
+  saveFileAs: (opts: {
+    title: string;
+    defaultPath: string;
+    data: string;
+    encoding: 'utf-8' | 'base64';
+    filters: Array<{ name: string; extensions: string[] }>;
+  }) => ipcRenderer.invoke('save-file-as', opts),
   createFile: (filePath: string) => ipcRenderer.invoke('create-file', filePath),
   deletePath: (filePath: string) => ipcRenderer.invoke('delete-file', filePath),
   renamePath: (oldPath: string, newPath: string) => ipcRenderer.invoke('rename-file', oldPath, newPath),
   readDirectory: (dirPath: string) => ipcRenderer.invoke('read-directory', dirPath),
+  listProjectFiles: (projectRoot: string, extensions: string[] = []) =>
+    ipcRenderer.invoke('list-project-files', { projectRoot, extensions }),
   createDirectory: (dirPath: string) => ipcRenderer.invoke('create-directory', dirPath),
   copyPaths: (sources: string[], destination: string) => ipcRenderer.invoke('copy-paths', { sources, destination }),
   readBinaryFile: (filePath: string) => ipcRenderer.invoke('read-binary-file', filePath),
@@ -40,17 +49,29 @@ contextBridge.exposeInMainWorld('api', {
     return ipcRenderer.invoke('install-latex-package', packageName);
   },
   openLatexDownload: () => ipcRenderer.invoke('open-latex-download'),
-  compileLatex: (texFilePath: string, engine: 'pdflatex' | 'xelatex' | 'lualatex') => {
+  compileLatex: (texFilePath: string, engine: 'pdflatex' | 'xelatex' | 'lualatex', options: { projectRoot?: string; requestId?: number } = {}) => {
     if (!isAllowedEngine(engine)) {
       engine = 'pdflatex';
     }
-    return ipcRenderer.invoke('compile-latex', texFilePath, engine);
+    return ipcRenderer.invoke('compile-latex', texFilePath, engine, options);
   },
+  cancelCompile: () => ipcRenderer.invoke('cancel-compile'),
+  resolveRootDocument: (filePath: string, projectRoot?: string) =>
+    ipcRenderer.invoke('resolve-root-document', { filePath, projectRoot }),
+  resolveIncludePath: (filePath: string, command: string, target: string, projectRoot?: string) =>
+    ipcRenderer.invoke('resolve-include-path', { filePath, command, target, projectRoot }),
+  readAuxLabels: (filePath: string, projectRoot?: string) =>
+    ipcRenderer.invoke('read-aux-labels', { filePath, projectRoot }),
   onCompilationStatus: (listener: (status: { stage: string; message: string }) => void) => {
     const handler = (_event: any, status: any) => listener(status);
     ipcRenderer.on('compilation-status', handler);
     return () => ipcRenderer.removeListener('compilation-status', handler);
   },
+  onCompilationOutput: (listener: (batch: { requestId?: number; tool: string; pass: number; lines: string[] }) => void) => {
+    const handler = (_event: any, batch: any) => listener(batch);
+    ipcRenderer.on('compilation-output', handler);
+    return () => ipcRenderer.removeListener('compilation-output', handler);
+  },
   onFilesystemEvent: (listener: (payload: { event: string; path: string; root: string }) => void) => {
     const handler = (_event: any, payload: any) => listener(payload);
     ipcRenderer.on('filesystem-changed', handler);
@@ -59,12 +80,25 @@ contextBridge.exposeInMainWorld('api', {
 
   // SyncTeX forward/inverse search
   synctex: {
-    forward: (texFile: string, line: number, column: number, pdfFile?: string) =>
-      ipcRenderer.invoke('synctex-forward', { texFile, line, column, pdfFile }),
+    forward: (texFile: string, line: number, column: number, pdfFile?: string, projectRoot?: string) =>
+      ipcRenderer.invoke('synctex-forward', { texFile, line, column, pdfFile, projectRoot }),
     inverse: (pdfFile: string, page: number, h: number, v: number) =>
       ipcRenderer.invoke('synctex-inverse', { pdfFile, page, h, v }),
   },
 
+  // Offline Hunspell dictionaries
+  spellcheck: {
+    listDictionaries: () => ipcRenderer.invoke('spellcheck-list-dictionaries'),
+    loadDictionary: (language: string) => ipcRenderer.invoke('spellcheck-load-dictionary', language),
+  },
+
+  // Lint the editor buffer with chktex, when it is installed
+  runChktex: (filePath: string, content: string) => ipcRenderer.invoke('run-chktex', { filePath, content }),
+
+  // Format the editor buffer with latexindent, when it is installed
+  runLatexindent: (filePath: string, content: string, indent: number) =>
+    ipcRenderer.invoke('run-latexindent', { filePath, content, indent }),
+
   // Git Terminal (git-only)
   gitTerminal: {
     start: (options: { cwd?: string } = {}) => ipcRenderer.invoke('git-terminal-start', options),
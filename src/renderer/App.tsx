@@ -6,6 +6,8 @@ import FileExplorer from './components/FileExplorer';
 import Editor, { EditorHandle } from './components/Editor';
 import Preview, { PreviewHandle } from './components/Preview';
 import StructureMap from './components/StructureMap';
+import BibliographyPanel from './components/BibliographyPanel';
+import OutlinePanel from './components/OutlinePanel';
 import Toolbar from './components/Toolbar';
 import MenuBar from './components/MenuBar';
 import NotificationDialog from './components/NotificationDialog';
@@ -18,9 +20,54 @@ import AnnotationDialog from './components/AnnotationDialog';
 import NewProjectDialog from './components/NewProjectDialog';
 import StatusBar from './components/StatusBar';
 import GitPanel from './components/GitPanel';
+import ProjectSettingsDialog from './components/ProjectSettingsDialog';
+import ProblemsPanel from './components/ProblemsPanel';
+import ImagePreviewDialog from './components/ImagePreviewDialog';
+import RenamePreviewDialog from './components/RenamePreviewDialog';
+import WordCountDialog from './components/WordCountDialog';
+import SymbolPalette from './components/SymbolPalette';
+import MatrixBuilderDialog from './components/MatrixBuilderDialog';
 import { Annotation, AnnotationRange } from '../types/annotations';
 import { CursorPosition, FileNode, PendingCursor, ProjectProvider, useProject } from './ProjectContext';
 import { APP_VERSION, APP_VERSION_LABEL } from '../shared/appInfo';
+import {
+    createDefaultProjectSettings,
+    LatexEngine,
+    parseProjectSettings,
+    PROJECT_SETTINGS_FILENAME,
+    ProjectSettings,
+    serializeProjectSettings,
+} from '../shared/projectSettings';
+import { listRecipeChoices } from '../shared/buildRecipes';
+import { countDiagnostics, DiagnosticCounts, isDiagnosticForFile, LatexDiagnostic } from '../shared/latexDiagnostics';
+import { mergeBuildProblems, Problem } from '../shared/problems';
+import { findSimilarFilePaths, findUsepackageInsertLine, hasPackage } from '../shared/latexQuickFixes';
+import { applyTextEdits, RenamePlan } from '../shared/latexRename';
+import { moveSectionBlock } from './utils/latexOutline';
+import { parseLatexProjectStructure, parseLatexStructure, ParseResult } from './utils/latexStructureParser';
+import { countFigures, countLatex, countTodos, WordCount } from '../shared/wordCount';
+import { createSpellChecker, SpellChecker } from '../shared/hunspell';
+import { formatLatex } from '../shared/latexFormat';
+import { formatBibTeX } from '../shared/bibtexFormat';
+import { collectMathMacros, MathMacros, MathPreviewMode } from '../shared/mathPreview';
+import { loadsPackage, MathSymbol } from '../shared/mathSymbols';
+import { BibEntryDraft, removeBibEntries, serializeBibEntry, writeBibEntry } from '../shared/bibliography';
+import { replaceCitationKey } from '../shared/citationReport';
+import { DEFAULT_SPELLING_LANGUAGE, detectSpellingLanguage } from '../shared/latexSpellcheck';
+import { samePath } from '../shared/rootDocument';
+import type { AuxLabel } from '../shared/auxFile';
+import {
+    collectBibEntries,
+    collectCitations,
+    collectLabels,
+    collectMacros,
+    IndexedBibEntry,
+    IndexedCitation,
+    indexFile,
+    INDEXED_EXTENSIONS,
+    isIndexedFile,
+    ProjectIndex,
+} from '../shared/latexIndex';
 import './styles/App.css';
 
 type ThemePreference = 'system' | 'dark' | 'light';
@@ -53,6 +100,40 @@ interface Position {
 }
 
 const SESSION_FILENAME = '.openotex-session.yml';
+// Files a broken \includegraphics or \input path is compared against.
+const REPLACEMENT_PATH_EXTENSIONS = ['png', 'jpg', 'jpeg', 'pdf', 'eps', 'svg', 'tex'];
+const WORD_COUNT_DELAY_MS = 800;
+const SELECTION_COUNT_DELAY_MS = 150;
+const MATH_MACROS_DELAY_MS = 800;
+const SPELLING_LANGUAGE_DELAY_MS = 800;
+const MATH_PREVIEW_MODES: MathPreviewMode[] = ['floating', 'below', 'off'];
+// Graphics the image preview can show; PDF and EPS figures are revealed in the file browser instead.
+const PREVIEW_IMAGE_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    svg: 'image/svg+xml',
+    webp: 'image/webp',
+    bmp: 'image/bmp',
+};
+
+const readStoredPreference = <T,>(key: string, fallback: T): T => {
+    try {
+        const saved = localStorage.getItem(key);
+        return saved !== null ? JSON.parse(saved) : fallback;
+    }
+    catch {
+        return fallback;
+    }
+};
+
+// Global preferences act as defaults for projects without a settings file.
+const readGlobalProjectDefaults = (): ProjectSettings => createDefaultProjectSettings({
+    engine: readStoredPreference<LatexEngine>('openotex:latexEngine', 'pdflatex'),
+    autoCompile: readStoredPreference('openotex:autoCompile', true),
+    autoSave: readStoredPreference('openotex:autoSave', true),
+});
 
 const AppContent: React.FC = () => {
     const {
@@ -80,34 +161,16 @@ const AppContent: React.FC = () => {
         restoredSessionProjectRef,
     } = useProject();
     const [compileNonce, setCompileNonce] = useState(0);
-    const [autoCompile, setAutoCompile] = useState<boolean>(() => {
-        try {
-            const saved = localStorage.getItem('openotex:autoCompile');
-            return saved !== null ? JSON.parse(saved) : true;
-        }
-        catch {
-            return true;
-        }
-    });
-    const [autoSave, setAutoSave] = useState<boolean>(() => {
-        try {
-            const saved = localStorage.getItem('openotex:autoSave');
-            return saved !== null ? JSON.parse(saved) : true;
-        }
-        catch {
-            return true;
-        }
-    });
-    const [latexEngine, setLatexEngine] = useState<'pdflatex' | 'xelatex' | 'lualatex'>(() => {
-        try {
-            const saved = localStorage.getItem('openotex:latexEngine');
-            return saved !== null ? JSON.parse(saved) : 'pdflatex';
-        }
-        catch {
-            return 'pdflatex';
-        }
-    });
+    const [autoCompile, setAutoCompile] = useState<boolean>(() => readStoredPreference('openotex:autoCompile', true));
+    const [autoSave, setAutoSave] = useState<boolean>(() => readStoredPreference('openotex:autoSave', true));
+    const [latexEngine, setLatexEngine] = useState<LatexEngine>(() => readStoredPreference<LatexEngine>('openotex:latexEngine', 'pdflatex'));
+    // Settings of the open project; null until loaded or when no project is open.
+    const [projectSettings, setProjectSettings] = useState<ProjectSettings | null>(null);
+    const [hasProjectSettingsFile, setHasProjectSettingsFile] = useState(false);
+    const [showProjectSettingsDialog, setShowProjectSettingsDialog] = useState(false);
     const [isTerminalVisible, setIsTerminalVisible] = useState(false);
+    const [isProblemsPanelVisible, setIsProblemsPanelVisible] = useState<boolean>(() => readStoredPreference('openotex:showProblems', false));
+    const [mathPreviewMode, setMathPreviewMode] = useState<MathPreviewMode>(() => readStoredPreference('openotex:mathPreview', 'floating'));
     const [notification, setNotification] = useState<NotificationState>({
         isOpen: false,
         title: '',
@@ -171,7 +234,17 @@ const AppContent: React.FC = () => {
     const [statusMessage, setStatusMessage] = useState<string>('');
     const statusMessageTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const [showStructureMap, setShowStructureMap] = useState<boolean>(false);
-    const [leftPanelTab, setLeftPanelTab] = useState<'files' | 'git'>('files');
+    const [showBibliography, setShowBibliography] = useState<boolean>(false);
+    const [leftPanelTab, setLeftPanelTab] = useState<'files' | 'git' | 'outline' | 'symbols'>('files');
+    // Only the line is tracked in state, so moving along a line does not re-render the outline.
+    const [cursorLine, setCursorLine] = useState<number>(1);
+    const [rootDocument, setRootDocument] = useState<{ sourcePath: string; rootPath: string } | null>(null);
+    // Problems of the compiles so far (see mergeBuildProblems) and the root document they belong to.
+    const [compileProblems, setCompileProblems] = useState<{ problems: Problem[]; rootFilePath: string | null; build: number }>({
+        problems: [],
+        rootFilePath: null,
+        build: 0,
+    });
     const currentFileExtension = useMemo(() => {
         if (!currentFile || currentFile.isDirectory) {
             return null;
@@ -188,6 +261,68 @@ const AppContent: React.FC = () => {
     useEffect(() => {
         annotationsRef.current = annotations;
     }, [annotations]);
+    // Resolve the document that compiles and SyncTeX should target for the open file
+    useEffect(() => {
+        if (!currentFile || !isCurrentFileLatex) {
+            setRootDocument(null);
+            return;
+        }
+        const api = (window as any).api;
+        const sourcePath = currentFile.path;
+        let cancelled = false;
+        const resolveRoot = async () => {
+            let rootPath = sourcePath;
+            try {
+                const result = await api.resolveRootDocument(sourcePath, projectPath || undefined);
+                if (result?.success && result.rootFile) {
+                    rootPath = result.rootFile;
+                }
+            }
+            catch (error) {
+                console.warn('Unable to resolve root document', error);
+            }
+            if (!cancelled) {
+                setRootDocument({ sourcePath, rootPath });
+            }
+        };
+        void resolveRoot();
+        return () => {
+            cancelled = true;
+        };
+    }, [currentFile, isCurrentFileLatex, projectPath, projectSettings?.root]);
+    const rootFilePath = rootDocument && rootDocument.sourcePath === currentFile?.path
+        ? rootDocument.rootPath
+        : null;
+    const handleDiagnosticsChange = useCallback((diagnostics: LatexDiagnostic[], options: { complete: boolean }) => {
+        setCompileProblems(prev => {
+            const sameRoot = Boolean(prev.rootFilePath && rootFilePath && samePath(prev.rootFilePath, rootFilePath));
+            const build = prev.build + 1;
+            return {
+                problems: mergeBuildProblems(sameRoot ? prev.problems : [], diagnostics, build, options),
+                rootFilePath,
+                build,
+            };
+        });
+    }, [rootFilePath]);
+    const currentFileDiagnostics = useMemo(() => (
+        currentFile
+            ? compileProblems.problems.filter(problem => isDiagnosticForFile(problem, currentFile.path, compileProblems.rootFilePath))
+            : []
+    ), [compileProblems, currentFile]);
+    const tabProblemCounts = useMemo(() => {
+        const counts: Record<string, DiagnosticCounts> = {};
+        for (const tab of openTabs) {
+            const problems = compileProblems.problems.filter(problem => isDiagnosticForFile(problem, tab.path, compileProblems.rootFilePath));
+            if (problems.length > 0) {
+                counts[tab.path] = countDiagnostics(problems);
+            }
+        }
+        return counts;
+    }, [compileProblems, openTabs]);
+    const problemCounts = useMemo(() => countDiagnostics(compileProblems.problems), [compileProblems]);
+    useEffect(() => {
+        setCompileProblems({ problems: [], rootFilePath: null, build: 0 });
+    }, [projectPath]);
     useEffect(() => {
         if (typeof window === 'undefined' || !window.matchMedia) {
             return;
@@ -568,26 +703,40 @@ Your conclusions go here.
     const handleToggleTerminal = useCallback(() => {
         setIsTerminalVisible(prev => !prev);
     }, []);
-
-    const toggleAutoCompile = useCallback(() => {
-        setAutoCompile(prev => !prev);
+    const handleToggleProblemsPanel = useCallback(() => {
+        setIsProblemsPanelVisible(prev => !prev);
     }, []);
-    const toggleAutoSave = useCallback(() => {
-        setAutoSave(prev => !prev);
+    useEffect(() => {
+        try {
+            localStorage.setItem('openotex:showProblems', JSON.stringify(isProblemsPanelVisible));
+        }
+        catch (error) {
+            console.error('Error saving Problems panel preference:', error);
+        }
+    }, [isProblemsPanelVisible]);
+    const handleCycleMathPreview = useCallback(() => {
+        setMathPreviewMode(prev => MATH_PREVIEW_MODES[(MATH_PREVIEW_MODES.indexOf(prev) + 1) % MATH_PREVIEW_MODES.length]);
     }, []);
+    useEffect(() => {
+        try {
+            localStorage.setItem('openotex:mathPreview', JSON.stringify(mathPreviewMode));
+        }
+        catch (error) {
+            console.error('Error saving math preview preference:', error);
+        }
+    }, [mathPreviewMode]);
+
     const handleToggleAnnotationsVisibility = useCallback(() => {
         setAnnotationsHidden(prev => !prev);
     }, []);
+    // The structure map and the bibliography share the preview panel.
     const handleToggleStructureMap = useCallback(() => {
         setShowStructureMap(prev => !prev);
+        setShowBibliography(false);
     }, []);
-    const handleStructureMapNodeClick = useCallback((lineNumber: number) => {
-        if (editorRef.current) {
-            editorRef.current.jumpToLine(lineNumber);
-        }
-    }, []);
-    const handleLatexEngineChange = useCallback((engine: 'pdflatex' | 'xelatex' | 'lualatex') => {
-        setLatexEngine(engine);
+    const handleToggleBibliography = useCallback(() => {
+        setShowBibliography(prev => !prev);
+        setShowStructureMap(false);
     }, []);
     const focusEditor = useCallback(() => {
         if (typeof window !== 'undefined' && typeof window.requestAnimationFrame === 'function') {
@@ -1157,6 +1306,7 @@ Your conclusions go here.
     }, [annotations, currentFile, showNotification, updateAnnotations]);
     const handleCursorChange = useCallback((position: CursorPosition) => {
         cursorPositionRef.current = position;
+        setCursorLine(position.lineNumber);
         if (!currentFile) {
             return;
         }
@@ -1184,6 +1334,15 @@ Your conclusions go here.
         };
         void handleFileSelect({ name, path: target.file, isDirectory: false } as FileNode);
     }, [currentFile, pendingCursorRef]);
+    const handleStructureMapNodeClick = useCallback((lineNumber: number, file?: string) => {
+        if (file && currentFile && !samePath(file, currentFile.path)) {
+            handleSyncTexJump({ file, line: lineNumber, column: 1 });
+            return;
+        }
+        if (editorRef.current) {
+            editorRef.current.jumpToLine(lineNumber);
+        }
+    }, [currentFile, handleSyncTexJump]);
     const handleForwardSearch = useCallback(() => {
         if (!currentFile) return;
         const ext = currentFile.name.split('.').pop()?.toLowerCase();
@@ -1496,21 +1655,6 @@ Your conclusions go here.
         triggerCompile();
     }, [isCurrentFileLatex, triggerCompile]);
 
-    const handleSaveCurrentFile = useCallback(async () => {
-        if (!currentFile || currentFile.isDirectory) {
-            showNotification('No File Open', 'Open a file to save it.', 'info');
-            return;
-        }
-
-        try {
-            const api = (window as any).api;
-            await api.writeFile( currentFile.path, editorContent);
-            showNotification('File Saved', `Saved ${currentFile.name}`, 'success');
-        } catch (error) {
-            showNotification('Save Failed', `Failed to save ${currentFile.name}: ${error}`, 'error');
-        }
-    }, [currentFile, editorContent, showNotification]);
-
     const handleSaveAllFiles = useCallback(async () => {
         if (openTabs.length === 0) {
             showNotification('No Files Open', 'No files to save.', 'info');
@@ -1552,6 +1696,763 @@ Your conclusions go here.
         }, duration);
     }, []);
 
+    // Open tabs hold the latest text of their files, unsaved edits included.
+    const readFileContent = useCallback(async (filePath: string): Promise<string | null> => {
+        const openPath = Array.from(tabContents.keys()).find(tabPath => samePath(tabPath, filePath));
+        if (openPath !== undefined) {
+            return tabContents.get(openPath) ?? '';
+        }
+        try {
+            const result = await (window as any).api.readFile(filePath);
+            return result?.success ? result.content : null;
+        }
+        catch {
+            return null;
+        }
+    }, [tabContents]);
+    // Open files take the change in their tab (and on disk with auto-save); others are written on disk.
+    // `update` returns null to leave the file as it is. Resolves to an error message, or null.
+    const updateFileContent = useCallback(async (file: string, update: (content: string) => string | null): Promise<string | null> => {
+        const api = (window as any).api;
+        const content = await readFileContent(file);
+        if (content === null) {
+            return `Unable to read ${api.path.basename(file)}`;
+        }
+        const updated = update(content);
+        if (updated === null) {
+            return null;
+        }
+        const openPath = Array.from(tabContents.keys()).find(tabPath => samePath(tabPath, file));
+        if (openPath !== undefined) {
+            setTabContents(prev => new Map(prev).set(openPath, updated));
+            if (currentFile && samePath(currentFile.path, openPath)) {
+                setEditorContent(updated);
+            }
+        }
+        if (openPath === undefined || autoSave) {
+            try {
+                const result = await api.writeFile(file, updated);
+                if (!result?.success) {
+                    return result?.error || `Unable to write ${api.path.basename(file)}`;
+                }
+            }
+            catch (error) {
+                return (error as Error).message || `Unable to write ${api.path.basename(file)}`;
+            }
+        }
+        setProjectIndex(prev => new Map(prev).set(file, indexFile(file, updated)));
+        return null;
+    }, [autoSave, currentFile, readFileContent, setEditorContent, setTabContents, tabContents]);
+
+    // Quick fix for a chapter file: the \usepackage goes into the root document's preamble.
+    const handleInsertPackage = useCallback(async (packageName: string) => {
+        const targetPath = compileProblems.rootFilePath || rootFilePath;
+        if (!targetPath) {
+            return;
+        }
+        const name = (window as any).api.path.basename(targetPath);
+        let outcome = 'added' as 'added' | 'present' | 'no-preamble';
+        const error = await updateFileContent(targetPath, content => {
+            if (hasPackage(content, packageName)) {
+                outcome = 'present';
+                return null;
+            }
+            const insertLine = findUsepackageInsertLine(content);
+            if (insertLine === null) {
+                outcome = 'no-preamble';
+                return null;
+            }
+            const lines = content.split('\n');
+            lines.splice(insertLine, 0, `\\usepackage{${packageName}}`);
+            return lines.join('\n');
+        });
+        if (error) {
+            showNotification('Add Package Failed', error, 'error');
+        }
+        else if (outcome === 'present') {
+            showStatusMessage(`${name} already loads ${packageName}`);
+        }
+        else if (outcome === 'no-preamble') {
+            showNotification('Add Package Failed', `${name} has no \\documentclass preamble to add ${packageName} to.`, 'error');
+        }
+        else {
+            showStatusMessage(`Added \\usepackage{${packageName}} to ${name}`);
+        }
+    }, [compileProblems.rootFilePath, rootFilePath, showNotification, showStatusMessage, updateFileContent]);
+    const findReplacementPaths = useCallback(async (missingPath: string): Promise<string[]> => {
+        const baseFile = compileProblems.rootFilePath || rootFilePath || currentFile?.path;
+        if (!projectPath || !baseFile) {
+            return [];
+        }
+        const api = (window as any).api;
+        try {
+            const result = await api.listProjectFiles(projectPath, REPLACEMENT_PATH_EXTENSIONS);
+            if (!result?.success || !result.files) {
+                return [];
+            }
+            return findSimilarFilePaths(missingPath, result.files, api.path.dirname(baseFile));
+        }
+        catch (error) {
+            console.warn('Unable to list project files', error);
+            return [];
+        }
+    }, [compileProblems.rootFilePath, currentFile, projectPath, rootFilePath]);
+
+    const applyProjectSettings = useCallback((settings: ProjectSettings) => {
+        setProjectSettings(settings);
+        setLatexEngine(settings.engine);
+        setAutoCompile(settings.autoCompile);
+        setAutoSave(settings.autoSave);
+    }, []);
+    const loadProjectSettings = useCallback(async (projectRoot: string) => {
+        const api = (window as any).api;
+        const settingsPath = api.path.join(projectRoot, PROJECT_SETTINGS_FILENAME);
+        const defaults = readGlobalProjectDefaults();
+        try {
+            const result = await api.readFile(settingsPath);
+            if (!result?.success) {
+                setHasProjectSettingsFile(false);
+                applyProjectSettings(defaults);
+                return;
+            }
+            const { settings, warnings } = parseProjectSettings(result.content, defaults);
+            if (warnings.length > 0) {
+                console.warn(`Problems in ${PROJECT_SETTINGS_FILENAME}:`, warnings);
+                showStatusMessage(`${PROJECT_SETTINGS_FILENAME}: ${warnings[0]}`, 8000);
+            }
+            setHasProjectSettingsFile(true);
+            applyProjectSettings(settings);
+        }
+        catch (error) {
+            console.warn('Unable to read project settings', error);
+            setHasProjectSettingsFile(false);
+            applyProjectSettings(defaults);
+        }
+    }, [applyProjectSettings, showStatusMessage]);
+    const effectiveProjectSettings = useMemo(() => (
+        projectSettings ?? createDefaultProjectSettings({ engine: latexEngine, autoCompile, autoSave })
+    ), [projectSettings, latexEngine, autoCompile, autoSave]);
+    const saveProjectSettings = useCallback(async (settings: ProjectSettings) => {
+        applyProjectSettings(settings);
+        if (!projectPath) {
+            return;
+        }
+        const api = (window as any).api;
+        try {
+            const settingsPath = api.path.join(projectPath, PROJECT_SETTINGS_FILENAME);
+            const result = await api.writeFile(settingsPath, serializeProjectSettings(settings));
+            if (!result?.success) {
+                throw new Error(result?.error || 'Unknown error');
+            }
+            setHasProjectSettingsFile(true);
+        }
+        catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            showNotification('Settings Not Saved', `Could not write ${PROJECT_SETTINGS_FILENAME}: ${errorMessage}`, 'error');
+        }
+    }, [projectPath, applyProjectSettings, showNotification]);
+    const updateProjectSettings = useCallback((changes: Partial<ProjectSettings>) => {
+        void saveProjectSettings({ ...effectiveProjectSettings, ...changes });
+    }, [effectiveProjectSettings, saveProjectSettings]);
+    const toggleAutoCompile = useCallback(() => {
+        updateProjectSettings({ autoCompile: !autoCompile });
+    }, [autoCompile, updateProjectSettings]);
+    const toggleAutoSave = useCallback(() => {
+        updateProjectSettings({ autoSave: !autoSave });
+    }, [autoSave, updateProjectSettings]);
+    const handleLatexEngineChange = useCallback((engine: LatexEngine) => {
+        updateProjectSettings({ engine });
+    }, [updateProjectSettings]);
+    const handleBuildRecipeChange = useCallback((recipe: string) => {
+        updateProjectSettings({ recipe });
+    }, [updateProjectSettings]);
+    const recipeChoices = useMemo(() => listRecipeChoices(effectiveProjectSettings.recipes), [effectiveProjectSettings.recipes]);
+    const handleSaveProjectSettings = useCallback((settings: ProjectSettings) => {
+        setShowProjectSettingsDialog(false);
+        void saveProjectSettings(settings).then(() => showStatusMessage('Project settings saved'));
+    }, [saveProjectSettings, showStatusMessage]);
+    useEffect(() => {
+        if (!projectPath) {
+            setProjectSettings(null);
+            setHasProjectSettingsFile(false);
+            return;
+        }
+        void loadProjectSettings(projectPath);
+    }, [projectPath, loadProjectSettings]);
+    // Pick up edits made to the settings file outside the dialog
+    useEffect(() => {
+        const api = (window as any).api;
+        if (!projectPath || !api?.onFilesystemEvent) {
+            return;
+        }
+        const settingsPath = api.path.join(projectPath, PROJECT_SETTINGS_FILENAME);
+        const dispose = api.onFilesystemEvent((payload: { path?: string }) => {
+            if (payload?.path === settingsPath) {
+                void loadProjectSettings(projectPath);
+            }
+        });
+        return () => dispose?.();
+    }, [projectPath, loadProjectSettings]);
+    // Labels and bibliography entries of every project file, for completion
+    const [projectIndex, setProjectIndex] = useState<ProjectIndex>(() => new Map());
+    const requestedBibliographiesRef = useRef<Set<string>>(new Set());
+    const indexPath = useCallback(async (filePath: string) => {
+        const api = (window as any).api;
+        try {
+            const result = await api.readFile(filePath);
+            if (result?.success && typeof result.content === 'string') {
+                setProjectIndex(prev => new Map(prev).set(filePath, indexFile(filePath, result.content)));
+            }
+        }
+        catch (error) {
+            console.warn('Unable to index file', filePath, error);
+        }
+    }, []);
+    useEffect(() => {
+        const api = (window as any).api;
+        setProjectIndex(new Map());
+        requestedBibliographiesRef.current = new Set();
+        if (!projectPath || !api?.listProjectFiles) {
+            return;
+        }
+        let cancelled = false;
+        const buildIndex = async () => {
+            try {
+                const result = await api.listProjectFiles(projectPath, INDEXED_EXTENSIONS);
+                if (!result?.success || !result.files) {
+                    return;
+                }
+                const next: ProjectIndex = new Map();
+                for (const filePath of result.files as string[]) {
+                    const file = await api.readFile(filePath);
+                    if (cancelled) {
+                        return;
+                    }
+                    if (file?.success && typeof file.content === 'string') {
+                        next.set(filePath, indexFile(filePath, file.content));
+                    }
+                }
+                // Files re-indexed from watcher events meanwhile are newer than this scan.
+                setProjectIndex(prev => new Map([...next, ...prev]));
+            }
+            catch (error) {
+                console.warn('Unable to index project files', error);
+            }
+        };
+        void buildIndex();
+        return () => {
+            cancelled = true;
+        };
+    }, [projectPath]);
+    // Keep the index current as files change on disk
+    useEffect(() => {
+        const api = (window as any).api;
+        if (!projectPath || !api?.onFilesystemEvent) {
+            return;
+        }
+        const dispose = api.onFilesystemEvent((payload: { event?: string; path?: string; root?: string }) => {
+            const changedPath = payload?.path;
+            if (!changedPath || payload.root !== projectPath) {
+                return;
+            }
+            if (payload.event === 'unlinkDir') {
+                const prefix = changedPath.replace(/[\\/]+$/, '');
+                setProjectIndex(prev => {
+                    const next = new Map(prev);
+                    for (const filePath of prev.keys()) {
+                        if (filePath.startsWith(`${prefix}/`) || filePath.startsWith(`${prefix}\\`)) {
+                            next.delete(filePath);
+                        }
+                    }
+                    return next.size === prev.size ? prev : next;
+                });
+                return;
+            }
+            if (!isIndexedFile(changedPath)) {
+                return;
+            }
+            if (payload.event === 'unlink') {
+                setProjectIndex(prev => {
+                    if (!prev.has(changedPath)) {
+                        return prev;
+                    }
+                    const next = new Map(prev);
+                    next.delete(changedPath);
+                    return next;
+                });
+            }
+            else if (payload.event === 'add' || payload.event === 'change') {
+                void indexPath(changedPath);
+            }
+        });
+        return () => dispose?.();
+    }, [projectPath, indexPath]);
+    // Bibliographies referenced from outside the project are not watched; read them once
+    useEffect(() => {
+        const api = (window as any).api;
+        projectIndex.forEach(file => {
+            file.bibliographies.forEach(target => {
+                const isAbsolute = /^([a-zA-Z]:[\\/]|[\\/])/.test(target);
+                const baseDirs = isAbsolute ? [''] : [api.path.dirname(file.path), rootFilePath ? api.path.dirname(rootFilePath) : null];
+                baseDirs.forEach(baseDir => {
+                    if (baseDir === null) {
+                        return;
+                    }
+                    const bibPath = isAbsolute ? target : api.path.join(baseDir, target);
+                    if (projectIndex.has(bibPath) || requestedBibliographiesRef.current.has(bibPath)) {
+                        return;
+                    }
+                    requestedBibliographiesRef.current.add(bibPath);
+                    void indexPath(bibPath);
+                });
+            });
+        });
+    }, [projectIndex, rootFilePath, indexPath]);
+    const indexedLabels = useMemo(() => collectLabels(projectIndex), [projectIndex]);
+    const indexedBibEntries = useMemo(() => collectBibEntries(projectIndex), [projectIndex]);
+    const indexedMacros = useMemo(() => collectMacros(projectIndex), [projectIndex]);
+    const indexedFiles = useMemo(() => Array.from(projectIndex.keys()), [projectIndex]);
+    const indexedCitations = useMemo(() => collectCitations(projectIndex), [projectIndex]);
+    // Every entry, duplicate keys included, for the bibliography manager.
+    const allBibEntries = useMemo(() => Array.from(projectIndex.values()).flatMap(file => file.entries), [projectIndex]);
+    const bibFiles = useMemo(() => indexedFiles.filter(filePath => /\.bib$/i.test(filePath)).sort(), [indexedFiles]);
+    // Label numbers of the last build, for \ref hovers
+    const [auxLabels, setAuxLabels] = useState<Record<string, AuxLabel>>({});
+    useEffect(() => {
+        const api = (window as any).api;
+        if (!rootFilePath || !api?.readAuxLabels) {
+            return;
+        }
+        let cancelled = false;
+        const loadAuxLabels = async () => {
+            try {
+                const result = await api.readAuxLabels(rootFilePath, projectPath || undefined);
+                if (!cancelled && result?.success) {
+                    setAuxLabels(result.labels || {});
+                }
+            }
+            catch (error) {
+                console.warn('Unable to read label numbers', error);
+            }
+        };
+        void loadAuxLabels();
+        return () => {
+            cancelled = true;
+        };
+    }, [rootFilePath, projectPath, compileProblems.build]);
+    const [wordCountReport, setWordCountReport] = useState<ParseResult | null>(null);
+    const [selectionWordCount, setSelectionWordCount] = useState<WordCount | null>(null);
+    const [showWordCountDialog, setShowWordCountDialog] = useState(false);
+    const [showMatrixBuilder, setShowMatrixBuilder] = useState(false);
+    const selectionCountTimerRef = useRef<number | null>(null);
+    // Counting follows every include of the root document, so wait for typing to pause.
+    useEffect(() => {
+        if (!currentFile || !isCurrentFileLatex) {
+            setWordCountReport(null);
+            return;
+        }
+        const filePath = currentFile.path;
+        const options = effectiveProjectSettings.wordCount;
+        const pathApi = (window as any).api?.path;
+        let cancelled = false;
+        const timer = window.setTimeout(async () => {
+            let result = rootFilePath && pathApi
+                ? await parseLatexProjectStructure(rootFilePath, {
+                    path: pathApi,
+                    readFile: (target) => (samePath(target, filePath) ? Promise.resolve(editorContent) : readFileContent(target)),
+                }, options)
+                : parseLatexStructure(editorContent, filePath, options);
+            if (!result.totals) {
+                // A file without a preamble whose root is unknown: count all of it.
+                const stats = { ...countLatex(editorContent, options), figures: countFigures(editorContent), todos: countTodos(editorContent) };
+                result = { ...result, totals: stats, fileStats: [{ file: filePath, stats }] };
+            }
+            if (!cancelled) {
+                setWordCountReport(result);
+            }
+        }, WORD_COUNT_DELAY_MS);
+        return () => {
+            cancelled = true;
+            window.clearTimeout(timer);
+        };
+    }, [currentFile, isCurrentFileLatex, editorContent, rootFilePath, readFileContent, effectiveProjectSettings.wordCount]);
+    // Macros for the math preview: the root file and every indexed file that defines any,
+    // with the file being edited last so its definitions win.
+    const [mathMacros, setMathMacros] = useState<MathMacros>({});
+    useEffect(() => {
+        if (!currentFile || !isCurrentFileLatex || mathPreviewMode === 'off') {
+            return;
+        }
+        const filePath = currentFile.path;
+        const sources = Array.from(new Set([
+            ...(rootFilePath ? [rootFilePath] : []),
+            ...indexedMacros.map(macro => macro.file),
+        ])).filter(source => !samePath(source, filePath));
+        let cancelled = false;
+        const timer = window.setTimeout(async () => {
+            const contents = await Promise.all(sources.map(source => readFileContent(source)));
+            const macros = [...contents, editorContent].reduce<MathMacros>(
+                (merged, text) => (text ? { ...merged, ...collectMathMacros(text) } : merged),
+                {}
+            );
+            if (!cancelled) {
+                setMathMacros(prev => (JSON.stringify(prev) === JSON.stringify(macros) ? prev : macros));
+            }
+        }, MATH_MACROS_DELAY_MS);
+        return () => {
+            cancelled = true;
+            window.clearTimeout(timer);
+        };
+    }, [currentFile, isCurrentFileLatex, mathPreviewMode, editorContent, rootFilePath, indexedMacros, readFileContent]);
+    const handleSelectionChange = useCallback((text: string) => {
+        if (selectionCountTimerRef.current !== null) {
+            window.clearTimeout(selectionCountTimerRef.current);
+            selectionCountTimerRef.current = null;
+        }
+        if (!text.trim()) {
+            setSelectionWordCount(null);
+            return;
+        }
+        const options = effectiveProjectSettings.wordCount;
+        selectionCountTimerRef.current = window.setTimeout(() => {
+            selectionCountTimerRef.current = null;
+            setSelectionWordCount(countLatex(text, options));
+        }, SELECTION_COUNT_DELAY_MS);
+    }, [effectiveProjectSettings.wordCount]);
+    const [spellingLanguage, setSpellingLanguage] = useState<string>(DEFAULT_SPELLING_LANGUAGE);
+    const [spellChecker, setSpellChecker] = useState<SpellChecker | null>(null);
+    // Loaded checkers by language; null records a language without an installed dictionary.
+    const spellCheckersRef = useRef<Map<string, SpellChecker | null>>(new Map());
+    const spellcheckSettings = effectiveProjectSettings.spellcheck;
+    // Detection reads the root document: from the editor or its tab while open, otherwise
+    // from disk again only when the watcher re-indexes it.
+    const isRootCurrent = !rootFilePath || Boolean(currentFile && samePath(rootFilePath, currentFile.path));
+    const rootBuffer = isRootCurrent ? editorContent : tabContents.get(rootFilePath!);
+    const rootIndexEntry = rootFilePath ? projectIndex.get(rootFilePath) : undefined;
+    useEffect(() => {
+        if (spellcheckSettings.language) {
+            setSpellingLanguage(spellcheckSettings.language);
+            return;
+        }
+        let cancelled = false;
+        const timer = window.setTimeout(async () => {
+            let rootContent = rootBuffer;
+            if (rootContent === undefined) {
+                try {
+                    const result = await (window as any).api.readFile(rootFilePath);
+                    rootContent = result?.success ? result.content : undefined;
+                }
+                catch {
+                    rootContent = undefined;
+                }
+            }
+            if (!cancelled) {
+                setSpellingLanguage(detectSpellingLanguage(rootContent ?? '') ?? DEFAULT_SPELLING_LANGUAGE);
+            }
+        }, SPELLING_LANGUAGE_DELAY_MS);
+        return () => {
+            cancelled = true;
+            window.clearTimeout(timer);
+        };
+    }, [spellcheckSettings.language, rootFilePath, rootBuffer, rootIndexEntry]);
+    useEffect(() => {
+        if (!spellcheckSettings.enabled) {
+            setSpellChecker(null);
+            return;
+        }
+        const cached = spellCheckersRef.current.get(spellingLanguage);
+        if (cached !== undefined) {
+            setSpellChecker(cached);
+            return;
+        }
+        let cancelled = false;
+        const load = async () => {
+            let checker: SpellChecker | null = null;
+            try {
+                const result = await (window as any).api.spellcheck.loadDictionary(spellingLanguage);
+                if (result?.success) {
+                    checker = createSpellChecker(result.aff, result.dic);
+                }
+                else {
+                    showStatusMessage(result?.error || `No dictionary for ${spellingLanguage}; spell checking is off`);
+                }
+            }
+            catch (error) {
+                console.warn('Unable to load spelling dictionary', error);
+            }
+            spellCheckersRef.current.set(spellingLanguage, checker);
+            if (!cancelled) {
+                setSpellChecker(checker);
+            }
+        };
+        void load();
+        return () => {
+            cancelled = true;
+        };
+    }, [spellcheckSettings.enabled, spellingLanguage, showStatusMessage]);
+    const handleAddToDictionary = useCallback((word: string) => {
+        if (spellcheckSettings.words.includes(word)) {
+            return;
+        }
+        updateProjectSettings({ spellcheck: { ...spellcheckSettings, words: [...spellcheckSettings.words, word] } });
+        showStatusMessage(`Added "${word}" to the project dictionary`);
+    }, [spellcheckSettings, updateProjectSettings, showStatusMessage]);
+    const chktexMissingReportedRef = useRef(false);
+    const runChktex = useCallback(async (content: string): Promise<LatexDiagnostic[] | null> => {
+        if (!currentFile) {
+            return null;
+        }
+        try {
+            const result = await (window as any).api.runChktex(currentFile.path, content);
+            if (result?.success) {
+                return result.diagnostics ?? [];
+            }
+            if (result?.missing && !chktexMissingReportedRef.current) {
+                chktexMissingReportedRef.current = true;
+                showStatusMessage('chktex is not installed; only the built-in lint rules are checked');
+            }
+        }
+        catch (error) {
+            console.warn('Unable to run chktex', error);
+        }
+        return null;
+    }, [currentFile, showStatusMessage]);
+    const latexindentMissingReportedRef = useRef(false);
+    const formatLatexDocument = useCallback(async (content: string): Promise<string | null> => {
+        const format = effectiveProjectSettings.format;
+        if (format.backend === 'latexindent' && currentFile) {
+            try {
+                const result = await (window as any).api.runLatexindent(currentFile.path, content, format.indent);
+                if (result?.success) {
+                    return result.content;
+                }
+                if (!result?.missing) {
+                    showStatusMessage(`latexindent failed: ${result?.error || 'Unknown error'}`);
+                    return null;
+                }
+                if (!latexindentMissingReportedRef.current) {
+                    latexindentMissingReportedRef.current = true;
+                    showStatusMessage('latexindent is not installed; using the built-in formatter');
+                }
+            }
+            catch (error) {
+                console.warn('Unable to run latexindent', error);
+                return null;
+            }
+        }
+        return formatLatex(content, format);
+    }, [currentFile, effectiveProjectSettings.format, showStatusMessage]);
+    const formatBibDocument = useCallback(async (content: string): Promise<string | null> => (
+        formatBibTeX(content, { indent: effectiveProjectSettings.format.indent, sortFields: true })
+    ), [effectiveProjectSettings.format.indent]);
+    const handleSaveCurrentFile = useCallback(async () => {
+        if (!currentFile || currentFile.isDirectory) {
+            showNotification('No File Open', 'Open a file to save it.', 'info');
+            return;
+        }
+
+        try {
+            const api = (window as any).api;
+            let content = editorContent;
+            if ((isCurrentFileLatex || currentFileExtension === 'bib') && effectiveProjectSettings.format.formatOnSave) {
+                content = (await editorRef.current?.formatDocument()) ?? content;
+            }
+            await api.writeFile( currentFile.path, content);
+            showNotification('File Saved', `Saved ${currentFile.name}`, 'success');
+        } catch (error) {
+            showNotification('Save Failed', `Failed to save ${currentFile.name}: ${error}`, 'error');
+        }
+    }, [currentFile, currentFileExtension, editorContent, isCurrentFileLatex, effectiveProjectSettings.format.formatOnSave, showNotification]);
+
+    // The editor adds a missing package itself when the root is the open file, so the two edits
+    // cannot overwrite each other; other roots are updated on disk or in their tab.
+    const insertMath = useCallback(async (text: string, options: { snippet?: boolean; display?: boolean; packageName?: string }) => {
+        const targetPath = compileProblems.rootFilePath || rootFilePath;
+        const inCurrentFile = Boolean(targetPath && currentFile && samePath(targetPath, currentFile.path));
+        const packageName = inCurrentFile ? options.packageName : undefined;
+        if (editorRef.current?.insertMath(text, { ...options, packageName }) && packageName) {
+            showStatusMessage(`Added \\usepackage{${packageName}}`);
+        }
+        if (!options.packageName || !targetPath || inCurrentFile) {
+            return;
+        }
+        const content = await readFileContent(targetPath);
+        if (content === null || !loadsPackage(content, options.packageName)) {
+            await handleInsertPackage(options.packageName);
+        }
+    }, [compileProblems.rootFilePath, rootFilePath, currentFile, readFileContent, handleInsertPackage, showStatusMessage]);
+    const handleInsertSymbol = useCallback((symbol: MathSymbol) => {
+        void insertMath(symbol.snippet ?? symbol.latex, { snippet: Boolean(symbol.snippet), packageName: symbol.package });
+    }, [insertMath]);
+
+    const handleSaveBibEntry = useCallback(async (file: string, entry: BibEntryDraft, originalKey?: string): Promise<string | null> => {
+        const error = await updateFileContent(file, content => writeBibEntry(content, serializeBibEntry(entry), originalKey));
+        if (error) {
+            return error;
+        }
+        showStatusMessage(`${originalKey ? 'Updated' : 'Added'} ${entry.key} in ${(window as any).api.path.basename(file)}`);
+        return null;
+    }, [showStatusMessage, updateFileContent]);
+    const handleImportBibEntries = useCallback(async (file: string, entries: BibEntryDraft[]): Promise<string | null> => {
+        const error = await updateFileContent(file, content => entries.reduce((current, entry) => writeBibEntry(current, serializeBibEntry(entry)), content));
+        if (error) {
+            return error;
+        }
+        showStatusMessage(`Imported ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'} into ${(window as any).api.path.basename(file)}`);
+        return null;
+    }, [showStatusMessage, updateFileContent]);
+
+    const handleReplaceCitationKey = useCallback(async (uses: IndexedCitation[], newKey: string): Promise<string | null> => {
+        const byFile = new Map<string, IndexedCitation[]>();
+        uses.forEach(use => byFile.set(use.file, [...(byFile.get(use.file) ?? []), use]));
+        let replaced = 0;
+        for (const [file, fileUses] of byFile) {
+            const error = await updateFileContent(file, content => {
+                const result = replaceCitationKey(content, fileUses, newKey);
+                replaced += result.replaced;
+                return result.content;
+            });
+            if (error) {
+                return error;
+            }
+        }
+        showStatusMessage(`Replaced ${uses[0]?.key} with ${newKey} in ${replaced} citation${replaced === 1 ? '' : 's'}`);
+        return null;
+    }, [showStatusMessage, updateFileContent]);
+    // The archive is written first, so a failure part way leaves entries duplicated rather than lost.
+    const handleArchiveBibEntries = useCallback(async (entries: IndexedBibEntry[], archiveFile: string): Promise<string | null> => {
+        const api = (window as any).api;
+        if (!projectPath) {
+            return 'Open a project first';
+        }
+        const archivePath = api.path.join(projectPath, archiveFile);
+        const keysByFile = new Map<string, string[]>();
+        // An entry already in the archive would be appended to it and then removed with its original.
+        entries
+            .filter(entry => !samePath(entry.file, archivePath))
+            .forEach(entry => keysByFile.set(entry.file, [...(keysByFile.get(entry.file) ?? []), entry.key]));
+        const moved: string[] = [];
+        for (const [file, keys] of keysByFile) {
+            const content = await readFileContent(file);
+            if (content === null) {
+                return `Unable to read ${api.path.basename(file)}`;
+            }
+            moved.push(...removeBibEntries(content, keys).removed);
+        }
+        if (await readFileContent(archivePath) === null) {
+            const created = await api.createFile(archivePath);
+            if (!created?.success) {
+                return created?.error || `Unable to create ${archiveFile}`;
+            }
+        }
+        const archiveError = await updateFileContent(archivePath, content => moved.reduce((current, text) => writeBibEntry(current, text), content));
+        if (archiveError) {
+            return archiveError;
+        }
+        for (const [file, keys] of keysByFile) {
+            const error = await updateFileContent(file, content => removeBibEntries(content, keys).content);
+            if (error) {
+                return error;
+            }
+        }
+        showStatusMessage(`Moved ${moved.length} ${moved.length === 1 ? 'entry' : 'entries'} to ${archiveFile}`);
+        return null;
+    }, [projectPath, readFileContent, showStatusMessage, updateFileContent]);
+
+    const resolveIncludePath = useCallback(async (command: string, target: string): Promise<string | null> => {
+        if (!currentFile) {
+            return null;
+        }
+        try {
+            const result = await (window as any).api.resolveIncludePath(currentFile.path, command, target, projectPath || undefined);
+            if (result?.success && result.path) {
+                return result.path;
+            }
+            showStatusMessage(result?.error || `Cannot find ${target}`);
+        }
+        catch (error) {
+            console.warn('Unable to resolve include path', error);
+        }
+        return null;
+    }, [currentFile, projectPath, showStatusMessage]);
+    const handleOutlineOpenInclude = useCallback(async (command: string, target: string) => {
+        const filePath = await resolveIncludePath(command, target);
+        if (filePath) {
+            handleSyncTexJump({ file: filePath, line: 1, column: 1 });
+        }
+    }, [handleSyncTexJump, resolveIncludePath]);
+    // Goes through the normal edit path, so the move can be undone in the editor and is auto-saved.
+    const handleOutlineMoveSection = (sourceLine: number, targetLine: number, placement: 'before' | 'after') => {
+        const updated = moveSectionBlock(editorContent, sourceLine, targetLine, placement);
+        if (updated === null) {
+            showStatusMessage('A section cannot be moved into itself');
+            return;
+        }
+        handleContentChange(updated);
+    };
+    const [imagePreview, setImagePreview] = useState<{ isOpen: boolean; name: string; dataUrl: string }>({
+        isOpen: false,
+        name: '',
+        dataUrl: '',
+    });
+    const handleOpenLocation = useCallback(async (target: { file: string; line: number; column: number }) => {
+        const api = (window as any).api;
+        const extension = target.file.split('.').pop()?.toLowerCase() ?? '';
+        const mimeType = PREVIEW_IMAGE_TYPES[extension];
+        if (mimeType) {
+            const result = await api.readBinaryFile(target.file);
+            if (result?.success) {
+                setImagePreview({ isOpen: true, name: api.path.basename(target.file), dataUrl: `data:${mimeType};base64,${result.data}` });
+            }
+            else {
+                showStatusMessage(result?.error || `Cannot open ${target.file}`);
+            }
+            return;
+        }
+        if (extension === 'pdf' || extension === 'eps') {
+            void api.showInFileBrowser(target.file);
+            return;
+        }
+        handleSyncTexJump(target);
+    }, [handleSyncTexJump, showStatusMessage]);
+    const [renamePlan, setRenamePlan] = useState<RenamePlan | null>(null);
+    // Open tabs take the edits in memory (and on disk with auto-save); other files are rewritten on disk.
+    const handleApplyRename = useCallback(async (plan: RenamePlan, files: string[]) => {
+        setRenamePlan(null);
+        const api = (window as any).api;
+        const skipped: string[] = [];
+        let renamed = 0;
+        for (const change of plan.changes) {
+            if (!files.includes(change.path)) {
+                continue;
+            }
+            let changedSincePreview = false;
+            const error = await updateFileContent(change.path, content => {
+                // The file changed since the preview was built; its edit positions no longer hold.
+                if (content !== change.original) {
+                    changedSincePreview = true;
+                    return null;
+                }
+                return applyTextEdits(content, change.edits);
+            });
+            if (error || changedSincePreview) {
+                if (error) {
+                    console.error('Error applying rename to', change.path, error);
+                }
+                skipped.push(api.path.basename(change.path));
+                continue;
+            }
+            renamed += 1;
+        }
+        const name = plan.kind === 'macro' ? `\\${plan.newName}` : plan.newName;
+        if (skipped.length > 0) {
+            showNotification('Rename Incomplete', `Renamed to ${name} in ${renamed} file(s). These files changed since the preview or could not be written and were left as they were: ${skipped.join(', ')}`, 'error');
+        }
+        else {
+            showStatusMessage(`Renamed to ${name} in ${renamed} file${renamed === 1 ? '' : 's'}`);
+        }
+    }, [showNotification, showStatusMessage, updateFileContent]);
+
     const handleVersionFreeze = useCallback(async (fileToFreeze?: FileNode) => {
         const targetFile = fileToFreeze || currentFile;
 
@@ -1655,31 +2556,40 @@ Your conclusions go here.
             }
         };
     }, []);
-    // Save user preferences
+    // Save user preferences; with a project open they live in its settings file instead
     useEffect(() => {
+        if (projectPath) {
+            return;
+        }
         try {
             localStorage.setItem('openotex:autoCompile', JSON.stringify(autoCompile));
         }
         catch (error) {
             console.error('Error saving autoCompile preference:', error);
         }
-    }, [autoCompile]);
+    }, [autoCompile, projectPath]);
     useEffect(() => {
+        if (projectPath) {
+            return;
+        }
         try {
             localStorage.setItem('openotex:autoSave', JSON.stringify(autoSave));
         }
         catch (error) {
             console.error('Error saving autoSave preference:', error);
         }
-    }, [autoSave]);
+    }, [autoSave, projectPath]);
     useEffect(() => {
+        if (projectPath) {
+            return;
+        }
         try {
             localStorage.setItem('openotex:latexEngine', JSON.stringify(latexEngine));
         }
         catch (error) {
             console.error('Error saving latexEngine preference:', error);
         }
-    }, [latexEngine]);
+    }, [latexEngine, projectPath]);
     useEffect(() => {
         try {
             localStorage.setItem('openotex:highlightColor', highlightColor);
@@ -1702,6 +2612,11 @@ Your conclusions go here.
                 event.preventDefault();
                 handleToggleTerminal();
             }
+            // Ctrl+Shift+M to toggle the Problems panel
+            if ((event.ctrlKey || event.metaKey) && event.shiftKey && event.code === 'KeyM') {
+                event.preventDefault();
+                handleToggleProblemsPanel();
+            }
             // Ctrl+Shift+C to compile (keyboard layout independent)
             if ((event.ctrlKey || event.metaKey) && event.shiftKey && event.code === 'KeyC') {
                 event.preventDefault();
@@ -1732,7 +2647,7 @@ Your conclusions go here.
         };
         window.addEventListener('keydown', handleKeydown);
         return () => window.removeEventListener('keydown', handleKeydown);
-    }, [isCurrentFileLatex, handleCompile, handleToggleTerminal, handleSaveCurrentFile, handleSaveAllFiles, handleVersionFreeze, handleForwardSearch]);
+    }, [isCurrentFileLatex, handleCompile, handleToggleTerminal, handleToggleProblemsPanel, handleSaveCurrentFile, handleSaveAllFiles, handleVersionFreeze, handleForwardSearch]);
     // Auto-save effect
     useEffect(() => {
         if (!autoSave || !projectPath)
@@ -1798,6 +2713,8 @@ Your conclusions go here.
             onReplace={handleReplace}
             onToggleTerminal={handleToggleTerminal}
             isTerminalVisible={isTerminalVisible}
+            onToggleProblems={handleToggleProblemsPanel}
+            isProblemsVisible={isProblemsPanelVisible}
             onToggleAutoCompile={toggleAutoCompile}
             isAutoCompileEnabled={autoCompile}
             themePreference={themePreference}
@@ -1823,8 +2740,15 @@ Your conclusions go here.
             onToggleStructureMap={handleToggleStructureMap}
             isStructureMapVisible={showStructureMap}
             canShowStructureMap={isCurrentFileLatex}
+            onToggleBibliography={handleToggleBibliography}
+            isBibliographyVisible={showBibliography}
             latexEngine={latexEngine}
             onLatexEngineChange={handleLatexEngineChange}
+            buildRecipe={effectiveProjectSettings.recipe}
+            recipeChoices={recipeChoices}
+            onBuildRecipeChange={handleBuildRecipeChange}
+            onOpenProjectSettings={() => setShowProjectSettingsDialog(true)}
+            hasProject={Boolean(projectPath)}
         />
         <div className="workspace">
             <div className="main-container">
@@ -1845,12 +2769,24 @@ Your conclusions go here.
                             >
                                 Files
                             </button>
+                            <button
+                                className={leftPanelTab === 'outline' ? 'active' : ''}
+                                onClick={() => setLeftPanelTab('outline')}
+                            >
+                                Outline
+                            </button>
                             <button
                                 className={leftPanelTab === 'git' ? 'active' : ''}
                                 onClick={() => setLeftPanelTab('git')}
                             >
                                 Git
                             </button>
+                            <button
+                                className={leftPanelTab === 'symbols' ? 'active' : ''}
+                                onClick={() => setLeftPanelTab('symbols')}
+                            >
+                                Symbols
+                            </button>
                         </div>
                         <div className="panel-body">
                             {leftPanelTab === 'files' ? (
@@ -1861,6 +2797,21 @@ Your conclusions go here.
                                     onVersionFreeze={handleVersionFreeze}
                                     refreshTrigger={fileExplorerRefreshTrigger}
                                 />
+                            ) : leftPanelTab === 'outline' ? (
+                                <OutlinePanel
+                                    content={editorContent}
+                                    isLatex={isCurrentFileLatex}
+                                    cursorLine={cursorLine}
+                                    onNavigate={handleStructureMapNodeClick}
+                                    onOpenInclude={handleOutlineOpenInclude}
+                                    onMoveSection={handleOutlineMoveSection}
+                                />
+                            ) : leftPanelTab === 'symbols' ? (
+                                <SymbolPalette
+                                    canInsert={isCurrentFileLatex}
+                                    onInsert={handleInsertSymbol}
+                                    onOpenMatrixBuilder={() => setShowMatrixBuilder(true)}
+                                />
                             ) : (
                                 <GitPanel projectPath={projectPath} />
                             )}
@@ -1873,6 +2824,7 @@ Your conclusions go here.
                                 activeTab={currentFile}
                                 onTabClick={handleTabClick}
                                 onTabClose={handleTabClose}
+                                problemCounts={tabProblemCounts}
                             />
                             <Editor
                                 ref={editorRef}
@@ -1886,6 +2838,27 @@ Your conclusions go here.
                                 onEditAnnotation={handleEditAnnotation}
                                 onCursorChange={handleCursorChange}
                                 onSyncTexForwardSearch={handleForwardSearch}
+                                diagnostics={currentFileDiagnostics}
+                                onInsertPackage={handleInsertPackage}
+                                findReplacementPaths={findReplacementPaths}
+                                labels={indexedLabels}
+                                bibEntries={indexedBibEntries}
+                                macros={indexedMacros}
+                                indexedFiles={indexedFiles}
+                                auxLabels={auxLabels}
+                                readFileContent={readFileContent}
+                                resolveIncludePath={resolveIncludePath}
+                                onOpenLocation={handleOpenLocation}
+                                onRenamePreview={setRenamePlan}
+                                onSelectionChange={handleSelectionChange}
+                                spellChecker={isCurrentFileLatex ? spellChecker : null}
+                                spellingWords={spellcheckSettings.words}
+                                onAddToDictionary={projectPath ? handleAddToDictionary : undefined}
+                                lintSettings={effectiveProjectSettings.lint}
+                                runChktex={runChktex}
+                                formatDocument={isCurrentFileLatex ? formatLatexDocument : currentFileExtension === 'bib' ? formatBibDocument : undefined}
+                                mathPreview={mathPreviewMode}
+                                mathMacros={mathMacros}
                                 theme={resolvedTheme}
                             />
                             {showAnnotationsPanel && (
@@ -1906,16 +2879,19 @@ Your conclusions go here.
                         </div>
                     </div>
                     <div className="panel preview-panel">
-                        <div className="preview-layer" hidden={showStructureMap} style={{ height: '100%' }}>
+                        <div className="preview-layer" hidden={showStructureMap || showBibliography} style={{ height: '100%' }}>
                             <Preview
                                 ref={previewRef}
                                 content={editorContent}
                                 compileNonce={compileNonce}
                                 currentFileExtension={currentFileExtension}
                                 currentFilePath={currentFile?.path ?? null}
+                                rootFilePath={rootFilePath}
+                                projectPath={projectPath}
                                 latexEngine={latexEngine}
                                 onMissingPackages={handleMissingPackages}
                                 onSyncTexJump={handleSyncTexJump}
+                                onDiagnosticsChange={handleDiagnosticsChange}
                             />
                         </div>
                         <div className="structure-layer" hidden={!showStructureMap} style={{ height: '100%' }}>
@@ -1923,7 +2899,30 @@ Your conclusions go here.
                                 <StructureMap
                                     content={editorContent}
                                     currentFileExtension={currentFileExtension}
+                                    filePath={currentFile?.path}
+                                    rootFilePath={rootFilePath}
+                                    readFileContent={readFileContent}
                                     onNodeClick={handleStructureMapNodeClick}
+                                    wordTargets={effectiveProjectSettings.wordTargets}
+                                    onWordTargetsChange={projectPath ? (wordTargets) => updateProjectSettings({ wordTargets }) : undefined}
+                                    onStatusMessage={showStatusMessage}
+                                    wordCountOptions={effectiveProjectSettings.wordCount}
+                                />
+                            )}
+                        </div>
+                        <div className="bibliography-layer" hidden={!showBibliography} style={{ height: '100%' }}>
+                            {showBibliography && projectPath && (
+                                <BibliographyPanel
+                                    entries={allBibEntries}
+                                    citations={indexedCitations}
+                                    bibFiles={bibFiles}
+                                    projectPath={projectPath}
+                                    onOpenEntry={(entry) => void handleOpenLocation({ file: entry.file, line: entry.line, column: 1 })}
+                                    onSaveEntry={handleSaveBibEntry}
+                                    onImportEntries={handleImportBibEntries}
+                                    onOpenCitation={(citation) => void handleOpenLocation(citation)}
+                                    onReplaceCitationKey={handleReplaceCitationKey}
+                                    onArchiveEntries={handleArchiveBibEntries}
                                 />
                             )}
                         </div>
@@ -1931,6 +2930,14 @@ Your conclusions go here.
                 </Split>
             </div>
         </div>
+        <ProblemsPanel
+            isVisible={isProblemsPanelVisible}
+            onToggle={handleToggleProblemsPanel}
+            problems={compileProblems.problems}
+            build={compileProblems.build}
+            projectPath={projectPath}
+            onNavigate={handleSyncTexJump}
+        />
         <TerminalPanel
             isVisible={isTerminalVisible}
             onToggle={handleToggleTerminal}
@@ -1969,12 +2976,61 @@ Your conclusions go here.
             onConfirm={handleCreateNewProject}
             onCancel={() => setShowNewProjectDialog(false)}
         />
+        <WordCountDialog
+            isOpen={showWordCountDialog}
+            report={wordCountReport}
+            selection={selectionWordCount}
+            options={effectiveProjectSettings.wordCount}
+            onOptionsChange={projectPath ? (wordCount) => updateProjectSettings({ wordCount }) : undefined}
+            projectPath={projectPath}
+            onNavigate={(lineNumber, file) => {
+                setShowWordCountDialog(false);
+                handleStructureMapNodeClick(lineNumber, file);
+            }}
+            onClose={() => setShowWordCountDialog(false)}
+        />
+        <MatrixBuilderDialog
+            isOpen={showMatrixBuilder}
+            macros={mathMacros}
+            onInsert={(latex, options) => void insertMath(latex, options)}
+            onClose={() => setShowMatrixBuilder(false)}
+        />
+        <ProjectSettingsDialog
+            isOpen={showProjectSettingsDialog}
+            settings={effectiveProjectSettings}
+            detectedRoot={rootFilePath}
+            onSave={handleSaveProjectSettings}
+            onCancel={() => setShowProjectSettingsDialog(false)}
+        />
+        <ImagePreviewDialog
+            isOpen={imagePreview.isOpen}
+            name={imagePreview.name}
+            dataUrl={imagePreview.dataUrl}
+            onClose={() => setImagePreview({ isOpen: false, name: '', dataUrl: '' })}
+        />
+        <RenamePreviewDialog
+            plan={renamePlan}
+            projectPath={projectPath}
+            onConfirm={handleApplyRename}
+            onCancel={() => setRenamePlan(null)}
+        />
         <StatusBar
             autoCompile={autoCompile}
             autoSave={autoSave}
             onToggleAutoCompile={toggleAutoCompile}
             onToggleAutoSave={toggleAutoSave}
             statusMessage={statusMessage}
+            latexEngine={latexEngine}
+            hasProjectSettings={hasProjectSettingsFile}
+            onOpenProjectSettings={projectPath ? () => setShowProjectSettingsDialog(true) : undefined}
+            problemCounts={isCurrentFileLatex || problemCounts.errors + problemCounts.warnings > 0 ? problemCounts : undefined}
+            onShowProblems={handleToggleProblemsPanel}
+            wordCount={isCurrentFileLatex && wordCountReport?.totals
+                ? { words: wordCountReport.totals.words, selectionWords: selectionWordCount?.words }
+                : undefined}
+            onShowWordCount={() => setShowWordCountDialog(true)}
+            mathPreview={isCurrentFileLatex ? mathPreviewMode : undefined}
+            onCycleMathPreview={handleCycleMathPreview}
         />
     </div>
     );
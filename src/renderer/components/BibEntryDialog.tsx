@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FiPlus, FiX } from 'react-icons/fi';
+import {
+  BIB_ENTRY_TYPE_NAMES,
+  BibEntryDraft,
+  getBibEntryType,
+  validateBibEntry,
+} from '../../shared/bibliography';
+import '../styles/BibEntryDialog.css';
+
+interface BibEntryDialogProps {
+  isOpen: boolean;
+  // The entry being edited, or null to add one.
+  entry: (BibEntryDraft & { file: string }) | null;
+  // `.bib` files a new entry can go into.
+  files: string[];
+  // Keys of every other entry, which the key must not repeat.
+  takenKeys: string[];
+  displayPath: (filePath: string) => string;
+  // Resolves to an error message, or null once the entry is written.
+  onSave: (file: string, entry: BibEntryDraft, originalKey?: string) => Promise<string | null>;
+  onCancel: () => void;
+}
+
+const NEW_ENTRY: BibEntryDraft = { type: 'article', key: '', fields: {} };
+
+const BibEntryDialog: React.FC<BibEntryDialogProps> = ({
+  isOpen,
+  entry,
+  files,
+  takenKeys,
+  displayPath,
+  onSave,
+  onCancel,
+}) => {
+  const [file, setFile] = useState('');
+  const [type, setType] = useState(NEW_ENTRY.type);
+  const [key, setKey] = useState('');
+  const [fields, setFields] = useState<Record<string, string>>({});
+  const [newField, setNewField] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const initial = entry ?? NEW_ENTRY;
+    setFile(entry?.file ?? files[0] ?? '');
+    setType(initial.type);
+    setKey(initial.key);
+    setFields({ ...initial.fields });
+    setNewField('');
+    setErrors([]);
+    setIsSaving(false);
+  }, [isOpen, entry, files]);
+
+  const schema = getBibEntryType(type);
+  const schemaFields = useMemo(() => new Set([...schema.required.flat(), ...schema.optional]), [schema]);
+  const otherFields = Object.keys(fields).filter(name => !schemaFields.has(name));
+
+  if (!isOpen) return null;
+
+  const setField = (name: string, value: string) => setFields(prev => ({ ...prev, [name]: value }));
+
+  const addField = () => {
+    const name = newField.trim().toLowerCase();
+    if (!/^[a-z][\w:.+-]*$/.test(name)) return;
+    setFields(prev => (name in prev ? prev : { ...prev, [name]: '' }));
+    setNewField('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const draft = { type, key: key.trim(), fields };
+    const problems = validateBibEntry(draft, takenKeys);
+    if (!file) problems.unshift('Choose the .bib file to add the entry to');
+    setErrors(problems);
+    if (problems.length > 0) return;
+    setIsSaving(true);
+    const error = await onSave(file, draft, entry?.key);
+    setIsSaving(false);
+    if (error) setErrors([error]);
+  };
+
+  const renderField = (name: string, required = false) => (
+    <label key={name} className="bib-entry-field">
+      <span>{name}{required && <span className="bib-entry-required">*</span>}</span>
+      <input
+        type="text"
+        value={fields[name] ?? ''}
+        onChange={(e) => setField(name, e.target.value)}
+        spellCheck={false}
+      />
+    </label>
+  );
+
+  const typeOptions = BIB_ENTRY_TYPE_NAMES.includes(type) ? BIB_ENTRY_TYPE_NAMES : [type, ...BIB_ENTRY_TYPE_NAMES];
+
+  return (
+    <div className="bib-entry-overlay" onClick={onCancel}>
+      <div className="bib-entry-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="bib-entry-header">
+          <h3>{entry ? `Edit ${entry.key}` : 'New Bibliography Entry'}</h3>
+          <button className="bib-entry-close" onClick={onCancel} aria-label="Close">
+            <FiX size={20} />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="bib-entry-body">
+            <div className="bib-entry-row">
+              <label className="bib-entry-field">
+                <span>Type</span>
+                <select value={type} onChange={(e) => setType(e.target.value)}>
+                  {typeOptions.map(option => <option key={option} value={option}>@{option}</option>)}
+                </select>
+              </label>
+              <label className="bib-entry-field">
+                <span>Key<span className="bib-entry-required">*</span></span>
+                <input type="text" value={key} onChange={(e) => setKey(e.target.value)} spellCheck={false} autoFocus />
+              </label>
+              <label className="bib-entry-field">
+                <span>File</span>
+                <select value={file} onChange={(e) => setFile(e.target.value)} disabled={Boolean(entry)}>
+                  {files.map(option => <option key={option} value={option}>{displayPath(option)}</option>)}
+                </select>
+              </label>
+            </div>
+
+            {schema.required.length > 0 && (
+              <section>
+                <h4>Required</h4>
+                {schema.required.map(alternatives => (
+                  <div key={alternatives.join('|')} className="bib-entry-row">
+                    {alternatives.map(name => renderField(name, true))}
+                    {alternatives.length > 1 && <span className="bib-entry-hint">one of these</span>}
+                  </div>
+                ))}
+              </section>
+            )}
+
+            <section>
+              <h4>Optional</h4>
+              <div className="bib-entry-grid">
+                {schema.optional.map(name => renderField(name))}
+              </div>
+            </section>
+
+            <section>
+              <h4>Other fields</h4>
+              <div className="bib-entry-grid">
+                {otherFields.map(name => renderField(name))}
+              </div>
+              <div className="bib-entry-add-field">
+                <input
+                  type="text"
+                  value={newField}
+                  placeholder="Field name, e.g. keywords"
+                  onChange={(e) => setNewField(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      addField();
+                    }
+                  }}
+                />
+                <button type="button" onClick={addField} disabled={!newField.trim()}>
+                  <FiPlus size={14} />
+                  Add field
+                </button>
+              </div>
+            </section>
+
+            {errors.length > 0 && (
+              <ul className="bib-entry-errors">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+          </div>
+          <div className="bib-entry-footer">
+            <button type="button" className="btn-cancel" onClick={onCancel}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-confirm" disabled={isSaving}>
+              {entry ? 'Save' : 'Add Entry'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default BibEntryDialog;
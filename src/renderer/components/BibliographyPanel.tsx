@@ -0,0 +1,340 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { FiAlertTriangle, FiChevronDown, FiChevronUp, FiDownload, FiEdit2, FiPlus, FiSearch } from 'react-icons/fi';
+import { cleanBibValue, formatBibAuthors } from '../../shared/bibtex';
+import {
+  BibDuplicate,
+  BibEntryDraft,
+  BibSortField,
+  findDuplicateEntries,
+  findUncitedEntries,
+  getBibEntryYear,
+  sortBibEntries,
+} from '../../shared/bibliography';
+import type { IndexedBibEntry, IndexedCitation } from '../../shared/latexIndex';
+import BibEntryDialog from './BibEntryDialog';
+import CitationReport from './CitationReport';
+import ImportCitationsDialog from './ImportCitationsDialog';
+import '../styles/BibliographyPanel.css';
+
+interface BibliographyPanelProps {
+  // Every entry of every indexed `.bib` file, duplicates included.
+  entries: IndexedBibEntry[];
+  citations: IndexedCitation[];
+  bibFiles: string[];
+  projectPath: string;
+  onOpenEntry: (entry: IndexedBibEntry) => void;
+  // Resolves to an error message, or null once the entry is written.
+  onSaveEntry: (file: string, entry: BibEntryDraft, originalKey?: string) => Promise<string | null>;
+  // Appends new entries to a `.bib` file; resolves like onSaveEntry.
+  onImportEntries: (file: string, entries: BibEntryDraft[]) => Promise<string | null>;
+  onOpenCitation: (citation: IndexedCitation) => void;
+  onReplaceCitationKey: (uses: IndexedCitation[], newKey: string) => Promise<string | null>;
+  onArchiveEntries: (entries: IndexedBibEntry[], archiveFile: string) => Promise<string | null>;
+}
+
+type View = 'entries' | 'report';
+type GroupBy = 'none' | 'type' | 'file';
+type Filter = 'all' | 'duplicates' | 'uncited';
+
+const COLUMNS: Array<{ field: BibSortField; label: string }> = [
+  { field: 'key', label: 'Key' },
+  { field: 'type', label: 'Type' },
+  { field: 'author', label: 'Authors' },
+  { field: 'year', label: 'Year' },
+  { field: 'title', label: 'Title' },
+];
+
+const DUPLICATE_REASONS: Record<BibDuplicate<IndexedBibEntry>['reason'], string> = {
+  key: 'key',
+  doi: 'DOI',
+  title: 'title',
+};
+
+const relativePath = (file: string, projectPath: string) => {
+  const normalizedFile = file.replace(/\\/g, '/');
+  const normalizedRoot = projectPath.replace(/\\/g, '/').replace(/\/+$/, '');
+  if (normalizedRoot && normalizedFile.toLowerCase().startsWith(`${normalizedRoot.toLowerCase()}/`)) {
+    return normalizedFile.slice(normalizedRoot.length + 1);
+  }
+  return normalizedFile;
+};
+
+const entryId = (entry: IndexedBibEntry) => `${entry.file}:${entry.start}`;
+
+const matchesQuery = (entry: IndexedBibEntry, query: string) => {
+  if (!query) return true;
+  const haystack = [
+    entry.key,
+    entry.type,
+    cleanBibValue(entry.fields.author || entry.fields.editor),
+    cleanBibValue(entry.fields.title),
+    getBibEntryYear(entry),
+  ].join(' ').toLowerCase();
+  return query.toLowerCase().split(/\s+/).every(word => haystack.includes(word));
+};
+
+const BibliographyPanel: React.FC<BibliographyPanelProps> = ({
+  entries,
+  citations,
+  bibFiles,
+  projectPath,
+  onOpenEntry,
+  onSaveEntry,
+  onImportEntries,
+  onOpenCitation,
+  onReplaceCitationKey,
+  onArchiveEntries,
+}) => {
+  const [view, setView] = useState<View>('entries');
+  const [query, setQuery] = useState('');
+  const [sortField, setSortField] = useState<BibSortField>('key');
+  const [descending, setDescending] = useState(false);
+  const [groupBy, setGroupBy] = useState<GroupBy>('none');
+  const [filter, setFilter] = useState<Filter>('all');
+  const [editing, setEditing] = useState<IndexedBibEntry | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const displayPath = useCallback((file: string) => relativePath(file, projectPath), [projectPath]);
+
+  // Each entry's duplicate warnings, as tooltip lines.
+  const duplicateNotes = useMemo(() => {
+    const notes = new Map<string, string[]>();
+    findDuplicateEntries(entries).forEach(duplicate => {
+      duplicate.entries.forEach(entry => {
+        const others = duplicate.entries.filter(other => other !== entry).map(other => other.key);
+        const note = `Same ${DUPLICATE_REASONS[duplicate.reason]} as ${others.join(', ')}`;
+        notes.set(entryId(entry), [...(notes.get(entryId(entry)) ?? []), note]);
+      });
+    });
+    return notes;
+  }, [entries]);
+
+  const uncited = useMemo(() => new Set(findUncitedEntries(entries, citations).map(entryId)), [entries, citations]);
+
+  const visible = useMemo(() => {
+    const filtered = entries.filter(entry => (
+      matchesQuery(entry, query.trim())
+      && (filter === 'all'
+        || (filter === 'duplicates' && duplicateNotes.has(entryId(entry)))
+        || (filter === 'uncited' && uncited.has(entryId(entry))))
+    ));
+    return sortBibEntries(filtered, sortField, descending);
+  }, [entries, query, filter, duplicateNotes, uncited, sortField, descending]);
+
+  const groups = useMemo(() => {
+    if (groupBy === 'none') return [{ label: '', entries: visible }];
+    const byGroup = new Map<string, IndexedBibEntry[]>();
+    visible.forEach(entry => {
+      const label = groupBy === 'type' ? `@${entry.type}` : displayPath(entry.file);
+      byGroup.set(label, [...(byGroup.get(label) ?? []), entry]);
+    });
+    return Array.from(byGroup, ([label, members]) => ({ label, entries: members }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [visible, groupBy, displayPath]);
+
+  const takenKeys = useMemo(() => {
+    const keys = entries.map(entry => entry.key);
+    return editing ? keys.filter(key => key !== editing.key) : keys;
+  }, [entries, editing]);
+
+  const handleSort = (field: BibSortField) => {
+    if (field === sortField) {
+      setDescending(prev => !prev);
+    } else {
+      setSortField(field);
+      setDescending(false);
+    }
+  };
+
+  const openDialog = (entry: IndexedBibEntry | null) => {
+    setEditing(entry);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async (file: string, draft: BibEntryDraft, originalKey?: string) => {
+    const error = await onSaveEntry(file, draft, originalKey);
+    if (!error) setIsDialogOpen(false);
+    return error;
+  };
+
+  const handleImport = async (file: string, drafts: BibEntryDraft[]) => {
+    const error = await onImportEntries(file, drafts);
+    if (!error) setIsImportOpen(false);
+    return error;
+  };
+
+  const renderRow = (entry: IndexedBibEntry) => {
+    const notes = duplicateNotes.get(entryId(entry));
+    const isUncited = uncited.has(entryId(entry));
+    return (
+      <tr key={entryId(entry)} onClick={() => onOpenEntry(entry)} title={`${displayPath(entry.file)}:${entry.line}`}>
+        <td className="bibliography-key">
+          <span>{entry.key}</span>
+          {notes && (
+            <span className="bibliography-badge duplicate" title={notes.join('\n')}>
+              <FiAlertTriangle size={11} />
+              duplicate
+            </span>
+          )}
+          {isUncited && <span className="bibliography-badge uncited" title="No \cite uses this entry">uncited</span>}
+        </td>
+        <td>{entry.type}</td>
+        <td>{formatBibAuthors(entry.fields.author || entry.fields.editor)}</td>
+        <td>{getBibEntryYear(entry)}</td>
+        <td className="bibliography-title">{cleanBibValue(entry.fields.title)}</td>
+        <td className="bibliography-actions">
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              openDialog(entry);
+            }}
+            title="Edit entry"
+            aria-label={`Edit ${entry.key}`}
+          >
+            <FiEdit2 size={13} />
+          </button>
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="bibliography-panel">
+      <div className="bibliography-header">
+        <h3>
+          Bibliography
+          <span className="bibliography-counts">
+            {entries.length} entries · {duplicateNotes.size} duplicate · {uncited.size} uncited
+          </span>
+        </h3>
+        <div className="bibliography-views" role="tablist">
+          <button type="button" role="tab" aria-selected={view === 'entries'} className={view === 'entries' ? 'active' : ''} onClick={() => setView('entries')}>
+            Entries
+          </button>
+          <button type="button" role="tab" aria-selected={view === 'report'} className={view === 'report' ? 'active' : ''} onClick={() => setView('report')}>
+            Usage report
+          </button>
+        </div>
+        <div className="bibliography-header-actions">
+          <button
+            type="button"
+            className="bibliography-import"
+            onClick={() => setIsImportOpen(true)}
+            disabled={bibFiles.length === 0}
+            title={bibFiles.length === 0 ? 'Add a .bib file to the project first' : 'Import BibTeX, RIS, EndNote XML or CSL-JSON'}
+          >
+            <FiDownload size={14} />
+            Import
+          </button>
+          <button
+            type="button"
+            className="bibliography-new"
+            onClick={() => openDialog(null)}
+            disabled={bibFiles.length === 0}
+            title={bibFiles.length === 0 ? 'Add a .bib file to the project first' : 'Add a bibliography entry'}
+          >
+            <FiPlus size={14} />
+            New entry
+          </button>
+        </div>
+      </div>
+      {view === 'report' ? (
+        <CitationReport
+          entries={entries}
+          citations={citations}
+          displayPath={displayPath}
+          onOpenCitation={onOpenCitation}
+          onOpenEntry={onOpenEntry}
+          onReplaceKey={onReplaceCitationKey}
+          onArchiveEntries={onArchiveEntries}
+        />
+      ) : (
+        <>
+        <div className="bibliography-toolbar">
+          <div className="bibliography-search">
+            <FiSearch size={13} />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search key, author, title or year"
+              aria-label="Search bibliography"
+            />
+          </div>
+          <label>
+            Group
+            <select value={groupBy} onChange={(e) => setGroupBy(e.target.value as GroupBy)}>
+              <option value="none">None</option>
+              <option value="type">Type</option>
+              <option value="file">File</option>
+            </select>
+          </label>
+          <label>
+            Show
+            <select value={filter} onChange={(e) => setFilter(e.target.value as Filter)}>
+              <option value="all">All entries</option>
+              <option value="duplicates">Duplicates</option>
+              <option value="uncited">Uncited</option>
+            </select>
+          </label>
+        </div>
+        <div className="bibliography-table-container">
+          {entries.length === 0 ? (
+            <div className="bibliography-empty">No entries found in the project's .bib files</div>
+          ) : visible.length === 0 ? (
+            <div className="bibliography-empty">No entries match</div>
+          ) : (
+            <table className="bibliography-table">
+              <thead>
+                <tr>
+                  {COLUMNS.map(column => (
+                    <th key={column.field} onClick={() => handleSort(column.field)} aria-sort={
+                      column.field === sortField ? (descending ? 'descending' : 'ascending') : 'none'
+                    }>
+                      {column.label}
+                      {column.field === sortField && (descending ? <FiChevronDown size={12} /> : <FiChevronUp size={12} />)}
+                    </th>
+                  ))}
+                  <th aria-label="Actions" />
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map(group => (
+                  <React.Fragment key={group.label}>
+                    {group.label && (
+                      <tr className="bibliography-group">
+                        <td colSpan={COLUMNS.length + 1}>{group.label} ({group.entries.length})</td>
+                      </tr>
+                    )}
+                    {group.entries.map(renderRow)}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+        </>
+      )}
+      <BibEntryDialog
+        isOpen={isDialogOpen}
+        entry={editing}
+        files={bibFiles}
+        takenKeys={takenKeys}
+        displayPath={displayPath}
+        onSave={handleSave}
+        onCancel={() => setIsDialogOpen(false)}
+      />
+      <ImportCitationsDialog
+        isOpen={isImportOpen}
+        files={bibFiles}
+        existingEntries={entries}
+        displayPath={displayPath}
+        onImport={handleImport}
+        onCancel={() => setIsImportOpen(false)}
+      />
+    </div>
+  );
+};
+
+export default BibliographyPanel;
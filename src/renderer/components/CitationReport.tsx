@@ -0,0 +1,203 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FiArchive, FiCornerDownRight } from 'react-icons/fi';
+import { cleanBibValue } from '../../shared/bibtex';
+import { buildCitationReport } from '../../shared/citationReport';
+import { samePath } from '../../shared/rootDocument';
+import type { IndexedBibEntry, IndexedCitation } from '../../shared/latexIndex';
+import '../styles/CitationReport.css';
+
+interface CitationReportProps {
+  entries: IndexedBibEntry[];
+  citations: IndexedCitation[];
+  displayPath: (filePath: string) => string;
+  onOpenCitation: (citation: IndexedCitation) => void;
+  onOpenEntry: (entry: IndexedBibEntry) => void;
+  // Both resolve to an error message, or null once the files are written.
+  onReplaceKey: (uses: IndexedCitation[], newKey: string) => Promise<string | null>;
+  // `archiveFile` is relative to the project root.
+  onArchiveEntries: (entries: IndexedBibEntry[], archiveFile: string) => Promise<string | null>;
+}
+
+const ARCHIVE_STORAGE_KEY = 'openotex:citationArchiveFile';
+const DEFAULT_ARCHIVE_FILE = 'archive.bib';
+
+const readStoredArchive = () => {
+  try {
+    return localStorage.getItem(ARCHIVE_STORAGE_KEY) || DEFAULT_ARCHIVE_FILE;
+  } catch {
+    return DEFAULT_ARCHIVE_FILE;
+  }
+};
+
+const entryId = (entry: IndexedBibEntry) => `${entry.file}:${entry.start}`;
+
+const CitationReport: React.FC<CitationReportProps> = ({
+  entries,
+  citations,
+  displayPath,
+  onOpenCitation,
+  onOpenEntry,
+  onReplaceKey,
+  onArchiveEntries,
+}) => {
+  const [archiveFile, setArchiveFile] = useState(readStoredArchive);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(ARCHIVE_STORAGE_KEY, archiveFile);
+    } catch (storageError) {
+      console.error('Error saving citation archive file:', storageError);
+    }
+  }, [archiveFile]);
+
+  // Entries already in the archive are unused on purpose.
+  const archivePath = archiveFile.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+  const reportEntries = useMemo(
+    () => entries.filter(entry => !samePath(displayPath(entry.file), archivePath)),
+    [entries, displayPath, archivePath]
+  );
+  const report = useMemo(() => buildCitationReport(citations, reportEntries), [citations, reportEntries]);
+
+  // Drop selections for entries that have since been cited, moved or deleted.
+  useEffect(() => {
+    const unused = new Set(report.unusedEntries.map(entryId));
+    setSelected(prev => {
+      const next = new Set(Array.from(prev).filter(id => unused.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [report.unusedEntries]);
+
+  const run = async (action: () => Promise<string | null>) => {
+    setIsBusy(true);
+    setError(await action());
+    setIsBusy(false);
+  };
+
+  const toggle = (entry: IndexedBibEntry) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (!next.delete(entryId(entry))) next.add(entryId(entry));
+      return next;
+    });
+  };
+
+  const allSelected = report.unusedEntries.length > 0 && selected.size === report.unusedEntries.length;
+  const selectedEntries = report.unusedEntries.filter(entry => selected.has(entryId(entry)));
+  const canArchive = !isBusy && selectedEntries.length > 0 && /\.bib$/i.test(archivePath);
+
+  return (
+    <div className="citation-report">
+      <div className="citation-report-summary">
+        {report.citationCount} citations of {report.citedKeys} keys · {report.undefinedKeys.length} undefined · {report.citesEverything ? 'none' : report.unusedEntries.length} unused
+      </div>
+      {error && <div className="citation-report-error">{error}</div>}
+
+      <section>
+        <h4>Undefined keys</h4>
+        {report.undefinedKeys.length === 0 ? (
+          <div className="citation-report-empty">Every cited key has a .bib entry</div>
+        ) : (
+          <ul className="citation-report-list">
+            {report.undefinedKeys.map(item => (
+              <li key={item.key}>
+                <div className="citation-report-row">
+                  <span className="citation-report-key">{item.key}</span>
+                  <span className="citation-report-suggestions">
+                    {item.suggestions.length === 0 ? (
+                      <span className="citation-report-muted">No similar keys</span>
+                    ) : item.suggestions.map(suggestion => (
+                      <button
+                        key={suggestion}
+                        type="button"
+                        disabled={isBusy}
+                        onClick={() => void run(() => onReplaceKey(item.uses, suggestion))}
+                        title={`Replace ${item.uses.length === 1 ? 'this citation' : `all ${item.uses.length} citations`} of ${item.key} with ${suggestion}`}
+                      >
+                        <FiCornerDownRight size={11} />
+                        {suggestion}
+                      </button>
+                    ))}
+                  </span>
+                </div>
+                <div className="citation-report-uses">
+                  {item.uses.map(use => (
+                    <button
+                      key={`${use.file}:${use.line}:${use.column}`}
+                      type="button"
+                      onClick={() => onOpenCitation(use)}
+                      title={`\\${use.command}`}
+                    >
+                      {displayPath(use.file)}:{use.line}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <h4>Unused entries</h4>
+        {report.citesEverything ? (
+          <div className="citation-report-empty">{'\\nocite{*}'} puts every entry in the bibliography</div>
+        ) : report.unusedEntries.length === 0 ? (
+          <div className="citation-report-empty">Every entry is cited</div>
+        ) : (
+          <>
+            <div className="citation-report-archive">
+              <label className="citation-report-select-all">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => setSelected(allSelected ? new Set() : new Set(report.unusedEntries.map(entryId)))}
+                />
+                Select all
+              </label>
+              <label>
+                Archive file
+                <input
+                  type="text"
+                  value={archiveFile}
+                  onChange={(e) => setArchiveFile(e.target.value)}
+                  title="A .bib file relative to the project folder; it is created if it does not exist"
+                  spellCheck={false}
+                />
+              </label>
+              <button
+                type="button"
+                disabled={!canArchive}
+                onClick={() => void run(() => onArchiveEntries(selectedEntries, archivePath))}
+              >
+                <FiArchive size={12} />
+                Move {selectedEntries.length || ''} to archive
+              </button>
+            </div>
+            <ul className="citation-report-list">
+              {report.unusedEntries.map(entry => (
+                <li key={entryId(entry)} className="citation-report-row">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(entryId(entry))}
+                    onChange={() => toggle(entry)}
+                    aria-label={`Select ${entry.key}`}
+                  />
+                  <button type="button" className="citation-report-entry" onClick={() => onOpenEntry(entry)}>
+                    <span className="citation-report-key">{entry.key}</span>
+                    <span className="citation-report-title">{cleanBibValue(entry.fields.title)}</span>
+                    <span className="citation-report-muted">{displayPath(entry.file)}:{entry.line}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default CitationReport;
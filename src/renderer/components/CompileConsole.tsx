@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FiX } from 'react-icons/fi';
+import { CompileProgress, formatElapsed } from '../../shared/compileOutput';
+import '../styles/CompileConsole.css';
+
+interface CompileConsoleProps {
+  lines: string[];
+  progress: CompileProgress;
+  isCompiling: boolean;
+  startedAt: number | null;
+  finishedAt: number | null;
+  onClose: () => void;
+}
+
+const describeProgress = (progress: CompileProgress) => {
+  if (!progress.tool) return 'Starting…';
+  return progress.pass > 0 ? `${progress.tool} · pass ${progress.pass}` : progress.tool;
+};
+
+const CompileConsole: React.FC<CompileConsoleProps> = ({
+  lines,
+  progress,
+  isCompiling,
+  startedAt,
+  finishedAt,
+  onClose,
+}) => {
+  const [now, setNow] = useState(() => Date.now());
+  const outputRef = useRef<HTMLPreElement>(null);
+  // Follow new output unless the user scrolled up to read something.
+  const stickToBottomRef = useRef(true);
+
+  useEffect(() => {
+    if (!isCompiling) return;
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [isCompiling]);
+
+  useEffect(() => {
+    const element = outputRef.current;
+    if (element && stickToBottomRef.current) {
+      element.scrollTop = element.scrollHeight;
+    }
+  }, [lines]);
+
+  const handleScroll = () => {
+    const element = outputRef.current;
+    if (!element) return;
+    stickToBottomRef.current = element.scrollHeight - element.scrollTop - element.clientHeight < 24;
+  };
+
+  const elapsed = startedAt ? (finishedAt ?? now) - startedAt : 0;
+
+  return (
+    <div className="compile-console">
+      <div className="compile-console-header">
+        <span className="compile-console-title">Build Output</span>
+        <span className="compile-console-stat">{isCompiling ? describeProgress(progress) : 'Finished'}</span>
+        {progress.pages > 0 && (
+          <span className="compile-console-stat">{progress.pages} page{progress.pages !== 1 ? 's' : ''}</span>
+        )}
+        {startedAt && <span className="compile-console-stat">{formatElapsed(elapsed)}</span>}
+        <button type="button" className="compile-console-close" onClick={onClose} title="Hide build output">
+          <FiX size={14} />
+        </button>
+      </div>
+      <pre ref={outputRef} className="compile-console-output" onScroll={handleScroll}>
+        {lines.join('\n')}
+      </pre>
+    </div>
+  );
+};
+
+export default CompileConsole;
@@ -2,6 +2,36 @@ import React, { useRef, forwardRef, useImperativeHandle, useEffect, useCallback
 import MonacoEditor, { loader } from '@monaco-editor/react';
 import * as monaco from 'monaco-editor';
 import { Annotation, AnnotationRange } from '../../types/annotations';
+import type { LatexDiagnostic } from '../../shared/latexDiagnostics';
+import type { AuxLabel } from '../../shared/auxFile';
+import { cleanBibValue, formatBibAuthors, formatBibEntry, scanBibTeX } from '../../shared/bibtex';
+import { lintBibTeX } from '../../shared/bibtexLint';
+import {
+  extractLabels,
+  getCompletionContext,
+  IndexedBibEntry,
+  IndexedLabel,
+  IndexedMacro,
+} from '../../shared/latexIndex';
+import { extractMacroDefinitions, findSymbolAt, findSymbolOccurrences } from '../../shared/latexSymbols';
+import { getRenameKind, planRename, RenamePlan, RenameSource } from '../../shared/latexRename';
+import { samePath } from '../../shared/rootDocument';
+import type { SpellChecker } from '../../shared/hunspell';
+import { extractSpellingWords } from '../../shared/latexSpellcheck';
+import { lintLatex, LintSettings } from '../../shared/latexLint';
+import { findMathAt, isInMath, MathMacros, MathPreviewMode } from '../../shared/mathPreview';
+import { loadsPackage } from '../../shared/mathSymbols';
+import { renderMath } from '../utils/mathJax';
+import { BIBTEX_LANGUAGE_ID, bibtexConfiguration, bibtexSnippets, bibtexTokens } from '../utils/bibtexLanguage';
+import {
+  findLabelAnchor,
+  findUsepackageInsertLine,
+  getDiagnosticColumns,
+  getDiagnosticSubject,
+  hasPackage,
+  suggestPackageForCommand,
+  suggestPackageForEnvironment,
+} from '../../shared/latexQuickFixes';
 import '../styles/Editor.css';
 
 // Configure Monaco to use local files instead of CDN
@@ -124,6 +154,68 @@ const latexSnippets = [
   },
 ];
 
+// Marker owner for compile diagnostics; other sources (linters, spell check) use their own.
+const COMPILE_MARKER_OWNER = 'latex-compile';
+// Code actions only see IMarkerData, which has no owner, so fixes match on the source.
+const COMPILE_MARKER_SOURCE = 'LaTeX';
+const INSERT_PACKAGE_COMMAND = 'openotex.insertPackageInRoot';
+
+const LINT_MARKER_OWNER = 'latex-lint';
+const LINT_MARKER_SOURCE = 'LaTeX lint';
+const CHKTEX_MARKER_SOURCE = 'ChkTeX';
+const LINT_DELAY_MS = 500;
+
+const SPELLING_MARKER_OWNER = 'spelling';
+const SPELLING_MARKER_SOURCE = 'Spelling';
+const ADD_TO_DICTIONARY_COMMAND = 'openotex.addToDictionary';
+const SPELLING_DELAY_MS = 400;
+const MAX_SPELLING_SUGGESTIONS = 5;
+
+const MATH_PREVIEW_WIDGET_ID = 'openotex.mathPreview';
+const MATH_PREVIEW_DELAY_MS = 150;
+
+const MARKER_SEVERITIES: Record<LatexDiagnostic['severity'], monaco.MarkerSeverity> = {
+  error: monaco.MarkerSeverity.Error,
+  warning: monaco.MarkerSeverity.Warning,
+  info: monaco.MarkerSeverity.Info,
+};
+
+const toMarkers = (
+  model: monaco.editor.ITextModel,
+  diagnostics: LatexDiagnostic[],
+  source = COMPILE_MARKER_SOURCE
+): monaco.editor.IMarkerData[] => {
+  const lineCount = model.getLineCount();
+  return diagnostics
+    .filter(diagnostic => diagnostic.line && diagnostic.line <= lineCount)
+    .map(diagnostic => {
+      const startLineNumber = diagnostic.line!;
+      const { startColumn, endColumn } = getDiagnosticColumns(model.getLineContent(startLineNumber), diagnostic);
+      const endLineNumber = Math.min(diagnostic.endLine || startLineNumber, lineCount);
+      return {
+        severity: MARKER_SEVERITIES[diagnostic.severity],
+        message: diagnostic.context ? `${diagnostic.message}\n${diagnostic.context}` : diagnostic.message,
+        code: diagnostic.code,
+        source,
+        startLineNumber,
+        startColumn,
+        endLineNumber,
+        endColumn: endLineNumber === startLineNumber ? endColumn : model.getLineMaxColumn(endLineNumber),
+      };
+    });
+};
+
+const insertTextEdit = (
+  model: monaco.editor.ITextModel,
+  lineNumber: number,
+  column: number,
+  text: string
+): monaco.languages.IWorkspaceTextEdit => ({
+  resource: model.uri,
+  versionId: model.getVersionId(),
+  textEdit: { range: new monaco.Range(lineNumber, column, lineNumber, column), text },
+});
+
 interface EditorProps {
   content: string;
   onChange: (content: string) => void;
@@ -135,12 +227,56 @@ interface EditorProps {
   onEditAnnotation?: (annotation: Annotation) => void;
   onCursorChange?: (position: { lineNumber: number; column: number }) => void;
   onSyncTexForwardSearch?: () => void;
+  // Compile diagnostics that belong to the current file.
+  diagnostics?: LatexDiagnostic[];
+  // Quick fix for files without a preamble: add the package to the root document instead.
+  onInsertPackage?: (packageName: string) => void;
+  // Project files resembling a missing graphics/input path, relative to the root document.
+  findReplacementPaths?: (missingPath: string) => Promise<string[]>;
+  // Project-wide labels and bibliography entries for \ref and \cite completion.
+  labels?: IndexedLabel[];
+  bibEntries?: IndexedBibEntry[];
+  macros?: IndexedMacro[];
+  // Every indexed project file, searched by find references.
+  indexedFiles?: string[];
+  // Label numbers from the last build, shown when hovering a \ref.
+  auxLabels?: Record<string, AuxLabel>;
+  readFileContent?: (filePath: string) => Promise<string | null>;
+  // Absolute path of an \input/\includegraphics/\bibliography argument.
+  resolveIncludePath?: (command: string, target: string) => Promise<string | null>;
+  // Go to definition landed in another file.
+  onOpenLocation?: (target: { file: string; line: number; column: number }) => void;
+  // F2 on a label, citation key or macro: the edits are applied after the user reviews them.
+  onRenamePreview?: (plan: RenamePlan) => void;
+  // Selected text, or an empty string when the selection collapses.
+  onSelectionChange?: (text: string) => void;
+  // Hunspell checker for the document language; null turns spell checking off.
+  spellChecker?: SpellChecker | null;
+  // Words accepted by the project dictionary.
+  spellingWords?: string[];
+  onAddToDictionary?: (word: string) => void;
+  // Lint rules checked while typing; null turns linting off.
+  lintSettings?: LintSettings | null;
+  // Run chktex on the buffer; resolves to null when it is unavailable.
+  runChktex?: (content: string) => Promise<LatexDiagnostic[] | null>;
+  // Formatted text for Format Document, or null to leave the file as it is.
+  formatDocument?: (content: string) => Promise<string | null>;
+  // Rendered preview of the formula under the cursor.
+  mathPreview?: MathPreviewMode;
+  // User macros from the project preamble, available to the preview.
+  mathMacros?: MathMacros;
   theme: 'dark' | 'light';
 }
 
 export interface EditorHandle {
   triggerFind: () => void;
   triggerReplace: () => void;
+  // Runs Format Document and resolves to the resulting text.
+  formatDocument: () => Promise<string | null>;
+  // Inserts math over the selection, wrapped in `$...$` (or `\[...\]` for display math) when
+  // the cursor is not already in a formula. Snippets keep their tab stops. A package is added
+  // to this file's preamble when missing; returns whether it was.
+  insertMath: (text: string, options?: { snippet?: boolean; display?: boolean; packageName?: string }) => boolean;
   focus: () => void;
   getSelection: () => {
     text: string;
@@ -164,6 +300,27 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
   onEditAnnotation,
   onCursorChange,
   onSyncTexForwardSearch,
+  diagnostics = [],
+  onInsertPackage,
+  findReplacementPaths,
+  labels = [],
+  bibEntries = [],
+  macros = [],
+  indexedFiles = [],
+  auxLabels = {},
+  readFileContent,
+  resolveIncludePath,
+  onOpenLocation,
+  onRenamePreview,
+  onSelectionChange,
+  spellChecker = null,
+  spellingWords = [],
+  onAddToDictionary,
+  lintSettings = null,
+  runChktex,
+  formatDocument,
+  mathPreview = 'off',
+  mathMacros = {},
   theme
 }, ref) => {
   const editorRef = useRef<any>(null);
@@ -182,6 +339,345 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
     onSyncTexForwardSearchRef.current = onSyncTexForwardSearch;
   }, [onSyncTexForwardSearch]);
 
+  const diagnosticsRef = useRef(diagnostics);
+  const onInsertPackageRef = useRef(onInsertPackage);
+  const findReplacementPathsRef = useRef(findReplacementPaths);
+  useEffect(() => {
+    onInsertPackageRef.current = onInsertPackage;
+    findReplacementPathsRef.current = findReplacementPaths;
+  }, [onInsertPackage, findReplacementPaths]);
+
+  const labelsRef = useRef(labels);
+  const bibEntriesRef = useRef(bibEntries);
+  const macrosRef = useRef(macros);
+  const indexedFilesRef = useRef(indexedFiles);
+  const auxLabelsRef = useRef(auxLabels);
+  const currentFilePathRef = useRef<string | null>(currentFile?.path ?? null);
+  useEffect(() => {
+    labelsRef.current = labels;
+    bibEntriesRef.current = bibEntries;
+    macrosRef.current = macros;
+    indexedFilesRef.current = indexedFiles;
+    auxLabelsRef.current = auxLabels;
+    currentFilePathRef.current = currentFile?.path ?? null;
+  }, [labels, bibEntries, macros, indexedFiles, auxLabels, currentFile?.path]);
+
+  const readFileContentRef = useRef(readFileContent);
+  const resolveIncludePathRef = useRef(resolveIncludePath);
+  const onOpenLocationRef = useRef(onOpenLocation);
+  const onRenamePreviewRef = useRef(onRenamePreview);
+  const onSelectionChangeRef = useRef(onSelectionChange);
+  useEffect(() => {
+    readFileContentRef.current = readFileContent;
+    resolveIncludePathRef.current = resolveIncludePath;
+    onOpenLocationRef.current = onOpenLocation;
+    onRenamePreviewRef.current = onRenamePreview;
+    onSelectionChangeRef.current = onSelectionChange;
+  }, [readFileContent, resolveIncludePath, onOpenLocation, onRenamePreview, onSelectionChange]);
+
+  const spellCheckerRef = useRef(spellChecker);
+  const onAddToDictionaryRef = useRef(onAddToDictionary);
+  // Results per word for the current checker; the text is rechecked on every pause in typing.
+  const spellingCacheRef = useRef<Map<string, boolean>>(new Map());
+  useEffect(() => {
+    if (spellCheckerRef.current !== spellChecker) {
+      spellingCacheRef.current = new Map();
+    }
+    spellCheckerRef.current = spellChecker;
+    onAddToDictionaryRef.current = onAddToDictionary;
+  }, [spellChecker, onAddToDictionary]);
+
+  const formatDocumentRef = useRef(formatDocument);
+  useEffect(() => {
+    formatDocumentRef.current = formatDocument;
+  }, [formatDocument]);
+
+  const mathPreviewRef = useRef(mathPreview);
+  const mathMacrosRef = useRef(mathMacros);
+  // Set once the editor is mounted; repositions or hides the preview widget.
+  const updateMathPreviewRef = useRef<() => void>(() => {});
+  useEffect(() => {
+    mathPreviewRef.current = mathPreview;
+    mathMacrosRef.current = mathMacros;
+    updateMathPreviewRef.current();
+  }, [mathPreview, mathMacros, currentFile?.path]);
+
+  const applyDiagnosticMarkers = useCallback(() => {
+    const model = editorRef.current?.getModel();
+    if (!model) return;
+    monaco.editor.setModelMarkers(model, COMPILE_MARKER_OWNER, toMarkers(model, diagnosticsRef.current));
+  }, []);
+
+  // Runs after the editor has swapped in the current file's text, so lines line up.
+  useEffect(() => {
+    diagnosticsRef.current = diagnostics;
+    applyDiagnosticMarkers();
+  }, [diagnostics, currentFile?.path, applyDiagnosticMarkers]);
+
+  // Quick fixes for compile diagnostics
+  useEffect(() => {
+    const command = monaco.editor.registerCommand(INSERT_PACKAGE_COMMAND, (_accessor, packageName: string) => {
+      onInsertPackageRef.current?.(packageName);
+    });
+
+    const provider = monaco.languages.registerCodeActionProvider('latex', {
+      provideCodeActions: async (model, _range, context) => {
+        const actions: monaco.languages.CodeAction[] = [];
+        const markers = context.markers.filter(marker => marker.source === COMPILE_MARKER_SOURCE);
+
+        for (const marker of markers) {
+          const code = typeof marker.code === 'string' ? marker.code : marker.code?.value;
+          const subject = getDiagnosticSubject({ code, message: marker.message.split('\n')[0] });
+          if (!subject) continue;
+
+          if (code === 'undefined-control-sequence' || code === 'undefined-environment') {
+            const packageName = code === 'undefined-control-sequence'
+              ? suggestPackageForCommand(subject)
+              : suggestPackageForEnvironment(subject);
+            const content = model.getValue();
+            if (!packageName || hasPackage(content, packageName)) continue;
+            const insertLine = findUsepackageInsertLine(content);
+            if (insertLine !== null) {
+              actions.push({
+                title: `Add \\usepackage{${packageName}}`,
+                kind: 'quickfix',
+                diagnostics: [marker],
+                isPreferred: true,
+                edit: {
+                  edits: [insertTextEdit(model, insertLine, model.getLineMaxColumn(insertLine), `\n\\usepackage{${packageName}}`)],
+                },
+              });
+            } else if (onInsertPackageRef.current) {
+              actions.push({
+                title: `Add \\usepackage{${packageName}} to the root document`,
+                kind: 'quickfix',
+                diagnostics: [marker],
+                isPreferred: true,
+                command: { id: INSERT_PACKAGE_COMMAND, title: 'Add package', arguments: [packageName] },
+              });
+            }
+          } else if (code === 'undefined-reference') {
+            const anchor = findLabelAnchor(model.getValue(), subject, marker.startLineNumber);
+            if (!anchor) continue;
+            actions.push({
+              title: `Create \\label{${subject}} on line ${anchor.lineNumber}`,
+              kind: 'quickfix',
+              diagnostics: [marker],
+              edit: { edits: [insertTextEdit(model, anchor.lineNumber, anchor.column, `\\label{${subject}}`)] },
+            });
+          } else if (code === 'missing-file' && findReplacementPathsRef.current) {
+            const lineText = model.getLineContent(marker.startLineNumber);
+            const index = lineText.indexOf(subject);
+            if (index < 0) continue;
+            const replacements = await findReplacementPathsRef.current(subject);
+            replacements.forEach((replacement, order) => {
+              actions.push({
+                title: `Change path to '${replacement}'`,
+                kind: 'quickfix',
+                diagnostics: [marker],
+                isPreferred: order === 0,
+                edit: {
+                  edits: [{
+                    resource: model.uri,
+                    versionId: model.getVersionId(),
+                    textEdit: {
+                      range: new monaco.Range(marker.startLineNumber, index + 1, marker.startLineNumber, index + 1 + subject.length),
+                      text: replacement,
+                    },
+                  }],
+                },
+              });
+            });
+          }
+        }
+
+        return { actions, dispose: () => {} };
+      },
+    }, { providedCodeActionKinds: ['quickfix'] });
+
+    return () => {
+      command.dispose();
+      provider.dispose();
+    };
+  }, []);
+
+  // Lint the current LaTeX or BibTeX file once typing pauses; chktex markers follow when it finishes
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    if (!model) return;
+    if (model.getLanguageId() === BIBTEX_LANGUAGE_ID) {
+      const timer = window.setTimeout(() => {
+        if (model.isDisposed()) return;
+        monaco.editor.setModelMarkers(model, LINT_MARKER_OWNER, toMarkers(model, lintBibTeX(model.getValue(), currentFile?.path), LINT_MARKER_SOURCE));
+      }, LINT_DELAY_MS);
+      return () => window.clearTimeout(timer);
+    }
+    if (!lintSettings || model.getLanguageId() !== 'latex') {
+      monaco.editor.setModelMarkers(model, LINT_MARKER_OWNER, []);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      if (model.isDisposed()) return;
+      const text = model.getValue();
+      const markers = toMarkers(model, lintLatex(text, {
+        settings: lintSettings,
+        filePath: currentFile?.path,
+        projectLabels: labels,
+      }), LINT_MARKER_SOURCE);
+      monaco.editor.setModelMarkers(model, LINT_MARKER_OWNER, markers);
+      if (!lintSettings.chktex || !runChktex) return;
+      const chktexDiagnostics = await runChktex(text);
+      if (cancelled || !chktexDiagnostics || model.isDisposed() || model.getValue() !== text) return;
+      monaco.editor.setModelMarkers(model, LINT_MARKER_OWNER, [
+        ...markers,
+        ...toMarkers(model, chktexDiagnostics, CHKTEX_MARKER_SOURCE),
+      ]);
+    }, LINT_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [content, currentFile?.path, lintSettings, runChktex, labels]);
+
+  // Spell checking of the current LaTeX file, once typing pauses
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    if (!model) return;
+    if (!spellChecker || model.getLanguageId() !== 'latex') {
+      monaco.editor.setModelMarkers(model, SPELLING_MARKER_OWNER, []);
+      return;
+    }
+
+    const timer = window.setTimeout(() => {
+      if (model.isDisposed()) return;
+      const accepted = new Set(spellingWords);
+      const cache = spellingCacheRef.current;
+      const isCorrect = (word: string) => {
+        let correct = cache.get(word);
+        if (correct === undefined) {
+          correct = spellChecker.check(word);
+          cache.set(word, correct);
+        }
+        return correct;
+      };
+      const markers = extractSpellingWords(model.getValue())
+        .filter(({ word }) => !accepted.has(word) && !isCorrect(word))
+        .map(({ word, line, column }): monaco.editor.IMarkerData => ({
+          severity: monaco.MarkerSeverity.Info,
+          message: `Unknown word "${word}"`,
+          source: SPELLING_MARKER_SOURCE,
+          startLineNumber: line,
+          startColumn: column,
+          endLineNumber: line,
+          endColumn: column + word.length,
+        }));
+      monaco.editor.setModelMarkers(model, SPELLING_MARKER_OWNER, markers);
+    }, SPELLING_DELAY_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [content, currentFile?.path, spellChecker, spellingWords]);
+
+  // Spelling suggestions and adding words to the project dictionary
+  useEffect(() => {
+    const command = monaco.editor.registerCommand(ADD_TO_DICTIONARY_COMMAND, (_accessor, word: string) => {
+      onAddToDictionaryRef.current?.(word);
+    });
+
+    const provider = monaco.languages.registerCodeActionProvider('latex', {
+      provideCodeActions: (model, _range, context) => {
+        const actions: monaco.languages.CodeAction[] = [];
+        const checker = spellCheckerRef.current;
+        context.markers
+          .filter(marker => marker.source === SPELLING_MARKER_SOURCE)
+          .forEach(marker => {
+            const range = new monaco.Range(marker.startLineNumber, marker.startColumn, marker.endLineNumber, marker.endColumn);
+            const word = model.getValueInRange(range);
+            (checker?.suggest(word, MAX_SPELLING_SUGGESTIONS) ?? []).forEach((suggestion, order) => {
+              actions.push({
+                title: `Change to '${suggestion}'`,
+                kind: 'quickfix',
+                diagnostics: [marker],
+                isPreferred: order === 0,
+                edit: {
+                  edits: [{
+                    resource: model.uri,
+                    versionId: model.getVersionId(),
+                    textEdit: { range, text: suggestion },
+                  }],
+                },
+              });
+            });
+            if (onAddToDictionaryRef.current) {
+              actions.push({
+                title: `Add '${word}' to project dictionary`,
+                kind: 'quickfix',
+                diagnostics: [marker],
+                command: { id: ADD_TO_DICTIONARY_COMMAND, title: 'Add to dictionary', arguments: [word] },
+              });
+            }
+          });
+        return { actions, dispose: () => {} };
+      },
+    }, { providedCodeActionKinds: ['quickfix'] });
+
+    return () => {
+      command.dispose();
+      provider.dispose();
+    };
+  }, []);
+
+  // Format Document (Shift+Alt+F) goes through the project's formatter
+  useEffect(() => {
+    const providers = ['latex', BIBTEX_LANGUAGE_ID].map(language => monaco.languages.registerDocumentFormattingEditProvider(language, {
+      provideDocumentFormattingEdits: async (model) => {
+        const text = model.getValue();
+        const formatted = await formatDocumentRef.current?.(text);
+        // Skip the edit if the text changed while an external formatter was running.
+        if (!formatted || formatted === text || model.isDisposed() || model.getValue() !== text) return [];
+        return [{ range: model.getFullModelRange(), text: formatted }];
+      },
+    }));
+    return () => providers.forEach(provider => provider.dispose());
+  }, []);
+
+  // Entry snippets and one fold per entry in .bib files
+  useEffect(() => {
+    const completion = monaco.languages.registerCompletionItemProvider(BIBTEX_LANGUAGE_ID, {
+      triggerCharacters: ['@'],
+      provideCompletionItems: (model, position) => {
+        const linePrefix = model.getLineContent(position.lineNumber).slice(0, position.column - 1);
+        const match = linePrefix.match(/^\s*(@[a-zA-Z]*)$/);
+        if (!match) return { suggestions: [] };
+        const startColumn = position.column - match[1].length;
+        return {
+          suggestions: bibtexSnippets.map(snippet => ({
+            label: snippet.label,
+            kind: monaco.languages.CompletionItemKind.Snippet,
+            detail: snippet.detail,
+            insertText: snippet.insertText,
+            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            range: new monaco.Range(position.lineNumber, startColumn, position.lineNumber, position.column),
+          })),
+        };
+      },
+    });
+    const folding = monaco.languages.registerFoldingRangeProvider(BIBTEX_LANGUAGE_ID, {
+      provideFoldingRanges: (model) => scanBibTeX(model.getValue())
+        .map(entry => ({
+          start: model.getPositionAt(entry.start).lineNumber,
+          end: model.getPositionAt(Math.max(entry.start, entry.end - 1)).lineNumber,
+        }))
+        .filter(range => range.end > range.start),
+    });
+    return () => {
+      completion.dispose();
+      folding.dispose();
+    };
+  }, []);
+
   // Register LaTeX snippets once
   useEffect(() => {
     const disposable = monaco.languages.registerCompletionItemProvider('latex', {
@@ -193,6 +689,9 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
           position.lineNumber,
           position.column
         ));
+        if (getCompletionContext(linePrefix)) {
+          return { suggestions: [] };
+        }
         const match = linePrefix.match(/\\([a-zA-Z]*)$/);
         const prefix = match ? match[1].toLowerCase() : '';
         const startColumn = Math.max(1, position.column - (prefix.length + 1));
@@ -216,6 +715,275 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
     return () => disposable?.dispose();
   }, []);
 
+  // Label keys inside \ref{...} and friends, citation keys inside \cite{...} and friends
+  useEffect(() => {
+    const disposable = monaco.languages.registerCompletionItemProvider('latex', {
+      triggerCharacters: ['{', ','],
+      provideCompletionItems: (model, position) => {
+        const linePrefix = model.getValueInRange(new monaco.Range(
+          position.lineNumber,
+          1,
+          position.lineNumber,
+          position.column
+        ));
+        const context = getCompletionContext(linePrefix);
+        if (!context) {
+          return { suggestions: [] };
+        }
+        const range = new monaco.Range(
+          position.lineNumber,
+          position.column - context.prefix.length,
+          position.lineNumber,
+          position.column
+        );
+        const fileName = (filePath: string) => filePath.split(/[\\/]/).pop() || filePath;
+
+        if (context.kind === 'reference') {
+          const currentPath = currentFilePathRef.current;
+          // The open file's labels come from the editor, which may be ahead of the saved file.
+          const labels = [
+            ...extractLabels(model.getValue(), currentPath || ''),
+            ...labelsRef.current.filter(label => !currentPath || !samePath(label.file, currentPath)),
+          ];
+          const seen = new Set<string>();
+          const suggestions = labels
+            .filter(label => {
+              if (seen.has(label.key)) return false;
+              seen.add(label.key);
+              return true;
+            })
+            .map(label => ({
+              label: label.key,
+              kind: monaco.languages.CompletionItemKind.Reference,
+              detail: `${fileName(label.file)}:${label.line}`,
+              documentation: label.context,
+              insertText: label.key,
+              range,
+            }));
+          return { suggestions };
+        }
+
+        const suggestions = bibEntriesRef.current.map(entry => {
+          const authors = formatBibAuthors(entry.fields.author || entry.fields.editor);
+          const title = cleanBibValue(entry.fields.title);
+          const year = cleanBibValue(entry.fields.year || entry.fields.date);
+          return {
+            label: entry.key,
+            kind: monaco.languages.CompletionItemKind.Value,
+            detail: [authors, title].filter(Boolean).join(': '),
+            documentation: `@${entry.type}${year ? `, ${year}` : ''} (${fileName(entry.file)})`,
+            // Typing part of the author or title also finds the key.
+            filterText: `${entry.key} ${authors} ${title}`,
+            insertText: entry.key,
+            range,
+          };
+        });
+        return { suggestions };
+      },
+    });
+
+    return () => disposable.dispose();
+  }, []);
+
+  // Go to definition, find references and hover for labels, citations, macros and included files
+  useEffect(() => {
+    // Other files get their own models so peek views can show them; the URIs map back to the
+    // paths the app uses (Uri.fsPath may change drive letter case).
+    const auxiliaryModels = new Set<monaco.editor.ITextModel>();
+    const uriPaths = new Map<string, string>();
+    const fileUri = (filePath: string) => {
+      const uri = monaco.Uri.file(filePath);
+      uriPaths.set(uri.toString(), filePath);
+      return uri;
+    };
+    const isCurrentFile = (filePath: string) => Boolean(currentFilePathRef.current && samePath(filePath, currentFilePathRef.current));
+
+    const getFileModel = async (filePath: string, currentModel: monaco.editor.ITextModel) => {
+      if (isCurrentFile(filePath)) return currentModel;
+      const content = await readFileContentRef.current?.(filePath);
+      if (content === null || content === undefined) return null;
+      const uri = fileUri(filePath);
+      const existing = monaco.editor.getModel(uri);
+      if (existing) {
+        if (existing.getValue() !== content) existing.setValue(content);
+        return existing;
+      }
+      const model = monaco.editor.createModel(content, /\.bib$/i.test(filePath) ? BIBTEX_LANGUAGE_ID : 'latex', uri);
+      auxiliaryModels.add(model);
+      return model;
+    };
+
+    const linkTo = async (
+      currentModel: monaco.editor.ITextModel,
+      origin: monaco.IRange,
+      filePath: string,
+      line: number,
+      column: number,
+      length = 0
+    ): Promise<monaco.languages.LocationLink> => {
+      const model = await getFileModel(filePath, currentModel);
+      return {
+        originSelectionRange: origin,
+        uri: model ? model.uri : fileUri(filePath),
+        range: new monaco.Range(line, column, line, column + length),
+      };
+    };
+
+    const definitionProvider = monaco.languages.registerDefinitionProvider('latex', {
+      provideDefinition: async (model, position) => {
+        const symbol = findSymbolAt(model.getLineContent(position.lineNumber), position.column);
+        if (!symbol) return null;
+        const origin = new monaco.Range(position.lineNumber, symbol.startColumn, position.lineNumber, symbol.endColumn);
+        const currentPath = currentFilePathRef.current || '';
+
+        if (symbol.kind === 'file') {
+          const target = await resolveIncludePathRef.current?.(symbol.command, symbol.name);
+          if (!target) return null;
+          return [{ originSelectionRange: origin, uri: fileUri(target), range: new monaco.Range(1, 1, 1, 1) }];
+        }
+        if (symbol.kind === 'label' || symbol.kind === 'reference') {
+          const label = extractLabels(model.getValue(), currentPath).find(item => item.key === symbol.name)
+            || labelsRef.current.find(item => item.key === symbol.name && !isCurrentFile(item.file));
+          if (!label) return null;
+          return [await linkTo(model, origin, label.file || currentPath, label.line, label.column, `\\label{${label.key}}`.length)];
+        }
+        if (symbol.kind === 'citation') {
+          const entry = bibEntriesRef.current.find(item => item.key === symbol.name);
+          if (!entry) return null;
+          return [await linkTo(model, origin, entry.file, entry.line, 1)];
+        }
+        const macro = extractMacroDefinitions(model.getValue())
+          .map(item => ({ ...item, file: currentPath }))
+          .find(item => item.name === symbol.name)
+          || macrosRef.current.find(item => item.name === symbol.name && !isCurrentFile(item.file));
+        if (!macro) return null;
+        return [await linkTo(model, origin, macro.file, macro.line, macro.column, symbol.name.length + 1)];
+      },
+    });
+
+    const referenceProvider = monaco.languages.registerReferenceProvider('latex', {
+      provideReferences: async (model, position, context) => {
+        const symbol = findSymbolAt(model.getLineContent(position.lineNumber), position.column);
+        if (!symbol || symbol.kind === 'file') return [];
+        const currentPath = currentFilePathRef.current;
+        const files = indexedFilesRef.current.filter(filePath => (
+          !isCurrentFile(filePath) && (symbol.kind === 'citation' || !/\.bib$/i.test(filePath))
+        ));
+
+        const locations: monaco.languages.Location[] = [];
+        const collect = (target: monaco.editor.ITextModel, bib: boolean) => {
+          findSymbolOccurrences(target.getValue(), symbol, { bib })
+            .filter(occurrence => context.includeDeclaration || !occurrence.isDefinition)
+            .forEach(occurrence => locations.push({
+              uri: target.uri,
+              range: new monaco.Range(occurrence.line, occurrence.column, occurrence.line, occurrence.column + occurrence.length),
+            }));
+        };
+        if (currentPath) collect(model, false);
+        for (const filePath of files) {
+          const target = await getFileModel(filePath, model);
+          if (target) collect(target, /\.bib$/i.test(filePath));
+        }
+        return locations;
+      },
+    });
+
+    const hoverProvider = monaco.languages.registerHoverProvider('latex', {
+      provideHover: (model, position) => {
+        const symbol = findSymbolAt(model.getLineContent(position.lineNumber), position.column);
+        if (!symbol) return null;
+        const range = new monaco.Range(position.lineNumber, symbol.startColumn, position.lineNumber, symbol.endColumn);
+
+        if (symbol.kind === 'citation') {
+          const entry = bibEntriesRef.current.find(item => item.key === symbol.name);
+          return {
+            range,
+            contents: entry
+              ? [{ value: `**${entry.key}** · ${entry.file.split(/[\\/]/).pop()}` }, { value: formatBibEntry(entry) }]
+              : [{ value: `No bibliography entry for \`${symbol.name}\`.` }],
+          };
+        }
+        if (symbol.kind === 'reference') {
+          const resolved = auxLabelsRef.current[symbol.name];
+          if (resolved) {
+            const details = [resolved.page && `page ${resolved.page}`, resolved.title && cleanBibValue(resolved.title)].filter(Boolean).join(' · ');
+            return { range, contents: [{ value: `**${resolved.number || '??'}**${details ? ` · ${details}` : ''}` }] };
+          }
+          const known = labelsRef.current.some(item => item.key === symbol.name)
+            || extractLabels(model.getValue(), '').some(item => item.key === symbol.name);
+          return {
+            range,
+            contents: [{ value: known ? 'Not numbered yet. Compile to resolve this reference.' : `Undefined label \`${symbol.name}\`.` }],
+          };
+        }
+        return null;
+      },
+    });
+
+    const renameProvider = monaco.languages.registerRenameProvider('latex', {
+      resolveRenameLocation: (model, position) => {
+        const symbol = findSymbolAt(model.getLineContent(position.lineNumber), position.column);
+        if (!symbol || !getRenameKind(symbol.kind)) {
+          return { range: new monaco.Range(position.lineNumber, position.column, position.lineNumber, position.column), text: '', rejectReason: 'Only labels, citation keys and macros can be renamed.' };
+        }
+        // Macro ranges start at the backslash; only the name is edited.
+        const start = symbol.kind === 'macro' ? symbol.startColumn + 1 : symbol.startColumn;
+        const range = new monaco.Range(position.lineNumber, start, position.lineNumber, symbol.endColumn);
+        if (symbol.kind === 'macro') {
+          const defined = extractMacroDefinitions(model.getValue()).some(item => item.name === symbol.name)
+            || macrosRef.current.some(item => item.name === symbol.name);
+          if (!defined) return { range, text: symbol.name, rejectReason: `\\${symbol.name} is not defined in this project.` };
+        }
+        return { range, text: symbol.name };
+      },
+      provideRenameEdits: async (model, position, newName) => {
+        const symbol = findSymbolAt(model.getLineContent(position.lineNumber), position.column);
+        if (!symbol) return { edits: [] };
+        const currentPath = currentFilePathRef.current;
+        const sources: RenameSource[] = [{ path: currentPath || model.uri.toString(), content: model.getValue() }];
+        for (const filePath of indexedFilesRef.current) {
+          if (isCurrentFile(filePath)) continue;
+          const content = await readFileContentRef.current?.(filePath);
+          if (content !== null && content !== undefined) sources.push({ path: filePath, content });
+        }
+
+        const { plan, error } = planRename(sources, symbol, newName);
+        if (!plan || !currentPath) {
+          // The standalone notification service has no UI, so report next to the cursor instead.
+          const message = error || 'Save the file before renaming across the project.';
+          editorRef.current?.getContribution('editor.contrib.messageController')?.showMessage(message, position);
+          return { edits: [] };
+        }
+        onRenamePreviewRef.current?.(plan);
+        return { edits: [] };
+      },
+    });
+
+    const opener = monaco.editor.registerEditorOpener({
+      openCodeEditor: (_source, resource, selectionOrPosition) => {
+        if (resource.scheme !== 'file' || !onOpenLocationRef.current) return false;
+        const position = selectionOrPosition && 'startLineNumber' in selectionOrPosition
+          ? { lineNumber: selectionOrPosition.startLineNumber, column: selectionOrPosition.startColumn }
+          : selectionOrPosition || { lineNumber: 1, column: 1 };
+        onOpenLocationRef.current({
+          file: uriPaths.get(resource.toString()) || resource.fsPath,
+          line: position.lineNumber,
+          column: position.column,
+        });
+        return true;
+      },
+    });
+
+    return () => {
+      definitionProvider.dispose();
+      referenceProvider.dispose();
+      hoverProvider.dispose();
+      renameProvider.dispose();
+      opener.dispose();
+      auxiliaryModels.forEach(model => model.dispose());
+    };
+  }, []);
+
   useEffect(() => {
     if (!editorRef.current) {
       return;
@@ -313,9 +1081,101 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
     return className;
   };
 
+  const setupMathPreview = (editor: monaco.editor.IStandaloneCodeEditor) => {
+    const node = document.createElement('div');
+    node.className = 'math-preview-widget';
+    let position: monaco.editor.IContentWidgetPosition | null = null;
+    let shown = false;
+    let lastRender = '';
+    const widget: monaco.editor.IContentWidget = {
+      allowEditorOverflow: true,
+      getId: () => MATH_PREVIEW_WIDGET_ID,
+      getDomNode: () => node,
+      getPosition: () => position,
+    };
+
+    const hide = () => {
+      if (!shown) return;
+      editor.removeContentWidget(widget);
+      shown = false;
+    };
+
+    const update = () => {
+      const model = editor.getModel();
+      const cursor = editor.getPosition();
+      const mode = mathPreviewRef.current;
+      if (!model || !cursor || mode === 'off' || model.getLanguageId() !== 'latex') {
+        hide();
+        return;
+      }
+      const region = findMathAt(model.getValue(), cursor.lineNumber, cursor.column);
+      if (!region) {
+        hide();
+        return;
+      }
+
+      const macros = mathMacrosRef.current;
+      const key = `${region.display}\u0000${region.tex}\u0000${JSON.stringify(macros)}`;
+      if (key !== lastRender) {
+        const result = renderMath(region.tex, region.display, macros);
+        node.classList.toggle('math-preview-error', result.error !== undefined);
+        if (result.error !== undefined) {
+          node.textContent = result.error;
+        } else {
+          node.innerHTML = result.svg;
+        }
+        lastRender = key;
+      }
+
+      position = mode === 'below'
+        ? {
+            position: { lineNumber: region.endLine, column: 1 },
+            preference: [monaco.editor.ContentWidgetPositionPreference.BELOW],
+          }
+        : {
+            position: cursor,
+            preference: [
+              monaco.editor.ContentWidgetPositionPreference.ABOVE,
+              monaco.editor.ContentWidgetPositionPreference.BELOW,
+            ],
+          };
+      if (shown) {
+        editor.layoutContentWidget(widget);
+      } else {
+        editor.addContentWidget(widget);
+        shown = true;
+      }
+    };
+
+    let timer: number | undefined;
+    const schedule = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(update, MATH_PREVIEW_DELAY_MS);
+    };
+    editor.onDidChangeCursorPosition(schedule);
+    editor.onDidChangeModelContent(schedule);
+    editor.onDidChangeModel(() => {
+      hide();
+      schedule();
+    });
+    editor.onDidDispose(() => window.clearTimeout(timer));
+    updateMathPreviewRef.current = update;
+  };
+
   const handleEditorDidMount = (editor: any, monaco: any) => {
     editorRef.current = editor;
     registerCursorListener();
+    applyDiagnosticMarkers();
+    setupMathPreview(editor);
+    editor.onDidChangeCursorSelection(() => {
+      const model = editor.getModel();
+      if (!model || !onSelectionChangeRef.current) return;
+      const text = editor.getSelections()
+        .filter((selection: any) => !selection.isEmpty())
+        .map((selection: any) => model.getValueInRange(selection))
+        .join('\n');
+      onSelectionChangeRef.current(text);
+    });
     // Add click handler for glyph margin to remove annotations
     editor.onMouseDown((e: any) => {
       if (e.target.type === monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN) {
@@ -382,6 +1242,12 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
     const languages = monaco.languages.getLanguages();
     const latexLang = languages.find((lang: any) => lang.id === 'latex');
 
+    if (!languages.some((lang: any) => lang.id === BIBTEX_LANGUAGE_ID)) {
+      monaco.languages.register({ id: BIBTEX_LANGUAGE_ID, extensions: ['.bib'] });
+      monaco.languages.setMonarchTokensProvider(BIBTEX_LANGUAGE_ID, bibtexTokens);
+      monaco.languages.setLanguageConfiguration(BIBTEX_LANGUAGE_ID, bibtexConfiguration);
+    }
+
     if (!latexLang) {
       monaco.languages.register({ id: 'latex' });
 
@@ -404,7 +1270,11 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
 
       // LaTeX autocompletion
       monaco.languages.registerCompletionItemProvider('latex', {
-        provideCompletionItems: () => {
+        provideCompletionItems: (model: any, position: any) => {
+          const linePrefix = model.getLineContent(position.lineNumber).slice(0, position.column - 1);
+          if (getCompletionContext(linePrefix)) {
+            return { suggestions: [] };
+          }
           const suggestions = [
             {
               label: '\\documentclass',
@@ -484,6 +1354,39 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
       if (!editorRef.current) return;
       editorRef.current.getAction('editor.action.startFindReplaceAction')?.run();
     },
+    formatDocument: async () => {
+      if (!editorRef.current) return null;
+      await editorRef.current.getAction('editor.action.formatDocument')?.run();
+      return editorRef.current.getValue();
+    },
+    insertMath: (text: string, { snippet = false, display = false, packageName }: {
+      snippet?: boolean;
+      display?: boolean;
+      packageName?: string;
+    } = {}) => {
+      const editor = editorRef.current;
+      const model = editor?.getModel();
+      if (!model || !editor.getPosition()) return false;
+      // Added first: the edit shifts the cursor down, and would end a snippet session.
+      const insertLine = packageName && !loadsPackage(model.getValue(), packageName)
+        ? findUsepackageInsertLine(model.getValue())
+        : null;
+      if (insertLine !== null) {
+        const column = model.getLineMaxColumn(insertLine);
+        editor.executeEdits('insert-package', [{
+          range: new monaco.Range(insertLine, column, insertLine, column),
+          text: `\n\\usepackage{${packageName}}`,
+        }]);
+      }
+      const position = editor.getPosition();
+      const body = snippet ? text : text.replace(/[\\$}]/g, '\\$&');
+      const wrapped = isInMath(model.getValue(), position.lineNumber, position.column)
+        ? body
+        : display ? `\\\\[\n${body}\n\\\\]` : `\\$${body}\\$`;
+      editor.focus();
+      editor.getContribution('snippetController2')?.insert(wrapped);
+      return insertLine !== null;
+    },
     focus: () => {
       editorRef.current?.focus();
     },
@@ -708,7 +1611,7 @@ const Editor = forwardRef<EditorHandle, EditorProps>(({
     if (!currentFile) return 'plaintext';
     const ext = currentFile.name.split('.').pop()?.toLowerCase();
     if (ext === 'tex' || ext === 'latex') return 'latex';
-    if (ext === 'bib') return 'plaintext';
+    if (ext === 'bib') return BIBTEX_LANGUAGE_ID;
     if (ext === 'md') return 'markdown';
     if (ext === 'json') return 'json';
     return 'plaintext';
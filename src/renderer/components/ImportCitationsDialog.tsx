@@ -0,0 +1,286 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FiUpload, FiX } from 'react-icons/fi';
+import { cleanBibValue } from '../../shared/bibtex';
+import type { BibEntryDraft } from '../../shared/bibliography';
+import {
+  CITATION_FORMAT_LABELS,
+  CITATION_FORMATS,
+  CitationFormat,
+  DEFAULT_CITATION_KEY_PATTERN,
+  KeyConflictHandling,
+  parseCitations,
+  prepareCitationImport,
+} from '../../shared/citationImport';
+import type { IndexedBibEntry } from '../../shared/latexIndex';
+import '../styles/ImportCitationsDialog.css';
+
+interface ImportCitationsDialogProps {
+  isOpen: boolean;
+  // `.bib` files the entries can be appended to.
+  files: string[];
+  // Entries already in the project, whose keys must not be reused.
+  existingEntries: IndexedBibEntry[];
+  displayPath: (filePath: string) => string;
+  // Resolves to an error message, or null once the entries are written.
+  onImport: (file: string, entries: BibEntryDraft[]) => Promise<string | null>;
+  onCancel: () => void;
+}
+
+interface DroppedFile {
+  name: string;
+  text: string;
+}
+
+const PATTERN_STORAGE_KEY = 'openotex:citationKeyPattern';
+
+const readStoredPattern = () => {
+  try {
+    return localStorage.getItem(PATTERN_STORAGE_KEY) || DEFAULT_CITATION_KEY_PATTERN;
+  } catch {
+    return DEFAULT_CITATION_KEY_PATTERN;
+  }
+};
+
+const STATUS_LABELS = {
+  new: 'New',
+  renamed: 'Key changed',
+  skipped: 'Skipped',
+};
+
+const ImportCitationsDialog: React.FC<ImportCitationsDialogProps> = ({
+  isOpen,
+  files,
+  existingEntries,
+  displayPath,
+  onImport,
+  onCancel,
+}) => {
+  const [text, setText] = useState('');
+  const [droppedFiles, setDroppedFiles] = useState<DroppedFile[]>([]);
+  const [format, setFormat] = useState<CitationFormat | 'auto'>('auto');
+  const [targetFile, setTargetFile] = useState('');
+  const [pattern, setPattern] = useState(readStoredPattern);
+  const [keepKeys, setKeepKeys] = useState(true);
+  const [onConflict, setOnConflict] = useState<KeyConflictHandling>('suffix');
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setText('');
+    setDroppedFiles([]);
+    setFormat('auto');
+    setTargetFile(files[0] ?? '');
+    setError(null);
+    setIsImporting(false);
+  }, [isOpen, files]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(PATTERN_STORAGE_KEY, pattern);
+    } catch (storageError) {
+      console.error('Error saving citation key pattern:', storageError);
+    }
+  }, [pattern]);
+
+  const sources = useMemo(() => [
+    ...(text.trim() ? [{ name: 'Pasted text', text }] : []),
+    ...droppedFiles,
+  ].map(source => ({ ...source, ...parseCitations(source.text, format === 'auto' ? undefined : format) })), [text, droppedFiles, format]);
+
+  const existingKeys = useMemo(() => new Map(existingEntries.map(entry => [entry.key, entry.file])), [existingEntries]);
+
+  const prepared = useMemo(() => prepareCitationImport(
+    sources.flatMap(source => source.entries),
+    existingKeys.keys(),
+    { pattern: pattern.trim() || DEFAULT_CITATION_KEY_PATTERN, keepKeys, onConflict }
+  ), [sources, existingKeys, pattern, keepKeys, onConflict]);
+
+  if (!isOpen) return null;
+
+  const accepted = prepared.filter(item => item.status !== 'skipped');
+  const parseErrors = sources.flatMap(source => source.errors.map(message => `${source.name}: ${message}`));
+
+  const addFiles = async (list: FileList | null) => {
+    if (!list || list.length === 0) return;
+    const added = await Promise.all(Array.from(list).map(async file => ({ name: file.name, text: await file.text() })));
+    setDroppedFiles(prev => [...prev, ...added]);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    void addFiles(e.dataTransfer.files);
+  };
+
+  const handleImport = async () => {
+    if (!targetFile || accepted.length === 0) return;
+    setIsImporting(true);
+    const failure = await onImport(targetFile, accepted.map(item => item.entry));
+    setIsImporting(false);
+    setError(failure);
+  };
+
+  const describeStatus = (item: typeof prepared[number]) => {
+    const owner = existingKeys.get(item.proposedKey);
+    const where = owner ? ` (${item.proposedKey} is in ${displayPath(owner)})` : ` (${item.proposedKey} appears earlier in the import)`;
+    return item.status === 'new' ? STATUS_LABELS.new : `${STATUS_LABELS[item.status]}${where}`;
+  };
+
+  return (
+    <div className="import-citations-overlay" onClick={onCancel}>
+      <div className="import-citations-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="import-citations-header">
+          <h3>Import Citations</h3>
+          <button className="import-citations-close" onClick={onCancel} aria-label="Close">
+            <FiX size={20} />
+          </button>
+        </div>
+        <div className="import-citations-body">
+          <div
+            className={`import-citations-drop ${isDragging ? 'dragging' : ''}`}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+          >
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Paste BibTeX, RIS, EndNote XML or CSL-JSON, or drop exported files here"
+              spellCheck={false}
+              autoFocus
+            />
+            <div className="import-citations-files">
+              {droppedFiles.map((file, index) => (
+                <span key={`${file.name}:${index}`} className="import-citations-file">
+                  {file.name}
+                  <button
+                    type="button"
+                    onClick={() => setDroppedFiles(prev => prev.filter((_, current) => current !== index))}
+                    aria-label={`Remove ${file.name}`}
+                  >
+                    <FiX size={11} />
+                  </button>
+                </span>
+              ))}
+              <button type="button" className="import-citations-browse" onClick={() => fileInputRef.current?.click()}>
+                <FiUpload size={12} />
+                Choose files
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept=".bib,.ris,.xml,.json,.txt"
+                hidden
+                onChange={(e) => {
+                  void addFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          </div>
+
+          <div className="import-citations-options">
+            <label>
+              Format
+              <select value={format} onChange={(e) => setFormat(e.target.value as CitationFormat | 'auto')}>
+                <option value="auto">Detect automatically</option>
+                {CITATION_FORMATS.map(option => (
+                  <option key={option} value={option}>{CITATION_FORMAT_LABELS[option]}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Key pattern
+              <input
+                type="text"
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                title="Tokens: author, authors, year, shortyear, firstword, title. Capitalise a token to capitalise its value."
+                spellCheck={false}
+              />
+            </label>
+            <label>
+              Existing keys
+              <select value={onConflict} onChange={(e) => setOnConflict(e.target.value as KeyConflictHandling)}>
+                <option value="suffix">Add a letter to the new key</option>
+                <option value="skip">Skip the new entry</option>
+              </select>
+            </label>
+            <label>
+              Append to
+              <select value={targetFile} onChange={(e) => setTargetFile(e.target.value)}>
+                {files.map(option => <option key={option} value={option}>{displayPath(option)}</option>)}
+              </select>
+            </label>
+            <label className="import-citations-checkbox">
+              <input type="checkbox" checked={keepKeys} onChange={(e) => setKeepKeys(e.target.checked)} />
+              Keep keys from the source
+            </label>
+          </div>
+
+          {sources.length > 0 && (
+            <div className="import-citations-detected">
+              {sources.map((source, index) => (
+                <span key={`${source.name}:${index}`}>
+                  {source.name}: {source.format ? CITATION_FORMAT_LABELS[source.format] : 'unknown format'}, {source.entries.length} {source.entries.length === 1 ? 'entry' : 'entries'}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {prepared.length > 0 && (
+            <table className="import-citations-preview">
+              <thead>
+                <tr>
+                  <th>Key</th>
+                  <th>Type</th>
+                  <th>Title</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {prepared.map((item, index) => (
+                  <tr key={index} className={item.status}>
+                    <td className="import-citations-key">{item.entry.key}</td>
+                    <td>{item.entry.type}</td>
+                    <td>{cleanBibValue(item.entry.fields.title)}</td>
+                    <td>{describeStatus(item)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {(parseErrors.length > 0 || error) && (
+            <ul className="import-citations-errors">
+              {parseErrors.map(message => <li key={message}>{message}</li>)}
+              {error && <li>{error}</li>}
+            </ul>
+          )}
+        </div>
+        <div className="import-citations-footer">
+          <button type="button" className="btn-cancel" onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="btn-confirm"
+            onClick={handleImport}
+            disabled={isImporting || !targetFile || accepted.length === 0}
+          >
+            Import {accepted.length > 0 ? `${accepted.length} ${accepted.length === 1 ? 'entry' : 'entries'}` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportCitationsDialog;
@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FiX } from 'react-icons/fi';
+import type { MathMacros } from '../../shared/mathPreview';
+import { buildMatrix, isCasesEnvironment, MATRIX_ENVIRONMENTS, MatrixEnvironment } from '../../shared/mathSymbols';
+import { renderMath } from '../utils/mathJax';
+import '../styles/MatrixBuilderDialog.css';
+
+interface MatrixBuilderDialogProps {
+  isOpen: boolean;
+  // Project macros, so the preview matches the document.
+  macros?: MathMacros;
+  onInsert: (latex: string, options: { display: boolean; packageName?: string }) => void;
+  onClose: () => void;
+}
+
+const MAX_SIZE = 10;
+
+const resize = (cells: string[][], rows: number, columns: number) => (
+  Array.from({ length: rows }, (_, row) => Array.from({ length: columns }, (_, column) => cells[row]?.[column] ?? ''))
+);
+
+const clampSize = (value: string) => Math.min(MAX_SIZE, Math.max(1, Number(value) || 1));
+
+const MatrixBuilderDialog: React.FC<MatrixBuilderDialogProps> = ({ isOpen, macros = {}, onInsert, onClose }) => {
+  const [environment, setEnvironment] = useState<MatrixEnvironment>('pmatrix');
+  const [cells, setCells] = useState<string[][]>(() => resize([], 2, 2));
+  const [arrayColumns, setArrayColumns] = useState('');
+  const isCases = isCasesEnvironment(environment);
+
+  useEffect(() => {
+    if (isOpen) {
+      setCells(resize([], 2, 2));
+      setArrayColumns('');
+    }
+  }, [isOpen]);
+
+  // Cases always have a value and a condition.
+  useEffect(() => {
+    if (isCases) {
+      setCells(prev => resize(prev, prev.length, 2));
+    }
+  }, [isCases]);
+
+  const latex = useMemo(() => buildMatrix({ environment, cells, columns: arrayColumns }), [environment, cells, arrayColumns]);
+  const display = environment !== 'smallmatrix';
+  const preview = useMemo(() => (isOpen ? renderMath(latex, display, macros) : null), [isOpen, latex, display, macros]);
+
+  if (!isOpen) return null;
+
+  const rowCount = cells.length;
+  const columnCount = cells[0]?.length ?? 1;
+  const packageName = MATRIX_ENVIRONMENTS.find(option => option.id === environment)?.package;
+
+  const setCell = (row: number, column: number, value: string) => {
+    setCells(prev => prev.map((cellsInRow, index) => (
+      index === row ? cellsInRow.map((cell, current) => (current === column ? value : cell)) : cellsInRow
+    )));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const handleInsert = () => {
+    onInsert(latex, { display, packageName });
+    onClose();
+  };
+
+  return (
+    <div className="matrix-builder-overlay" onClick={onClose} onKeyDown={handleKeyDown}>
+      <div className="matrix-builder-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="matrix-builder-header">
+          <h3>Matrix Builder</h3>
+          <button className="matrix-builder-close" onClick={onClose} aria-label="Close">
+            <FiX size={20} />
+          </button>
+        </div>
+        <div className="matrix-builder-body">
+          <div className="matrix-builder-options">
+            <label>
+              Environment
+              <select value={environment} onChange={(e) => setEnvironment(e.target.value as MatrixEnvironment)}>
+                {MATRIX_ENVIRONMENTS.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Rows
+              <input
+                type="number"
+                min={1}
+                max={MAX_SIZE}
+                value={rowCount}
+                onChange={(e) => setCells(prev => resize(prev, clampSize(e.target.value), columnCount))}
+              />
+            </label>
+            <label>
+              Columns
+              <input
+                type="number"
+                min={1}
+                max={MAX_SIZE}
+                value={columnCount}
+                disabled={isCases}
+                onChange={(e) => setCells(prev => resize(prev, rowCount, clampSize(e.target.value)))}
+              />
+            </label>
+            {environment === 'array' && (
+              <label>
+                Alignment
+                <input
+                  type="text"
+                  value={arrayColumns}
+                  placeholder={'c'.repeat(columnCount)}
+                  onChange={(e) => setArrayColumns(e.target.value)}
+                />
+              </label>
+            )}
+          </div>
+
+          <div
+            className="matrix-builder-grid"
+            style={{ gridTemplateColumns: `repeat(${columnCount}, minmax(60px, 1fr))` }}
+          >
+            {isCases && (
+              <>
+                <span className="matrix-builder-column-label">Value</span>
+                <span className="matrix-builder-column-label">Condition</span>
+              </>
+            )}
+            {cells.map((row, rowIndex) => row.map((cell, columnIndex) => (
+              <input
+                key={`${rowIndex}:${columnIndex}`}
+                type="text"
+                value={cell}
+                onChange={(e) => setCell(rowIndex, columnIndex, e.target.value)}
+                placeholder={isCases && columnIndex === 1 ? '\\text{if } x > 0' : `a_{${rowIndex + 1}${columnIndex + 1}}`}
+                aria-label={`Row ${rowIndex + 1}, column ${columnIndex + 1}`}
+              />
+            )))}
+          </div>
+
+          <div className={`matrix-builder-preview ${preview?.error !== undefined ? 'error' : ''}`}>
+            {preview?.error !== undefined
+              ? preview.error
+              : <span dangerouslySetInnerHTML={{ __html: preview?.svg ?? '' }} />}
+          </div>
+          <pre className="matrix-builder-source">{latex}</pre>
+        </div>
+        <div className="matrix-builder-footer">
+          {packageName && <span className="matrix-builder-package">Needs \usepackage{`{${packageName}}`}</span>}
+          <span className="matrix-builder-footer-spacer" />
+          <button type="button" className="btn-cancel" onClick={onClose}>
+            Cancel
+          </button>
+          <button type="button" className="btn-confirm" onClick={handleInsert}>
+            Insert
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MatrixBuilderDialog;
@@ -21,6 +21,8 @@ interface MenuBarProps {
   onReplace: () => void;
   onToggleTerminal: () => void;
   isTerminalVisible: boolean;
+  onToggleProblems?: () => void;
+  isProblemsVisible?: boolean;
   onToggleAutoCompile: () => void;
   isAutoCompileEnabled: boolean;
   themePreference: 'system' | 'dark' | 'light';
@@ -42,6 +44,8 @@ const MenuBar: React.FC<MenuBarProps> = ({
   onReplace,
   onToggleTerminal,
   isTerminalVisible,
+  onToggleProblems,
+  isProblemsVisible = false,
   onToggleAutoCompile,
   isAutoCompileEnabled,
   themePreference,
@@ -181,6 +185,12 @@ const MenuBar: React.FC<MenuBarProps> = ({
               {renderTick(isTerminalVisible)}
               {renderMenuLabel('Git Terminal', 'Ctrl+`')}
             </button>
+            {onToggleProblems && (
+              <button className="menu-item" onClick={execute(onToggleProblems)}>
+                {renderTick(isProblemsVisible)}
+                {renderMenuLabel('Problems', 'Ctrl+Shift+M')}
+              </button>
+            )}
             <div className="menu-separator" />
             <button className="menu-item" onClick={execute(onToggleAutoCompile)}>
               {renderTick(isAutoCompileEnabled)}
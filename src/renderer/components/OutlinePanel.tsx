@@ -0,0 +1,251 @@
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  FiCheckSquare,
+  FiChevronDown,
+  FiChevronRight,
+  FiFileText,
+  FiGrid,
+  FiHash,
+  FiImage,
+  FiMinusSquare,
+  FiPlusSquare,
+} from 'react-icons/fi';
+import {
+  buildOutlineTree,
+  extractOutlineEntries,
+  findActiveEntry,
+  OutlineEntry,
+  OutlineEntryKind,
+} from '../utils/latexOutline';
+import '../styles/OutlinePanel.css';
+
+interface OutlinePanelProps {
+  content: string;
+  isLatex: boolean;
+  cursorLine: number;
+  onNavigate: (lineNumber: number) => void;
+  onOpenInclude: (command: string, target: string) => void;
+  // Moves the section block starting at `sourceLine` next to the one starting at `targetLine`.
+  onMoveSection: (sourceLine: number, targetLine: number, placement: 'before' | 'after') => void;
+}
+
+type OptionalKind = Exclude<OutlineEntryKind, 'section' | 'include'>;
+
+const FILTER_STORAGE_KEY = 'openotex:outlineFilter';
+
+const OPTIONAL_KINDS: Array<{ kind: OptionalKind; label: string; icon: React.ReactNode }> = [
+  { kind: 'figure', label: 'Figures', icon: <FiImage size={13} /> },
+  { kind: 'table', label: 'Tables', icon: <FiGrid size={13} /> },
+  { kind: 'equation', label: 'Equations', icon: <FiHash size={13} /> },
+  { kind: 'todo', label: 'To-do notes', icon: <FiCheckSquare size={13} /> },
+];
+
+const readStoredFilter = (): OptionalKind[] => {
+  try {
+    const saved = localStorage.getItem(FILTER_STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter(kind => OPTIONAL_KINDS.some(option => option.kind === kind)) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Stable across edits that shift line numbers, so collapsed sections stay collapsed.
+const entryKey = (entry: OutlineEntry) => `${entry.kind}:${entry.name}:${entry.title}`;
+
+const EntryIcon: React.FC<{ entry: OutlineEntry }> = ({ entry }) => {
+  const option = OPTIONAL_KINDS.find(item => item.kind === entry.kind);
+  if (option) return <span className={`outline-icon ${entry.kind}`}>{option.icon}</span>;
+  if (entry.kind === 'include') return <span className="outline-icon include"><FiFileText size={13} /></span>;
+  return null;
+};
+
+const OutlinePanel: React.FC<OutlinePanelProps> = ({
+  content,
+  isLatex,
+  cursorLine,
+  onNavigate,
+  onOpenInclude,
+  onMoveSection,
+}) => {
+  const [filter, setFilter] = useState<OptionalKind[]>(readStoredFilter);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dragSource, setDragSource] = useState<OutlineEntry | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ line: number; placement: 'before' | 'after' } | null>(null);
+  const activeRowRef = useRef<HTMLDivElement | null>(null);
+  // Typing stays responsive on long files; the outline catches up when the editor is idle.
+  const deferredContent = useDeferredValue(content);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(FILTER_STORAGE_KEY, JSON.stringify(filter));
+    } catch {
+      // Ignore storage errors
+    }
+  }, [filter]);
+
+  const entries = useMemo(() => (isLatex ? extractOutlineEntries(deferredContent) : []), [deferredContent, isLatex]);
+  const visibleEntries = useMemo(() => entries.filter(entry => (
+    entry.kind === 'section' || entry.kind === 'include' || filter.includes(entry.kind)
+  )), [entries, filter]);
+  const tree = useMemo(() => buildOutlineTree(visibleEntries), [visibleEntries]);
+  const activeLine = useMemo(() => findActiveEntry(visibleEntries, cursorLine)?.lineNumber ?? null, [visibleEntries, cursorLine]);
+
+  useEffect(() => {
+    activeRowRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeLine]);
+
+  const toggleFilter = (kind: OptionalKind) => {
+    setFilter(prev => (prev.includes(kind) ? prev.filter(item => item !== kind) : [...prev, kind]));
+  };
+
+  const toggleCollapsed = (entry: OutlineEntry) => {
+    const key = entryKey(entry);
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const setAllCollapsed = (collapse: boolean) => {
+    if (!collapse) {
+      setCollapsed(new Set());
+      return;
+    }
+    const keys = new Set<string>();
+    const visit = (nodes: OutlineEntry[]) => nodes.forEach(node => {
+      if (node.children.length > 0) keys.add(entryKey(node));
+      visit(node.children);
+    });
+    visit(tree);
+    setCollapsed(keys);
+  };
+
+  const containsLine = (entry: OutlineEntry, line: number): boolean => (
+    entry.lineNumber === line || entry.children.some(child => containsLine(child, line))
+  );
+
+  const handleDragOver = (event: React.DragEvent, entry: OutlineEntry) => {
+    if (!dragSource || entry.kind !== 'section' || containsLine(dragSource, entry.lineNumber)) {
+      return;
+    }
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const placement = event.clientY < bounds.top + bounds.height / 2 ? 'before' : 'after';
+    if (dropTarget?.line !== entry.lineNumber || dropTarget.placement !== placement) {
+      setDropTarget({ line: entry.lineNumber, placement });
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent, entry: OutlineEntry) => {
+    event.preventDefault();
+    if (dragSource && dropTarget && dropTarget.line === entry.lineNumber) {
+      onMoveSection(dragSource.lineNumber, entry.lineNumber, dropTarget.placement);
+    }
+    setDragSource(null);
+    setDropTarget(null);
+  };
+
+  const handleClick = (entry: OutlineEntry) => {
+    if (entry.kind === 'include') {
+      onOpenInclude(entry.name, entry.title);
+      return;
+    }
+    onNavigate(entry.lineNumber);
+  };
+
+  const renderEntry = (entry: OutlineEntry, depth: number): React.ReactNode => {
+    const key = entryKey(entry);
+    const isCollapsed = collapsed.has(key);
+    const isSection = entry.kind === 'section';
+    const isActive = entry.lineNumber === activeLine;
+    const dropClass = dropTarget?.line === entry.lineNumber ? ` drop-${dropTarget.placement}` : '';
+    return (
+      <React.Fragment key={`${key}:${entry.lineNumber}`}>
+        <div
+          ref={isActive ? activeRowRef : undefined}
+          className={`outline-row ${entry.kind}${isActive ? ' active' : ''}${dropClass}`}
+          style={{ paddingLeft: 8 + depth * 14 }}
+          title={`${entry.title || entry.name} — line ${entry.lineNumber}${entry.label ? `\n${entry.label}` : ''}`}
+          onClick={() => handleClick(entry)}
+          draggable={isSection}
+          onDragStart={isSection ? (event) => {
+            event.dataTransfer.effectAllowed = 'move';
+            event.dataTransfer.setData('text/plain', entry.title);
+            setDragSource(entry);
+          } : undefined}
+          onDragOver={(event) => handleDragOver(event, entry)}
+          onDragLeave={() => setDropTarget(prev => (prev?.line === entry.lineNumber ? null : prev))}
+          onDrop={(event) => handleDrop(event, entry)}
+          onDragEnd={() => {
+            setDragSource(null);
+            setDropTarget(null);
+          }}
+        >
+          {entry.children.length > 0 ? (
+            <button
+              className="outline-chevron"
+              onClick={(event) => {
+                event.stopPropagation();
+                toggleCollapsed(entry);
+              }}
+              aria-label={isCollapsed ? 'Expand' : 'Collapse'}
+            >
+              {isCollapsed ? <FiChevronRight size={12} /> : <FiChevronDown size={12} />}
+            </button>
+          ) : (
+            <span className="outline-chevron-spacer" />
+          )}
+          <EntryIcon entry={entry} />
+          <span className={`outline-title${entry.starred ? ' starred' : ''}`}>
+            {entry.title || <em>{entry.kind === 'todo' ? 'To-do' : `Untitled ${entry.name}`}</em>}
+          </span>
+          {entry.label && <span className="outline-label">{entry.label}</span>}
+        </div>
+        {!isCollapsed && entry.children.map(child => renderEntry(child, depth + 1))}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div className="outline-panel">
+      <div className="outline-toolbar">
+        {OPTIONAL_KINDS.map(option => (
+          <button
+            key={option.kind}
+            className={`outline-filter ${filter.includes(option.kind) ? 'active' : ''}`}
+            onClick={() => toggleFilter(option.kind)}
+            title={`${filter.includes(option.kind) ? 'Hide' : 'Show'} ${option.label.toLowerCase()}`}
+            aria-pressed={filter.includes(option.kind)}
+          >
+            {option.icon}
+          </button>
+        ))}
+        <span className="outline-toolbar-spacer" />
+        <button className="outline-filter" onClick={() => setAllCollapsed(true)} title="Collapse all">
+          <FiMinusSquare size={13} />
+        </button>
+        <button className="outline-filter" onClick={() => setAllCollapsed(false)} title="Expand all">
+          <FiPlusSquare size={13} />
+        </button>
+      </div>
+      <div className="outline-list">
+        {!isLatex ? (
+          <div className="outline-empty">The outline is available for LaTeX files.</div>
+        ) : tree.length === 0 ? (
+          <div className="outline-empty">No sections in this file.</div>
+        ) : (
+          tree.map(entry => renderEntry(entry, 0))
+        )}
+      </div>
+      {isLatex && tree.length > 0 && (
+        <div className="outline-hint">Drag sections to reorder them</div>
+      )}
+    </div>
+  );
+};
+
+export default OutlinePanel;
@@ -1,10 +1,17 @@
 import React, { useState, useEffect, useRef, useMemo, useCallback, forwardRef, useImperativeHandle } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { FiRefreshCw, FiZoomIn, FiZoomOut, FiDownload, FiAlertCircle, FiHelpCircle } from 'react-icons/fi';
+import { FiRefreshCw, FiZoomIn, FiZoomOut, FiDownload, FiAlertCircle, FiHelpCircle, FiSquare, FiSlash, FiTerminal } from 'react-icons/fi';
 import * as pdfjsLib from 'pdfjs-dist';
 import type { PDFDocumentProxy } from 'pdfjs-dist';
 import NotificationDialog from './NotificationDialog';
+import CompileConsole from './CompileConsole';
 import type { LatexDiagnostic } from '../../shared/latexDiagnostics';
+import {
+  CompileOutputBatch,
+  CompileProgress,
+  INITIAL_COMPILE_PROGRESS,
+  updateCompileProgress,
+} from '../../shared/compileOutput';
 import '../styles/Preview.css';
 import '../styles/Preview-addon.css';
 
@@ -13,6 +20,9 @@ import '../styles/Preview-addon.css';
 
 type SynctexRect = { page: number; h: number; v: number; W: number; H: number };
 
+// Older output is dropped from the live console; the full log stays available after the run.
+const MAX_CONSOLE_LINES = 2000;
+
 export interface PreviewHandle {
   forwardSearch: (line: number, column?: number) => Promise<void>;
 }
@@ -22,9 +32,14 @@ interface PreviewProps {
   compileNonce: number;
   currentFileExtension: string | null;
   currentFilePath: string | null;
+  // Document that actually gets compiled; null while it is still being resolved.
+  rootFilePath: string | null;
+  projectPath?: string;
   latexEngine?: 'pdflatex' | 'xelatex' | 'lualatex';
   onMissingPackages?: (packages: string[]) => void;
   onSyncTexJump?: (target: { file: string; line: number; column: number }) => void;
+  // Called after every finished (not cancelled) compile; `complete` when it produced a PDF.
+  onDiagnosticsChange?: (diagnostics: LatexDiagnostic[], options: { complete: boolean }) => void;
 }
 
 const Preview = forwardRef<PreviewHandle, PreviewProps>(({
@@ -32,13 +47,29 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
   compileNonce,
   currentFileExtension,
   currentFilePath,
+  rootFilePath,
+  projectPath,
   latexEngine = 'pdflatex',
   onMissingPackages,
   onSyncTexJump,
+  onDiagnosticsChange,
 }, ref) => {
   const [pdfData, setPdfData] = useState<string>('');
   const [pdfPath, setPdfPath] = useState<string>('');
   const [isCompiling, setIsCompiling] = useState(false);
+  const [isStopping, setIsStopping] = useState(false);
+  const [wasCancelled, setWasCancelled] = useState(false);
+  const [consoleLines, setConsoleLines] = useState<string[]>([]);
+  const [compileProgress, setCompileProgress] = useState<CompileProgress>(INITIAL_COMPILE_PROGRESS);
+  const [compileStartedAt, setCompileStartedAt] = useState<number | null>(null);
+  const [compileFinishedAt, setCompileFinishedAt] = useState<number | null>(null);
+  const [isConsoleVisible, setIsConsoleVisible] = useState<boolean>(() => {
+    try {
+      return localStorage.getItem('openotex:showBuildOutput') !== 'false';
+    } catch {
+      return true;
+    }
+  });
   const [compilationStatus, setCompilationStatus] = useState<string>('');
   const [error, setError] = useState<string>('');
   const [compilationLog, setCompilationLog] = useState<string>('');
@@ -73,6 +104,7 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
   }, [content, isLatexFile, latexEngine]);
 
   const latestCompileRequestRef = useRef(0);
+  const consoleLinesRef = useRef<string[]>([]);
   const lastSuccessfulSourcePathRef = useRef<string | null>(null);
 
   // pdfjs state
@@ -95,6 +127,8 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
   useEffect(() => { pdfPathRef.current = pdfPath; }, [pdfPath]);
   const onSyncTexJumpRef = useRef(onSyncTexJump);
   useEffect(() => { onSyncTexJumpRef.current = onSyncTexJump; }, [onSyncTexJump]);
+  const onDiagnosticsChangeRef = useRef(onDiagnosticsChange);
+  useEffect(() => { onDiagnosticsChangeRef.current = onDiagnosticsChange; }, [onDiagnosticsChange]);
 
   useEffect(() => {
     checkLatexInstallation();
@@ -112,6 +146,27 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
     return () => { dispose?.(); };
   }, []);
 
+  useEffect(() => {
+    const dispose = (window as any).api.onCompilationOutput?.((batch: CompileOutputBatch) => {
+      if (batch.requestId !== latestCompileRequestRef.current) return;
+      const combined = consoleLinesRef.current.concat(batch.lines);
+      consoleLinesRef.current = combined.length > MAX_CONSOLE_LINES
+        ? combined.slice(combined.length - MAX_CONSOLE_LINES)
+        : combined;
+      setConsoleLines(consoleLinesRef.current);
+      setCompileProgress(prev => updateCompileProgress(prev, batch));
+    });
+    return () => { dispose?.(); };
+  }, []);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('openotex:showBuildOutput', String(isConsoleVisible));
+    } catch (error) {
+      console.error('Error saving build output preference:', error);
+    }
+  }, [isConsoleVisible]);
+
   const checkLatexInstallation = async () => {
     try {
       const result = await (window as any).api.checkLatexInstallation();
@@ -239,14 +294,14 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
   // separate effect below so we don't reload the document on every zoom.
 
   useEffect(() => {
-    if (isLatexFile && currentFilePath && lastSuccessfulSourcePathRef.current !== currentFilePath) {
+    if (isLatexFile && rootFilePath && lastSuccessfulSourcePathRef.current !== rootFilePath) {
       setPdfData('');
       setPdfPath('');
       setError('');
       setCompilationLog('');
       setDiagnostics([]);
     }
-  }, [currentFilePath, isLatexFile]);
+  }, [rootFilePath, isLatexFile]);
 
   // Re-render at the new zoom level whenever the user zooms in/out.
   useEffect(() => {
@@ -268,7 +323,7 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
   }, [zoom, renderAllPages]);
 
   const compileLatex = useCallback(async () => {
-    if (!isLatexFile || !currentFilePath) {
+    if (!isLatexFile || !currentFilePath || !rootFilePath) {
       return;
     }
 
@@ -277,31 +332,45 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
     latestCompileRequestRef.current = requestId;
 
     setIsCompiling(true);
+    setIsStopping(false);
+    setWasCancelled(false);
     setError('');
     setCompilationLog('');
     setCompilationStatus('Compiling...');
+    consoleLinesRef.current = [];
+    setConsoleLines([]);
+    setCompileProgress(INITIAL_COMPILE_PROGRESS);
+    setCompileStartedAt(Date.now());
+    setCompileFinishedAt(null);
 
     try {
-      const result = await api.compileLatex(currentFilePath, latexEngine);
+      const result = await api.compileLatex(rootFilePath, latexEngine, { projectRoot: projectPath || undefined, requestId });
 
       if (latestCompileRequestRef.current !== requestId) {
         return;
       }
 
-      if (result.success) {
+      if (result.cancelled) {
+        // Keep the last good PDF and diagnostics; a stop is not a failure.
+        setWasCancelled(true);
+        setCompilationLog(result.log || '');
+        setCompilationStatus('');
+      } else if (result.success) {
         setPdfData(result.pdfData);
         setPdfPath(result.pdfPath || '');
         setCompilationLog([result.log, result.warnings].filter(Boolean).join('\n'));
         setDiagnostics(result.diagnostics || []);
+        onDiagnosticsChangeRef.current?.(result.diagnostics || [], { complete: true });
         setError('');
         setCompilationStatus('Compilation successful');
-        lastSuccessfulSourcePathRef.current = currentFilePath;
+        lastSuccessfulSourcePathRef.current = rootFilePath;
       } else {
         setError(result.error || 'Compilation failed');
         const fullLog = [result.log, result.details].filter(Boolean).join('\n');
         setCompilationLog(fullLog);
         setDiagnostics(result.diagnostics || []);
-        if (lastSuccessfulSourcePathRef.current !== currentFilePath) {
+        onDiagnosticsChangeRef.current?.(result.diagnostics || [], { complete: false });
+        if (lastSuccessfulSourcePathRef.current !== rootFilePath) {
           setPdfData('');
           setPdfPath('');
         }
@@ -319,7 +388,7 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
       setError(`Compilation Error: ${err.message}`);
       console.error('Error compiling LaTeX:', err);
       setDiagnostics([]);
-      if (lastSuccessfulSourcePathRef.current !== currentFilePath) {
+      if (lastSuccessfulSourcePathRef.current !== rootFilePath) {
         setPdfData('');
         setPdfPath('');
       }
@@ -327,9 +396,25 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
     } finally {
       if (latestCompileRequestRef.current === requestId) {
         setIsCompiling(false);
+        setIsStopping(false);
+        setCompileFinishedAt(Date.now());
       }
     }
-  }, [isLatexFile, currentFilePath, latexEngine, onMissingPackages]);
+  }, [isLatexFile, currentFilePath, rootFilePath, projectPath, latexEngine, onMissingPackages]);
+
+  const handleStopCompile = useCallback(async () => {
+    setIsStopping(true);
+    setCompilationStatus('Stopping…');
+    try {
+      const result = await (window as any).api.cancelCompile();
+      if (!result?.success) {
+        setIsStopping(false);
+      }
+    } catch (err) {
+      console.error('Error cancelling compilation:', err);
+      setIsStopping(false);
+    }
+  }, []);
 
   useEffect(() => {
     if (isLatexFile && latexInstalled && compileNonce > 0) {
@@ -337,6 +422,9 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
     } else if (!isLatexFile) {
       latestCompileRequestRef.current += 1;
       setIsCompiling(false);
+      setIsStopping(false);
+      setWasCancelled(false);
+      setCompileStartedAt(null);
       setCompilationStatus('');
       setError('');
       setCompilationLog('');
@@ -432,7 +520,13 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
       if (!currentFilePath) return;
       try {
         const api = (window as any).api;
-        const result = await api.synctex.forward(currentFilePath, line, column ?? 1, pdfPathRef.current || undefined);
+        const result = await api.synctex.forward(
+          currentFilePath,
+          line,
+          column ?? 1,
+          pdfPathRef.current || undefined,
+          projectPath || undefined
+        );
         if (result?.success && result.rects && result.rects.length > 0) {
           flashSynctexRects(result.rects);
         } else if (result?.error) {
@@ -453,7 +547,7 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
         });
       }
     },
-  }), [currentFilePath, flashSynctexRects]);
+  }), [currentFilePath, projectPath, flashSynctexRects]);
 
   const handleZoomIn = () => {
     setZoom(prev => Math.min(prev + 10, 200));
@@ -518,7 +612,7 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
 
   const handleDiagnosticClick = (diagnostic: LatexDiagnostic) => {
     if (!diagnostic.line) return;
-    const file = diagnostic.file || currentFilePath;
+    const file = diagnostic.file || rootFilePath || currentFilePath;
     if (!file) return;
     onSyncTexJumpRef.current?.({
       file,
@@ -582,8 +676,29 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
           )}
         </div>
         <div className="preview-controls">
-          <button type="button" title="Refresh" onClick={handleRefresh} disabled={isCompiling}>
-            <FiRefreshCw size={16} />
+          {isCompiling ? (
+            <button
+              type="button"
+              className="preview-stop-btn"
+              title="Stop compilation"
+              onClick={handleStopCompile}
+              disabled={isStopping}
+            >
+              <FiSquare size={14} />
+            </button>
+          ) : (
+            <button type="button" title="Refresh" onClick={handleRefresh}>
+              <FiRefreshCw size={16} />
+            </button>
+          )}
+          <button
+            type="button"
+            className={isConsoleVisible ? 'active' : ''}
+            title={isConsoleVisible ? 'Hide build output' : 'Show build output'}
+            onClick={() => setIsConsoleVisible(prev => !prev)}
+            aria-pressed={isConsoleVisible}
+          >
+            <FiTerminal size={16} />
           </button>
           <button type="button" title="Zoom In" onClick={handleZoomIn}>
             <FiZoomIn size={16} />
@@ -617,6 +732,12 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
           <span>{engineSuggestion}</span>
         </div>
       )}
+      {wasCancelled && !isCompiling && (
+        <div className="preview-cancelled">
+          <FiSlash size={14} />
+          <span>Compilation cancelled.{pdfData ? ' Showing the last successful PDF.' : ''}</span>
+        </div>
+      )}
       <div className="preview-body">
         {pdfData ? (
           <div ref={containerRef} className="pdf-canvas-container" />
@@ -626,6 +747,16 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
           </div>
         )}
       </div>
+      {isConsoleVisible && compileStartedAt !== null && (
+        <CompileConsole
+          lines={consoleLines}
+          progress={compileProgress}
+          isCompiling={isCompiling}
+          startedAt={compileStartedAt}
+          finishedAt={compileFinishedAt}
+          onClose={() => setIsConsoleVisible(false)}
+        />
+      )}
       {error && (
         <div className="preview-error">
           <h4>Compilation Error</h4>
@@ -634,7 +765,8 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
             <div className="preview-diagnostics">
               {diagnostics.map((diagnostic, index) => {
                 const canJump = Boolean(diagnostic.line);
-                const location = diagnostic.line ? `${diagnostic.file ? diagnostic.file.split(/[\\/]/).pop() : 'Source'}:${diagnostic.line}` : '';
+                const lines = diagnostic.endLine ? `${diagnostic.line}-${diagnostic.endLine}` : diagnostic.line;
+                const location = diagnostic.line ? `${diagnostic.file ? diagnostic.file.split(/[\\/]/).pop() : 'Source'}:${lines}` : '';
                 return (
                   <button
                     type="button"
@@ -642,7 +774,7 @@ const Preview = forwardRef<PreviewHandle, PreviewProps>(({
                     className={`preview-diagnostic preview-diagnostic-${diagnostic.severity}`}
                     onClick={() => handleDiagnosticClick(diagnostic)}
                     disabled={!canJump}
-                    title={canJump ? 'Jump to source line' : undefined}
+                    title={diagnostic.context || (canJump ? 'Jump to source line' : undefined)}
                   >
                     <span className="preview-diagnostic-severity">{diagnostic.severity}</span>
                     {location && <span className="preview-diagnostic-location">{location}</span>}
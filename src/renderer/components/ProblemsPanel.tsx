@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FiAlertCircle, FiAlertTriangle, FiChevronDown, FiChevronRight, FiInfo, FiXCircle } from 'react-icons/fi';
+import type { LatexDiagnosticSeverity } from '../../shared/latexDiagnostics';
+import {
+  DEFAULT_PROBLEM_FILTER,
+  filterProblems,
+  getProblemCategory,
+  groupProblemsByFile,
+  Problem,
+  PROBLEM_CATEGORY_LABELS,
+  ProblemFilter,
+} from '../../shared/problems';
+import '../styles/ProblemsPanel.css';
+
+interface ProblemsPanelProps {
+  isVisible: boolean;
+  onToggle: () => void;
+  problems: Problem[];
+  // Build number of the latest compile, to mark problems it reported for the first time.
+  build: number;
+  projectPath: string;
+  onNavigate: (target: { file: string; line: number; column: number }) => void;
+}
+
+const FILTER_STORAGE_KEY = 'openotex:problemsFilter';
+
+const SEVERITY_LABELS: Record<LatexDiagnosticSeverity, string> = {
+  error: 'Errors',
+  warning: 'Warnings',
+  info: 'Info',
+};
+
+const readStoredFilter = (): ProblemFilter => {
+  try {
+    const saved = localStorage.getItem(FILTER_STORAGE_KEY);
+    if (!saved) return DEFAULT_PROBLEM_FILTER;
+    const parsed = JSON.parse(saved);
+    return {
+      severities: Array.isArray(parsed.severities) ? parsed.severities : DEFAULT_PROBLEM_FILTER.severities,
+      categories: Array.isArray(parsed.categories) ? parsed.categories : [],
+    };
+  } catch {
+    return DEFAULT_PROBLEM_FILTER;
+  }
+};
+
+const SeverityIcon: React.FC<{ severity: LatexDiagnosticSeverity }> = ({ severity }) => {
+  if (severity === 'error') return <FiXCircle size={13} className="problem-icon error" />;
+  if (severity === 'warning') return <FiAlertTriangle size={13} className="problem-icon warning" />;
+  return <FiInfo size={13} className="problem-icon info" />;
+};
+
+const displayPath = (file: string, projectPath: string) => {
+  const normalizedFile = file.replace(/\\/g, '/');
+  const normalizedRoot = projectPath.replace(/\\/g, '/').replace(/\/+$/, '');
+  if (normalizedRoot && normalizedFile.toLowerCase().startsWith(`${normalizedRoot.toLowerCase()}/`)) {
+    return normalizedFile.slice(normalizedRoot.length + 1);
+  }
+  return normalizedFile;
+};
+
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({
+  isVisible,
+  onToggle,
+  problems,
+  build,
+  projectPath,
+  onNavigate,
+}) => {
+  const [filter, setFilter] = useState<ProblemFilter>(readStoredFilter);
+  const [collapsedFiles, setCollapsedFiles] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(FILTER_STORAGE_KEY, JSON.stringify(filter));
+    } catch {
+      // Ignore storage errors
+    }
+  }, [filter]);
+
+  const severityCounts = useMemo(() => {
+    const counts: Record<LatexDiagnosticSeverity, number> = { error: 0, warning: 0, info: 0 };
+    problems.forEach(problem => { counts[problem.severity] += 1; });
+    return counts;
+  }, [problems]);
+
+  const categories = useMemo(() => {
+    const present = new Set(problems.map(problem => getProblemCategory(problem.code)));
+    filter.categories.forEach(category => present.add(category));
+    return Array.from(present).sort((a, b) => (
+      (PROBLEM_CATEGORY_LABELS[a] || a).localeCompare(PROBLEM_CATEGORY_LABELS[b] || b)
+    ));
+  }, [problems, filter.categories]);
+
+  const groups = useMemo(() => groupProblemsByFile(filterProblems(problems, filter)), [problems, filter]);
+
+  const toggleSeverity = (severity: LatexDiagnosticSeverity) => {
+    setFilter(prev => ({
+      ...prev,
+      severities: prev.severities.includes(severity)
+        ? prev.severities.filter(item => item !== severity)
+        : [...prev.severities, severity],
+    }));
+  };
+
+  const handleCategoryChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = event.target.value;
+    setFilter(prev => ({ ...prev, categories: value ? [value] : [] }));
+  };
+
+  const toggleFile = (key: string) => {
+    setCollapsedFiles(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleProblemClick = (problem: Problem) => {
+    if (!problem.file || !problem.line) return;
+    onNavigate({ file: problem.file, line: problem.line, column: problem.column || 1 });
+  };
+
+  if (!isVisible) {
+    return null;
+  }
+
+  return (
+    <div className="problems-dock">
+      <div className="problems-header">
+        <div className="problems-title">
+          <FiAlertCircle size={16} />
+          <span>Problems</span>
+        </div>
+        <div className="problems-filters">
+          {(Object.keys(SEVERITY_LABELS) as LatexDiagnosticSeverity[]).map(severity => (
+            <button
+              key={severity}
+              type="button"
+              className={`problems-severity-toggle ${severity} ${filter.severities.includes(severity) ? 'active' : ''}`}
+              onClick={() => toggleSeverity(severity)}
+              title={`${filter.severities.includes(severity) ? 'Hide' : 'Show'} ${SEVERITY_LABELS[severity].toLowerCase()}`}
+            >
+              <SeverityIcon severity={severity} />
+              <span>{severityCounts[severity]}</span>
+            </button>
+          ))}
+          <select
+            className="problems-category-select"
+            value={filter.categories[0] || ''}
+            onChange={handleCategoryChange}
+            title="Filter by kind"
+          >
+            <option value="">All kinds</option>
+            {categories.map(category => (
+              <option key={category} value={category}>{PROBLEM_CATEGORY_LABELS[category] || category}</option>
+            ))}
+          </select>
+        </div>
+        <button type="button" className="problems-action-btn" onClick={onToggle} title="Hide problems">
+          <FiChevronDown size={16} />
+        </button>
+      </div>
+      <div className="problems-list">
+        {groups.length === 0 && (
+          <div className="problems-empty">
+            {problems.length === 0 ? 'No problems from the last build.' : 'No problems match the current filter.'}
+          </div>
+        )}
+        {groups.map(group => {
+          const key = group.file || '';
+          const collapsed = collapsedFiles.has(key);
+          return (
+            <div key={key} className="problems-group">
+              <button type="button" className="problems-group-header" onClick={() => toggleFile(key)}>
+                {collapsed ? <FiChevronRight size={14} /> : <FiChevronDown size={14} />}
+                <span className="problems-group-name">
+                  {group.file ? displayPath(group.file, projectPath) : 'General'}
+                </span>
+                <span className="problems-group-count">{group.problems.length}</span>
+              </button>
+              {!collapsed && group.problems.map(problem => {
+                const canJump = Boolean(problem.file && problem.line);
+                return (
+                  <button
+                    type="button"
+                    key={problem.id}
+                    className={`problems-item ${problem.stale ? 'stale' : ''}`}
+                    onClick={() => handleProblemClick(problem)}
+                    disabled={!canJump}
+                    title={problem.context || (problem.stale ? 'Reported by an earlier build' : undefined)}
+                  >
+                    <SeverityIcon severity={problem.severity} />
+                    <span className="problems-item-message">{problem.message}</span>
+                    {problem.firstSeen === build && build > 1 && !problem.stale && (
+                      <span className="problems-item-badge">new</span>
+                    )}
+                    {problem.stale && <span className="problems-item-badge">previous build</span>}
+                    {problem.code && <span className="problems-item-code">{problem.code}</span>}
+                    {problem.line && (
+                      <span className="problems-item-location">
+                        Ln {problem.line}{problem.endLine ? `-${problem.endLine}` : ''}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ProblemsPanel;
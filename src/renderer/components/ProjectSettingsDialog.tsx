@@ -0,0 +1,492 @@
+import React, { useEffect, useState } from 'react';
+import { FiX } from 'react-icons/fi';
+import {
+  BibliographyTool,
+  BIBLIOGRAPHY_TOOLS,
+  formatBuildRecipes,
+  joinArguments,
+  LatexEngine,
+  LATEX_ENGINES,
+  LATEX_ENGINE_LABELS,
+  parseBuildRecipes,
+  PROJECT_SETTINGS_FILENAME,
+  ProjectSettings,
+  ProjectTimeouts,
+  splitArguments,
+} from '../../shared/projectSettings';
+import { listRecipeChoices, RECIPE_PLACEHOLDERS, RECIPE_TOOLS } from '../../shared/buildRecipes';
+import { WORD_COUNT_OPTION_LABELS, WordCountOptions } from '../../shared/wordCount';
+import { FORMAT_BACKENDS, FormatBackend, FormatSettings } from '../../shared/latexFormat';
+import { LINT_RULE_IDS, LINT_RULE_LABELS, LINT_RULE_SETTINGS, LintRuleSetting, LintSettings } from '../../shared/latexLint';
+import '../styles/ProjectSettingsDialog.css';
+
+interface ProjectSettingsDialogProps {
+  isOpen: boolean;
+  settings: ProjectSettings;
+  detectedRoot?: string | null;
+  onSave: (settings: ProjectSettings) => void;
+  onCancel: () => void;
+}
+
+const BIBLIOGRAPHY_LABELS: Record<BibliographyTool, string> = {
+  auto: 'Automatic (Biber for biblatex, otherwise BibTeX)',
+  biber: 'Biber',
+  bibtex: 'BibTeX',
+  none: 'None',
+};
+
+const LINT_SETTING_LABELS: Record<LintRuleSetting, string> = {
+  off: 'Off',
+  info: 'Info',
+  warning: 'Warning',
+  error: 'Error',
+};
+
+const FORMAT_BACKEND_LABELS: Record<FormatBackend, string> = {
+  builtin: 'Built-in',
+  latexindent: 'latexindent (falls back to built-in)',
+};
+
+const TIMEOUT_FIELDS: Array<{ key: keyof ProjectTimeouts; label: string }> = [
+  { key: 'compile', label: 'LaTeX pass' },
+  { key: 'bibliography', label: 'Bibliography' },
+  { key: 'index', label: 'Index' },
+];
+
+const formatEnv = (env: Record<string, string>) => (
+  Object.entries(env).map(([name, value]) => `${name}=${value}`).join('\n')
+);
+
+const RECIPE_EXAMPLE = `- name: glossaries
+  steps:
+    - tool: engine
+    - tool: makeglossaries
+      args: ['%DOCFILE%']
+      when: { exists: '%OUTDIR%/%DOCFILE%.glo' }
+    - tool: engine
+      when: { rerun: true }
+      repeat: 3`;
+
+const parseEnv = (text: string): { env: Record<string, string>; error: string | null } => {
+  const env: Record<string, string> = {};
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+    const separator = line.indexOf('=');
+    const name = separator > 0 ? line.slice(0, separator).trim() : '';
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      return { env, error: `Invalid environment line: ${line}` };
+    }
+    env[name] = line.slice(separator + 1).trim();
+  }
+  return { env, error: null };
+};
+
+const ProjectSettingsDialog: React.FC<ProjectSettingsDialogProps> = ({
+  isOpen,
+  settings,
+  detectedRoot,
+  onSave,
+  onCancel,
+}) => {
+  const [root, setRoot] = useState('');
+  const [engine, setEngine] = useState<LatexEngine>(settings.engine);
+  const [outputDirectory, setOutputDirectory] = useState('');
+  const [engineArgs, setEngineArgs] = useState('');
+  const [bibliography, setBibliography] = useState<BibliographyTool>(settings.bibliography);
+  const [recipe, setRecipe] = useState(settings.recipe);
+  const [recipesText, setRecipesText] = useState('');
+  const [timeouts, setTimeouts] = useState<Record<keyof ProjectTimeouts, string>>({ compile: '', bibliography: '', index: '' });
+  const [envText, setEnvText] = useState('');
+  const [autoCompile, setAutoCompile] = useState(settings.autoCompile);
+  const [autoSave, setAutoSave] = useState(settings.autoSave);
+  const [wordCount, setWordCount] = useState<WordCountOptions>(settings.wordCount);
+  const [spellcheckEnabled, setSpellcheckEnabled] = useState(settings.spellcheck.enabled);
+  const [spellcheckLanguage, setSpellcheckLanguage] = useState('');
+  const [spellingWords, setSpellingWords] = useState('');
+  const [lint, setLint] = useState<LintSettings>(settings.lint);
+  const [format, setFormat] = useState<FormatSettings>(settings.format);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setRoot(settings.root ?? '');
+    setEngine(settings.engine);
+    setOutputDirectory(settings.outputDirectory ?? '');
+    setEngineArgs(joinArguments(settings.engineArgs));
+    setBibliography(settings.bibliography);
+    setRecipe(settings.recipe);
+    setRecipesText(formatBuildRecipes(settings.recipes));
+    setTimeouts({
+      compile: String(settings.timeouts.compile),
+      bibliography: String(settings.timeouts.bibliography),
+      index: String(settings.timeouts.index),
+    });
+    setEnvText(formatEnv(settings.env));
+    setAutoCompile(settings.autoCompile);
+    setAutoSave(settings.autoSave);
+    setWordCount(settings.wordCount);
+    setSpellcheckEnabled(settings.spellcheck.enabled);
+    setSpellcheckLanguage(settings.spellcheck.language ?? '');
+    setSpellingWords(settings.spellcheck.words.join('\n'));
+    setLint(settings.lint);
+    setFormat(settings.format);
+    setError(null);
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  // Recipes that fail to parse are left out of the picker until they are fixed.
+  const parsedRecipes = parseBuildRecipes(recipesText);
+  const recipeChoices = listRecipeChoices(parsedRecipes.recipes);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedTimeouts = { ...settings.timeouts };
+    for (const { key, label } of TIMEOUT_FIELDS) {
+      const value = Number(timeouts[key]);
+      if (!Number.isFinite(value) || value <= 0) {
+        setError(`${label} timeout must be a positive number of seconds.`);
+        return;
+      }
+      parsedTimeouts[key] = value;
+    }
+    const { env, error: envError } = parseEnv(envText);
+    if (envError) {
+      setError(envError);
+      return;
+    }
+    if (parsedRecipes.warnings.length > 0) {
+      setError(`Build recipes: ${parsedRecipes.warnings[0]}`);
+      return;
+    }
+    if (!recipeChoices.some(choice => choice.name === recipe)) {
+      setError(`Recipe ${recipe} is not defined.`);
+      return;
+    }
+    onSave({
+      ...settings,
+      root: root.trim() || null,
+      engine,
+      outputDirectory: outputDirectory.trim() || null,
+      engineArgs: splitArguments(engineArgs),
+      bibliography,
+      recipe,
+      recipes: parsedRecipes.recipes,
+      timeouts: parsedTimeouts,
+      env,
+      autoCompile,
+      autoSave,
+      wordCount,
+      spellcheck: {
+        enabled: spellcheckEnabled,
+        language: spellcheckLanguage.trim() || null,
+        words: Array.from(new Set(spellingWords.split(/\s+/).filter(Boolean))),
+      },
+      lint,
+      format,
+    });
+  };
+
+  const setFormatNumber = (key: 'indent' | 'lineWidth' | 'maxBlankLines', value: string, max: number, min = 0) => {
+    const number = Math.round(Number(value));
+    setFormat(prev => ({ ...prev, [key]: Number.isFinite(number) ? Math.min(Math.max(number, min), max) : min }));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="project-settings-overlay" onClick={onCancel}>
+      <div className="project-settings-dialog" onClick={(e) => e.stopPropagation()} onKeyDown={handleKeyDown}>
+        <div className="project-settings-header">
+          <h3>Project Settings</h3>
+          <button className="project-settings-close" onClick={onCancel}>
+            <FiX size={20} />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="project-settings-body">
+            <p className="project-settings-hint">
+              Stored in <code>{PROJECT_SETTINGS_FILENAME}</code> in the project folder, so it can be shared with collaborators.
+            </p>
+
+            <div className="project-settings-group">
+              <label htmlFor="project-settings-root">Root document</label>
+              <input
+                id="project-settings-root"
+                type="text"
+                value={root}
+                onChange={(e) => setRoot(e.target.value)}
+                placeholder="Detect automatically (e.g. main.tex)"
+              />
+              {!root.trim() && detectedRoot && (
+                <div className="project-settings-note">Currently detected: {detectedRoot}</div>
+              )}
+            </div>
+
+            <div className="project-settings-row">
+              <div className="project-settings-group">
+                <label htmlFor="project-settings-engine">Engine</label>
+                <select
+                  id="project-settings-engine"
+                  value={engine}
+                  onChange={(e) => setEngine(e.target.value as LatexEngine)}
+                >
+                  {LATEX_ENGINES.map(value => (
+                    <option key={value} value={value}>{LATEX_ENGINE_LABELS[value]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="project-settings-group">
+                <label htmlFor="project-settings-bibliography">Bibliography tool</label>
+                <select
+                  id="project-settings-bibliography"
+                  value={bibliography}
+                  onChange={(e) => setBibliography(e.target.value as BibliographyTool)}
+                >
+                  {BIBLIOGRAPHY_TOOLS.map(value => (
+                    <option key={value} value={value}>{BIBLIOGRAPHY_LABELS[value]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="project-settings-group">
+                <label htmlFor="project-settings-recipe">Build recipe</label>
+                <select
+                  id="project-settings-recipe"
+                  value={recipe}
+                  onChange={(e) => setRecipe(e.target.value)}
+                >
+                  {!recipeChoices.some(choice => choice.name === recipe) && <option value={recipe}>{recipe}</option>}
+                  {recipeChoices.map(choice => (
+                    <option key={choice.name} value={choice.name}>{choice.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="project-settings-group">
+              <label htmlFor="project-settings-output">Output directory</label>
+              <input
+                id="project-settings-output"
+                type="text"
+                value={outputDirectory}
+                onChange={(e) => setOutputDirectory(e.target.value)}
+                placeholder="Default (.openotex/build with latexmk, next to the root otherwise)"
+              />
+            </div>
+
+            <div className="project-settings-group">
+              <label htmlFor="project-settings-args">Extra engine flags</label>
+              <input
+                id="project-settings-args"
+                type="text"
+                value={engineArgs}
+                onChange={(e) => setEngineArgs(e.target.value)}
+                placeholder="e.g. -shell-escape"
+              />
+            </div>
+
+            <div className="project-settings-group">
+              <label htmlFor="project-settings-recipes">Build recipes (YAML)</label>
+              <textarea
+                id="project-settings-recipes"
+                rows={6}
+                value={recipesText}
+                onChange={(e) => setRecipesText(e.target.value)}
+                placeholder={RECIPE_EXAMPLE}
+                spellCheck={false}
+              />
+              {parsedRecipes.warnings.length > 0 ? (
+                <div className="project-settings-error">{parsedRecipes.warnings.join(' ')}</div>
+              ) : (
+                <div className="project-settings-note">
+                  Tools: {RECIPE_TOOLS.join(', ')}. Arguments and conditions may use {RECIPE_PLACEHOLDERS.map(name => `%${name}%`).join(', ')}.
+                </div>
+              )}
+            </div>
+
+            <div className="project-settings-group">
+              <label>Timeouts (seconds)</label>
+              <div className="project-settings-row">
+                {TIMEOUT_FIELDS.map(({ key, label }) => (
+                  <div key={key} className="project-settings-timeout">
+                    <span>{label}</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={timeouts[key]}
+                      onChange={(e) => setTimeouts(prev => ({ ...prev, [key]: e.target.value }))}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="project-settings-group">
+              <label htmlFor="project-settings-env">Environment variables</label>
+              <textarea
+                id="project-settings-env"
+                rows={3}
+                value={envText}
+                onChange={(e) => setEnvText(e.target.value)}
+                placeholder={'TEXINPUTS=./styles//:\nSOURCE_DATE_EPOCH=0'}
+              />
+            </div>
+
+            <div className="project-settings-row">
+              <label className="project-settings-checkbox">
+                <input type="checkbox" checked={autoCompile} onChange={(e) => setAutoCompile(e.target.checked)} />
+                Auto compile
+              </label>
+              <label className="project-settings-checkbox">
+                <input type="checkbox" checked={autoSave} onChange={(e) => setAutoSave(e.target.checked)} />
+                Auto save
+              </label>
+            </div>
+
+            <div className="project-settings-group">
+              <label>Word count includes</label>
+              <div className="project-settings-row">
+                {(Object.keys(WORD_COUNT_OPTION_LABELS) as Array<keyof WordCountOptions>).map(key => (
+                  <label key={key} className="project-settings-checkbox">
+                    <input
+                      type="checkbox"
+                      checked={wordCount[key]}
+                      onChange={(e) => setWordCount(prev => ({ ...prev, [key]: e.target.checked }))}
+                    />
+                    {WORD_COUNT_OPTION_LABELS[key]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="project-settings-group">
+              <label htmlFor="project-settings-spelling-language">Spell checking</label>
+              <div className="project-settings-row">
+                <label className="project-settings-checkbox">
+                  <input type="checkbox" checked={spellcheckEnabled} onChange={(e) => setSpellcheckEnabled(e.target.checked)} />
+                  Check spelling
+                </label>
+                <input
+                  id="project-settings-spelling-language"
+                  type="text"
+                  value={spellcheckLanguage}
+                  disabled={!spellcheckEnabled}
+                  onChange={(e) => setSpellcheckLanguage(e.target.value)}
+                  placeholder="Detect from babel/polyglossia"
+                />
+              </div>
+            </div>
+
+            <div className="project-settings-group">
+              <label htmlFor="project-settings-spelling-words">Project dictionary (one word per line)</label>
+              <textarea
+                id="project-settings-spelling-words"
+                rows={3}
+                value={spellingWords}
+                disabled={!spellcheckEnabled}
+                onChange={(e) => setSpellingWords(e.target.value)}
+              />
+            </div>
+
+            <div className="project-settings-group">
+              <label>Lint rules</label>
+              <div className="project-settings-lint-rules">
+                {LINT_RULE_IDS.map(rule => (
+                  <React.Fragment key={rule}>
+                    <span>{LINT_RULE_LABELS[rule]}</span>
+                    <select
+                      value={lint.rules[rule]}
+                      onChange={(e) => setLint(prev => ({ ...prev, rules: { ...prev.rules, [rule]: e.target.value as LintRuleSetting } }))}
+                    >
+                      {LINT_RULE_SETTINGS.map(value => (
+                        <option key={value} value={value}>{LINT_SETTING_LABELS[value]}</option>
+                      ))}
+                    </select>
+                  </React.Fragment>
+                ))}
+              </div>
+              <label className="project-settings-checkbox">
+                <input
+                  type="checkbox"
+                  checked={lint.chktex}
+                  onChange={(e) => setLint(prev => ({ ...prev, chktex: e.target.checked }))}
+                />
+                Also run chktex when it is installed
+              </label>
+            </div>
+
+            <div className="project-settings-group">
+              <label htmlFor="project-settings-format-backend">Formatter</label>
+              <select
+                id="project-settings-format-backend"
+                value={format.backend}
+                onChange={(e) => setFormat(prev => ({ ...prev, backend: e.target.value as FormatBackend }))}
+              >
+                {FORMAT_BACKENDS.map(value => (
+                  <option key={value} value={value}>{FORMAT_BACKEND_LABELS[value]}</option>
+                ))}
+              </select>
+              <div className="project-settings-row project-settings-format-numbers">
+                <div className="project-settings-field">
+                  <span>Indent (spaces, 0 for tabs)</span>
+                  <input type="number" min={0} max={8} value={format.indent} onChange={(e) => setFormatNumber('indent', e.target.value, 8)} />
+                </div>
+                <div className="project-settings-field">
+                  <span>Wrap at column (0 for off)</span>
+                  <input type="number" min={0} max={500} value={format.lineWidth} onChange={(e) => setFormatNumber('lineWidth', e.target.value, 500)} />
+                </div>
+                <div className="project-settings-field">
+                  <span>Blank lines kept</span>
+                  <input type="number" min={1} max={10} value={format.maxBlankLines} onChange={(e) => setFormatNumber('maxBlankLines', e.target.value, 10, 1)} />
+                </div>
+              </div>
+              <div className="project-settings-row">
+                <label className="project-settings-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={format.alignTables}
+                    onChange={(e) => setFormat(prev => ({ ...prev, alignTables: e.target.checked }))}
+                  />
+                  Align &amp; columns
+                </label>
+                <label className="project-settings-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={format.oneSentencePerLine}
+                    onChange={(e) => setFormat(prev => ({ ...prev, oneSentencePerLine: e.target.checked }))}
+                  />
+                  One sentence per line
+                </label>
+                <label className="project-settings-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={format.formatOnSave}
+                    onChange={(e) => setFormat(prev => ({ ...prev, formatOnSave: e.target.checked }))}
+                  />
+                  Format on save
+                </label>
+              </div>
+            </div>
+
+            {error && <div className="project-settings-error">{error}</div>}
+          </div>
+          <div className="project-settings-footer">
+            <button type="button" className="btn-cancel" onClick={onCancel}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-confirm">
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectSettingsDialog;
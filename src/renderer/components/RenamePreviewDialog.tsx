@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { FiX } from 'react-icons/fi';
+import type { RenamePlan } from '../../shared/latexRename';
+import '../styles/RenamePreviewDialog.css';
+
+interface RenamePreviewDialogProps {
+  plan: RenamePlan | null;
+  // Paths are shown relative to this directory when they sit inside it.
+  projectPath?: string | null;
+  onConfirm: (plan: RenamePlan, files: string[]) => void;
+  onCancel: () => void;
+}
+
+const KIND_LABELS: Record<RenamePlan['kind'], string> = {
+  label: 'label',
+  citation: 'citation key',
+  macro: 'macro',
+};
+
+const RenamePreviewDialog: React.FC<RenamePreviewDialogProps> = ({
+  plan,
+  projectPath,
+  onConfirm,
+  onCancel,
+}) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setSelected(new Set(plan ? plan.changes.map(change => change.path) : []));
+  }, [plan]);
+
+  if (!plan) return null;
+
+  const displayName = (name: string) => (plan.kind === 'macro' ? `\\${name}` : name);
+  const relativePath = (filePath: string) => {
+    if (!projectPath) return filePath;
+    const prefix = projectPath.replace(/[\\/]+$/, '');
+    return filePath.startsWith(prefix) ? filePath.slice(prefix.length + 1) : filePath;
+  };
+  const editCount = plan.changes
+    .filter(change => selected.has(change.path))
+    .reduce((total, change) => total + change.edits.length, 0);
+
+  const toggle = (filePath: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(filePath)) next.delete(filePath);
+      else next.add(filePath);
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    if (selected.size === 0) return;
+    onConfirm(plan, plan.changes.map(change => change.path).filter(filePath => selected.has(filePath)));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="rename-preview-overlay" onClick={onCancel} onKeyDown={handleKeyDown}>
+      <div className="rename-preview-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="rename-preview-header">
+          <h3>
+            Rename {KIND_LABELS[plan.kind]} <code>{displayName(plan.oldName)}</code> to <code>{displayName(plan.newName)}</code>
+          </h3>
+          <button className="rename-preview-close" onClick={onCancel} aria-label="Cancel rename">
+            <FiX size={20} />
+          </button>
+        </div>
+        <div className="rename-preview-body">
+          {plan.changes.map(change => (
+            <div key={change.path} className="rename-preview-file">
+              <label className="rename-preview-file-header">
+                <input
+                  type="checkbox"
+                  checked={selected.has(change.path)}
+                  onChange={() => toggle(change.path)}
+                />
+                <span className="rename-preview-file-name">{relativePath(change.path)}</span>
+                <span className="rename-preview-count">{change.edits.length}</span>
+              </label>
+              {selected.has(change.path) && change.preview.map(line => (
+                <div key={line.line} className="rename-preview-line">
+                  <span className="rename-preview-line-number">{line.line}</span>
+                  <div className="rename-preview-diff">
+                    <div className="rename-preview-before">{line.before.trim()}</div>
+                    <div className="rename-preview-after">{line.after.trim()}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+        <div className="rename-preview-footer">
+          <span className="rename-preview-summary">
+            {editCount} {editCount === 1 ? 'change' : 'changes'} in {selected.size} {selected.size === 1 ? 'file' : 'files'}
+          </span>
+          <button type="button" className="btn-cancel" onClick={onCancel}>
+            Cancel
+          </button>
+          <button type="button" className="btn-confirm" onClick={handleConfirm} disabled={selected.size === 0}>
+            Rename
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RenamePreviewDialog;
@@ -1,4 +1,8 @@
 import React from 'react';
+import { FiAlertTriangle, FiXCircle } from 'react-icons/fi';
+import type { DiagnosticCounts } from '../../shared/latexDiagnostics';
+import { LatexEngine, LATEX_ENGINE_LABELS, PROJECT_SETTINGS_FILENAME } from '../../shared/projectSettings';
+import type { MathPreviewMode } from '../../shared/mathPreview';
 import '../styles/StatusBar.css';
 
 interface StatusBarProps {
@@ -7,14 +11,42 @@ interface StatusBarProps {
   onToggleAutoCompile: () => void;
   onToggleAutoSave: () => void;
   statusMessage?: string;
+  latexEngine?: LatexEngine;
+  // Whether the values above come from the project's settings file.
+  hasProjectSettings?: boolean;
+  onOpenProjectSettings?: () => void;
+  // Errors and warnings from the last compile, across all files.
+  problemCounts?: DiagnosticCounts;
+  onShowProblems?: () => void;
+  // Words in the document and, while text is selected, in the selection.
+  wordCount?: { words: number; selectionWords?: number };
+  onShowWordCount?: () => void;
+  // How formulas under the cursor are previewed.
+  mathPreview?: MathPreviewMode;
+  onCycleMathPreview?: () => void;
 }
 
+const MATH_PREVIEW_LABELS: Record<MathPreviewMode, string> = {
+  floating: 'Floating',
+  below: 'Below',
+  off: 'Off',
+};
+
 const StatusBar: React.FC<StatusBarProps> = ({
   autoCompile,
   autoSave,
   onToggleAutoCompile,
   onToggleAutoSave,
   statusMessage,
+  latexEngine,
+  hasProjectSettings = false,
+  onOpenProjectSettings,
+  problemCounts,
+  onShowProblems,
+  wordCount,
+  onShowWordCount,
+  mathPreview,
+  onCycleMathPreview,
 }) => {
   return (
     <div className="status-bar">
@@ -39,6 +71,36 @@ const StatusBar: React.FC<StatusBarProps> = ({
             {autoCompile ? 'ON' : 'OFF'}
           </span>
         </button>
+        {latexEngine && onOpenProjectSettings && (
+          <button
+            className="status-item"
+            onClick={onOpenProjectSettings}
+            title={hasProjectSettings
+              ? `Settings from ${PROJECT_SETTINGS_FILENAME} - Click to edit`
+              : `Using global defaults - Click to create ${PROJECT_SETTINGS_FILENAME}`}
+          >
+            <span className="status-label">Engine:</span>
+            <span className="status-value">{LATEX_ENGINE_LABELS[latexEngine]}</span>
+            {hasProjectSettings && <span className="status-label">(project)</span>}
+          </button>
+        )}
+        {problemCounts && (
+          <button
+            className="status-item status-problems"
+            onClick={onShowProblems}
+            disabled={!onShowProblems}
+            title={`Problems: ${problemCounts.errors} error${problemCounts.errors !== 1 ? 's' : ''}, ${problemCounts.warnings} warning${problemCounts.warnings !== 1 ? 's' : ''}`}
+          >
+            <span className={`status-problem-count ${problemCounts.errors ? 'error' : ''}`}>
+              <FiXCircle size={12} />
+              {problemCounts.errors}
+            </span>
+            <span className={`status-problem-count ${problemCounts.warnings ? 'warning' : ''}`}>
+              <FiAlertTriangle size={12} />
+              {problemCounts.warnings}
+            </span>
+          </button>
+        )}
       </div>
       <div className="status-bar-center">
         {statusMessage && (
@@ -46,6 +108,31 @@ const StatusBar: React.FC<StatusBarProps> = ({
         )}
       </div>
       <div className="status-bar-right">
+        {wordCount && (
+          <button
+            className="status-item"
+            onClick={onShowWordCount}
+            disabled={!onShowWordCount}
+            title="Word count - Click for a breakdown"
+          >
+            <span className="status-value">
+              {wordCount.selectionWords !== undefined && `${wordCount.selectionWords.toLocaleString()} of `}
+              {wordCount.words.toLocaleString()}
+            </span>
+            <span className="status-label">{wordCount.words === 1 ? 'word' : 'words'}</span>
+          </button>
+        )}
+        {mathPreview && (
+          <button
+            className="status-item"
+            onClick={onCycleMathPreview}
+            disabled={!onCycleMathPreview}
+            title="Math preview - Click to switch between floating, below the formula and off"
+          >
+            <span className="status-label">Math:</span>
+            <span className="status-value">{MATH_PREVIEW_LABELS[mathPreview]}</span>
+          </button>
+        )}
         <span className="status-info">Ctrl+S: Save | Ctrl+Shift+S: Save All</span>
       </div>
     </div>
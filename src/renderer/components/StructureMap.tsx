@@ -1,19 +1,116 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { parseLatexStructure, StructureNode, ParseResult } from '../utils/latexStructureParser';
+import {
+  getSectionTotals,
+  parseLatexProjectStructure,
+  parseLatexStructure,
+  ParseResult,
+  SectionStats,
+  StructureNode,
+} from '../utils/latexStructureParser';
+import { samePath } from '../../shared/rootDocument';
+import type { WordCountOptions } from '../../shared/wordCount';
+import InputDialog from './InputDialog';
 import '../styles/StructureMap.css';
 
 interface StructureMapProps {
   content: string;
   currentFileExtension: string | null;
-  onNodeClick?: (lineNumber: number) => void;
+  // With a root document and a reader, the map covers every file the root includes.
+  filePath?: string | null;
+  rootFilePath?: string | null;
+  readFileContent?: (filePath: string) => Promise<string | null>;
+  onNodeClick?: (lineNumber: number, file?: string) => void;
+  // Target word counts keyed by section title, from the project settings.
+  wordTargets?: Record<string, number>;
+  onWordTargetsChange?: (targets: Record<string, number>) => void;
+  onStatusMessage?: (message: string) => void;
+  wordCountOptions?: WordCountOptions;
 }
 
-const StructureMap: React.FC<StructureMapProps> = ({ content, currentFileExtension, onNodeClick }) => {
+// Re-reading included files on every keystroke is wasteful; wait for typing to pause.
+const PROJECT_PARSE_DELAY_MS = 400;
+
+const NODE_RADII: Record<StructureNode['type'], number> = {
+  title: 12,
+  part: 11,
+  chapter: 10,
+  section: 8,
+  subsection: 6,
+  subsubsection: 5,
+  paragraph: 4,
+  subparagraph: 4,
+};
+
+const NODE_COLORS: Record<StructureNode['type'], string> = {
+  title: '#4ec9b0',
+  part: '#c586c0',
+  chapter: '#569cd6',
+  section: '#9cdcfe',
+  subsection: '#ce9178',
+  subsubsection: '#dcdcaa',
+  paragraph: '#d4d4d4',
+  subparagraph: '#d4d4d4',
+};
+
+const STATS_STORAGE_KEY = 'openotex:structureMapStats';
+
+// Sections that reach their target turn green; the further below it, the deeper the red.
+const TARGET_MET_COLOR = '#34d399';
+const targetColor = d3.interpolateRgb('#fde2e2', '#dc2626');
+
+const EXPORT_PADDING = 24;
+const PNG_SCALE = 2;
+
+const fileName = (filePath: string) => filePath.split(/[\\/]/).pop() || filePath;
+
+const formatStats = (stats: SectionStats) => {
+  const parts = [`${stats.words.toLocaleString()} w`];
+  if (stats.figures > 0) parts.push(`${stats.figures} fig`);
+  if (stats.todos > 0) parts.push(`${stats.todos} todo${stats.todos === 1 ? '' : 's'}`);
+  return parts.join(' · ');
+};
+
+const readStoredStats = () => {
+  try {
+    return localStorage.getItem(STATS_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+// Standalone SVG files cannot see the app's CSS variables, so bake in their current values.
+const resolveCssVariables = (markup: string, element: Element) => {
+  const style = getComputedStyle(element);
+  return markup.replace(/var\((--[\w-]+)\)/g, (match, name: string) => style.getPropertyValue(name).trim() || match);
+};
+
+const StructureMap: React.FC<StructureMapProps> = ({
+  content,
+  currentFileExtension,
+  filePath,
+  rootFilePath,
+  readFileContent,
+  onNodeClick,
+  wordTargets,
+  onWordTargetsChange,
+  onStatusMessage,
+  wordCountOptions,
+}) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [parseResult, setParseResult] = useState<ParseResult | null>(null);
   const [orientation, setOrientation] = useState<'vertical' | 'horizontal'>('horizontal');
+  const [showStats, setShowStats] = useState<boolean>(readStoredStats);
+  const [targetSection, setTargetSection] = useState<string | null>(null);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STATS_STORAGE_KEY, String(showStats));
+    } catch {
+      // Ignore storage errors
+    }
+  }, [showStats]);
 
   useEffect(() => {
     // Only parse if it's a .tex file
@@ -26,9 +123,28 @@ const StructureMap: React.FC<StructureMapProps> = ({ content, currentFileExtensi
       return;
     }
 
-    const result = parseLatexStructure(content);
-    setParseResult(result);
-  }, [content, currentFileExtension]);
+    const pathApi = (window as any).api?.path;
+    if (!rootFilePath || !readFileContent || !pathApi) {
+      setParseResult(parseLatexStructure(content, filePath ?? undefined, wordCountOptions));
+      return;
+    }
+
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      const result = await parseLatexProjectStructure(rootFilePath, {
+        path: pathApi,
+        // The open buffer may be ahead of the file on disk.
+        readFile: (target) => (filePath && samePath(target, filePath) ? Promise.resolve(content) : readFileContent(target)),
+      }, wordCountOptions);
+      if (!cancelled) {
+        setParseResult(result);
+      }
+    }, PROJECT_PARSE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [content, currentFileExtension, filePath, rootFilePath, readFileContent, wordCountOptions]);
 
   useEffect(() => {
     if (!parseResult?.isValid || !parseResult.structure || !svgRef.current || !containerRef.current) {
@@ -116,29 +232,17 @@ const StructureMap: React.FC<StructureMapProps> = ({ content, currentFileExtensi
           : `translate(${(d.y ?? 0) + offsetX},${(d.x ?? 0) + offsetY})`
       );
 
+    const targetFor = (node: StructureNode) => (node.type === 'title' ? undefined : wordTargets?.[node.title]);
+
     // Add circles
-    const circles = nodes.append('circle')
-      .attr('r', d => {
-        // Size based on level
-        switch (d.data.type) {
-          case 'title': return 12;
-          case 'chapter': return 10;
-          case 'section': return 8;
-          case 'subsection': return 6;
-          case 'subsubsection': return 5;
-          default: return 6;
-        }
-      })
+    nodes.append('circle')
+      // Size and colour based on level, or on progress towards the word target
+      .attr('r', d => NODE_RADII[d.data.type])
       .attr('fill', d => {
-        // Color based on type
-        switch (d.data.type) {
-          case 'title': return '#4ec9b0';
-          case 'chapter': return '#569cd6';
-          case 'section': return '#9cdcfe';
-          case 'subsection': return '#ce9178';
-          case 'subsubsection': return '#dcdcaa';
-          default: return '#d4d4d4';
-        }
+        const target = targetFor(d.data);
+        if (!showStats || !target) return NODE_COLORS[d.data.type];
+        const ratio = getSectionTotals(d.data).words / target;
+        return ratio >= 1 ? TARGET_MET_COLOR : targetColor(1 - ratio);
       })
       .attr('stroke', 'var(--color-border-strong)')
       .attr('stroke-width', 2)
@@ -172,16 +276,7 @@ const StructureMap: React.FC<StructureMapProps> = ({ content, currentFileExtensi
         d3.select(this).select('circle')
           .transition()
           .duration(200)
-          .attr('r', function() {
-            switch (d.data.type) {
-              case 'title': return 12;
-              case 'chapter': return 10;
-              case 'section': return 8;
-              case 'subsection': return 6;
-              case 'subsubsection': return 5;
-              default: return 6;
-            }
-          })
+          .attr('r', NODE_RADII[d.data.type])
           .attr('stroke-width', 2);
 
         // Restore label
@@ -201,8 +296,13 @@ const StructureMap: React.FC<StructureMapProps> = ({ content, currentFileExtensi
       .on('click', function(event, d) {
         // Jump to line in editor
         if (onNodeClick && d.data.lineNumber) {
-          onNodeClick(d.data.lineNumber);
+          onNodeClick(d.data.lineNumber, d.data.file);
         }
+      })
+      .on('contextmenu', function(event, d) {
+        if (!onWordTargetsChange || d.data.type === 'title') return;
+        event.preventDefault();
+        setTargetSection(d.data.title);
       });
 
     // Add text labels based on orientation
@@ -229,9 +329,31 @@ const StructureMap: React.FC<StructureMapProps> = ({ content, currentFileExtensi
       })
       .attr('font-weight', d => d.data.type === 'title' ? 'bold' : 'normal');
 
+    if (showStats) {
+      nodes.append('text')
+        .attr('dy', orientation === 'vertical' ? -3 : 13)
+        .attr('dx', orientation === 'horizontal' ? 15 : 12)
+        .attr('class', 'node-stats')
+        .attr('transform', orientation === 'vertical' ? 'rotate(-45)' : '')
+        .text(d => formatStats(getSectionTotals(d.data)))
+        .attr('fill', 'var(--color-text-muted)')
+        .attr('font-size', '9px');
+    }
+
     // Add tooltips
     nodes.append('title')
-      .text(d => `${d.data.type}: ${d.data.title}\nLine: ${d.data.lineNumber}`);
+      .text(d => {
+        const heading = `${d.data.type}${d.data.starred ? '*' : ''}: ${d.data.title}`;
+        const shortTitle = d.data.shortTitle ? `\nShort title: ${d.data.shortTitle}` : '';
+        const location = d.data.file ? `${fileName(d.data.file)}, line ${d.data.lineNumber}` : `Line: ${d.data.lineNumber}`;
+        const totals = getSectionTotals(d.data);
+        const target = targetFor(d.data);
+        const words = target
+          ? `${totals.words.toLocaleString()} / ${target.toLocaleString()} (${Math.round((totals.words / target) * 100)}%)`
+          : totals.words.toLocaleString();
+        const stats = `\nWords: ${words}\nFigures: ${totals.figures}\nTo-dos: ${totals.todos}`;
+        return `${heading}${shortTitle}\n${location}${stats}`;
+      });
 
     // Reset zoom to show all content
     const bounds = (g.node() as SVGGElement).getBBox();
@@ -249,7 +371,7 @@ const StructureMap: React.FC<StructureMapProps> = ({ content, currentFileExtensi
         .call(zoom.transform as any, d3.zoomIdentity.translate(translate[0], translate[1]).scale(scale));
     }
 
-  }, [parseResult, orientation]);
+  }, [parseResult, orientation, showStats, wordTargets]);
 
   // Handle window resize
   useEffect(() => {
@@ -263,6 +385,101 @@ const StructureMap: React.FC<StructureMapProps> = ({ content, currentFileExtensi
     return () => window.removeEventListener('resize', handleResize);
   }, [parseResult]);
 
+  // A standalone copy of the map, framed around its content rather than the current viewport.
+  const buildExportSvg = () => {
+    const svg = svgRef.current;
+    const group = svg?.querySelector('g');
+    if (!svg || !group || !containerRef.current) return null;
+    const bounds = group.getBBox();
+    const width = Math.ceil(bounds.width + EXPORT_PADDING * 2);
+    const height = Math.ceil(bounds.height + EXPORT_PADDING * 2);
+
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    clone.setAttribute('width', String(width));
+    clone.setAttribute('height', String(height));
+    clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+    clone.removeAttribute('class');
+    clone.setAttribute('font-family', getComputedStyle(containerRef.current).fontFamily);
+    clone.querySelector('g')?.setAttribute('transform', `translate(${EXPORT_PADDING - bounds.x},${EXPORT_PADDING - bounds.y})`);
+    const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+    background.setAttribute('width', '100%');
+    background.setAttribute('height', '100%');
+    background.setAttribute('fill', 'var(--color-bg-primary)');
+    clone.insertBefore(background, clone.firstChild);
+
+    const markup = resolveCssVariables(new XMLSerializer().serializeToString(clone), containerRef.current);
+    return { markup, width, height };
+  };
+
+  const renderPng = (markup: string, width: number, height: number) => new Promise<string>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * PNG_SCALE;
+      canvas.height = height * PNG_SCALE;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.scale(PNG_SCALE, PNG_SCALE);
+      context.drawImage(image, 0, 0, width, height);
+      resolve(canvas.toDataURL('image/png').split(',')[1]);
+    };
+    image.onerror = () => reject(new Error('Could not render the map'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  });
+
+  const handleExport = async (format: 'svg' | 'png') => {
+    const api = (window as any).api;
+    const exported = buildExportSvg();
+    if (!exported || !api?.saveFileAs) return;
+    const baseName = fileName(rootFilePath || filePath || 'document.tex').replace(/\.[^.]+$/, '');
+    const directory = api.path && (rootFilePath || filePath) ? api.path.dirname(rootFilePath || filePath) : undefined;
+    const defaultName = `${baseName}-structure.${format}`;
+    try {
+      const data = format === 'svg'
+        ? exported.markup
+        : await renderPng(exported.markup, exported.width, exported.height);
+      const result = await api.saveFileAs({
+        title: 'Export Structure Map',
+        defaultPath: directory ? api.path.join(directory, defaultName) : defaultName,
+        data,
+        encoding: format === 'svg' ? 'utf-8' : 'base64',
+        filters: [format === 'svg'
+          ? { name: 'SVG Image', extensions: ['svg'] }
+          : { name: 'PNG Image', extensions: ['png'] }],
+      });
+      if (result.success && !result.canceled) {
+        onStatusMessage?.(`Structure map exported to ${fileName(result.filePath)}`);
+      } else if (!result.success) {
+        onStatusMessage?.(`Export failed: ${result.error}`);
+      }
+    } catch (error) {
+      onStatusMessage?.(`Export failed: ${(error as Error).message}`);
+    }
+  };
+
+  const handleTargetConfirm = (value: string) => {
+    const section = targetSection;
+    setTargetSection(null);
+    if (section === null || !onWordTargetsChange) return;
+    const next = { ...(wordTargets || {}) };
+    const trimmed = value.trim();
+    if (!trimmed) {
+      delete next[section];
+    } else {
+      const target = Math.round(Number(trimmed.replace(/[,\s]/g, '')));
+      if (!Number.isFinite(target) || target <= 0) {
+        onStatusMessage?.('Word target must be a positive number');
+        return;
+      }
+      next[section] = target;
+    }
+    onWordTargetsChange(next);
+  };
+
   if (!parseResult) {
     return (
       <div className="structure-map-container">
@@ -308,12 +525,30 @@ const StructureMap: React.FC<StructureMapProps> = ({ content, currentFileExtensi
               Horizontal
             </button>
           </div>
+          <button
+            className={`orientation-btn structure-map-action ${showStats ? 'active' : ''}`}
+            onClick={() => setShowStats(prev => !prev)}
+            title="Show word, figure and to-do counts per section"
+            aria-pressed={showStats}
+          >
+            Statistics
+          </button>
+          <button className="orientation-btn structure-map-action" onClick={() => handleExport('svg')} title="Export as SVG">
+            SVG
+          </button>
+          <button className="orientation-btn structure-map-action" onClick={() => handleExport('png')} title="Export as PNG">
+            PNG
+          </button>
         </div>
         <div className="structure-map-legend">
           <div className="legend-item">
             <div className="legend-color" style={{ backgroundColor: '#4ec9b0' }}></div>
             <span>Title/Document</span>
           </div>
+          <div className="legend-item">
+            <div className="legend-color" style={{ backgroundColor: '#c586c0' }}></div>
+            <span>Part</span>
+          </div>
           <div className="legend-item">
             <div className="legend-color" style={{ backgroundColor: '#569cd6' }}></div>
             <span>Chapter</span>
@@ -326,10 +561,36 @@ const StructureMap: React.FC<StructureMapProps> = ({ content, currentFileExtensi
             <div className="legend-color" style={{ backgroundColor: '#ce9178' }}></div>
             <span>Subsection</span>
           </div>
+          {showStats && (
+            <div className="legend-item">
+              <div className="legend-gradient" style={{ background: `linear-gradient(to right, ${targetColor(1)}, ${targetColor(0)}, ${TARGET_MET_COLOR})` }}></div>
+              <span>Below target → on target</span>
+            </div>
+          )}
         </div>
-        <p className="structure-hint">Scroll to zoom • Drag to pan • Click nodes to jump to section</p>
+        <p className="structure-hint">
+          Scroll to zoom • Drag to pan • Click nodes to jump to section
+          {showStats && onWordTargetsChange && ' • Right-click a node to set its word target'}
+          {parseResult.files && parseResult.files.length > 1 && ` • ${parseResult.files.length} files`}
+        </p>
+        {parseResult.missingFiles && parseResult.missingFiles.length > 0 && (
+          <p className="structure-hint structure-missing">
+            Not found: {parseResult.missingFiles.join(', ')}
+          </p>
+        )}
       </div>
       <svg ref={svgRef} className="structure-map-svg"></svg>
+      <InputDialog
+        isOpen={targetSection !== null}
+        title="Word Target"
+        label={`Target length for “${targetSection ?? ''}” (words)`}
+        placeholder="e.g. 2000"
+        defaultValue={targetSection !== null && wordTargets?.[targetSection] ? String(wordTargets[targetSection]) : ''}
+        description="Counts include subsections. Leave empty to remove the target."
+        allowEmpty
+        onConfirm={handleTargetConfirm}
+        onCancel={() => setTargetSection(null)}
+      />
     </div>
   );
 };
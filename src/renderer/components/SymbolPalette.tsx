@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { FiGrid, FiSearch } from 'react-icons/fi';
+import {
+  MathSymbol,
+  searchSymbols,
+  SYMBOL_CATEGORIES,
+  SYMBOL_CATEGORY_LABELS,
+  SymbolCategory,
+} from '../../shared/mathSymbols';
+import { renderMath } from '../utils/mathJax';
+import '../styles/SymbolPalette.css';
+
+interface SymbolPaletteProps {
+  // Symbols can only be inserted into a LaTeX file.
+  canInsert: boolean;
+  onInsert: (symbol: MathSymbol) => void;
+  onOpenMatrixBuilder: () => void;
+}
+
+// Rendering is the slow part, and the catalogue never changes.
+const renderedSymbols = new Map<string, string>();
+
+const SymbolGlyph: React.FC<{ latex: string }> = ({ latex }) => {
+  let svg = renderedSymbols.get(latex);
+  if (svg === undefined) {
+    svg = renderMath(latex, false).svg ?? '';
+    renderedSymbols.set(latex, svg);
+  }
+  return svg
+    ? <span className="symbol-glyph" dangerouslySetInnerHTML={{ __html: svg }} />
+    : <span className="symbol-glyph symbol-glyph-text">{latex}</span>;
+};
+
+const describe = (symbol: MathSymbol) => (
+  `${symbol.latex} - ${symbol.name}${symbol.package ? ` (needs ${symbol.package})` : ''}`
+);
+
+const SymbolPalette: React.FC<SymbolPaletteProps> = ({ canInsert, onInsert, onOpenMatrixBuilder }) => {
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<SymbolCategory | null>(null);
+  const [hovered, setHovered] = useState<MathSymbol | null>(null);
+  const symbols = useMemo(() => searchSymbols(query, category), [query, category]);
+
+  return (
+    <div className="symbol-palette">
+      <div className="symbol-palette-toolbar">
+        <div className="symbol-search">
+          <FiSearch size={13} />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search symbols"
+            aria-label="Search symbols"
+          />
+        </div>
+        <button
+          type="button"
+          className="symbol-matrix-button"
+          onClick={onOpenMatrixBuilder}
+          disabled={!canInsert}
+          title="Build a matrix or cases block"
+        >
+          <FiGrid size={13} />
+          Matrix
+        </button>
+      </div>
+      <div className="symbol-categories" role="tablist">
+        <button
+          type="button"
+          role="tab"
+          aria-selected={category === null}
+          className={category === null ? 'active' : ''}
+          onClick={() => setCategory(null)}
+        >
+          All
+        </button>
+        {SYMBOL_CATEGORIES.map(option => (
+          <button
+            key={option}
+            type="button"
+            role="tab"
+            aria-selected={category === option}
+            className={category === option ? 'active' : ''}
+            onClick={() => setCategory(option)}
+          >
+            {SYMBOL_CATEGORY_LABELS[option]}
+          </button>
+        ))}
+      </div>
+      <div className="symbol-grid" onMouseLeave={() => setHovered(null)}>
+        {symbols.length === 0 && <div className="symbol-empty">No symbols match "{query}"</div>}
+        {symbols.map(symbol => (
+          <button
+            key={symbol.latex}
+            type="button"
+            className={`symbol-button ${symbol.package ? 'needs-package' : ''}`}
+            onClick={() => onInsert(symbol)}
+            onMouseEnter={() => setHovered(symbol)}
+            disabled={!canInsert}
+            title={describe(symbol)}
+            aria-label={describe(symbol)}
+          >
+            <SymbolGlyph latex={symbol.latex} />
+          </button>
+        ))}
+      </div>
+      <div className="symbol-details">
+        {hovered ? (
+          <>
+            <code>{hovered.latex}</code>
+            <span>{hovered.name}</span>
+            {hovered.package && <span className="symbol-package">\usepackage{`{${hovered.package}}`}</span>}
+          </>
+        ) : (
+          <span>{canInsert ? 'Click a symbol to insert it at the cursor' : 'Open a .tex file to insert symbols'}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SymbolPalette;
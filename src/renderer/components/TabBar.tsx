@@ -1,5 +1,6 @@
 import React from 'react';
 import { FiX } from 'react-icons/fi';
+import type { DiagnosticCounts } from '../../shared/latexDiagnostics';
 import '../styles/TabBar.css';
 
 interface FileNode {
@@ -14,31 +15,45 @@ interface TabBarProps {
   activeTab: FileNode | null;
   onTabClick: (file: FileNode) => void;
   onTabClose: (file: FileNode, event: React.MouseEvent) => void;
+  // Compile problems per tab path, so files in background tabs still show them.
+  problemCounts?: Record<string, DiagnosticCounts>;
 }
 
-const TabBar: React.FC<TabBarProps> = ({ openTabs, activeTab, onTabClick, onTabClose }) => {
+const TabBar: React.FC<TabBarProps> = ({ openTabs, activeTab, onTabClick, onTabClose, problemCounts = {} }) => {
   if (openTabs.length === 0) {
     return null;
   }
 
   return (
     <div className="tab-bar">
-      {openTabs.map((tab) => (
-        <div
-          key={tab.path}
-          className={`tab ${activeTab?.path === tab.path ? 'active' : ''}`}
-          onClick={() => onTabClick(tab)}
-        >
-          <span className="tab-name">{tab.name}</span>
-          <button
-            className="tab-close"
-            onClick={(e) => onTabClose(tab, e)}
-            title="Close"
+      {openTabs.map((tab) => {
+        const counts = problemCounts[tab.path];
+        const problems = counts ? counts.errors + counts.warnings : 0;
+        return (
+          <div
+            key={tab.path}
+            className={`tab ${activeTab?.path === tab.path ? 'active' : ''}`}
+            onClick={() => onTabClick(tab)}
           >
-            <FiX size={14} />
-          </button>
-        </div>
-      ))}
+            <span className={`tab-name ${counts?.errors ? 'has-errors' : problems ? 'has-warnings' : ''}`}>{tab.name}</span>
+            {problems > 0 && (
+              <span
+                className={`tab-problems ${counts!.errors ? 'error' : 'warning'}`}
+                title={`${counts!.errors} error${counts!.errors !== 1 ? 's' : ''}, ${counts!.warnings} warning${counts!.warnings !== 1 ? 's' : ''}`}
+              >
+                {problems}
+              </span>
+            )}
+            <button
+              className="tab-close"
+              onClick={(e) => onTabClose(tab, e)}
+              title="Close"
+            >
+              <FiX size={14} />
+            </button>
+          </div>
+        );
+      })}
     </div>
   );
 };
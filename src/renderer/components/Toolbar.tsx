@@ -9,9 +9,12 @@ import {
   FiFilePlus,
   FiClock,
   FiMap,
+  FiBook,
+  FiSliders,
 } from 'react-icons/fi';
 import HelpDialog from './HelpDialog';
 import { APP_EDITION } from '../../shared/appInfo';
+import { LatexEngine, LATEX_ENGINES, LATEX_ENGINE_LABELS } from '../../shared/projectSettings';
 import '../styles/Toolbar.css';
 
 interface ToolbarProps {
@@ -30,8 +33,15 @@ interface ToolbarProps {
   onToggleStructureMap: () => void;
   isStructureMapVisible: boolean;
   canShowStructureMap: boolean;
-  latexEngine: 'pdflatex' | 'xelatex' | 'lualatex';
-  onLatexEngineChange: (engine: 'pdflatex' | 'xelatex' | 'lualatex') => void;
+  onToggleBibliography: () => void;
+  isBibliographyVisible: boolean;
+  latexEngine: LatexEngine;
+  onLatexEngineChange: (engine: LatexEngine) => void;
+  buildRecipe: string;
+  recipeChoices: Array<{ name: string; label: string }>;
+  onBuildRecipeChange: (recipe: string) => void;
+  onOpenProjectSettings: () => void;
+  hasProject: boolean;
 }
 
 const Toolbar: React.FC<ToolbarProps> = ({
@@ -50,8 +60,15 @@ const Toolbar: React.FC<ToolbarProps> = ({
   onToggleStructureMap,
   isStructureMapVisible,
   canShowStructureMap,
+  onToggleBibliography,
+  isBibliographyVisible,
   latexEngine,
   onLatexEngineChange,
+  buildRecipe,
+  recipeChoices,
+  onBuildRecipeChange,
+  onOpenProjectSettings,
+  hasProject,
 }) => {
   const [isHelpOpen, setIsHelpOpen] = useState(false);
 
@@ -121,20 +138,53 @@ const Toolbar: React.FC<ToolbarProps> = ({
           <FiMap size={18} />
           <span>Structure Map</span>
         </button>
+        <button
+          className={`toolbar-btn ${isBibliographyVisible ? 'active' : ''}`}
+          onClick={onToggleBibliography}
+          title={hasProject ? (isBibliographyVisible ? 'Hide Bibliography' : 'Show Bibliography - Manage the project\'s .bib entries') : 'Bibliography only available for projects'}
+          disabled={!hasProject}
+          aria-pressed={isBibliographyVisible}
+        >
+          <FiBook size={18} />
+          <span>Bibliography</span>
+        </button>
         <div className="engine-selector">
           <label htmlFor="latex-engine" className="engine-label">Engine:</label>
           <select
             id="latex-engine"
             className="engine-select"
             value={latexEngine}
-            onChange={(e) => onLatexEngineChange(e.target.value as 'pdflatex' | 'xelatex' | 'lualatex')}
-            title="Select LaTeX compilation engine"
+            onChange={(e) => onLatexEngineChange(e.target.value as LatexEngine)}
+            title={hasProject ? 'Select LaTeX compilation engine (saved to the project settings)' : 'Select LaTeX compilation engine'}
           >
-            <option value="pdflatex">pdfLaTeX</option>
-            <option value="xelatex">XeLaTeX</option>
-            <option value="lualatex">LuaLaTeX</option>
+            {LATEX_ENGINES.map(engine => (
+              <option key={engine} value={engine}>{LATEX_ENGINE_LABELS[engine]}</option>
+            ))}
           </select>
         </div>
+        <div className="engine-selector">
+          <label htmlFor="build-recipe" className="engine-label">Recipe:</label>
+          <select
+            id="build-recipe"
+            className="engine-select"
+            value={buildRecipe}
+            onChange={(e) => onBuildRecipeChange(e.target.value)}
+            title={hasProject ? 'Select the build recipe (saved to the project settings)' : 'Build recipes - open a project first'}
+            disabled={!hasProject}
+          >
+            {recipeChoices.map(choice => (
+              <option key={choice.name} value={choice.name}>{choice.label}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          className="toolbar-btn"
+          onClick={onOpenProjectSettings}
+          title={hasProject ? 'Project Settings - engine, root document and build options' : 'Project Settings - open a project first'}
+          disabled={!hasProject}
+        >
+          <FiSliders size={18} />
+        </button>
         <button
           className="toolbar-btn compile-btn"
           onClick={onCompile}
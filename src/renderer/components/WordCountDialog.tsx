@@ -0,0 +1,174 @@
+import React from 'react';
+import { FiX } from 'react-icons/fi';
+import { getSectionTotals, ParseResult, StructureNode } from '../utils/latexStructureParser';
+import { WORD_COUNT_OPTION_LABELS, WordCount, WordCountOptions } from '../../shared/wordCount';
+import '../styles/WordCountDialog.css';
+
+interface WordCountDialogProps {
+  isOpen: boolean;
+  report: ParseResult | null;
+  selection: WordCount | null;
+  options: WordCountOptions;
+  // Unset when there is no project to store the options in.
+  onOptionsChange?: (options: WordCountOptions) => void;
+  // Paths are shown relative to this directory when they sit inside it.
+  projectPath?: string | null;
+  onNavigate?: (lineNumber: number, file?: string) => void;
+  onClose: () => void;
+}
+
+const OPTION_KEYS = Object.keys(WORD_COUNT_OPTION_LABELS) as Array<keyof WordCountOptions>;
+
+const formatNumber = (value: number) => value.toLocaleString();
+
+const flattenSections = (node: StructureNode, depth = 0): Array<{ node: StructureNode; depth: number }> => (
+  node.children
+    .filter(child => child.id !== 'author')
+    .flatMap(child => [{ node: child, depth }, ...flattenSections(child, depth + 1)])
+);
+
+const WordCountDialog: React.FC<WordCountDialogProps> = ({
+  isOpen,
+  report,
+  selection,
+  options,
+  onOptionsChange,
+  projectPath,
+  onNavigate,
+  onClose,
+}) => {
+  if (!isOpen) return null;
+
+  const totals = report?.totals ?? null;
+  const files = report?.fileStats ?? [];
+  const sections = report?.structure ? flattenSections(report.structure) : [];
+  const relativePath = (filePath: string) => {
+    if (!projectPath) return filePath;
+    const prefix = projectPath.replace(/[\\/]+$/, '');
+    return filePath.startsWith(prefix) ? filePath.slice(prefix.length + 1) : filePath;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const renderBreakdown = (count: WordCount) => (
+    <table className="word-count-table">
+      <tbody>
+        <tr>
+          <td>Text</td>
+          <td className="word-count-number">{formatNumber(count.text)}</td>
+        </tr>
+        {OPTION_KEYS.map(key => (
+          <tr key={key} className={options[key] ? '' : 'excluded'}>
+            <td>{WORD_COUNT_OPTION_LABELS[key]}{options[key] ? '' : ' (not counted)'}</td>
+            <td className="word-count-number">{formatNumber(count[key])}</td>
+          </tr>
+        ))}
+        <tr className="word-count-total">
+          <td>Words</td>
+          <td className="word-count-number">{formatNumber(count.words)}</td>
+        </tr>
+        <tr>
+          <td>Characters (letters and digits)</td>
+          <td className="word-count-number">{formatNumber(count.characters)}</td>
+        </tr>
+        <tr>
+          <td>Inline / display formulas</td>
+          <td className="word-count-number">{formatNumber(count.inlineMath)} / {formatNumber(count.displayMath)}</td>
+        </tr>
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="word-count-overlay" onClick={onClose} onKeyDown={handleKeyDown}>
+      <div className="word-count-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="word-count-header">
+          <h3>Word Count</h3>
+          <button className="word-count-close" onClick={onClose} aria-label="Close">
+            <FiX size={20} />
+          </button>
+        </div>
+        <div className="word-count-body">
+          {!totals ? (
+            <div className="word-count-empty">{report?.error || 'Counting…'}</div>
+          ) : (
+            <>
+              <div className="word-count-columns">
+                <section>
+                  <h4>Document</h4>
+                  {renderBreakdown(totals)}
+                </section>
+                {selection && (
+                  <section>
+                    <h4>Selection</h4>
+                    {renderBreakdown(selection)}
+                  </section>
+                )}
+              </div>
+
+              {files.length > 1 && (
+                <section>
+                  <h4>Files</h4>
+                  <table className="word-count-table">
+                    <tbody>
+                      {files.map(({ file, stats }) => (
+                        <tr key={file}>
+                          <td className="word-count-file" title={file}>{relativePath(file)}</td>
+                          <td className="word-count-number">{formatNumber(stats.words)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </section>
+              )}
+
+              {sections.length > 0 && (
+                <section>
+                  <h4>Sections</h4>
+                  <table className="word-count-table">
+                    <tbody>
+                      {sections.map(({ node, depth }) => (
+                        <tr
+                          key={node.id}
+                          className={onNavigate ? 'word-count-link' : ''}
+                          onClick={onNavigate ? () => onNavigate(node.lineNumber, node.file) : undefined}
+                        >
+                          <td style={{ paddingLeft: 8 + depth * 16 }}>{node.title}</td>
+                          <td className="word-count-number">{formatNumber(getSectionTotals(node).words)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+        <div className="word-count-footer">
+          <span className="word-count-options-label">Count:</span>
+          {OPTION_KEYS.map(key => (
+            <label key={key} className="word-count-option">
+              <input
+                type="checkbox"
+                checked={options[key]}
+                disabled={!onOptionsChange}
+                onChange={(e) => onOptionsChange?.({ ...options, [key]: e.target.checked })}
+              />
+              {WORD_COUNT_OPTION_LABELS[key]}
+            </label>
+          ))}
+          <span className="word-count-footer-spacer" />
+          <button type="button" className="btn-confirm" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WordCountDialog;
@@ -0,0 +1,106 @@
+import type * as monaco from 'monaco-editor';
+import { BIB_ENTRY_TYPES } from '../../shared/bibliography';
+
+/**
+ * The `bibtex` language for Monaco: highlighting, brackets and entry snippets. Folding,
+ * formatting and diagnostics are registered by the editor.
+ */
+
+export const BIBTEX_LANGUAGE_ID = 'bibtex';
+
+export const bibtexTokens: monaco.languages.IMonarchLanguage = {
+  ignoreCase: true,
+  defaultToken: '',
+  tokenizer: {
+    root: [
+      // `@comment` and anything outside an entry are ignored by BibTeX.
+      [/@\s*comment\b/, 'comment'],
+      [/@\s*(?:string|preamble)\b/, 'keyword', '@macroOpen'],
+      [/@\s*[a-z]+/, 'keyword', '@entryOpen'],
+      [/[^@]+/, 'comment'],
+      [/@/, 'comment'],
+    ],
+    macroOpen: [
+      [/\s+/, ''],
+      [/[{(]/, { token: 'delimiter.curly', switchTo: '@fields' }],
+      [/./, { token: '@rematch', next: '@pop' }],
+    ],
+    entryOpen: [
+      [/\s+/, ''],
+      [/[{(]/, { token: 'delimiter.curly', switchTo: '@entryKey' }],
+      [/./, { token: '@rematch', next: '@pop' }],
+    ],
+    entryKey: [
+      [/\s+/, ''],
+      [/[^\s,{}()"=#%]+/, 'type.identifier'],
+      [/,/, { token: 'delimiter', switchTo: '@fields' }],
+      [/[})]/, 'delimiter.curly', '@pop'],
+    ],
+    fields: [
+      [/\s+/, ''],
+      [/%.*$/, 'comment'],
+      [/[a-z][\w:.+-]*(?=\s*=)/, 'attribute.name'],
+      [/[=#]/, 'operator'],
+      [/\d+\b/, 'number'],
+      [/[a-z][\w:.+-]*/, 'variable'],
+      [/\{/, 'string', '@bracedValue'],
+      [/"/, 'string', '@quotedValue'],
+      [/,/, 'delimiter'],
+      [/[})]/, 'delimiter.curly', '@pop'],
+    ],
+    bracedValue: [
+      [/[^{}\\]+/, 'string'],
+      [/\\(?:[a-z]+|.)/, 'string.escape'],
+      [/\{/, 'string', '@push'],
+      [/\}/, 'string', '@pop'],
+    ],
+    quotedValue: [
+      [/[^"{}\\]+/, 'string'],
+      [/\\(?:[a-z]+|.)/, 'string.escape'],
+      [/\{/, 'string', '@bracedValue'],
+      [/"/, 'string', '@pop'],
+    ],
+  },
+};
+
+export const bibtexConfiguration: monaco.languages.LanguageConfiguration = {
+  // Biber accepts `%` comment lines.
+  comments: { lineComment: '%' },
+  brackets: [['{', '}'], ['(', ')']],
+  autoClosingPairs: [
+    { open: '{', close: '}' },
+    { open: '(', close: ')' },
+    { open: '"', close: '"' },
+  ],
+  surroundingPairs: [
+    { open: '{', close: '}' },
+    { open: '"', close: '"' },
+  ],
+  wordPattern: /[^\s,{}()"=#%@]+/,
+};
+
+// Required fields first (the first of each set of alternatives), then the usual extras.
+const entrySnippet = (type: string, extras: string[]) => {
+  const fields = [...BIB_ENTRY_TYPES[type].required.map(alternatives => alternatives[0]), ...extras];
+  const width = Math.max(...fields.map(field => field.length));
+  const lines = fields.map((field, index) => `\t${field.padEnd(width)} = {\${${index + 2}}}`);
+  return `@${type}{\${1:key},\n${lines.join(',\n')}\n}$0`;
+};
+
+export const bibtexSnippets = [
+  {
+    label: '@article',
+    detail: 'Journal article',
+    insertText: entrySnippet('article', ['volume', 'number', 'pages', 'doi']),
+  },
+  {
+    label: '@inproceedings',
+    detail: 'Conference paper',
+    insertText: entrySnippet('inproceedings', ['pages', 'publisher', 'doi']),
+  },
+  {
+    label: '@book',
+    detail: 'Book',
+    insertText: entrySnippet('book', ['address', 'edition', 'isbn']),
+  },
+];
@@ -0,0 +1,245 @@
+import { maskVerbatim } from '../../shared/latexSymbols';
+import { stripLatexComments } from '../../shared/rootDocument';
+import { cleanLatexText, readGroup, scanStructure, SECTION_LEVELS } from './latexStructureParser';
+
+export type OutlineEntryKind = 'section' | 'figure' | 'table' | 'equation' | 'todo' | 'include';
+
+export interface OutlineEntry {
+  kind: OutlineEntryKind;
+  // Heading type (`section`), environment (`figure*`) or command (`todo`, `input`).
+  name: string;
+  // Heading title, caption, equation text, note text or include target.
+  title: string;
+  label?: string;
+  // Sectioning level for headings, see SECTION_LEVELS; 0 for everything else.
+  level: number;
+  lineNumber: number;
+  // Last line of an environment.
+  endLineNumber: number;
+  starred?: boolean;
+  children: OutlineEntry[];
+}
+
+const ENVIRONMENT_KINDS: Record<string, OutlineEntryKind> = {
+  figure: 'figure',
+  wrapfigure: 'figure',
+  sidewaysfigure: 'figure',
+  table: 'table',
+  wraptable: 'table',
+  sidewaystable: 'table',
+  equation: 'equation',
+  align: 'equation',
+  alignat: 'equation',
+  flalign: 'equation',
+  gather: 'equation',
+  multline: 'equation',
+  eqnarray: 'equation',
+};
+
+const ENVIRONMENT_PATTERN = new RegExp(`\\\\begin\\s*\\{(${Object.keys(ENVIRONMENT_KINDS).join('|')})(\\*?)\\}`, 'g');
+const TODO_PATTERN = /\\(todo|missingfigure)(?![A-Za-z])\s*(?:\[[^\]]*\]\s*)?(?=\{)/g;
+
+// Commands that close off the last section's block: nothing after them belongs to it.
+const BLOCK_TERMINATOR = /\\(?:end\s*\{document\}|appendix\b|backmatter\b|bibliography\s*\{|printbibliography\b)/;
+
+// Equations have no caption; a short piece of the formula stands in for one.
+const EQUATION_PREVIEW_LENGTH = 60;
+
+const createLineLookup = (text: string) => {
+  const lineStarts = [0];
+  for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) {
+    lineStarts.push(index + 1);
+  }
+  return (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return low + 1;
+  };
+};
+
+const readArgument = (body: string, command: string): string | undefined => {
+  const pattern = new RegExp(`\\\\${command}(?![A-Za-z])\\*?\\s*(?:\\[[^\\]]*\\]\\s*)?(?=\\{)`);
+  const match = pattern.exec(body);
+  if (!match) return undefined;
+  return readGroup(body, match.index + match[0].length)?.value;
+};
+
+/**
+ * Headings, floats, display equations, `\todo` notes and included files in source order.
+ * Comments and verbatim text are skipped.
+ */
+export function extractOutlineEntries(content: string): OutlineEntry[] {
+  const text = stripLatexComments(maskVerbatim(content));
+  const lineAt = createLineLookup(text);
+  const entries: OutlineEntry[] = [];
+
+  scanStructure(content).forEach(token => {
+    if (token.kind === 'heading') {
+      entries.push({
+        kind: 'section',
+        name: token.type,
+        title: token.title,
+        level: SECTION_LEVELS[token.type],
+        lineNumber: token.lineNumber,
+        endLineNumber: token.lineNumber,
+        starred: token.starred || undefined,
+        children: [],
+      });
+    } else if (token.directory === undefined) {
+      entries.push({
+        kind: 'include',
+        name: token.command,
+        title: token.target,
+        level: 0,
+        lineNumber: token.lineNumber,
+        endLineNumber: token.lineNumber,
+        children: [],
+      });
+    }
+  });
+
+  ENVIRONMENT_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ENVIRONMENT_PATTERN.exec(text)) !== null) {
+    const name = `${match[1]}${match[2]}`;
+    const kind = ENVIRONMENT_KINDS[match[1]];
+    const bodyStart = match.index + match[0].length;
+    const endMatch = new RegExp(`\\\\end\\s*\\{${name.replace('*', '\\*')}\\}`).exec(text.slice(bodyStart));
+    const bodyEnd = endMatch ? bodyStart + endMatch.index : text.length;
+    const body = text.slice(bodyStart, bodyEnd);
+    const caption = readArgument(body, 'caption');
+    const label = readArgument(body, 'label')?.trim();
+    let title = caption !== undefined ? cleanLatexText(caption) : '';
+    if (kind === 'equation' && !title) {
+      const formula = body.replace(/\\label\s*\{[^}]*\}/g, '').replace(/\\nonumber|\\notag/g, '').replace(/\s+/g, ' ').trim();
+      title = formula.length > EQUATION_PREVIEW_LENGTH ? `${formula.slice(0, EQUATION_PREVIEW_LENGTH)}…` : formula;
+    }
+    entries.push({
+      kind,
+      name,
+      title,
+      label: label || undefined,
+      level: 0,
+      lineNumber: lineAt(match.index),
+      endLineNumber: lineAt(endMatch ? bodyEnd + endMatch[0].length - 1 : text.length),
+      children: [],
+    });
+  }
+
+  TODO_PATTERN.lastIndex = 0;
+  while ((match = TODO_PATTERN.exec(text)) !== null) {
+    const note = readGroup(text, match.index + match[0].length);
+    if (!note) continue;
+    entries.push({
+      kind: 'todo',
+      name: match[1],
+      title: cleanLatexText(note.value) || (match[1] === 'missingfigure' ? 'Missing figure' : ''),
+      level: 0,
+      lineNumber: lineAt(match.index),
+      endLineNumber: lineAt(match.index),
+      children: [],
+    });
+  }
+
+  // Stable: on a shared line, headings stay ahead of what follows them.
+  return entries.sort((a, b) => a.lineNumber - b.lineNumber);
+}
+
+/**
+ * Nest entries under the heading they follow.
+ */
+export function buildOutlineTree(entries: OutlineEntry[]): OutlineEntry[] {
+  const roots: OutlineEntry[] = [];
+  const stack: OutlineEntry[] = [];
+  entries.forEach(entry => {
+    const node = { ...entry, children: [] };
+    if (node.kind === 'section') {
+      while (stack.length > 0 && stack[stack.length - 1].level >= node.level) {
+        stack.pop();
+      }
+    }
+    (stack.length > 0 ? stack[stack.length - 1].children : roots).push(node);
+    if (node.kind === 'section') {
+      stack.push(node);
+    }
+  });
+  return roots;
+}
+
+/**
+ * The entry the cursor is in: an environment spanning the line, else the last heading above it.
+ */
+export function findActiveEntry(entries: OutlineEntry[], lineNumber: number): OutlineEntry | null {
+  let active: OutlineEntry | null = null;
+  let section: OutlineEntry | null = null;
+  for (const entry of entries) {
+    if (entry.lineNumber > lineNumber) break;
+    if (entry.kind === 'section') {
+      section = entry;
+    } else if (entry.endLineNumber >= lineNumber && entry.kind !== 'include' && entry.kind !== 'todo') {
+      active = entry;
+    }
+  }
+  return active ?? section;
+}
+
+/**
+ * Lines `[start, end)` (1-based) making up the section whose heading is on `lineNumber`: up to the
+ * next heading of the same or a higher level, or the end of the document body.
+ */
+export function findSectionBlock(content: string, lineNumber: number): { start: number; end: number } | null {
+  const headings = scanStructure(content).filter(token => token.kind === 'heading');
+  const index = headings.findIndex(token => token.lineNumber === lineNumber);
+  if (index === -1) return null;
+  const heading = headings[index];
+  if (heading.kind !== 'heading') return null;
+  const level = SECTION_LEVELS[heading.type];
+
+  const lines = stripLatexComments(maskVerbatim(content)).split('\n');
+  let end = lines.length + 1;
+  const next = headings.slice(index + 1).find(token => token.kind === 'heading' && SECTION_LEVELS[token.type] <= level);
+  if (next) end = next.lineNumber;
+  for (let line = heading.lineNumber + 1; line < end; line++) {
+    if (BLOCK_TERMINATOR.test(lines[line - 1])) {
+      end = line;
+      break;
+    }
+  }
+  return { start: heading.lineNumber, end };
+}
+
+/**
+ * Move the section starting at `sourceLine` (with everything it contains) before or after the
+ * section starting at `targetLine`. Returns null when the move is not possible, e.g. onto itself
+ * or into its own subsections.
+ */
+export function moveSectionBlock(
+  content: string,
+  sourceLine: number,
+  targetLine: number,
+  placement: 'before' | 'after'
+): string | null {
+  // Work on whole lines: the empty string after the final newline is not a line of its own.
+  const normalized = content.endsWith('\n') ? content : `${content}\n`;
+  const lines = normalized.split('\n');
+  const source = findSectionBlock(normalized, sourceLine);
+  const target = findSectionBlock(normalized, targetLine);
+  if (!source || !target || sourceLine === targetLine) return null;
+  if (targetLine >= source.start && targetLine < source.end) return null;
+
+  const sourceEnd = Math.min(source.end, lines.length);
+  const block = lines.slice(source.start - 1, sourceEnd - 1);
+  let insertAt = placement === 'before' ? target.start - 1 : Math.min(target.end, lines.length) - 1;
+  if (insertAt > source.start - 1) {
+    insertAt -= block.length;
+  }
+  lines.splice(source.start - 1, block.length);
+  lines.splice(insertAt, 0, ...block);
+  const result = lines.join('\n');
+  return content.endsWith('\n') ? result : result.slice(0, -1);
+}
@@ -1,158 +1,543 @@
+import { maskVerbatim } from '../../shared/latexSymbols';
+import { PathHelpers, samePath, stripLatexComments } from '../../shared/rootDocument';
+import {
+  addWordCounts,
+  countFigures,
+  countLatex,
+  countTodos,
+  DEFAULT_WORD_COUNT_OPTIONS,
+  emptyWordCount,
+  WordCount,
+  WordCountOptions,
+} from '../../shared/wordCount';
+
+export type StructureNodeType =
+  | 'title'
+  | 'part'
+  | 'chapter'
+  | 'section'
+  | 'subsection'
+  | 'subsubsection'
+  | 'paragraph'
+  | 'subparagraph';
+
+export interface SectionStats extends WordCount {
+  figures: number;
+  todos: number;
+}
+
 export interface StructureNode {
   id: string;
   title: string;
+  // Table-of-contents form from `\section[short]{long}`.
+  shortTitle?: string;
   level: number;
-  type: 'title' | 'chapter' | 'section' | 'subsection' | 'subsubsection';
+  type: StructureNodeType;
+  // `\section*` and friends: unnumbered and left out of the table of contents.
+  starred?: boolean;
   children: StructureNode[];
+  // File the heading is written in; unset when only a single buffer was parsed.
+  file?: string;
   lineNumber: number;
+  // The heading and the text up to the next one, subsections not included; see getSectionTotals.
+  stats?: SectionStats;
 }
 
 export interface ParseResult {
   isValid: boolean;
   structure: StructureNode | null;
   error?: string;
+  // Files read for a project parse, root first, in document order.
+  files?: string[];
+  // Include targets that could not be found.
+  missingFiles?: string[];
+  // Statistics for the document body, also when it has no headings.
+  totals?: SectionStats;
+  // Per-file statistics in document order; files included from the preamble are left out.
+  fileStats?: Array<{ file: string; stats: SectionStats }>;
 }
 
+export interface StructureHost {
+  path: PathHelpers;
+  readFile: (filePath: string) => Promise<string | null>;
+}
+
+export const SECTION_LEVELS: Record<Exclude<StructureNodeType, 'title'>, number> = {
+  part: 1,
+  chapter: 2,
+  section: 3,
+  subsection: 4,
+  subsubsection: 5,
+  paragraph: 6,
+  subparagraph: 7,
+};
+
+// `start`/`end` are offsets of the whole command in the source.
+export type StructureToken =
+  | { kind: 'heading'; type: Exclude<StructureNodeType, 'title'>; starred: boolean; title: string; shortTitle?: string; lineNumber: number; start: number; end: number }
+  | { kind: 'include'; command: string; directory?: string; target: string; lineNumber: number; start: number; end: number };
+
+// Nested includes deeper than this are almost certainly a cycle through differently spelled paths.
+const MAX_INCLUDE_DEPTH = 20;
+
+const TOKEN_PATTERN = new RegExp([
+  '\\\\(part|chapter|section|subsection|subsubsection|paragraph|subparagraph)(?![A-Za-z])(\\*?)',
+  '\\\\(input|include|subfile)(?=\\s*\\{)',
+  '\\\\(import|subimport|inputfrom|subinputfrom|includefrom|subincludefrom)\\*?(?=\\s*\\{)',
+].join('|'), 'g');
+
 /**
- * Parse LaTeX content to extract document structure
+ * Read a `{...}` or `[...]` group starting at `start`, allowing nested braces.
  */
-export function parseLatexStructure(content: string): ParseResult {
-  if (!content || content.trim().length === 0) {
-    return {
-      isValid: false,
-      structure: null,
-      error: 'Empty document'
-    };
+export function readGroup(text: string, start: number): { value: string; end: number } | null {
+  const open = text[start];
+  if (open !== '{' && open !== '[') {
+    return null;
   }
+  let depth = 0;
+  for (let index = start + 1; index < text.length; index++) {
+    const char = text[index];
+    if (char === '\\') {
+      index += 1;
+    } else if (char === '{') {
+      depth += 1;
+    } else if (char === '}') {
+      if (depth === 0) {
+        return open === '{' ? { value: text.slice(start + 1, index), end: index + 1 } : null;
+      }
+      depth -= 1;
+    } else if (char === ']' && open === '[' && depth === 0) {
+      return { value: text.slice(start + 1, index), end: index + 1 };
+    }
+  }
+  return null;
+}
 
-  // Check if it's a valid LaTeX document
-  if (!content.includes('\\documentclass') && !content.includes('\\begin{document}')) {
-    return {
-      isValid: false,
-      structure: null,
-      error: 'Not a valid LaTeX document'
-    };
+function skipSpaces(text: string, index: number): number {
+  while (index < text.length && /\s/.test(text[index])) {
+    index += 1;
   }
+  return index;
+}
+
+// Source with comments and verbatim text blanked out; offsets and lines are unchanged.
+const codeText = (content: string) => stripLatexComments(maskVerbatim(content));
+
+/**
+ * Headings and include commands in document order. Comments and verbatim text are skipped.
+ */
+export function scanStructure(content: string): StructureToken[] {
+  return scanCodeText(codeText(content));
+}
 
-  const lines = content.split('\n');
+function scanCodeText(text: string): StructureToken[] {
+  const lineStarts = [0];
+  for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) {
+    lineStarts.push(index + 1);
+  }
+  const lineAt = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return low + 1;
+  };
+
+  const tokens: StructureToken[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_PATTERN.exec(text)) !== null) {
+    const lineNumber = lineAt(match.index);
+    let cursor = skipSpaces(text, TOKEN_PATTERN.lastIndex);
+
+    if (match[1]) {
+      let shortTitle: string | undefined;
+      if (text[cursor] === '[') {
+        const optional = readGroup(text, cursor);
+        if (!optional) continue;
+        shortTitle = cleanLatexText(optional.value);
+        cursor = skipSpaces(text, optional.end);
+      }
+      const title = readGroup(text, cursor);
+      if (!title || text[cursor] !== '{') continue;
+      TOKEN_PATTERN.lastIndex = title.end;
+      tokens.push({
+        kind: 'heading',
+        type: match[1] as Exclude<StructureNodeType, 'title'>,
+        starred: match[2] === '*',
+        title: cleanLatexText(title.value),
+        shortTitle: shortTitle || undefined,
+        lineNumber,
+        start: match.index,
+        end: title.end,
+      });
+      continue;
+    }
+
+    const first = readGroup(text, cursor);
+    if (!first || text[cursor] !== '{') continue;
+    if (match[3]) {
+      TOKEN_PATTERN.lastIndex = first.end;
+      tokens.push({ kind: 'include', command: match[3], target: first.value.trim(), lineNumber, start: match.index, end: first.end });
+      continue;
+    }
+    cursor = skipSpaces(text, first.end);
+    const second = readGroup(text, cursor);
+    if (!second || text[cursor] !== '{') continue;
+    TOKEN_PATTERN.lastIndex = second.end;
+    tokens.push({
+      kind: 'include',
+      command: match[4],
+      directory: first.value.trim(),
+      target: second.value.trim(),
+      lineNumber,
+      start: match.index,
+      end: second.end,
+    });
+  }
+  return tokens;
+}
+
+function readCommandArgument(content: string, command: string): string | null {
+  const text = stripLatexComments(content);
+  const pattern = new RegExp(`\\\\${command}(?![A-Za-z])\\s*(?:\\[[^\\]]*\\]\\s*)?(?=\\{)`, 'g');
+  const match = pattern.exec(text);
+  if (!match) {
+    return null;
+  }
+  const group = readGroup(text, pattern.lastIndex);
+  return group ? group.value : null;
+}
+
+function createRoot(content: string, file?: string): StructureNode {
   const root: StructureNode = {
     id: 'root',
     title: 'Document',
     level: 0,
     type: 'title',
     children: [],
+    file,
     lineNumber: 0
   };
 
   // Extract title if exists
-  const titleMatch = content.match(/\\title\{([^}]+)\}/);
-  if (titleMatch) {
-    root.title = cleanLatexText(titleMatch[1]);
+  const title = readCommandArgument(content, 'title');
+  if (title) {
+    root.title = cleanLatexText(title) || root.title;
   }
 
   // Extract author if exists (optional, can be used for subtitle)
-  const authorMatch = content.match(/\\author\{([^}]+)\}/);
-  if (authorMatch) {
-    const authorNode: StructureNode = {
+  const author = readCommandArgument(content, 'author');
+  if (author) {
+    root.children.push({
       id: 'author',
-      title: `By: ${cleanLatexText(authorMatch[1])}`,
+      title: `By: ${cleanLatexText(author.replace(/\\and\b/g, ', '))}`,
       level: 1,
       type: 'section',
       children: [],
+      file,
       lineNumber: 0
-    };
-    root.children.push(authorNode);
+    });
   }
+  return root;
+}
+
+const emptyStats = (): SectionStats => ({ ...emptyWordCount(), figures: 0, todos: 0 });
 
-  // Stack to maintain hierarchy
+const addStats = (a: SectionStats, b: SectionStats): SectionStats => ({
+  ...addWordCounts(a, b),
+  figures: a.figures + b.figures,
+  todos: a.todos + b.todos,
+});
+
+/**
+ * Builds the tree from headings as they are met, keeping the current ancestors on a stack.
+ * Text is counted towards the most recent heading, and towards the file it was read from.
+ */
+function createTreeBuilder(root: StructureNode, options: WordCountOptions) {
   const stack: StructureNode[] = [root];
+  const fileStats: Array<{ file: string; stats: SectionStats }> = [];
+  let totals = emptyStats();
   let nodeIdCounter = 0;
 
-  // Regex patterns for different levels
-  const patterns = [
-    { regex: /\\chapter\{([^}]+)\}/,         type: 'chapter' as const,        level: 1 },
-    { regex: /\\section\{([^}]+)\}/,         type: 'section' as const,        level: 2 },
-    { regex: /\\subsection\{([^}]+)\}/,      type: 'subsection' as const,     level: 3 },
-    { regex: /\\subsubsection\{([^}]+)\}/,   type: 'subsubsection' as const,  level: 4 }
-  ];
+  const addHeading = (token: Extract<StructureToken, { kind: 'heading' }>, file?: string) => {
+    const level = SECTION_LEVELS[token.type];
+    const node: StructureNode = {
+      id: `node-${nodeIdCounter++}`,
+      title: token.title,
+      shortTitle: token.shortTitle,
+      level,
+      type: token.type,
+      starred: token.starred || undefined,
+      children: [],
+      file,
+      lineNumber: token.lineNumber,
+      stats: emptyStats()
+    };
 
-  lines.forEach((line, lineIndex) => {
-    const trimmedLine = line.trim();
+    // Find the correct parent in the stack
+    while (stack.length > 1 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    stack[stack.length - 1].children.push(node);
+    stack.push(node);
+  };
 
-    // Skip comments
-    if (trimmedLine.startsWith('%')) {
+  const addText = (text: string, file = '') => {
+    if (!text.trim()) {
       return;
     }
+    const stats: SectionStats = { ...countLatex(text, options), figures: countFigures(text), todos: countTodos(text) };
+    const node = stack[stack.length - 1];
+    node.stats = addStats(node.stats ?? emptyStats(), stats);
+    totals = addStats(totals, stats);
+    const entry = fileStats.find(item => item.file === file);
+    if (entry) {
+      entry.stats = addStats(entry.stats, stats);
+    } else {
+      fileStats.push({ file, stats });
+    }
+  };
 
-    // Check each pattern
-    for (const pattern of patterns) {
-      const match = trimmedLine.match(pattern.regex);
-      if (match) {
-        const title = cleanLatexText(match[1]);
-        const node: StructureNode = {
-          id: `node-${nodeIdCounter++}`,
-          title,
-          level: pattern.level,
-          type: pattern.type,
-          children: [],
-          lineNumber: lineIndex + 1
-        };
-
-        // Find the correct parent in the stack
-        while (stack.length > 0 && stack[stack.length - 1].level >= pattern.level) {
-          stack.pop();
-        }
+  const getStats = () => ({ totals, fileStats });
 
-        // Add to parent
-        if (stack.length > 0) {
-          stack[stack.length - 1].children.push(node);
-        }
+  return { addHeading, addText, getStats };
+}
 
-        // Push current node to stack
-        stack.push(node);
-        break;
-      }
-    }
-  });
+/**
+ * Offsets of the document body, so preamble definitions are not counted as text.
+ */
+function findBody(text: string): { start: number; end: number } {
+  const begin = /\\begin\s*\{document\}/.exec(text);
+  const end = /\\end\s*\{document\}/.exec(text);
+  return {
+    start: begin ? begin.index + begin[0].length : 0,
+    end: end ? end.index : text.length,
+  };
+}
+
+function validateContent(content: string | null): string | null {
+  if (!content || content.trim().length === 0) {
+    return 'Empty document';
+  }
+  // Check if it's a valid LaTeX document
+  if (!content.includes('\\documentclass') && !content.includes('\\begin{document}')) {
+    return 'Not a valid LaTeX document';
+  }
+  return null;
+}
 
+function finish(root: StructureNode, extra: Partial<ParseResult> = {}): ParseResult {
   // Check if we found any structure
-  if (root.children.length === 0) {
+  if (!root.children.some(child => child.id !== 'author')) {
     return {
       isValid: false,
       structure: null,
-      error: 'No document structure found (no sections/chapters)'
+      error: 'No document structure found (no sections/chapters)',
+      ...extra
     };
   }
-
   return {
     isValid: true,
-    structure: root
+    structure: root,
+    ...extra
+  };
+}
+
+/**
+ * Parse LaTeX content to extract document structure. Included files are not followed;
+ * use `parseLatexProjectStructure` for that.
+ */
+export function parseLatexStructure(
+  content: string,
+  filePath?: string,
+  options: WordCountOptions = DEFAULT_WORD_COUNT_OPTIONS
+): ParseResult {
+  const error = validateContent(content);
+  if (error) {
+    return {
+      isValid: false,
+      structure: null,
+      error
+    };
+  }
+
+  const root = createRoot(content, filePath);
+  const { addHeading, addText, getStats } = createTreeBuilder(root, options);
+  const text = codeText(content);
+  const body = findBody(text);
+  let cursor = body.start;
+  scanCodeText(text).forEach(token => {
+    addText(text.slice(cursor, Math.min(token.start, body.end)), filePath);
+    // A heading's own title is counted with the text that follows it.
+    cursor = Math.max(cursor, token.kind === 'heading' ? token.start : token.end);
+    if (token.kind === 'heading') {
+      addHeading(token, filePath);
+    }
+  });
+  addText(text.slice(cursor, body.end), filePath);
+  const { totals, fileStats } = getStats();
+  return finish(root, { totals, fileStats: filePath ? fileStats : undefined });
+}
+
+/**
+ * Directories from `\def\input@path{{chapters/}{appendix/}}`, which TeX also searches for `\input`.
+ */
+export function extractInputPaths(content: string): string[] {
+  const match = stripLatexComments(content).match(/\\(?:g|e|x)?def\s*\\input@path\s*\{((?:\s*\{[^}]*\})*)\s*\}/);
+  if (!match) {
+    return [];
+  }
+  return Array.from(match[1].matchAll(/\{([^}]*)\}/g))
+    .map(group => group[1].trim())
+    .filter(Boolean);
+}
+
+const isAbsolutePath = (target: string) => /^(?:[\\/]|[A-Za-z]:[\\/])/.test(target);
+
+/**
+ * Parse the whole document starting at its root, following `\input`, `\include`, `\subfile`
+ * and the `import` package commands into other files. Plain includes resolve against the root
+ * document's directory first, as TeX does, then `\input@path` directories and the including file's
+ * directory. Every node records the file and line it was written on.
+ */
+export async function parseLatexProjectStructure(
+  rootPath: string,
+  host: StructureHost,
+  options: WordCountOptions = DEFAULT_WORD_COUNT_OPTIONS
+): Promise<ParseResult> {
+  const rootContent = await host.readFile(rootPath);
+  const error = validateContent(rootContent);
+  if (error || rootContent === null) {
+    return {
+      isValid: false,
+      structure: null,
+      error: error ?? `Cannot read ${rootPath}`
+    };
+  }
+
+  const { path } = host;
+  const rootDir = path.dirname(rootPath);
+  const inputPaths = extractInputPaths(rootContent).map(directory => (
+    isAbsolutePath(directory) ? directory : path.join(rootDir, directory)
+  ));
+  const root = createRoot(rootContent, rootPath);
+  const { addHeading, addText, getStats } = createTreeBuilder(root, options);
+  const files: string[] = [];
+  const missingFiles: string[] = [];
+
+  const readFirst = async (directories: string[], target: string) => {
+    const names = path.extname(target) ? [target, `${target}.tex`] : [`${target}.tex`, target];
+    for (const directory of directories) {
+      for (const name of names) {
+        const candidate = isAbsolutePath(name) ? name : path.join(directory, name);
+        const content = await host.readFile(candidate);
+        if (content !== null) {
+          return { filePath: candidate, content };
+        }
+      }
+    }
+    return null;
+  };
+
+  // `importDir` is set for files pulled in with \import/\subimport, whose own includes are relative to them.
+  // `counted` is false for files included from the preamble, whose text is not part of the document.
+  const visit = async (filePath: string, content: string, importDir: string | undefined, depth: number, counted: boolean) => {
+    files.push(filePath);
+    const fileDir = path.dirname(filePath);
+    const text = codeText(content);
+    // Included files are all body; only the root has a preamble.
+    const body = depth === 0 ? findBody(text) : { start: 0, end: text.length };
+    let cursor = body.start;
+    const countText = (end: number) => {
+      if (counted) {
+        addText(text.slice(cursor, Math.min(end, body.end)), filePath);
+      }
+    };
+    for (const token of scanCodeText(text)) {
+      countText(token.start);
+      cursor = Math.max(cursor, token.kind === 'heading' ? token.start : token.end);
+      if (token.kind === 'heading') {
+        addHeading(token, filePath);
+        continue;
+      }
+      if (!token.target || token.target.includes('#') || depth >= MAX_INCLUDE_DEPTH) {
+        continue;
+      }
+
+      let found: { filePath: string; content: string } | null;
+      let nextImportDir = importDir;
+      if (token.directory !== undefined) {
+        const base = token.command.startsWith('sub') ? fileDir : rootDir;
+        const directory = isAbsolutePath(token.directory) ? token.directory : path.join(base, token.directory);
+        found = await readFirst([directory], token.target);
+        nextImportDir = directory;
+      } else {
+        const directories = [importDir, rootDir, ...inputPaths, fileDir].filter((dir): dir is string => Boolean(dir));
+        found = await readFirst(directories.filter((dir, index) => directories.findIndex(other => samePath(other, dir)) === index), token.target);
+      }
+
+      if (!found) {
+        missingFiles.push(token.target);
+        continue;
+      }
+      if (files.some(seen => samePath(seen, found!.filePath))) {
+        continue;
+      }
+      const inBody = token.start >= body.start && token.start < body.end;
+      await visit(found.filePath, found.content, nextImportDir, depth + 1, counted && inBody);
+    }
+    countText(body.end);
   };
+
+  await visit(rootPath, rootContent, undefined, 0, true);
+  return finish(root, { files, missingFiles, ...getStats() });
 }
 
 /**
  * Clean LaTeX text by removing common commands
  */
-function cleanLatexText(text: string): string {
-  return text
-    // Remove common formatting commands
-    .replace(/\\textbf\{([^}]+)\}/g, '$1')
-    .replace(/\\textit\{([^}]+)\}/g, '$1')
-    .replace(/\\emph\{([^}]+)\}/g, '$1')
-    .replace(/\\texttt\{([^}]+)\}/g, '$1')
-    // Remove citations and references
-    .replace(/\\cite\{[^}]+\}/g, '')
-    .replace(/\\ref\{[^}]+\}/g, '')
-    .replace(/\\label\{[^}]+\}/g, '')
+export function cleanLatexText(text: string): string {
+  let result = text;
+  // Innermost groups first so nested braces unwind one layer per pass.
+  for (let pass = 0; pass < 10; pass++) {
+    const next = result
+      // Remove citations, references and notes
+      .replace(/\\(?:label|ref|eqref|autoref|cref|Cref|pageref|cite[A-Za-z]*|footnote|index)\*?(?:\[[^\]]*\])*\{[^{}]*\}/g, '')
+      // Keep the text of formatting and other commands
+      .replace(/\\[a-zA-Z]+\*?(?:\[[^\]]*\])?\{([^{}]*)\}/g, '$1')
+      .replace(/\{([^{}]*)\}/g, '$1');
+    if (next === result) {
+      break;
+    }
+    result = next;
+  }
+  return result
+    .replace(/\\protect\b/g, '')
     // Remove math mode
     .replace(/\$([^$]+)\$/g, '$1')
-    // Remove other common commands
-    .replace(/\\[a-zA-Z]+\{([^}]+)\}/g, '$1')
+    .replace(/\\\\/g, ' ')
+    .replace(/\\([&%$#_])/g, '$1')
+    .replace(/~/g, ' ')
+    .replace(/\\[a-zA-Z]+\*?\s*/g, '')
     // Clean up whitespace
     .replace(/\s+/g, ' ')
     .trim();
 }
 
+/**
+ * Statistics for a section including all of its subsections.
+ */
+export function getSectionTotals(node: StructureNode): SectionStats {
+  return node.children.reduce(
+    (totals, child) => addStats(totals, getSectionTotals(child)),
+    node.stats ?? emptyStats()
+  );
+}
+
 /**
  * Count total nodes in the structure
  */
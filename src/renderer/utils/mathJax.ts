@@ -0,0 +1,48 @@
+import { mathjax } from 'mathjax-full/js/mathjax';
+import { TeX } from 'mathjax-full/js/input/tex';
+import { SVG } from 'mathjax-full/js/output/svg';
+import { liteAdaptor } from 'mathjax-full/js/adaptors/liteAdaptor';
+import { RegisterHTMLHandler } from 'mathjax-full/js/handlers/html';
+import { AllPackages } from 'mathjax-full/js/input/tex/AllPackages';
+import type { MathMacros } from '../../shared/mathPreview';
+
+export type MathRenderResult = { svg: string; error?: undefined } | { svg?: undefined; error: string };
+
+const adaptor = liteAdaptor();
+RegisterHTMLHandler(adaptor);
+
+// Without noerrors and noundefined, unknown commands and syntax errors are reported instead of
+// rendering quietly. The html package is left out: its \href, \style and \class would carry
+// links and attributes from project files into the editor's markup.
+const EXCLUDED_PACKAGES = ['noerrors', 'noundefined', 'html'];
+const PACKAGES = AllPackages.filter(name => !EXCLUDED_PACKAGES.includes(name));
+
+let current: { key: string; document: ReturnType<typeof mathjax.document> } | null = null;
+
+// A MathJax document holds its macros, so one is kept for the most recent set.
+const getDocument = (macros: MathMacros) => {
+  const key = JSON.stringify(macros);
+  if (current?.key !== key) {
+    const input = new TeX({
+      packages: PACKAGES,
+      macros,
+      formatError: (_jax: unknown, error: Error) => {
+        throw error;
+      },
+    });
+    current = { key, document: mathjax.document('', { InputJax: input, OutputJax: new SVG({ fontCache: 'local' }) }) };
+  }
+  return current.document;
+};
+
+/**
+ * Render TeX math to SVG markup, or report why it cannot be rendered.
+ */
+export const renderMath = (tex: string, display: boolean, macros: MathMacros = {}): MathRenderResult => {
+  try {
+    const node = getDocument(macros).convert(tex, { display });
+    return { svg: adaptor.innerHTML(node) };
+  } catch (error) {
+    return { error: (error as Error).message || String(error) };
+  }
+};
@@ -0,0 +1,52 @@
+/**
+ * Reading label numbers back from the `.aux` files LaTeX writes.
+ */
+
+export interface AuxLabel {
+  // The number `\ref` prints, e.g. `2.1`.
+  number: string;
+  page: string;
+  // Caption or heading text when hyperref/nameref recorded one.
+  title?: string;
+}
+
+// Brace groups at the start of `text`, e.g. `{{1}{2}}{x}` → [`{1}{2}`, `x`].
+const readGroups = (text: string): string[] => {
+  const groups: string[] = [];
+  let index = 0;
+  while (index < text.length && text[index] === '{') {
+    let depth = 0;
+    let end = index;
+    for (; end < text.length; end++) {
+      if (text[end] === '{') depth += 1;
+      else if (text[end] === '}') {
+        depth -= 1;
+        if (depth === 0) break;
+      }
+    }
+    if (depth !== 0) break;
+    groups.push(text.slice(index + 1, end));
+    index = end + 1;
+  }
+  return groups;
+};
+
+export const parseAuxLabels = (content: string): Map<string, AuxLabel> => {
+  const labels = new Map<string, AuxLabel>();
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.startsWith('\\newlabel{')) continue;
+    const [key, value] = readGroups(line.slice('\\newlabel'.length));
+    // cleveref writes a second `key@cref` entry for every label.
+    if (!key || value === undefined || key.endsWith('@cref')) continue;
+    const [number = '', page = '', title] = readGroups(value);
+    labels.set(key, { number, page, ...(title ? { title } : {}) });
+  }
+  return labels;
+};
+
+/**
+ * `.aux` files of `\include`d chapters, as referenced by `\@input{...}`.
+ */
+export const findAuxInputs = (content: string): string[] => (
+  Array.from(content.matchAll(/\\@input\{([^}]+)\}/g)).map(match => match[1])
+);
@@ -0,0 +1,264 @@
+import { BibEntry, cleanBibValue, formatBibAuthors, parseBibTeX } from './bibtex';
+
+/**
+ * Bibliography management: the fields each entry type needs, validating and writing
+ * entries back to a `.bib` file, and finding duplicates and entries nobody cites.
+ */
+
+export interface BibEntryType {
+  // Each item is satisfied by any one of its fields, e.g. `author` or `editor`.
+  required: string[][];
+  optional: string[];
+}
+
+const COMMON_OPTIONAL = ['note', 'doi', 'url', 'urldate'];
+
+// BibTeX's standard types, plus the BibLaTeX ones people reach for most. BibLaTeX's `date`
+// and `journaltitle` are accepted wherever `year` and `journal` are required.
+export const BIB_ENTRY_TYPES: Record<string, BibEntryType> = {
+  article: {
+    required: [['author'], ['title'], ['journal', 'journaltitle'], ['year', 'date']],
+    optional: ['volume', 'number', 'pages', 'month', 'issn', ...COMMON_OPTIONAL],
+  },
+  book: {
+    required: [['author', 'editor'], ['title'], ['publisher'], ['year', 'date']],
+    optional: ['volume', 'number', 'series', 'address', 'edition', 'month', 'isbn', ...COMMON_OPTIONAL],
+  },
+  booklet: {
+    required: [['title']],
+    optional: ['author', 'howpublished', 'address', 'month', 'year', ...COMMON_OPTIONAL],
+  },
+  inbook: {
+    required: [['author', 'editor'], ['title'], ['chapter', 'pages'], ['publisher'], ['year', 'date']],
+    optional: ['volume', 'number', 'series', 'type', 'address', 'edition', 'month', 'isbn', ...COMMON_OPTIONAL],
+  },
+  incollection: {
+    required: [['author'], ['title'], ['booktitle'], ['publisher'], ['year', 'date']],
+    optional: ['editor', 'volume', 'number', 'series', 'type', 'chapter', 'pages', 'address', 'edition', 'month', ...COMMON_OPTIONAL],
+  },
+  inproceedings: {
+    required: [['author'], ['title'], ['booktitle'], ['year', 'date']],
+    optional: ['editor', 'volume', 'number', 'series', 'pages', 'address', 'month', 'organization', 'publisher', ...COMMON_OPTIONAL],
+  },
+  manual: {
+    required: [['title']],
+    optional: ['author', 'organization', 'address', 'edition', 'month', 'year', ...COMMON_OPTIONAL],
+  },
+  mastersthesis: {
+    required: [['author'], ['title'], ['school', 'institution'], ['year', 'date']],
+    optional: ['type', 'address', 'month', ...COMMON_OPTIONAL],
+  },
+  phdthesis: {
+    required: [['author'], ['title'], ['school', 'institution'], ['year', 'date']],
+    optional: ['type', 'address', 'month', ...COMMON_OPTIONAL],
+  },
+  techreport: {
+    required: [['author'], ['title'], ['institution'], ['year', 'date']],
+    optional: ['type', 'number', 'address', 'month', ...COMMON_OPTIONAL],
+  },
+  unpublished: {
+    required: [['author'], ['title'], ['note']],
+    optional: ['month', 'year', 'doi', 'url'],
+  },
+  misc: {
+    required: [],
+    optional: ['author', 'title', 'howpublished', 'month', 'year', ...COMMON_OPTIONAL],
+  },
+  online: {
+    required: [['author', 'editor'], ['title'], ['year', 'date'], ['url']],
+    optional: ['subtitle', 'organization', 'urldate', 'note', 'doi'],
+  },
+  report: {
+    required: [['author'], ['title'], ['type'], ['institution'], ['year', 'date']],
+    optional: ['number', 'address', 'month', ...COMMON_OPTIONAL],
+  },
+  thesis: {
+    required: [['author'], ['title'], ['type'], ['institution', 'school'], ['year', 'date']],
+    optional: ['address', 'month', ...COMMON_OPTIONAL],
+  },
+};
+
+export const BIB_ENTRY_TYPE_NAMES = Object.keys(BIB_ENTRY_TYPES);
+
+// Aliases BibTeX and BibLaTeX accept for the types above.
+const TYPE_ALIASES: Record<string, string> = {
+  conference: 'inproceedings',
+  electronic: 'online',
+  www: 'online',
+};
+
+export const getBibEntryType = (type: string): BibEntryType => (
+  BIB_ENTRY_TYPES[TYPE_ALIASES[type.toLowerCase()] ?? type.toLowerCase()] ?? { required: [], optional: COMMON_OPTIONAL }
+);
+
+export type BibEntryDraft = Pick<BibEntry, 'type' | 'key' | 'fields'>;
+
+const KEY_PATTERN = /^[^\s,{}()"=#%'\\~]+$/;
+
+export const isValidBibKey = (key: string): boolean => KEY_PATTERN.test(key);
+
+const balanced = (value: string) => {
+  let depth = 0;
+  for (let index = 0; index < value.length; index++) {
+    if (value[index] === '\\') index++;
+    else if (value[index] === '{') depth++;
+    else if (value[index] === '}' && --depth < 0) return false;
+  }
+  return depth === 0;
+};
+
+/**
+ * Problems that keep an entry from being saved; empty when it is valid. `takenKeys` are
+ * the keys of the other entries in the project, compared ignoring case as BibTeX does.
+ */
+export const validateBibEntry = (entry: BibEntryDraft, takenKeys: Iterable<string> = []): string[] => {
+  const errors: string[] = [];
+  const key = entry.key.trim();
+  if (!key) {
+    errors.push('The citation key is required');
+  } else if (!isValidBibKey(key)) {
+    errors.push('The citation key cannot contain spaces or any of , { } ( ) " = # % \' \\ ~');
+  } else if (Array.from(takenKeys).some(taken => taken.toLowerCase() === key.toLowerCase())) {
+    errors.push(`The key '${key}' is already used by another entry`);
+  }
+  if (!/^[A-Za-z]+$/.test(entry.type)) {
+    errors.push('The entry type must be a single word, e.g. article');
+  }
+  const filled = (name: string) => Boolean(entry.fields[name]?.trim());
+  getBibEntryType(entry.type).required
+    .filter(alternatives => !alternatives.some(filled))
+    .forEach(alternatives => errors.push(`${alternatives.join(' or ')} is required for @${entry.type.toLowerCase()}`));
+  Object.entries(entry.fields)
+    .filter(([, value]) => !balanced(value))
+    .forEach(([name]) => errors.push(`The ${name} field has unbalanced braces`));
+  return errors;
+};
+
+/**
+ * The entry as BibTeX source; empty fields are left out.
+ */
+export const serializeBibEntry = (entry: BibEntryDraft, indent = '  '): string => {
+  const fields = Object.entries(entry.fields)
+    .map(([name, value]) => [name.trim().toLowerCase(), value.trim()])
+    .filter(([name, value]) => name && value);
+  const width = Math.max(0, ...fields.map(([name]) => name.length));
+  const lines = fields.map(([name, value]) => `${indent}${name.padEnd(width)} = {${value}}`);
+  return `@${entry.type.toLowerCase()}{${entry.key.trim()},\n${lines.join(',\n')}${lines.length ? '\n' : ''}}`;
+};
+
+/**
+ * `content` with the entry keyed `originalKey` replaced by `text`, or with `text` appended
+ * after a blank line when there is no such entry.
+ */
+export const writeBibEntry = (content: string, text: string, originalKey?: string): string => {
+  const original = originalKey ? parseBibTeX(content).find(entry => entry.key === originalKey) : undefined;
+  if (original) {
+    return content.slice(0, original.start) + text + content.slice(original.end);
+  }
+  const trimmed = content.replace(/\s+$/, '');
+  return `${trimmed}${trimmed ? '\n\n' : ''}${text}\n`;
+};
+
+/**
+ * Remove the entries with any of `keys`, with the blank line after each, and return their
+ * source text so they can be written elsewhere.
+ */
+export const removeBibEntries = (content: string, keys: Iterable<string>): { content: string; removed: string[] } => {
+  const wanted = new Set(keys);
+  const removed: string[] = [];
+  let output = '';
+  let cursor = 0;
+  parseBibTeX(content).forEach(entry => {
+    if (!wanted.has(entry.key)) return;
+    output += content.slice(cursor, entry.start);
+    removed.push(content.slice(entry.start, entry.end));
+    cursor = entry.end + (content.slice(entry.end).match(/^[ \t]*(?:\r?\n[ \t]*(?=\r?\n))?(?:\r?\n)?/)?.[0].length ?? 0);
+  });
+  if (removed.length === 0) return { content, removed };
+  output += content.slice(cursor);
+  const trimmed = output.replace(/\s+$/, '');
+  return { content: trimmed ? `${trimmed}\n` : '', removed };
+};
+
+export const normalizeDoi = (value: string | undefined): string => (
+  cleanBibValue(value)
+    .toLowerCase()
+    .replace(/^(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:\s*)/, '')
+);
+
+export const normalizeTitle = (value: string | undefined): string => (
+  cleanBibValue(value)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+);
+
+export type DuplicateReason = 'key' | 'doi' | 'title';
+
+export interface BibDuplicate<T> {
+  reason: DuplicateReason;
+  // The shared key, normalised DOI or normalised title.
+  value: string;
+  entries: T[];
+}
+
+/**
+ * Groups of two or more entries sharing a key (ignoring case), a DOI or a title (ignoring
+ * case, accents, braces and punctuation).
+ */
+export const findDuplicateEntries = <T extends BibEntryDraft>(entries: T[]): BibDuplicate<T>[] => {
+  const duplicates: BibDuplicate<T>[] = [];
+  const group = (reason: DuplicateReason, valueOf: (entry: T) => string) => {
+    const groups = new Map<string, T[]>();
+    entries.forEach(entry => {
+      const value = valueOf(entry);
+      if (value) groups.set(value, [...(groups.get(value) ?? []), entry]);
+    });
+    groups.forEach((members, value) => {
+      if (members.length > 1) duplicates.push({ reason, value, entries: members });
+    });
+  };
+  group('key', entry => entry.key.toLowerCase());
+  group('doi', entry => normalizeDoi(entry.fields.doi));
+  group('title', entry => normalizeTitle(entry.fields.title));
+  return duplicates;
+};
+
+/**
+ * Entries whose key no citation uses. `\nocite{*}` cites everything.
+ */
+export const findUncitedEntries = <T extends Pick<BibEntry, 'key'>>(entries: T[], citations: Array<{ key: string }>): T[] => {
+  const cited = new Set(citations.map(citation => citation.key));
+  if (cited.has('*')) return [];
+  return entries.filter(entry => !cited.has(entry.key));
+};
+
+export const getBibEntryYear = (entry: Pick<BibEntry, 'fields'>): string => (
+  cleanBibValue(entry.fields.year) || (cleanBibValue(entry.fields.date).match(/^\d{4}/)?.[0] ?? '')
+);
+
+export type BibSortField = 'key' | 'type' | 'author' | 'year' | 'title';
+
+const sortValue = (entry: BibEntryDraft, field: BibSortField): string => {
+  if (field === 'key') return entry.key;
+  if (field === 'type') return entry.type;
+  if (field === 'year') return getBibEntryYear(entry);
+  if (field === 'author') return formatBibAuthors(entry.fields.author || entry.fields.editor);
+  return cleanBibValue(entry.fields.title);
+};
+
+/**
+ * Entries sorted by one column, ties broken by key. Entries missing the value sort last.
+ */
+export const sortBibEntries = <T extends BibEntryDraft>(entries: T[], field: BibSortField, descending = false): T[] => {
+  const direction = descending ? -1 : 1;
+  return [...entries].sort((a, b) => {
+    const left = sortValue(a, field);
+    const right = sortValue(b, field);
+    if (!left !== !right) return left ? -1 : 1;
+    const order = left.localeCompare(right, undefined, { numeric: true, sensitivity: 'base' });
+    return order !== 0 ? order * direction : a.key.localeCompare(b.key);
+  });
+};
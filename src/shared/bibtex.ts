@@ -0,0 +1,368 @@
+/**
+ * Tolerant BibTeX/BibLaTeX reader. Entries keep their source offsets so callers can
+ * jump to or rewrite them; malformed entries are skipped rather than failing the file.
+ */
+
+export interface BibEntry {
+  key: string;
+  // Entry type in lower case, e.g. `article`.
+  type: string;
+  // Field names in lower case; values as written, without the outer braces or quotes.
+  fields: Record<string, string>;
+  line: number;
+  // Offsets of the `@` and one past the closing delimiter.
+  start: number;
+  end: number;
+}
+
+// Entries that carry no citation key.
+const NON_ENTRY_TYPES = new Set(['comment', 'string', 'preamble']);
+
+const lineAt = (content: string, offset: number) => {
+  let line = 1;
+  for (let index = content.indexOf('\n'); index !== -1 && index < offset; index = content.indexOf('\n', index + 1)) {
+    line += 1;
+  }
+  return line;
+};
+
+// Offset just past the group that opens at `start` (`{` or `(`), or -1 if it never closes.
+const skipGroup = (content: string, start: number): number => {
+  const open = content[start];
+  const close = open === '(' ? ')' : '}';
+  let depth = 0;
+  for (let index = start; index < content.length; index++) {
+    const char = content[index];
+    if (char === '{' || (open === '(' && char === '(')) depth += 1;
+    else if (char === '}' || (open === '(' && char === ')')) {
+      depth -= 1;
+      if (depth === 0 && char === close) return index + 1;
+    }
+  }
+  return -1;
+};
+
+const readValuePart = (body: string, start: number): { value: string; next: number } => {
+  const char = body[start];
+  if (char === '{') {
+    const end = skipGroup(body, start);
+    const stop = end === -1 ? body.length : end;
+    return { value: body.slice(start + 1, end === -1 ? body.length : end - 1), next: stop };
+  }
+  if (char === '"') {
+    let depth = 0;
+    for (let index = start + 1; index < body.length; index++) {
+      if (body[index] === '{') depth += 1;
+      else if (body[index] === '}') depth -= 1;
+      else if (body[index] === '"' && depth === 0) {
+        return { value: body.slice(start + 1, index), next: index + 1 };
+      }
+    }
+    return { value: body.slice(start + 1), next: body.length };
+  }
+  // Bare numbers and @string macros.
+  const match = body.slice(start).match(/^[^,#\s})]+/);
+  const text = match ? match[0] : '';
+  return { value: text, next: start + text.length };
+};
+
+const parseFields = (body: string): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  const fieldPattern = /([A-Za-z][\w:.+-]*)\s*=\s*/g;
+  let match: RegExpExecArray | null;
+  while ((match = fieldPattern.exec(body))) {
+    const name = match[1].toLowerCase();
+    const parts: string[] = [];
+    let cursor = fieldPattern.lastIndex;
+    for (;;) {
+      const { value, next } = readValuePart(body, cursor);
+      parts.push(value);
+      cursor = next;
+      const concat = body.slice(cursor).match(/^\s*#\s*/);
+      if (!concat) break;
+      cursor += concat[0].length;
+    }
+    fields[name] = parts.join('');
+    fieldPattern.lastIndex = Math.max(cursor, fieldPattern.lastIndex);
+  }
+  return fields;
+};
+
+export const parseBibTeX = (content: string): BibEntry[] => {
+  const entries: BibEntry[] = [];
+  const entryPattern = /@\s*([A-Za-z]+)\s*([{(])/g;
+  let match: RegExpExecArray | null;
+  while ((match = entryPattern.exec(content))) {
+    const type = match[1].toLowerCase();
+    const openIndex = match.index + match[0].length - 1;
+    const end = skipGroup(content, openIndex);
+    if (end === -1) {
+      // Unbalanced entry: resume at the next `@` so later entries still load.
+      entryPattern.lastIndex = openIndex + 1;
+      continue;
+    }
+    entryPattern.lastIndex = end;
+    if (NON_ENTRY_TYPES.has(type)) continue;
+
+    const body = content.slice(openIndex + 1, end - 1);
+    const keyMatch = body.match(/^\s*([^,\s{}()"=]+)\s*,/);
+    if (!keyMatch) continue;
+    entries.push({
+      key: keyMatch[1],
+      type,
+      fields: parseFields(body.slice(keyMatch[0].length)),
+      line: lineAt(content, match.index),
+      start: match.index,
+      end,
+    });
+  }
+  return entries;
+};
+
+export type BibValuePartKind = 'braced' | 'quoted' | 'bare';
+
+export interface BibValuePart {
+  kind: BibValuePartKind;
+  // Without the outer braces or quotes.
+  text: string;
+}
+
+export interface BibSourceField {
+  // As written.
+  name: string;
+  // The pieces joined with `#`.
+  parts: BibValuePart[];
+  // Offsets of the name and one past the value.
+  start: number;
+  end: number;
+}
+
+export interface BibSyntaxError {
+  message: string;
+  offset: number;
+  length: number;
+}
+
+export interface BibSourceEntry {
+  // In lower case, e.g. `article`, `string` or `comment`.
+  type: string;
+  // Null when the entry has none, as with `@string`, `@preamble` and `@comment`.
+  key: string | null;
+  keyOffset: number;
+  fields: BibSourceField[];
+  // Offsets of the `@` and one past the closing delimiter. An entry that never closes runs
+  // up to the next line starting with `@`.
+  start: number;
+  end: number;
+  errors: BibSyntaxError[];
+}
+
+const readBareValue = /[^\s,#{}()"=%]+/y;
+const readKey = /[^\s,{}()"=#%]+/y;
+const readFieldName = /[A-Za-z][\w:.+-]*/y;
+
+const scanEntryBody = (content: string, start: number, end: number, entry: BibSourceEntry) => {
+  let cursor = start;
+  const skipSpace = () => {
+    while (cursor < end) {
+      if (/\s/.test(content[cursor])) cursor += 1;
+      // Biber allows comment lines inside entries.
+      else if (content[cursor] === '%') {
+        const lineEnd = content.indexOf('\n', cursor);
+        cursor = lineEnd === -1 || lineEnd > end ? end : lineEnd;
+      } else break;
+    }
+  };
+  const read = (pattern: RegExp) => {
+    pattern.lastIndex = cursor;
+    const match = pattern.exec(content);
+    if (!match || pattern.lastIndex > end) return null;
+    cursor = pattern.lastIndex;
+    return match[0];
+  };
+  const fail = (message: string, offset: number, length = 1) => {
+    entry.errors.push({ message, offset, length: Math.max(1, length) });
+  };
+  const skipToNextField = () => {
+    let depth = 0;
+    for (; cursor < end; cursor++) {
+      if (content[cursor] === '{') depth += 1;
+      else if (content[cursor] === '}') depth -= 1;
+      else if (content[cursor] === ',' && depth <= 0) {
+        cursor += 1;
+        return;
+      }
+    }
+  };
+  const readPart = (): BibValuePart | null => {
+    const open = cursor;
+    if (content[cursor] === '{') {
+      const close = skipGroup(content, cursor);
+      if (close === -1 || close > end) {
+        fail('This value is missing a closing brace', open);
+        cursor = end;
+        return { kind: 'braced', text: content.slice(open + 1, end) };
+      }
+      cursor = close;
+      return { kind: 'braced', text: content.slice(open + 1, close - 1) };
+    }
+    if (content[cursor] === '"') {
+      let depth = 0;
+      for (let index = cursor + 1; index < end; index++) {
+        if (content[index] === '{') depth += 1;
+        else if (content[index] === '}') depth -= 1;
+        else if (content[index] === '"' && depth === 0) {
+          cursor = index + 1;
+          return { kind: 'quoted', text: content.slice(open + 1, index) };
+        }
+      }
+      fail('This value is missing a closing quote', open);
+      cursor = end;
+      return { kind: 'quoted', text: content.slice(open + 1, end) };
+    }
+    const text = read(readBareValue);
+    return text === null ? null : { kind: 'bare', text };
+  };
+
+  // `@string` holds a field but no key.
+  if (entry.type !== 'string') {
+    skipSpace();
+    const keyStart = cursor;
+    const key = read(readKey);
+    skipSpace();
+    if (key === null || content[cursor] === '=') {
+      fail('This entry has no citation key', entry.start, keyStart - entry.start);
+      cursor = keyStart;
+      if (content[cursor] === ',') cursor += 1;
+    } else {
+      entry.key = key;
+      entry.keyOffset = keyStart;
+      if (content[cursor] === ',') cursor += 1;
+      else if (cursor < end) fail(`Expected a comma after the key ${key}`, cursor);
+    }
+  }
+
+  for (;;) {
+    skipSpace();
+    if (cursor >= end) break;
+    const nameStart = cursor;
+    const name = read(readFieldName);
+    skipSpace();
+    if (name === null || content[cursor] !== '=') {
+      fail(name === null ? 'Expected a field name' : `Expected = after ${name}`, nameStart, name?.length ?? 1);
+      cursor = nameStart;
+      skipToNextField();
+      continue;
+    }
+    cursor += 1;
+    const parts: BibValuePart[] = [];
+    for (;;) {
+      skipSpace();
+      const part = readPart();
+      if (!part) break;
+      parts.push(part);
+      const valueEnd = cursor;
+      skipSpace();
+      if (content[cursor] !== '#') {
+        cursor = valueEnd;
+        break;
+      }
+      cursor += 1;
+    }
+    if (parts.length === 0) fail(`The ${name} field has no value`, nameStart, name.length);
+    entry.fields.push({ name, parts, start: nameStart, end: cursor });
+    const fieldEnd = cursor;
+    skipSpace();
+    if (cursor >= end) break;
+    if (content[cursor] === ',') {
+      cursor += 1;
+    } else {
+      fail(`Missing comma after the ${name} field`, fieldEnd);
+      if (parts.length === 0) skipToNextField();
+    }
+  }
+};
+
+/**
+ * Entries with their fields as written, for tools that rewrite or check the source. Unlike
+ * `parseBibTeX`, malformed entries are kept and carry the problems found in them.
+ */
+export const scanBibTeX = (content: string): BibSourceEntry[] => {
+  const entries: BibSourceEntry[] = [];
+  const entryPattern = /@\s*([A-Za-z]+)\s*([{(])/g;
+  let match: RegExpExecArray | null;
+  while ((match = entryPattern.exec(content))) {
+    const openIndex = match.index + match[0].length - 1;
+    const close = skipGroup(content, openIndex);
+    const entry: BibSourceEntry = {
+      type: match[1].toLowerCase(),
+      key: null,
+      keyOffset: -1,
+      fields: [],
+      start: match.index,
+      end: close,
+      errors: [],
+    };
+    if (close === -1) {
+      const next = content.slice(openIndex).search(/\n[ \t]*@\s*[A-Za-z]+\s*[{(]/);
+      entry.end = next === -1 ? content.length : openIndex + next + 1;
+      entry.errors.push({ message: `This @${match[1]} entry is never closed`, offset: match.index, length: match[0].length });
+    }
+    entries.push(entry);
+    entryPattern.lastIndex = entry.end;
+    if (entry.type !== 'comment' && entry.type !== 'preamble') {
+      scanEntryBody(content, openIndex + 1, close === -1 ? entry.end : close - 1, entry);
+    }
+  }
+  return entries;
+};
+
+/**
+ * Field value as plain text: braces, accents and other commands dropped, whitespace collapsed.
+ */
+export const cleanBibValue = (value: string | undefined): string => (
+  (value || '')
+    .replace(/\\[`'^"~=.uvHcdbkr]\s*\{?([A-Za-z])\}?/g, '$1')
+    .replace(/\\([&%$#_])/g, '$1')
+    .replace(/\\((?:La|Bib)?TeX)\b/g, '$1')
+    .replace(/\\[A-Za-z]+\s*/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+);
+
+/**
+ * Short author list for display: "Knuth", "Knuth and Lamport", "Knuth et al.".
+ */
+export const formatBibAuthors = (value: string | undefined): string => {
+  const authors = cleanBibValue(value).split(/\s+and\s+/i).filter(Boolean);
+  const surname = (name: string) => (name.includes(',') ? name.split(',')[0] : name.split(' ').pop() || name).trim();
+  if (authors.length === 0) return '';
+  if (authors.length === 1) return surname(authors[0]);
+  if (authors.length === 2) return `${surname(authors[0])} and ${surname(authors[1])}`;
+  return `${surname(authors[0])} et al.`;
+};
+
+/**
+ * One-line reference in author–year style, as Markdown, e.g.
+ * `Knuth, Donald E. (1984). *The TeXbook*. Addison-Wesley.`
+ */
+export const formatBibEntry = (entry: Pick<BibEntry, 'fields' | 'type'>): string => {
+  const field = (name: string) => cleanBibValue(entry.fields[name]);
+  const authors = field('author') || field('editor');
+  const year = field('year') || field('date').slice(0, 4);
+  const container = field('journal') || field('journaltitle') || field('booktitle');
+  const volume = field('volume') ? `${field('volume')}${field('number') ? `(${field('number')})` : ''}` : '';
+  const pages = field('pages').replace(/-+/g, '–');
+
+  const parts: string[] = [];
+  if (authors) parts.push(`${authors.split(/\s+and\s+/i).join('; ')}${year ? ` (${year})` : ''}.`);
+  else if (year) parts.push(`(${year}).`);
+  if (field('title')) parts.push(container ? `${field('title')}.` : `*${field('title')}*.`);
+  const source = [container && `*${container}*`, volume, pages].filter(Boolean).join(', ');
+  if (source) parts.push(`${source}.`);
+  const publisher = field('publisher') || field('institution') || field('school') || field('organization');
+  if (publisher) parts.push(`${publisher}.`);
+  if (field('doi')) parts.push(`doi:${field('doi')}`);
+  return parts.join(' ') || `@${entry.type}`;
+};
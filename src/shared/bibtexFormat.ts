@@ -0,0 +1,99 @@
+import { BibSourceEntry, BibValuePart, scanBibTeX } from './bibtex';
+
+/**
+ * A `.bib` formatter: fields go one per line in a canonical order with their `=` signs
+ * aligned, and quoted values are rewritten with braces. Entries that do not parse, and
+ * `@string`, `@preamble` and `@comment` blocks, are left exactly as they are.
+ */
+
+export interface BibFormatOptions {
+  // Spaces before each field; 0 indents with a tab.
+  indent: number;
+  sortFields: boolean;
+}
+
+export const DEFAULT_BIB_FORMAT_OPTIONS: BibFormatOptions = {
+  indent: 2,
+  sortFields: true,
+};
+
+// Who, what, where it appeared, when, then identifiers and notes. Other fields follow in
+// the order they were written.
+export const BIB_FIELD_ORDER = [
+  'author', 'editor', 'translator', 'title', 'subtitle', 'booktitle', 'journal', 'journaltitle', 'series',
+  'edition', 'volume', 'number', 'chapter', 'pages', 'publisher', 'organization', 'institution', 'school',
+  'address', 'location', 'howpublished', 'type', 'month', 'year', 'date', 'isbn', 'issn', 'doi', 'eprint',
+  'eprinttype', 'archiveprefix', 'primaryclass', 'url', 'urldate', 'language', 'keywords', 'abstract', 'note',
+  'annote', 'file',
+];
+
+const UNFORMATTED_TYPES = new Set(['string', 'preamble', 'comment']);
+
+const formatValue = (parts: BibValuePart[]) => parts
+  .map(part => (part.kind === 'bare' ? part.text : `{${part.text}}`))
+  .join(' # ');
+
+const formatEntry = (entry: BibSourceEntry, options: BibFormatOptions) => {
+  const rank = (name: string) => {
+    const index = BIB_FIELD_ORDER.indexOf(name);
+    return index === -1 ? BIB_FIELD_ORDER.length : index;
+  };
+  const fields = entry.fields.map(field => ({ name: field.name.toLowerCase(), value: formatValue(field.parts) }));
+  if (options.sortFields) fields.sort((a, b) => rank(a.name) - rank(b.name));
+  const indent = options.indent > 0 ? ' '.repeat(options.indent) : '\t';
+  const width = Math.max(0, ...fields.map(field => field.name.length));
+  const lines = fields.map(field => `${indent}${field.name.padEnd(width)} = ${field.value}`);
+  return `@${entry.type}{${entry.key},\n${lines.join(',\n')}${lines.length ? '\n' : ''}}`;
+};
+
+// Comments inside an entry would be lost when its fields are rewritten. A `%` within a
+// field value, as in a URL, is text.
+const hasComment = (entry: BibSourceEntry, text: string) => {
+  let outsideValues = '';
+  let cursor = 0;
+  entry.fields.forEach(field => {
+    outsideValues += text.slice(cursor, field.start - entry.start);
+    cursor = field.end - entry.start;
+  });
+  return (outsideValues + text.slice(cursor)).includes('%');
+};
+
+const canFormat = (entry: BibSourceEntry, text: string) => (
+  entry.key !== null
+  && entry.errors.length === 0
+  && !UNFORMATTED_TYPES.has(entry.type)
+  && !hasComment(entry, text)
+);
+
+// Text between entries is kept, without trailing spaces or runs of blank lines.
+const tidyGap = (text: string) => text.replace(/[ \t]+$/gm, '').replace(/\n{3,}/g, '\n\n').trim();
+
+/**
+ * Format BibTeX source. Entries are separated by a blank line, line endings follow the
+ * input and the result ends with one newline.
+ */
+export const formatBibTeX = (content: string, options: BibFormatOptions = DEFAULT_BIB_FORMAT_OPTIONS): string => {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const source = content.replace(/\r\n/g, '\n');
+  let output = '';
+  let cursor = 0;
+  const entries = scanBibTeX(source);
+  entries.forEach((entry, index) => {
+    const gap = source.slice(cursor, entry.start);
+    const text = source.slice(entry.start, entry.end);
+    const note = tidyGap(gap);
+    if (output) output += '\n\n';
+    // A comment directly above an entry stays attached to it.
+    if (note) output += `${note}${/\n[ \t]*\n[ \t]*$/.test(gap) ? '\n\n' : '\n'}`;
+    output += canFormat(entry, text) ? formatEntry(entry, options) : text.replace(/\s+$/, '');
+    // So does one after its closing delimiter, on the same line.
+    const lineEnd = source.indexOf('\n', entry.end);
+    const trailingEnd = Math.min(lineEnd === -1 ? source.length : lineEnd, entries[index + 1]?.start ?? source.length);
+    const trailing = source.slice(entry.end, trailingEnd).trim();
+    if (trailing) output += ` ${trailing}`;
+    cursor = trailingEnd;
+  });
+  const rest = tidyGap(source.slice(cursor));
+  if (rest) output += `${output ? '\n\n' : ''}${rest}`;
+  return output ? `${output}\n`.replace(/\n/g, eol) : '';
+};
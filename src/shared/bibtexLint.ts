@@ -0,0 +1,55 @@
+import { scanBibTeX } from './bibtex';
+import type { LatexDiagnostic } from './latexDiagnostics';
+import { createPositionLookup } from './latexLint';
+
+/**
+ * Checks for `.bib` files: entries that do not parse, citation keys defined twice and
+ * fields given more than once in an entry.
+ */
+
+export type BibLintCode = 'bib-syntax' | 'bib-duplicate-key' | 'bib-duplicate-field';
+
+export const lintBibTeX = (content: string, filePath?: string): LatexDiagnostic[] => {
+  const positionAt = createPositionLookup(content);
+  const diagnostics: LatexDiagnostic[] = [];
+  const report = (severity: LatexDiagnostic['severity'], code: BibLintCode, message: string, offset: number, length: number) => {
+    const start = positionAt(offset);
+    const end = positionAt(offset + length);
+    diagnostics.push({
+      severity,
+      code,
+      message,
+      file: filePath,
+      line: start.line,
+      column: start.column,
+      endColumn: end.line === start.line ? end.column : undefined,
+    });
+  };
+
+  // BibTeX treats keys that differ only in case as the same entry.
+  const keys = new Map<string, { key: string; line: number }>();
+  scanBibTeX(content).forEach(entry => {
+    entry.errors.forEach(error => report('error', 'bib-syntax', error.message, error.offset, error.length));
+
+    if (entry.key !== null) {
+      const line = positionAt(entry.keyOffset).line;
+      const first = keys.get(entry.key.toLowerCase());
+      if (first === undefined) {
+        keys.set(entry.key.toLowerCase(), { key: entry.key, line });
+      } else {
+        const written = first.key === entry.key ? '' : ` as ${first.key}`;
+        report('error', 'bib-duplicate-key', `The key ${entry.key} is already defined on line ${first.line}${written}`, entry.keyOffset, entry.key.length);
+      }
+    }
+
+    const seen = new Set<string>();
+    entry.fields.forEach(field => {
+      const name = field.name.toLowerCase();
+      if (seen.has(name)) {
+        report('warning', 'bib-duplicate-field', `${name} is set more than once in this entry`, field.start, field.name.length);
+      }
+      seen.add(name);
+    });
+  });
+  return diagnostics;
+};
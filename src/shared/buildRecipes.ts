@@ -0,0 +1,223 @@
+import type { BibliographyTool, ProjectTimeouts } from './projectSettings';
+
+/**
+ * Build recipes: the programs a compile runs, in order. The built-in recipes are the default
+ * pipeline; projects define their own in the settings file.
+ */
+
+export type RecipeTool =
+  | 'engine'
+  | 'latexmk'
+  | 'biber'
+  | 'bibtex'
+  | 'makeindex'
+  | 'makeglossaries'
+  | 'makeglossaries-lite'
+  | 'xindy'
+  | 'texindy'
+  | 'pythontex'
+  | 'asy'
+  | 'bib2gls'
+  | 'splitindex';
+
+// The programs a step can name; `engine` is the LaTeX engine chosen in the toolbar. Their
+// arguments can still run any code (`latexmk -e`, pythontex), so a build only uses a project's
+// recipes once the user trusts the project.
+export const RECIPE_TOOLS: RecipeTool[] = [
+  'engine', 'latexmk', 'biber', 'bibtex', 'makeindex', 'makeglossaries', 'makeglossaries-lite',
+  'xindy', 'texindy', 'pythontex', 'asy', 'bib2gls', 'splitindex',
+];
+
+// Which of the project timeouts limits each tool.
+export const RECIPE_TOOL_TIMEOUTS: Record<RecipeTool, keyof ProjectTimeouts> = {
+  engine: 'compile',
+  latexmk: 'compile',
+  pythontex: 'compile',
+  asy: 'compile',
+  biber: 'bibliography',
+  bibtex: 'bibliography',
+  bib2gls: 'bibliography',
+  makeindex: 'index',
+  makeglossaries: 'index',
+  'makeglossaries-lite': 'index',
+  xindy: 'index',
+  texindy: 'index',
+  splitindex: 'index',
+};
+
+export type RecipeDirectory = 'root' | 'output';
+export const RECIPE_DIRECTORIES: RecipeDirectory[] = ['root', 'output'];
+
+/** Every condition given must hold. Paths are relative to the root document's folder. */
+export interface RecipeCondition {
+  exists?: string;
+  missing?: string;
+  contains?: { file: string; text: string };
+  // A tool ran since the last LaTeX pass, or that pass asked to be run again.
+  rerun?: boolean;
+}
+
+export interface RecipeStep {
+  tool: RecipeTool;
+  // Placeholders are expanded. LaTeX steps add these to the usual flags and the root document.
+  args: string[];
+  // Where other tools run; LaTeX steps always run in the root document's folder.
+  cwd: RecipeDirectory;
+  when: RecipeCondition | null;
+  // LaTeX steps run again, up to this many times in all, while the log asks for another pass.
+  repeat: number;
+  // Replaces `repeat` when no tool ran since the previous LaTeX step. Built-in recipes only.
+  repeatWithoutTools?: number;
+}
+
+export interface BuildRecipe {
+  name: string;
+  steps: RecipeStep[];
+}
+
+export type BuiltinRecipeName = 'auto' | 'latexmk' | 'latex';
+export const BUILTIN_RECIPE_NAMES: BuiltinRecipeName[] = ['auto', 'latexmk', 'latex'];
+export const BUILTIN_RECIPE_LABELS: Record<BuiltinRecipeName, string> = {
+  auto: 'Automatic',
+  latexmk: 'latexmk',
+  latex: 'LaTeX + bibliography + index',
+};
+export const DEFAULT_RECIPE: BuiltinRecipeName = 'auto';
+export const MAX_RECIPE_REPEAT = 5;
+
+export const isBuiltinRecipe = (name: string): name is BuiltinRecipeName => (
+  BUILTIN_RECIPE_NAMES.includes(name as BuiltinRecipeName)
+);
+
+export const isLatexStep = (step: Pick<RecipeStep, 'tool'>): boolean => (
+  step.tool === 'engine' || step.tool === 'latexmk'
+);
+
+export const createRecipeStep = (tool: RecipeTool, changes: Partial<Omit<RecipeStep, 'tool'>> = {}): RecipeStep => ({
+  tool,
+  args: [],
+  cwd: 'output',
+  when: null,
+  repeat: 1,
+  ...changes,
+});
+
+const BIBLIOGRAPHY_STEPS: Record<BibliographyTool, RecipeStep[]> = {
+  auto: [
+    createRecipeStep('biber', {
+      args: ['--input-directory=%OUTDIR%', '--output-directory=%OUTDIR%', '%DOCFILE%'],
+      cwd: 'root',
+      when: { exists: '%OUTDIR%/%DOCFILE%.bcf' },
+    }),
+    createRecipeStep('bibtex', {
+      args: ['%DOCFILE%'],
+      when: { missing: '%OUTDIR%/%DOCFILE%.bcf', contains: { file: '%OUTDIR%/%DOCFILE%.aux', text: '\\bibdata' } },
+    }),
+  ],
+  biber: [
+    createRecipeStep('biber', {
+      args: ['--input-directory=%OUTDIR%', '--output-directory=%OUTDIR%', '%DOCFILE%'],
+      cwd: 'root',
+      when: { exists: '%OUTDIR%/%DOCFILE%.bcf' },
+    }),
+  ],
+  bibtex: [
+    createRecipeStep('bibtex', {
+      args: ['%DOCFILE%'],
+      when: { contains: { file: '%OUTDIR%/%DOCFILE%.aux', text: '\\bibdata' } },
+    }),
+  ],
+  none: [],
+};
+
+/**
+ * The steps of a built-in recipe. `auto` is latexmk when it is installed and `latex` otherwise.
+ */
+export const getBuiltinRecipe = (
+  name: BuiltinRecipeName,
+  bibliography: BibliographyTool,
+  latexmkAvailable: boolean
+): BuildRecipe => {
+  if (name === 'latexmk' || (name === 'auto' && latexmkAvailable)) {
+    return { name, steps: [createRecipeStep('latexmk')] };
+  }
+  return {
+    name,
+    steps: [
+      createRecipeStep('engine'),
+      ...BIBLIOGRAPHY_STEPS[bibliography],
+      createRecipeStep('makeindex', { args: ['%DOCFILE%.idx'], when: { exists: '%OUTDIR%/%DOCFILE%.idx' } }),
+      // Passes that only the log asked for may take longer to settle.
+      createRecipeStep('engine', { when: { rerun: true }, repeat: 3, repeatWithoutTools: 5 }),
+    ],
+  };
+};
+
+/** A one-line summary of the programs a recipe runs, for the project trust prompt. */
+export const describeBuildRecipe = (recipe: BuildRecipe): string => (
+  `Recipe "${recipe.name}": ${recipe.steps.map(step => [step.tool, ...step.args].join(' ')).join(' → ')}`
+);
+
+/** How many times a LaTeX step may run, given whether a tool ran since the previous one. */
+export const recipeStepRepeat = (step: Pick<RecipeStep, 'repeat' | 'repeatWithoutTools'>, toolRan: boolean): number => (
+  !toolRan && step.repeatWithoutTools !== undefined ? step.repeatWithoutTools : step.repeat
+);
+
+/**
+ * The recipe a compile runs: a built-in or one of the project's, falling back to `auto`
+ * when the name is unknown.
+ */
+export const resolveBuildRecipe = (
+  name: string,
+  recipes: BuildRecipe[],
+  bibliography: BibliographyTool,
+  latexmkAvailable: boolean
+): BuildRecipe => {
+  if (isBuiltinRecipe(name)) return getBuiltinRecipe(name, bibliography, latexmkAvailable);
+  return recipes.find(recipe => recipe.name === name) ?? getBuiltinRecipe(DEFAULT_RECIPE, bibliography, latexmkAvailable);
+};
+
+/** Recipe names for a picker: built-ins first, then the project's. */
+export const listRecipeChoices = (recipes: BuildRecipe[]): Array<{ name: string; label: string }> => [
+  ...BUILTIN_RECIPE_NAMES.map(name => ({ name, label: BUILTIN_RECIPE_LABELS[name] })),
+  ...recipes.map(recipe => ({ name: recipe.name, label: recipe.name })),
+];
+
+export interface RecipeVariables {
+  // Root document path without `.tex`.
+  DOC: string;
+  // Root document file name without `.tex`.
+  DOCFILE: string;
+  // Folder of the root document.
+  DIR: string;
+  OUTDIR: string;
+}
+
+export const RECIPE_PLACEHOLDERS: Array<keyof RecipeVariables> = ['DOC', 'DOCFILE', 'DIR', 'OUTDIR'];
+
+export const expandRecipePlaceholders = (value: string, variables: RecipeVariables): string => (
+  value.replace(/%(DOCFILE|DOC|DIR|OUTDIR)%/g, (_, name: keyof RecipeVariables) => variables[name])
+);
+
+export interface RecipeConditionContext {
+  variables: RecipeVariables;
+  rerun: boolean;
+  // Resolves paths against the root document's folder; null when the file cannot be read.
+  readFile: (filePath: string) => Promise<string | null>;
+}
+
+export const recipeConditionHolds = async (
+  condition: RecipeCondition | null,
+  context: RecipeConditionContext
+): Promise<boolean> => {
+  if (!condition) return true;
+  const read = (filePath: string) => context.readFile(expandRecipePlaceholders(filePath, context.variables));
+  if (condition.rerun && !context.rerun) return false;
+  if (condition.exists !== undefined && await read(condition.exists) === null) return false;
+  if (condition.missing !== undefined && await read(condition.missing) !== null) return false;
+  if (condition.contains) {
+    const content = await read(condition.contains.file);
+    if (content === null || !content.includes(condition.contains.text)) return false;
+  }
+  return true;
+};
@@ -0,0 +1,473 @@
+import { cleanBibValue, parseBibTeX } from './bibtex';
+import { BibEntryDraft, getBibEntryYear, isValidBibKey } from './bibliography';
+
+/**
+ * Converting references exported as BibTeX, RIS, EndNote XML or CSL-JSON into BibTeX
+ * entries, and giving them citation keys from a pattern such as `authorYearFirstword`.
+ */
+
+export type CitationFormat = 'bibtex' | 'ris' | 'endnote' | 'csl-json';
+
+export const CITATION_FORMATS: CitationFormat[] = ['bibtex', 'ris', 'endnote', 'csl-json'];
+
+export const CITATION_FORMAT_LABELS: Record<CitationFormat, string> = {
+  bibtex: 'BibTeX',
+  ris: 'RIS',
+  endnote: 'EndNote XML',
+  'csl-json': 'CSL-JSON',
+};
+
+export interface ParsedCitations {
+  format: CitationFormat | null;
+  entries: BibEntryDraft[];
+  errors: string[];
+}
+
+// What the three foreign formats have in common, before it is mapped to BibTeX fields.
+interface CitationRecord {
+  type: string;
+  key: string;
+  authors: string[];
+  editors: string[];
+  keywords: string[];
+  title?: string;
+  // Journal, proceedings, book or website the item appeared in.
+  container?: string;
+  year?: string;
+  volume?: string;
+  number?: string;
+  pages?: string;
+  edition?: string;
+  publisher?: string;
+  address?: string;
+  // ISBN or ISSN.
+  serial?: string;
+  doi?: string;
+  url?: string;
+  abstract?: string;
+  note?: string;
+}
+
+const createRecord = (type: string): CitationRecord => ({ type, key: '', authors: [], editors: [], keywords: [] });
+
+export const detectCitationFormat = (text: string): CitationFormat | null => {
+  const trimmed = text.trim();
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed);
+      return 'csl-json';
+    } catch {
+      // Not JSON; a BibTeX entry cannot start with a brace either, so keep looking.
+    }
+  }
+  if (/<record\b|<xml\b/i.test(trimmed)) return 'endnote';
+  if (/^TY {2}- /m.test(trimmed)) return 'ris';
+  if (/@\s*[A-Za-z]+\s*[{(]/.test(trimmed)) return 'bibtex';
+  return null;
+};
+
+const firstYear = (value: string | undefined) => value?.match(/\d{4}/)?.[0];
+
+const normalizePages = (value: string | undefined) => value?.trim().replace(/\s*(?:-+|–|—)\s*/g, '--');
+
+const normalizeDoiValue = (value: string | undefined) => (
+  value?.trim().replace(/^(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:\s*)/i, '')
+);
+
+// Characters BibTeX passes to LaTeX, which would otherwise start a comment, math and so on.
+const escapeText = (value: string) => {
+  const escaped = value.replace(/(?<!\\)[&%$#_]/g, '\\$&');
+  let depth = 0;
+  for (const char of escaped) {
+    if (char === '{') depth += 1;
+    else if (char === '}' && --depth < 0) break;
+  }
+  return depth === 0 ? escaped : escaped.replace(/[{}]/g, '\\$&');
+};
+
+// Fields the types below keep their container, publisher and serial number in.
+const containerField = (type: string) => {
+  if (type === 'article') return 'journal';
+  if (type === 'incollection' || type === 'inproceedings' || type === 'inbook') return 'booktitle';
+  if (type === 'misc' || type === 'online') return 'howpublished';
+  return 'series';
+};
+
+const publisherField = (type: string) => {
+  if (type === 'phdthesis' || type === 'mastersthesis') return 'school';
+  if (type === 'techreport') return 'institution';
+  return 'publisher';
+};
+
+const serialField = (type: string) => (['book', 'inbook', 'incollection', 'inproceedings'].includes(type) ? 'isbn' : 'issn');
+
+const toDraft = (record: CitationRecord): BibEntryDraft => {
+  const fields: Record<string, string> = {};
+  const set = (name: string, value: string | undefined, raw = false) => {
+    const trimmed = value?.replace(/\s+/g, ' ').trim();
+    if (trimmed) fields[name] = raw ? trimmed : escapeText(trimmed);
+  };
+  set('author', record.authors.join(' and '));
+  set('editor', record.editors.join(' and '));
+  set('title', record.title);
+  set(containerField(record.type), record.container);
+  set('edition', record.edition);
+  set('volume', record.volume);
+  set('number', record.number);
+  set('pages', normalizePages(record.pages));
+  set(publisherField(record.type), record.publisher);
+  set('address', record.address);
+  set('year', firstYear(record.year));
+  set(serialField(record.type), record.serial);
+  set('doi', normalizeDoiValue(record.doi), true);
+  set('url', record.url, true);
+  set('keywords', record.keywords.join(', '));
+  set('abstract', record.abstract);
+  set('note', record.note);
+  return { type: record.type, key: record.key, fields };
+};
+
+const RIS_TYPES: Record<string, string> = {
+  JOUR: 'article',
+  JFULL: 'article',
+  EJOUR: 'article',
+  MGZN: 'article',
+  NEWS: 'article',
+  BOOK: 'book',
+  EBOOK: 'book',
+  EDBOOK: 'book',
+  CHAP: 'incollection',
+  ECHAP: 'incollection',
+  CONF: 'inproceedings',
+  CPAPER: 'inproceedings',
+  THES: 'phdthesis',
+  RPRT: 'techreport',
+  ELEC: 'online',
+  WEB: 'online',
+  UNPB: 'unpublished',
+  MANSCPT: 'unpublished',
+};
+
+const parseRis = (text: string): CitationRecord[] => {
+  const records: CitationRecord[] = [];
+  let record: CitationRecord | null = null;
+  let startPage = '';
+  let endPage = '';
+  const finish = () => {
+    if (!record) return;
+    if (startPage) record.pages = endPage ? `${startPage}--${endPage}` : startPage;
+    records.push(record);
+    record = null;
+  };
+  text.split(/\r?\n/).forEach(line => {
+    const match = line.match(/^([A-Z][A-Z0-9]) {2}-(?: (.*))?$/);
+    if (!match) return;
+    const [, tag, rawValue = ''] = match;
+    const value = rawValue.trim();
+    if (tag === 'TY') {
+      finish();
+      record = createRecord(RIS_TYPES[value] ?? 'misc');
+      startPage = '';
+      endPage = '';
+      return;
+    }
+    if (tag === 'ER') {
+      finish();
+      return;
+    }
+    const current = record as CitationRecord | null;
+    if (!current || !value) return;
+    switch (tag) {
+      case 'AU': case 'A1': current.authors.push(value); break;
+      case 'A2': case 'ED': current.editors.push(value); break;
+      case 'TI': case 'T1': current.title ??= value; break;
+      case 'T2': case 'JO': case 'JF': case 'JA': case 'J2': case 'BT': current.container ??= value; break;
+      case 'PY': case 'Y1': case 'DA': current.year ??= firstYear(value); break;
+      case 'VL': current.volume = value; break;
+      case 'IS': current.number = value; break;
+      case 'SP': startPage = value; break;
+      case 'EP': endPage = value; break;
+      case 'ET': current.edition = value; break;
+      case 'PB': current.publisher = value; break;
+      case 'CY': current.address = value; break;
+      case 'SN': current.serial = value; break;
+      case 'DO': current.doi = value; break;
+      case 'UR': current.url ??= value; break;
+      case 'AB': case 'N2': current.abstract ??= value; break;
+      case 'KW': current.keywords.push(value); break;
+      case 'N1': current.note = value; break;
+      case 'ID': current.key = value; break;
+      default: break;
+    }
+  });
+  finish();
+  return records;
+};
+
+const ENDNOTE_TYPES: Record<string, string> = {
+  'journal article': 'article',
+  'electronic article': 'article',
+  'magazine article': 'article',
+  'newspaper article': 'article',
+  book: 'book',
+  'edited book': 'book',
+  'electronic book': 'book',
+  'book section': 'incollection',
+  'electronic book section': 'incollection',
+  'conference paper': 'inproceedings',
+  'conference proceedings': 'inproceedings',
+  thesis: 'phdthesis',
+  report: 'techreport',
+  'web page': 'online',
+  'unpublished work': 'unpublished',
+};
+
+const decodeXml = (text: string) => text
+  .replace(/<[^>]*>/g, '')
+  .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+  .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&')
+  .trim();
+
+// Inner XML of every `<tag>` element, in order; EndNote does not nest an element in itself.
+const xmlElements = (xml: string, tag: string): string[] => (
+  Array.from(xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g')), match => match[1])
+);
+
+const xmlText = (xml: string, ...path: string[]): string | undefined => {
+  let inner: string | undefined = xml;
+  for (const tag of path) {
+    inner = inner === undefined ? undefined : xmlElements(inner, tag)[0];
+  }
+  const text = inner === undefined ? '' : decodeXml(inner);
+  return text || undefined;
+};
+
+const parseEndNoteXml = (text: string): CitationRecord[] => xmlElements(text, 'record').map(xml => {
+  const typeName = xml.match(/<ref-type[^>]*\bname="([^"]*)"/)?.[1].toLowerCase() ?? '';
+  const record = createRecord(ENDNOTE_TYPES[typeName] ?? 'misc');
+  const contributors = xmlElements(xml, 'contributors')[0] ?? '';
+  const names = (tag: string) => xmlElements(xmlElements(contributors, tag)[0] ?? '', 'author').map(decodeXml).filter(Boolean);
+  record.authors = names('authors');
+  record.editors = names('secondary-authors');
+  record.title = xmlText(xml, 'titles', 'title');
+  record.container = xmlText(xml, 'titles', 'secondary-title') ?? xmlText(xml, 'periodical', 'full-title');
+  record.year = xmlText(xml, 'dates', 'year');
+  record.volume = xmlText(xml, 'volume');
+  record.number = xmlText(xml, 'number');
+  record.pages = xmlText(xml, 'pages');
+  record.edition = xmlText(xml, 'edition');
+  record.publisher = xmlText(xml, 'publisher');
+  record.address = xmlText(xml, 'pub-location');
+  record.serial = xmlText(xml, 'isbn');
+  record.doi = xmlText(xml, 'electronic-resource-num');
+  record.url = xmlText(xml, 'urls', 'related-urls', 'url');
+  record.abstract = xmlText(xml, 'abstract');
+  record.note = xmlText(xml, 'notes');
+  record.keywords = xmlElements(xmlElements(xml, 'keywords')[0] ?? '', 'keyword').map(decodeXml).filter(Boolean);
+  record.key = xmlText(xml, 'label') ?? '';
+  return record;
+});
+
+const CSL_TYPES: Record<string, string> = {
+  'article-journal': 'article',
+  'article-magazine': 'article',
+  'article-newspaper': 'article',
+  article: 'article',
+  book: 'book',
+  chapter: 'incollection',
+  'paper-conference': 'inproceedings',
+  thesis: 'phdthesis',
+  report: 'techreport',
+  webpage: 'online',
+  'post-weblog': 'online',
+  manuscript: 'unpublished',
+};
+
+interface CslName {
+  family?: string;
+  given?: string;
+  literal?: string;
+  'non-dropping-particle'?: string;
+}
+
+interface CslDate {
+  'date-parts'?: Array<Array<number | string>>;
+  raw?: string;
+  literal?: string;
+}
+
+const cslName = (name: CslName) => {
+  if (name.literal) return `{${name.literal}}`;
+  const family = [name['non-dropping-particle'], name.family].filter(Boolean).join(' ');
+  return name.given ? `${family}, ${name.given}` : family;
+};
+
+const cslString = (value: unknown) => (typeof value === 'string' || typeof value === 'number' ? String(value) : undefined);
+
+const parseCslJson = (text: string): CitationRecord[] => {
+  const data = JSON.parse(text);
+  const items: Array<Record<string, unknown>> = Array.isArray(data) ? data : Array.isArray(data?.items) ? data.items : [data];
+  return items.filter(item => item && typeof item === 'object').map(item => {
+    const record = createRecord(CSL_TYPES[cslString(item.type) ?? ''] ?? 'misc');
+    const names = (value: unknown) => (Array.isArray(value) ? (value as CslName[]).map(cslName).filter(Boolean) : []);
+    const issued = item.issued as CslDate | undefined;
+    // Zotero and Mendeley use item URIs as ids, which are no use as keys.
+    const id = cslString(item.id);
+    record.key = cslString(item['citation-key']) ?? (id && !id.includes('/') ? id : '');
+    record.authors = names(item.author);
+    record.editors = names(item.editor);
+    record.title = cslString(item.title)?.replace(/<[^>]*>/g, '');
+    record.container = cslString(item['container-title'])?.replace(/<[^>]*>/g, '');
+    record.year = cslString(issued?.['date-parts']?.[0]?.[0]) ?? issued?.raw ?? issued?.literal;
+    record.volume = cslString(item.volume);
+    record.number = cslString(item.issue) ?? cslString(item.number);
+    record.pages = cslString(item.page);
+    record.edition = cslString(item.edition);
+    record.publisher = cslString(item.publisher);
+    record.address = cslString(item['publisher-place']);
+    record.serial = cslString(item.ISBN) ?? cslString(item.ISSN);
+    record.doi = cslString(item.DOI);
+    record.url = cslString(item.URL);
+    record.abstract = cslString(item.abstract);
+    record.note = cslString(item.note);
+    record.keywords = (cslString(item.keyword) ?? '').split(/\s*[,;]\s*/).filter(Boolean);
+    return record;
+  });
+};
+
+/**
+ * Entries found in pasted or dropped text, in the given format or the one it looks like.
+ */
+export const parseCitations = (text: string, format: CitationFormat | null = detectCitationFormat(text)): ParsedCitations => {
+  if (!text.trim()) return { format, entries: [], errors: [] };
+  if (!format) {
+    return { format, entries: [], errors: ['The text is not in a format that can be imported: BibTeX, RIS, EndNote XML or CSL-JSON'] };
+  }
+  try {
+    let entries: BibEntryDraft[];
+    if (format === 'bibtex') {
+      entries = parseBibTeX(text).map(({ type, key, fields }) => ({ type, key, fields }));
+    } else if (format === 'ris') {
+      entries = parseRis(text).map(toDraft);
+    } else if (format === 'endnote') {
+      entries = parseEndNoteXml(text).map(toDraft);
+    } else {
+      entries = parseCslJson(text).map(toDraft);
+    }
+    const errors = entries.length === 0 ? [`No ${CITATION_FORMAT_LABELS[format]} references were found`] : [];
+    return { format, entries, errors };
+  } catch (error) {
+    return { format, entries: [], errors: [`The ${CITATION_FORMAT_LABELS[format]} could not be read: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+};
+
+export const DEFAULT_CITATION_KEY_PATTERN = 'authorYearFirstword';
+
+// Words skipped when a key takes words from the title.
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'on', 'of', 'in', 'for', 'and', 'or', 'to', 'with', 'from', 'at', 'by', 'as', 'is', 'are',
+  'der', 'die', 'das', 'ein', 'eine', 'le', 'la', 'les', 'un', 'une', 'el', 'los', 'las', 'il', 'lo',
+]);
+
+const asciiWords = (value: string) => cleanBibValue(value)
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .split(/[^A-Za-z0-9]+/)
+  .filter(Boolean);
+
+const surname = (name: string) => {
+  const trimmed = name.trim();
+  // Braced names are organisations, and kept whole.
+  if (/^\{.*\}$/.test(trimmed)) return asciiWords(trimmed).join('');
+  const family = trimmed.includes(',') ? trimmed.split(',')[0] : trimmed.split(/\s+/).pop() ?? '';
+  return asciiWords(family).join('');
+};
+
+const KEY_TOKENS = /authors|author|shortyear|year|firstword|title/gi;
+
+/**
+ * A citation key from a pattern of tokens and literal text. `author`, `authors` (up to three
+ * surnames, then `EtAl`), `year`, `shortyear`, `firstword` and `title` (three words) take
+ * their case from how they are written: `author` gives `knuth`, `Author` gives `Knuth` and
+ * `AUTHOR` gives `KNUTH`.
+ */
+export const generateCitationKey = (entry: BibEntryDraft, pattern: string = DEFAULT_CITATION_KEY_PATTERN): string => {
+  const names = (entry.fields.author || entry.fields.editor || '').split(/\s+and\s+/i).filter(name => name.trim() && name.trim() !== 'others');
+  const titleWords = asciiWords(entry.fields.title ?? '').filter(word => !STOP_WORDS.has(word.toLowerCase()));
+  const year = getBibEntryYear(entry);
+  const values = (token: string): string[] => {
+    switch (token) {
+      case 'author': return names.length ? [surname(names[0])] : [];
+      case 'authors': return names.length > 3 ? [surname(names[0]), 'EtAl'] : names.map(surname);
+      case 'year': return [year];
+      case 'shortyear': return [year.slice(-2)];
+      case 'firstword': return titleWords.slice(0, 1);
+      default: return titleWords.slice(0, 3);
+    }
+  };
+  const key = pattern.replace(KEY_TOKENS, token => {
+    const parts = values(token.toLowerCase()).filter(Boolean);
+    if (token === token.toUpperCase()) return parts.join('').toUpperCase();
+    if (token[0] === token[0].toUpperCase()) return parts.map(part => part[0].toUpperCase() + part.slice(1).toLowerCase()).join('');
+    return parts.join('').toLowerCase();
+  });
+  return key.replace(/[^A-Za-z0-9_:.+/-]+/g, '') || 'ref';
+};
+
+export type KeyConflictHandling = 'suffix' | 'skip';
+
+export interface CitationImportOptions {
+  pattern: string;
+  // Use keys the source already has, such as BibTeX keys and CSL-JSON ids, when they are valid.
+  keepKeys: boolean;
+  // For keys already in the bibliography; keys repeated within the import always get a suffix.
+  onConflict: KeyConflictHandling;
+}
+
+export interface PreparedCitation {
+  entry: BibEntryDraft;
+  // The key before conflicts were resolved.
+  proposedKey: string;
+  status: 'new' | 'renamed' | 'skipped';
+}
+
+// BibTeX treats keys that differ only in case as the same entry, so `taken` holds lower-case keys.
+const withSuffix = (key: string, taken: Set<string>) => {
+  for (let index = 0; ; index++) {
+    let suffix = '';
+    for (let value = index; value >= 0; value = Math.floor(value / 26) - 1) {
+      suffix = String.fromCharCode(97 + (value % 26)) + suffix;
+    }
+    if (!taken.has(`${key}${suffix}`.toLowerCase())) return `${key}${suffix}`;
+  }
+};
+
+/**
+ * Final keys for imported entries: kept or generated, then checked against the keys the
+ * bibliography already has and against each other, ignoring case.
+ */
+export const prepareCitationImport = (
+  entries: BibEntryDraft[],
+  existingKeys: Iterable<string>,
+  options: CitationImportOptions
+): PreparedCitation[] => {
+  const existing = new Set(Array.from(existingKeys, key => key.toLowerCase()));
+  const taken = new Set(existing);
+  return entries.map(entry => {
+    const sourceKey = entry.key.trim();
+    const proposedKey = options.keepKeys && sourceKey && isValidBibKey(sourceKey)
+      ? sourceKey
+      : generateCitationKey(entry, options.pattern);
+    if (existing.has(proposedKey.toLowerCase()) && options.onConflict === 'skip') {
+      return { entry: { ...entry, key: proposedKey }, proposedKey, status: 'skipped' };
+    }
+    const key = taken.has(proposedKey.toLowerCase()) ? withSuffix(proposedKey, taken) : proposedKey;
+    taken.add(key.toLowerCase());
+    return { entry: { ...entry, key }, proposedKey, status: key === proposedKey ? 'new' : 'renamed' };
+  });
+};
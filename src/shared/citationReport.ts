@@ -0,0 +1,89 @@
+import { findUncitedEntries } from './bibliography';
+import type { IndexedBibEntry, IndexedCitation } from './latexIndex';
+import { applyTextEdits } from './latexRename';
+import { stringDistance } from './latexQuickFixes';
+
+/**
+ * Cross-reference of the project's citations and `.bib` entries: keys cited but never
+ * defined, with likely intended keys, and entries no citation uses.
+ */
+
+export interface UndefinedCitationKey {
+  key: string;
+  // Every citation of the key, in file and line order.
+  uses: IndexedCitation[];
+  // Defined keys the citation probably meant, best match first.
+  suggestions: string[];
+}
+
+export interface CitationReport {
+  // Distinct keys cited, `\nocite{*}` excluded.
+  citedKeys: number;
+  citationCount: number;
+  undefinedKeys: UndefinedCitationKey[];
+  unusedEntries: IndexedBibEntry[];
+  // `\nocite{*}` puts every entry in the bibliography, so none is reported as unused.
+  citesEverything: boolean;
+}
+
+/**
+ * Defined keys close to `key`: a different case, or a few typed characters off.
+ */
+export const suggestCitationKeys = (key: string, keys: Iterable<string>, limit = 3): string[] => {
+  const wanted = key.toLowerCase();
+  const scored: Array<{ key: string; score: number }> = [];
+  new Set(keys).forEach(candidate => {
+    if (candidate === key) return;
+    const score = stringDistance(wanted, candidate.toLowerCase());
+    if (score <= 0.4) scored.push({ key: candidate, score });
+  });
+  return scored
+    .sort((a, b) => a.score - b.score || a.key.localeCompare(b.key))
+    .slice(0, limit)
+    .map(item => item.key);
+};
+
+export const buildCitationReport = (citations: IndexedCitation[], entries: IndexedBibEntry[]): CitationReport => {
+  const defined = new Set(entries.map(entry => entry.key));
+  const uses = citations.filter(citation => citation.key !== '*');
+  const byKey = new Map<string, IndexedCitation[]>();
+  uses.forEach(citation => {
+    byKey.set(citation.key, [...(byKey.get(citation.key) ?? []), citation]);
+  });
+
+  const undefinedKeys = Array.from(byKey.entries())
+    .filter(([key]) => !defined.has(key))
+    .map(([key, keyUses]) => ({
+      key,
+      uses: [...keyUses].sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column),
+      suggestions: suggestCitationKeys(key, defined),
+    }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+
+  const unusedEntries = findUncitedEntries(entries, citations)
+    .sort((a, b) => a.file.localeCompare(b.file) || a.start - b.start);
+
+  return {
+    citedKeys: byKey.size,
+    citationCount: uses.length,
+    undefinedKeys,
+    unusedEntries,
+    citesEverything: citations.some(citation => citation.key === '*'),
+  };
+};
+
+/**
+ * Replace the key at each of `uses` with `newKey`. Uses whose position no longer holds the
+ * key, because the file changed since it was indexed, are left alone.
+ */
+export const replaceCitationKey = (
+  content: string,
+  uses: Array<Pick<IndexedCitation, 'key' | 'line' | 'column'>>,
+  newKey: string
+): { content: string; replaced: number } => {
+  const lines = content.split('\n');
+  const edits = uses
+    .filter(use => lines[use.line - 1]?.slice(use.column - 1, use.column - 1 + use.key.length) === use.key)
+    .map(use => ({ line: use.line, column: use.column, length: use.key.length, text: newKey }));
+  return { content: edits.length ? applyTextEdits(content, edits) : content, replaced: edits.length };
+};
@@ -0,0 +1,75 @@
+/**
+ * Live compile output sent from the main process while tools are running.
+ * `pass` counts engine runs; other tools (biber, makeindex, ...) report 0.
+ */
+export interface CompileOutputBatch {
+  requestId?: number;
+  tool: string;
+  pass: number;
+  lines: string[];
+}
+
+export interface CompileProgress {
+  tool: string | null;
+  pass: number;
+  // Highest page shipped out in the current pass, e.g. 13 after `[12] [13]`.
+  pages: number;
+}
+
+export const INITIAL_COMPILE_PROGRESS: CompileProgress = { tool: null, pass: 0, pages: 0 };
+
+// TeX prints `[12]`, `[13{/path/pdftex.map}]` or `[14 <./figure.pdf>]` as pages are shipped out.
+const SHIPPED_PAGE_PATTERN = /\[(\d+)(?=[\]\s{<])/g;
+const LATEXMK_RUN_PATTERN = /Run number (\d+) of rule '([^'\s]+)[^']*'/;
+const LATEX_ENGINE_TOOLS = new Set(['pdflatex', 'xelatex', 'lualatex', 'latex', 'latexmk']);
+
+export const extractShippedPages = (line: string): number[] => {
+  const pages: number[] = [];
+  SHIPPED_PAGE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SHIPPED_PAGE_PATTERN.exec(line)) !== null) {
+    pages.push(parseInt(match[1], 10));
+  }
+  return pages;
+};
+
+/**
+ * Recognise latexmk's `Run number 2 of rule 'pdflatex'` (or `'lualatex'`, `'biber main'` ...) banner.
+ */
+export const parseLatexmkRun = (line: string): { rule: string; run: number } | null => {
+  const match = line.match(LATEXMK_RUN_PATTERN);
+  return match ? { rule: match[2], run: parseInt(match[1], 10) } : null;
+};
+
+/**
+ * Fold a batch of output into the progress summary. latexmk output is attributed to the
+ * rule it reports running, so its passes and page counts read like direct engine runs.
+ */
+export const updateCompileProgress = (progress: CompileProgress, batch: CompileOutputBatch): CompileProgress => {
+  const isLatexmk = batch.tool === 'latexmk';
+  let next = progress;
+  if (isLatexmk ? progress.tool === null : batch.tool !== progress.tool || batch.pass !== progress.pass) {
+    next = { tool: batch.tool, pass: batch.pass, pages: 0 };
+  }
+  for (const line of batch.lines) {
+    const run = isLatexmk ? parseLatexmkRun(line) : null;
+    if (run) {
+      next = { tool: run.rule, pass: run.run, pages: 0 };
+      continue;
+    }
+    if (next.tool && LATEX_ENGINE_TOOLS.has(next.tool)) {
+      const pages = extractShippedPages(line);
+      if (pages.length > 0) {
+        next = { ...next, pages: Math.max(next.pages, ...pages) };
+      }
+    }
+  }
+  return next;
+};
+
+export const formatElapsed = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${String(seconds).padStart(2, '0')}s` : `${seconds}s`;
+};
@@ -0,0 +1,360 @@
+/**
+ * A small reader for Hunspell `.aff`/`.dic` dictionaries: prefixes and suffixes (with cross
+ * products and one level of suffix continuation), case handling, BREAK on hyphens and
+ * REP/TRY based suggestions. Compounding rules are not supported.
+ */
+
+export interface SpellChecker {
+  check: (word: string) => boolean;
+  suggest: (word: string, limit?: number) => string[];
+}
+
+type FlagMode = 'short' | 'long' | 'num' | 'UTF-8';
+
+interface AffixRule {
+  kind: 'PFX' | 'SFX';
+  flag: string;
+  crossProduct: boolean;
+  strip: string;
+  add: string;
+  // Continuation classes: suffixes that may follow this one.
+  continuation: string[];
+  condition: RegExp | null;
+}
+
+interface AffixData {
+  flagMode: FlagMode;
+  aliases: string[][];
+  tryChars: string;
+  replacements: Array<[string, string]>;
+  prefixes: AffixRule[];
+  suffixes: AffixRule[];
+  forbiddenWord?: string;
+  noSuggest?: string;
+  needAffix?: string;
+  keepCase?: string;
+  onlyInCompound?: string;
+}
+
+const DEFAULT_TRY = 'esianrtolcdugmphbyfvkwzESIANRTOLCDUGMPHBYFVKWZ';
+const DEFAULT_SUGGESTION_LIMIT = 5;
+// Edits of much longer words take long and rarely help.
+const MAX_SUGGESTION_LENGTH = 40;
+
+const WEB_ENCODINGS: Record<string, string> = {
+  'microsoft-cp1251': 'windows-1251',
+  'iso8859-1': 'iso-8859-1',
+};
+
+/**
+ * Encoding named by the `SET` line of an affix file, as a TextDecoder label.
+ * Affix files are ASCII up to that line, so any single-byte decoding can be used to read it.
+ */
+export const getAffixEncoding = (affText: string): string => {
+  const match = /^SET\s+(\S+)/m.exec(affText);
+  if (!match) return 'iso-8859-1';
+  const name = match[1].toLowerCase();
+  return WEB_ENCODINGS[name] ?? name;
+};
+
+const splitFlags = (value: string, mode: FlagMode): string[] => {
+  if (!value) return [];
+  switch (mode) {
+    case 'long':
+      return value.match(/[\s\S]{1,2}/g) ?? [];
+    case 'num':
+      return value.split(',').map(flag => flag.trim()).filter(Boolean);
+    case 'UTF-8':
+      return Array.from(value);
+    default:
+      return value.split('');
+  }
+};
+
+// Dictionaries with an `AF` table refer to flag sets by their 1-based number.
+const readFlags = (data: AffixData, value: string): string[] => {
+  if (data.aliases.length > 0 && /^\d+$/.test(value)) return data.aliases[Number(value) - 1] ?? [];
+  return splitFlags(value, data.flagMode);
+};
+
+const buildCondition = (condition: string, kind: AffixRule['kind']): RegExp | null => {
+  if (!condition || condition === '.') return null;
+  // Conditions use character classes and `.`; everything else is literal.
+  const source = condition.replace(/[\\$()*+?{}|/]/g, '\\$&');
+  try {
+    return new RegExp(kind === 'SFX' ? `(?:${source})$` : `^(?:${source})`, 'u');
+  } catch {
+    return null;
+  }
+};
+
+const parseAffix = (affText: string): AffixData => {
+  const data: AffixData = {
+    flagMode: 'short',
+    aliases: [],
+    tryChars: DEFAULT_TRY,
+    replacements: [],
+    prefixes: [],
+    suffixes: [],
+  };
+  const headers = new Map<string, boolean>();
+  const lines = affText.split(/\r?\n/);
+
+  // FLAG must be known before any flags are read, and may come after other options.
+  const flagLine = lines.find(line => /^FLAG\s/.test(line));
+  if (flagLine) {
+    const mode = flagLine.split(/\s+/)[1];
+    if (mode === 'long' || mode === 'num' || mode === 'UTF-8') data.flagMode = mode;
+  }
+  for (const line of lines) {
+    const parts = line.trim().split(/\s+/);
+    const [keyword] = parts;
+    if (!keyword || keyword.startsWith('#')) continue;
+    switch (keyword) {
+      case 'TRY':
+        data.tryChars = parts[1] ?? data.tryChars;
+        break;
+      case 'REP':
+        if (parts.length >= 3) data.replacements.push([parts[1], parts[2]]);
+        break;
+      case 'AF':
+        if (parts.length >= 2 && !/^\d+$/.test(parts[1])) data.aliases.push(splitFlags(parts[1], data.flagMode));
+        break;
+      case 'FORBIDDENWORD':
+        data.forbiddenWord = parts[1];
+        break;
+      case 'NOSUGGEST':
+        data.noSuggest = parts[1];
+        break;
+      case 'NEEDAFFIX':
+      case 'PSEUDOROOT':
+        data.needAffix = parts[1];
+        break;
+      case 'KEEPCASE':
+        data.keepCase = parts[1];
+        break;
+      case 'ONLYINCOMPOUND':
+        data.onlyInCompound = parts[1];
+        break;
+      case 'PFX':
+      case 'SFX': {
+        const [, flag, second, third, fourth] = parts;
+        const key = `${keyword}:${flag}`;
+        // The first line of a class is its header: flag, cross product and entry count.
+        if (!headers.has(key)) {
+          headers.set(key, second === 'Y');
+          break;
+        }
+        if (third === undefined) break;
+        const [add, continuation = ''] = third.split('/');
+        const rule: AffixRule = {
+          kind: keyword,
+          flag,
+          crossProduct: headers.get(key) ?? false,
+          strip: second === '0' ? '' : second,
+          add: add === '0' ? '' : add,
+          continuation: readFlags(data, continuation),
+          condition: buildCondition(fourth ?? '.', keyword),
+        };
+        (keyword === 'PFX' ? data.prefixes : data.suffixes).push(rule);
+        break;
+      }
+      default:
+        break;
+    }
+  }
+  return data;
+};
+
+const parseDictionary = (dicText: string, flagsOf: (value: string) => string[]) => {
+  const words = new Map<string, Array<Set<string>>>();
+  const lines = dicText.split(/\r?\n/);
+  // The first line is the approximate word count.
+  for (let index = /^\s*\d+\s*$/.test(lines[0] ?? '') ? 1 : 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (!line || line.startsWith('\t') || line.startsWith('#')) continue;
+    // Morphological fields follow a tab or space; `\/` is a literal slash.
+    const entry = line.split(/\s/)[0];
+    const slash = entry.search(/(?<!\\)\//);
+    const word = (slash === -1 ? entry : entry.slice(0, slash)).replace(/\\\//g, '/');
+    if (!word) continue;
+    const flags = new Set(slash === -1 ? [] : flagsOf(entry.slice(slash + 1)));
+    const homonyms = words.get(word);
+    if (homonyms) homonyms.push(flags);
+    else words.set(word, [flags]);
+  }
+  return words;
+};
+
+const isCapitalized = (word: string) => word.length > 1
+  && word[0] !== word[0].toLowerCase()
+  && word.slice(1) === word.slice(1).toLowerCase();
+const isUpperCase = (word: string) => word !== word.toLowerCase() && word === word.toUpperCase();
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+/**
+ * Build a checker from the text of an affix file and a dictionary file.
+ */
+export const createSpellChecker = (affText: string, dicText: string): SpellChecker => {
+  const affix = parseAffix(affText);
+  const words = parseDictionary(dicText, value => readFlags(affix, value));
+
+  // Index affixes by their first/last character so each lookup only tries plausible rules.
+  const indexRules = (rules: AffixRule[], pick: (add: string) => string) => {
+    const index = new Map<string, AffixRule[]>();
+    rules.forEach(rule => {
+      const key = pick(rule.add);
+      const list = index.get(key);
+      if (list) list.push(rule);
+      else index.set(key, [rule]);
+    });
+    return index;
+  };
+  const prefixIndex = indexRules(affix.prefixes, add => add.charAt(0));
+  const suffixIndex = indexRules(affix.suffixes, add => add.charAt(add.length - 1));
+  const suffixesFor = (word: string) => [...(suffixIndex.get('') ?? []), ...(suffixIndex.get(word.charAt(word.length - 1)) ?? [])];
+  const prefixesFor = (word: string) => [...(prefixIndex.get('') ?? []), ...(prefixIndex.get(word.charAt(0)) ?? [])];
+
+  const usable = (flags: Set<string>, required: string[]) => (
+    required.every(flag => flags.has(flag))
+    && !(affix.forbiddenWord && flags.has(affix.forbiddenWord))
+    && !(affix.onlyInCompound && flags.has(affix.onlyInCompound))
+    && !(required.length === 0 && affix.needAffix && flags.has(affix.needAffix))
+  );
+  const hasStem = (stem: string, required: string[]) => (words.get(stem) ?? []).some(flags => usable(flags, required));
+
+  const stripSuffix = (word: string, rule: AffixRule): string | null => {
+    if (!word.endsWith(rule.add) || word.length <= rule.add.length) return null;
+    const stem = word.slice(0, word.length - rule.add.length) + rule.strip;
+    return !rule.condition || rule.condition.test(stem) ? stem : null;
+  };
+  const stripPrefix = (word: string, rule: AffixRule): string | null => {
+    if (!word.startsWith(rule.add) || word.length <= rule.add.length) return null;
+    const stem = rule.strip + word.slice(rule.add.length);
+    return !rule.condition || rule.condition.test(stem) ? stem : null;
+  };
+
+  const checkSuffixed = (word: string, prefix?: AffixRule): boolean => {
+    for (const rule of suffixesFor(word)) {
+      if (prefix && !(prefix.crossProduct && rule.crossProduct)) continue;
+      const stem = stripSuffix(word, rule);
+      if (stem === null) continue;
+      const required = prefix ? [rule.flag, prefix.flag] : [rule.flag];
+      if (hasStem(stem, required)) return true;
+      // Twofold suffixes: `rule` may follow another suffix that lists it as a continuation.
+      if (!prefix) {
+        for (const inner of suffixesFor(stem)) {
+          if (!inner.continuation.includes(rule.flag)) continue;
+          const root = stripSuffix(stem, inner);
+          if (root !== null && hasStem(root, [inner.flag])) return true;
+        }
+      }
+    }
+    return false;
+  };
+
+  const checkAffixed = (word: string): boolean => {
+    if (checkSuffixed(word)) return true;
+    for (const rule of prefixesFor(word)) {
+      const stem = stripPrefix(word, rule);
+      if (stem === null) continue;
+      if (hasStem(stem, [rule.flag])) return true;
+      if (rule.crossProduct && checkSuffixed(stem, rule)) return true;
+    }
+    return false;
+  };
+
+  const isForbidden = (word: string) => Boolean(affix.forbiddenWord)
+    && (words.get(word) ?? []).some(flags => flags.has(affix.forbiddenWord!));
+
+  const checkExact = (word: string) => !isForbidden(word) && (hasStem(word, []) || checkAffixed(word));
+
+  const check = (word: string): boolean => {
+    if (!word) return true;
+    if (checkExact(word)) return true;
+    const keepsCase = (candidate: string) => Boolean(affix.keepCase)
+      && (words.get(candidate) ?? []).some(flags => flags.has(affix.keepCase!));
+    if (isUpperCase(word)) {
+      const lower = word.toLowerCase();
+      const title = capitalize(lower);
+      if ((checkExact(title) && !keepsCase(title)) || (checkExact(lower) && !keepsCase(lower))) return true;
+    } else if (isCapitalized(word)) {
+      const lower = word.toLowerCase();
+      if (checkExact(lower) && !keepsCase(lower)) return true;
+    }
+    // BREAK defaults: a hyphenated word is fine when all of its parts are.
+    if (word.includes('-')) {
+      const parts = word.split('-');
+      return parts.every(part => part === '' || check(part));
+    }
+    return false;
+  };
+
+  const suggestable = (candidate: string) => check(candidate) && !(affix.noSuggest
+    && (words.get(candidate) ?? []).some(flags => flags.has(affix.noSuggest!)));
+
+  const suggest = (word: string, limit = DEFAULT_SUGGESTION_LIMIT): string[] => {
+    if (!word || word.length > MAX_SUGGESTION_LENGTH) return [];
+    const results: string[] = [];
+    const seen = new Set<string>([word]);
+    // Multi-word candidates are checked word by word.
+    const consider = (candidate: string) => {
+      if (results.length >= limit || seen.has(candidate)) return;
+      seen.add(candidate);
+      if (candidate.split(' ').every(suggestable)) results.push(candidate);
+    };
+
+    // Case first: a lower-case proper noun or a stray capital.
+    consider(capitalize(word.toLowerCase()));
+    consider(word.toLowerCase());
+    consider(word.toUpperCase());
+
+    affix.replacements.forEach(([from, to]) => {
+      const pattern = from.replace(/^\^/, '').replace(/\$$/, '');
+      const replacement = to.replace(/_/g, ' ');
+      for (let index = word.indexOf(pattern); index !== -1; index = word.indexOf(pattern, index + 1)) {
+        if (from.startsWith('^') && index !== 0) continue;
+        if (from.endsWith('$') && index + pattern.length !== word.length) continue;
+        consider(word.slice(0, index) + replacement + word.slice(index + pattern.length));
+      }
+    });
+
+    const characters = Array.from(new Set(affix.tryChars + word.toLowerCase()));
+    for (let index = 0; index < word.length - 1; index++) {
+      consider(word.slice(0, index) + word[index + 1] + word[index] + word.slice(index + 2));
+    }
+    for (let index = 0; index < word.length; index++) {
+      consider(word.slice(0, index) + word.slice(index + 1));
+    }
+    for (let index = 0; index < word.length; index++) {
+      characters.forEach(char => consider(word.slice(0, index) + char + word.slice(index + 1)));
+    }
+    for (let index = 0; index <= word.length; index++) {
+      characters.forEach(char => consider(word.slice(0, index) + char + word.slice(index)));
+    }
+    // Two words run together.
+    for (let index = 1; index < word.length; index++) {
+      const left = word.slice(0, index);
+      const right = word.slice(index);
+      if (left.length > 1 && right.length > 1) consider(`${left} ${right}`);
+    }
+
+    return isCapitalized(word) ? results.map(capitalize) : results;
+  };
+
+  return { check, suggest };
+};
+
+/**
+ * Pick the dictionary for `language` (e.g. `en_GB`) from the available names: an exact match,
+ * then a variant of it (`de_DE_frami`), then another region of the same language.
+ */
+export const matchDictionary = (available: string[], language: string): string | null => {
+  const normalize = (name: string) => name.replace(/-/g, '_').toLowerCase();
+  const wanted = normalize(language);
+  const primary = wanted.split('_')[0];
+  return available.find(name => normalize(name) === wanted)
+    ?? available.find(name => normalize(name).startsWith(`${wanted}_`))
+    ?? available.find(name => normalize(name) === primary || normalize(name).startsWith(`${primary}_`))
+    ?? null;
+};
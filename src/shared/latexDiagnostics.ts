@@ -1,3 +1,5 @@
+import { samePath } from './rootDocument';
+
 export type LatexDiagnosticSeverity = 'error' | 'warning' | 'info';
 
 export interface LatexDiagnostic {
@@ -5,8 +7,14 @@ export interface LatexDiagnostic {
   message: string;
   file?: string;
   line?: number;
+  // Last line of a range, e.g. box warnings reported "at lines 12--15".
+  endLine?: number;
   column?: number;
+  // Column just past the range, for checks that know exactly what to underline.
+  endColumn?: number;
   code?: string;
+  // Source excerpt TeX printed with an error (the `l.123 ...` lines).
+  context?: string;
 }
 
 const uniqueKey = (diagnostic: LatexDiagnostic): string => (
@@ -37,11 +45,194 @@ export const detectMissingLatexPackage = (output: string): string | null => {
   return null;
 };
 
+// TeX hard-wraps its terminal output and log at max_print_line characters.
+const LOG_LINE_WIDTH = 79;
+// How far past an error message TeX may print help text before the `l.123` context.
+const ERROR_CONTEXT_LOOKAHEAD = 20;
+const BOX_CONTENT_LOOKAHEAD = 10;
+
+const ENGINE_BANNER = /^This is (?:pdfTeX|XeTeX|LuaTeX|LuaHBTeX|e-TeX|TeX|upTeX|e-upTeX|epTeX|pTeX),/;
+const FILE_LINE_ERROR = /^(.+?\.(?:tex|ltx|latex|sty|cls|dtx|bbl)):(\d+):\s*(.+)$/i;
+const FILE_OPEN = /^"?((?:[A-Za-z]:)?[^\s()"{}[\]<>]*\.[A-Za-z][\w-]{0,9})(?=["\s(){}[\]]|$)/;
+const BOX_WARNING = /^(Overfull|Underfull) \\([hv]box) \(([^)]*)\) (in paragraph|in alignment|detected|has occurred while \\output is active)(?: at lines? (\d+)(?:--(\d+))?)?/;
+const LATEX_WARNING = /^LaTeX (Font )?Warning: (.*)$/;
+const PACKAGE_WARNING = /^(Package|Class) ([^\s]+) Warning: (.*)$/;
+const PDFTEX_WARNING = /^pdfTeX warning(?: \([^)]*\))?: (.*)$/;
+const MESSAGE_START = /^(?:! |LaTeX |Package |Class |Overfull |Underfull |pdfTeX warning|\(\.{0,2}[\\/]|\)|\[\d)/;
+
+const isAbsoluteLogPath = (filePath: string) => /^(?:[A-Za-z]:[\\/]|[\\/]|~)/.test(filePath);
+
+/**
+ * Resolve a path as TeX printed it (usually relative to the compile directory,
+ * which is the root document's folder) against the root document.
+ */
+const resolveLogPath = (filePath: string, texFilePath?: string): string => {
+  const cleaned = filePath.replace(/^"|"$/g, '');
+  if (!texFilePath || isAbsoluteLogPath(cleaned)) return cleaned;
+  const separatorIndex = Math.max(texFilePath.lastIndexOf('/'), texFilePath.lastIndexOf('\\'));
+  if (separatorIndex < 0) return cleaned;
+  const separator = texFilePath[separatorIndex];
+  const relative = cleaned.replace(/^\.[\\/]/, '').replace(/[\\/]/g, separator);
+  return `${texFilePath.slice(0, separatorIndex)}${separator}${relative}`;
+};
+
+/**
+ * Re-join lines that TeX wrapped at 79 characters.
+ */
+export const unwrapLogLines = (lines: string[], width = LOG_LINE_WIDTH): string[] => {
+  const result: string[] = [];
+  let buffer = '';
+  for (const line of lines) {
+    buffer += line;
+    if (line.length === width) continue;
+    result.push(buffer);
+    buffer = '';
+  }
+  if (buffer) {
+    result.push(buffer);
+  }
+  return result;
+};
+
+/**
+ * Track the files TeX has open: `(./chapter.tex` pushes, `)` pops. Parentheses that
+ * do not open a file are pushed as null so their closing bracket stays balanced.
+ */
+const scanFileStack = (line: string, stack: Array<string | null>) => {
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (char === '(') {
+      const match = line.slice(index + 1).match(FILE_OPEN);
+      if (match) {
+        stack.push(match[1]);
+        index += match[0].length;
+      } else {
+        stack.push(null);
+      }
+    } else if (char === ')' && stack.length > 0) {
+      stack.pop();
+    }
+  }
+};
+
+interface ErrorContext {
+  line?: number;
+  context?: string;
+  // First line TeX printed after the message, e.g. `<argument> \foo` or `l.5 \foo`.
+  firstLine?: string;
+  lastIndex: number;
+}
+
+const readErrorContext = (lines: string[], errorIndex: number): ErrorContext => {
+  let firstLine: string | undefined;
+  const limit = Math.min(lines.length, errorIndex + 1 + ERROR_CONTEXT_LOOKAHEAD);
+  for (let index = errorIndex + 1; index < limit; index++) {
+    const line = lines[index];
+    if (/^! /.test(line) || FILE_LINE_ERROR.test(line)) {
+      return { firstLine, lastIndex: index - 1 };
+    }
+    if (!firstLine && line.trim()) {
+      firstLine = line.trimEnd();
+    }
+    const contextMatch = line.match(/^l\.(\d+)(.*)$/);
+    if (contextMatch) {
+      // The rest of the source line follows on the next line, indented past the `l.123` prefix.
+      const continuation = index + 1 < lines.length && /^\s+\S/.test(lines[index + 1]) ? lines[index + 1].trim() : '';
+      return {
+        line: Number(contextMatch[1]),
+        context: `${line.trimEnd()}${continuation ? ` ${continuation}` : ''}`,
+        firstLine,
+        lastIndex: continuation ? index + 1 : index,
+      };
+    }
+  }
+  return { firstLine, lastIndex: errorIndex };
+};
+
+const classifyError = (message: string): string => {
+  if (/^Undefined control sequence/i.test(message)) return 'undefined-control-sequence';
+  if (/^LaTeX Error: Environment \S+ undefined/i.test(message)) return 'undefined-environment';
+  if (/^Package \S+ Error:/i.test(message)) return 'package-error';
+  return 'latex-error';
+};
+
+const describeError = (message: string, context: ErrorContext): string => {
+  if (/^Undefined control sequence/i.test(message) && context.firstLine) {
+    const command = context.firstLine.match(/(\\(?:[A-Za-z@]+|.))\s*$/);
+    if (command) {
+      return `Undefined control sequence: ${command[1]}`;
+    }
+  }
+  return message;
+};
+
+const readWarningText = (lines: string[], startIndex: number, firstText: string, continuationPrefix: string | null) => {
+  let text = firstText.trim();
+  let lastIndex = startIndex;
+  for (let index = startIndex + 1; index < lines.length && index <= startIndex + 6; index++) {
+    const line = lines[index];
+    if (continuationPrefix !== null) {
+      if (!line.startsWith(continuationPrefix)) break;
+      text += ` ${line.slice(continuationPrefix.length).trim()}`;
+    } else {
+      // Plain LaTeX warnings end with a full stop; anything else continues on the next line.
+      if (/\.\s*$/.test(text) || !line.trim() || MESSAGE_START.test(line)) break;
+      text += ` ${line.trim()}`;
+    }
+    lastIndex = index;
+  }
+  return { text, lastIndex };
+};
+
+const INPUT_LINE = /\s*on input line (\d+)\.?/;
+
+const classifyWarning = (text: string, source: string): Omit<LatexDiagnostic, 'file'> => {
+  const inputLine = text.match(INPUT_LINE);
+  const line = inputLine ? Number(inputLine[1]) : undefined;
+  const stripped = text.replace(INPUT_LINE, '').trim();
+
+  const missingFile = text.match(/File `([^']+)' not found/);
+  if (missingFile) {
+    return { severity: 'error', line, message: `Missing image or input file: ${missingFile[1]}`, code: 'missing-file' };
+  }
+  const citation = text.match(/Citation `([^']+)'.*undefined/);
+  if (citation) {
+    return { severity: 'warning', line, message: `Undefined citation: ${citation[1]}`, code: 'undefined-citation' };
+  }
+  const reference = text.match(/Reference `([^']+)'.*undefined/);
+  if (reference) {
+    return { severity: 'warning', line, message: `Undefined reference: ${reference[1]}`, code: 'undefined-reference' };
+  }
+  const duplicateLabel = text.match(/Label `([^']+)' multiply defined/);
+  if (duplicateLabel) {
+    return { severity: 'warning', line, message: `Label multiply defined: ${duplicateLabel[1]}`, code: 'duplicate-label' };
+  }
+  if (source === 'font') {
+    return { severity: 'warning', line, message: stripped, code: 'font-warning' };
+  }
+  if (source === 'latex') {
+    return { severity: 'warning', line, message: stripped, code: 'latex-warning' };
+  }
+  return { severity: 'warning', line, message: `${source}: ${stripped}`, code: 'package-warning' };
+};
+
+/**
+ * Parse TeX terminal output or a .log file into diagnostics, attributing each one to the
+ * file TeX was reading at the time.
+ */
 export const parseLatexDiagnostics = (output: string, texFilePath?: string): LatexDiagnostic[] => {
-  const normalized = output.replace(/\r\n/g, '\n');
-  const lines = normalized.split('\n');
+  const lines = unwrapLogLines(output.replace(/\r\n?/g, '\n').split('\n'));
   const diagnostics: LatexDiagnostic[] = [];
   const seen = new Set<string>();
+  const fileStack: Array<string | null> = [];
+
+  const currentFile = () => {
+    for (let index = fileStack.length - 1; index >= 0; index--) {
+      const file = fileStack[index];
+      if (file) return resolveLogPath(file, texFilePath);
+    }
+    return texFilePath;
+  };
 
   const missingPackage = detectMissingLatexPackage(output);
   if (missingPackage) {
@@ -53,66 +244,105 @@ export const parseLatexDiagnostics = (output: string, texFilePath?: string): Lat
     });
   }
 
-  for (const rawLine of lines) {
-    const line = rawLine.trim();
-    if (!line) continue;
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    // Each engine run (latexmk and the final passes print several) starts with a fresh file stack.
+    if (ENGINE_BANNER.test(trimmed)) {
+      fileStack.length = 0;
+      continue;
+    }
 
-    const fileLine = line.match(/^(.+?\.tex):(\d+):\s*(.+)$/i);
-    if (fileLine) {
+    const fileLineError = trimmed.match(FILE_LINE_ERROR);
+    if (fileLineError || trimmed.startsWith('! ')) {
+      const message = fileLineError ? fileLineError[3].trim() : trimmed.replace(/^!\s*/, '');
+      const context = readErrorContext(lines, index);
+      const isWarning = Boolean(fileLineError) && /warning/i.test(message);
       pushUnique(diagnostics, seen, {
-        severity: /warning/i.test(fileLine[3]) ? 'warning' : 'error',
-        file: fileLine[1],
-        line: Number(fileLine[2]),
-        message: fileLine[3].trim(),
-        code: 'latex-file-line'
+        severity: isWarning ? 'warning' : 'error',
+        file: fileLineError ? resolveLogPath(fileLineError[1], texFilePath) : currentFile(),
+        line: fileLineError ? Number(fileLineError[2]) : context.line,
+        message: describeError(message, context),
+        code: isWarning ? 'latex-warning' : classifyError(message),
+        ...(context.context ? { context: context.context } : {}),
       });
+      // Skip the help text and source excerpt, which may contain unbalanced parentheses.
+      index = context.lastIndex;
       continue;
     }
 
-    const missingImage = line.match(/LaTeX Warning: File `([^']+)' not found on input line (\d+)/i);
-    if (missingImage) {
+    const box = trimmed.match(BOX_WARNING);
+    if (box) {
+      const startLine = box[5] ? Number(box[5]) : undefined;
+      const endLine = box[6] ? Number(box[6]) : undefined;
       pushUnique(diagnostics, seen, {
-        severity: 'error',
-        file: texFilePath,
-        line: Number(missingImage[2]),
-        message: `Missing image or input file: ${missingImage[1]}`,
-        code: 'missing-file'
+        severity: box[1] === 'Overfull' ? 'warning' : 'info',
+        file: currentFile(),
+        line: startLine,
+        ...(endLine !== undefined && endLine !== startLine ? { endLine } : {}),
+        message: `${box[1]} \\${box[2]} (${box[3]}) ${box[4]}`,
+        code: box[1] === 'Overfull' ? 'overfull-box' : 'underfull-box',
       });
+      // TeX prints the offending box contents next; they end at a blank line.
+      for (let next = index + 1; next < lines.length && next <= index + BOX_CONTENT_LOOKAHEAD; next++) {
+        if (!lines[next].trim() || MESSAGE_START.test(lines[next])) break;
+        index = next;
+      }
       continue;
     }
 
-    const citation = line.match(/LaTeX Warning: Citation `([^']+)' .*undefined on input line (\d+)/i);
-    if (citation) {
+    const latexWarning = trimmed.match(LATEX_WARNING);
+    const packageWarning = latexWarning ? null : trimmed.match(PACKAGE_WARNING);
+    if (latexWarning || packageWarning) {
+      const source = latexWarning ? (latexWarning[1] ? 'font' : 'latex') : packageWarning![2];
+      const continuationPrefix = latexWarning
+        ? (latexWarning[1] ? '(Font)' : null)
+        : `(${packageWarning![2]})`;
+      const { text, lastIndex } = readWarningText(
+        lines,
+        index,
+        latexWarning ? latexWarning[2] : packageWarning![3],
+        continuationPrefix
+      );
+      pushUnique(diagnostics, seen, { file: currentFile(), ...classifyWarning(text, source) });
+      index = lastIndex;
+      continue;
+    }
+
+    const pdftexWarning = trimmed.match(PDFTEX_WARNING);
+    if (pdftexWarning) {
       pushUnique(diagnostics, seen, {
         severity: 'warning',
-        file: texFilePath,
-        line: Number(citation[2]),
-        message: `Undefined citation: ${citation[1]}`,
-        code: 'undefined-citation'
+        file: currentFile(),
+        message: `pdfTeX: ${pdftexWarning[1]}`,
+        code: 'pdftex-warning',
       });
       continue;
     }
 
-    const reference = line.match(/LaTeX Warning: Reference `([^']+)' .*undefined on input line (\d+)/i);
-    if (reference) {
+    const biberMessage = trimmed.match(/^(?:\[\d+\]\s+)?(?:[\w.]+:\d+>\s+)?(WARN|ERROR) - (.*)$/);
+    if (biberMessage) {
       pushUnique(diagnostics, seen, {
-        severity: 'warning',
-        file: texFilePath,
-        line: Number(reference[2]),
-        message: `Undefined reference: ${reference[1]}`,
-        code: 'undefined-reference'
+        severity: biberMessage[1] === 'ERROR' ? 'error' : 'warning',
+        message: `Biber: ${biberMessage[2]}`,
+        code: 'bibliography',
       });
       continue;
     }
 
-    if (/^! LaTeX Error:/i.test(line) || /^! Package .* Error:/i.test(line) || /^! Undefined control sequence/i.test(line) || /^! Emergency stop/i.test(line)) {
+    const bibtexMessage = trimmed.match(/^Warning--(.*)$/) || trimmed.match(/^(I couldn't open (?:database|style) file .*)$/);
+    if (bibtexMessage) {
       pushUnique(diagnostics, seen, {
-        severity: 'error',
-        file: texFilePath,
-        message: line.replace(/^!\s*/, ''),
-        code: 'latex-error'
+        severity: trimmed.startsWith('Warning--') ? 'warning' : 'error',
+        message: `BibTeX: ${bibtexMessage[1]}`,
+        code: 'bibliography',
       });
+      continue;
     }
+
+    scanFileStack(line, fileStack);
   }
 
   return diagnostics;
@@ -137,3 +367,24 @@ export const summarizeLatexError = (output: string, texFilePath?: string): strin
   return 'Compilation failed. See the full log for details.';
 };
 
+
+export interface DiagnosticCounts {
+  errors: number;
+  warnings: number;
+  infos: number;
+}
+
+export const countDiagnostics = (diagnostics: LatexDiagnostic[]): DiagnosticCounts => ({
+  errors: diagnostics.filter(diagnostic => diagnostic.severity === 'error').length,
+  warnings: diagnostics.filter(diagnostic => diagnostic.severity === 'warning').length,
+  infos: diagnostics.filter(diagnostic => diagnostic.severity === 'info').length,
+});
+
+/**
+ * Whether a diagnostic belongs to `filePath`; diagnostics without a file are shown
+ * on the root document.
+ */
+export const isDiagnosticForFile = (diagnostic: LatexDiagnostic, filePath: string, rootFilePath?: string | null): boolean => {
+  const file = diagnostic.file || rootFilePath;
+  return Boolean(file) && samePath(file!, filePath);
+};
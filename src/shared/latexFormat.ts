@@ -0,0 +1,294 @@
+import { maskVerbatim, VERBATIM_ENVIRONMENTS } from './latexSymbols';
+import { stripLatexComments } from './rootDocument';
+
+/**
+ * A source formatter in the spirit of latexindent: environments are indented by nesting,
+ * `&` columns are aligned, prose can be rewrapped and runs of blank lines are shortened.
+ * Verbatim bodies are left exactly as they are.
+ */
+
+export type FormatBackend = 'builtin' | 'latexindent';
+export const FORMAT_BACKENDS: FormatBackend[] = ['builtin', 'latexindent'];
+
+export interface LatexFormatOptions {
+  // Spaces per nesting level; 0 indents with tabs.
+  indent: number;
+  alignTables: boolean;
+  // Wrap prose at this column; 0 leaves line lengths alone.
+  lineWidth: number;
+  oneSentencePerLine: boolean;
+  // Longest run of blank lines that is kept; at least 1, since a blank line ends a paragraph.
+  maxBlankLines: number;
+}
+
+export interface FormatSettings extends LatexFormatOptions {
+  backend: FormatBackend;
+  formatOnSave: boolean;
+}
+
+export const DEFAULT_FORMAT_SETTINGS: FormatSettings = {
+  backend: 'builtin',
+  indent: 2,
+  alignTables: true,
+  lineWidth: 0,
+  oneSentencePerLine: false,
+  maxBlankLines: 1,
+  formatOnSave: false,
+};
+
+// The body of a document is not indented as a whole.
+const UNINDENTED_ENVIRONMENTS = new Set(['document']);
+
+const ALIGNED_ENVIRONMENTS = new Set([
+  'tabular', 'tabular*', 'tabularx', 'tabulary', 'longtable', 'array', 'align', 'align*', 'alignat', 'alignat*',
+  'aligned', 'alignedat', 'flalign', 'flalign*', 'eqnarray', 'eqnarray*', 'split', 'cases', 'matrix', 'pmatrix',
+  'bmatrix', 'Bmatrix', 'vmatrix', 'Vmatrix', 'smallmatrix',
+]);
+
+// Prose is only rewrapped where it is ordinary running text.
+const REFLOW_ENVIRONMENTS = new Set([
+  'document', 'itemize', 'enumerate', 'description', 'abstract', 'quote', 'quotation',
+]);
+
+// Lines starting with one of these stay on their own line.
+const BLOCK_COMMANDS = new Set([
+  'begin', 'end', 'part', 'chapter', 'section', 'subsection', 'subsubsection', 'paragraph', 'subparagraph', 'label',
+  'caption', 'centering', 'includegraphics', 'input', 'include', 'subfile', 'import', 'subimport', 'maketitle',
+  'tableofcontents', 'listoffigures', 'listoftables', 'bibliography', 'bibliographystyle', 'printbibliography',
+  'newpage', 'clearpage', 'cleardoublepage', 'pagebreak', 'linebreak', 'appendix', 'frontmatter', 'mainmatter',
+  'backmatter', 'vspace', 'smallskip', 'medskip', 'bigskip', 'par', 'hline', 'toprule', 'midrule', 'bottomrule',
+  'usepackage', 'documentclass', 'newcommand', 'renewcommand', 'providecommand', 'def', 'let', 'setlength',
+  'title', 'author', 'date',
+]);
+
+// Commands that begin a paragraph of their own but continue as prose.
+const PARAGRAPH_COMMANDS = /^\\(?:item|noindent)(?![A-Za-z])/;
+
+const ABBREVIATION = /^(?:e\.g|i\.e|etc|vs|cf|al|Figs?|Eqs?|Secs?|Chs?|Tab|No|Nos|Dr|Mr|Mrs|Ms|Prof|St|Jr|Sr|approx|resp|ca|\p{Lu})\.$/u;
+
+const ENVIRONMENT_PATTERN = /\\(begin|end)\s*\{([^{}]*)\}/g;
+const VERBATIM_BEGIN = new RegExp(`\\\\begin\\s*\\{((?:${VERBATIM_ENVIRONMENTS.join('|')})\\*?)\\}`);
+
+interface FormattedLine {
+  text: string;
+  depth: number;
+  // Copied through untouched: verbatim bodies.
+  raw: boolean;
+  // The environment the line sits in, to group rows of a table.
+  environment: { name: string; id: number } | null;
+  alignable: boolean;
+  // `text` with verbatim arguments blanked, to find the cells of a row.
+  code?: string;
+}
+
+/**
+ * Split a row at `&` outside braces, keeping `\&` as text. Boundaries are found in `code`,
+ * the row with verbatim text masked, so an `&` inside `\verb` stays put.
+ */
+const splitCells = (row: string, code = row): string[] => {
+  const cells: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < code.length; index++) {
+    const char = code[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth = Math.max(0, depth - 1);
+    } else if (char === '&' && depth === 0) {
+      cells.push(row.slice(start, index).trim());
+      start = index + 1;
+    }
+  }
+  cells.push(row.slice(start).trim());
+  return cells;
+};
+
+const alignRows = (lines: FormattedLine[]) => {
+  const widths: number[] = [];
+  const rows = lines.map(line => splitCells(line.text, line.code));
+  rows.forEach(cells => cells.slice(0, -1).forEach((cell, column) => {
+    widths[column] = Math.max(widths[column] ?? 0, cell.length);
+  }));
+  lines.forEach((line, index) => {
+    const cells = rows[index];
+    line.text = cells.map((cell, column) => (column < cells.length - 1 ? cell.padEnd(widths[column]) : cell)).join(' & ');
+  });
+};
+
+/**
+ * Whether `offset` in `text` is outside braces and inline math, where a sentence may end.
+ */
+const atTopLevel = (text: string, offset: number) => {
+  let depth = 0;
+  let math = false;
+  for (let index = 0; index < offset; index++) {
+    const char = text[index];
+    if (char === '\\') index++;
+    else if (char === '{') depth++;
+    else if (char === '}') depth--;
+    else if (char === '$') math = !math;
+  }
+  return depth === 0 && !math;
+};
+
+export const splitSentences = (text: string): string[] => {
+  const sentences: string[] = [];
+  const boundary = /([.!?])(['")\]}]*)\s+(?=[\p{Lu}\\`])/gu;
+  let start = 0;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + match[1].length + match[2].length;
+    const lastWord = text.slice(start, match.index + 1).split(/[\s~]/).pop() ?? '';
+    if (ABBREVIATION.test(lastWord) || !atTopLevel(text, end)) continue;
+    sentences.push(text.slice(start, end).trim());
+    start = match.index + match[0].length;
+  }
+  sentences.push(text.slice(start).trim());
+  return sentences.filter(Boolean);
+};
+
+export const wrapText = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  text.split(' ').filter(Boolean).forEach(word => {
+    if (current && current.length + 1 + word.length > width) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+/**
+ * Format LaTeX source. Line endings follow the input and the result ends with one newline.
+ */
+export const formatLatex = (content: string, options: LatexFormatOptions = DEFAULT_FORMAT_SETTINGS): string => {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const source = content.replace(/\r\n/g, '\n');
+  const lines = source.split('\n');
+  const code = stripLatexComments(maskVerbatim(source)).split('\n');
+  const indentUnit = options.indent > 0 ? ' '.repeat(options.indent) : '\t';
+  const indentWidth = options.indent > 0 ? options.indent : 4;
+  const reflow = options.lineWidth > 0 || options.oneSentencePerLine;
+  const hasDocument = /\\begin\s*\{document\}/.test(code.join('\n'));
+
+  const output: FormattedLine[] = [];
+  const stack: Array<{ name: string; id: number }> = [];
+  let nextId = 0;
+  let verbatimEnd: string | null = null;
+  let paragraph: string[] = [];
+  let paragraphDepth = 0;
+
+  const depthOf = (environments: Array<{ name: string }>) => (
+    environments.filter(environment => !UNINDENTED_ENVIRONMENTS.has(environment.name)).length
+  );
+  const top = () => stack[stack.length - 1] ?? null;
+
+  const flush = () => {
+    if (paragraph.length === 0) return;
+    const text = paragraph.join(' ').replace(/\s+/g, ' ');
+    const sentences = options.oneSentencePerLine ? splitSentences(text) : [text];
+    const width = Math.max(20, options.lineWidth - paragraphDepth * indentWidth);
+    sentences
+      .flatMap(sentence => (options.lineWidth > 0 ? wrapText(sentence, width) : [sentence]))
+      .forEach(line => output.push({ text: line, depth: paragraphDepth, raw: false, environment: top(), alignable: false }));
+    paragraph = [];
+  };
+
+  lines.forEach((line, index) => {
+    if (verbatimEnd) {
+      if (line.includes(verbatimEnd)) verbatimEnd = null;
+      output.push({ text: line, depth: 0, raw: true, environment: null, alignable: false });
+      return;
+    }
+
+    const text = line.trim();
+    const lineCode = code[index].trim();
+    const textStart = line.length - line.trimStart().length;
+    const leadingEnds = (/^(?:\\end\s*\{[^{}]*\}\s*)+/.exec(lineCode)?.[0].match(/\\end/g) ?? []).length;
+    const depth = depthOf(stack.slice(0, Math.max(0, stack.length - leadingEnds)));
+    const hasComment = lineCode.length < text.length;
+    const command = /^\\([A-Za-z]+)/.exec(text)?.[1];
+    const environment = top();
+    const inProse = environment ? REFLOW_ENVIRONMENTS.has(environment.name) : !hasDocument;
+
+    const isProse = reflow && inProse && text !== '' && !hasComment
+      && !(command && BLOCK_COMMANDS.has(command))
+      && !/\\(?:begin|end)\b|\\\[|\\\]|\$\$|\\\\\s*$|\\(?:verb|lstinline|mintinline)\b/.test(lineCode);
+    if (isProse) {
+      if (PARAGRAPH_COMMANDS.test(text) || paragraphDepth !== depth) flush();
+      paragraph.push(text);
+      paragraphDepth = depth;
+      return;
+    }
+    flush();
+
+    output.push({
+      text,
+      depth,
+      raw: false,
+      environment,
+      alignable: !hasComment && splitCells(lineCode).length > 1,
+      code: code[index].slice(textStart, textStart + text.length),
+    });
+
+    const verbatim = VERBATIM_BEGIN.exec(lineCode);
+    let match: RegExpExecArray | null;
+    ENVIRONMENT_PATTERN.lastIndex = 0;
+    while ((match = ENVIRONMENT_PATTERN.exec(lineCode)) !== null) {
+      const name = match[2].trim();
+      if (match[1] === 'begin') {
+        if (verbatim && match.index === verbatim.index) break;
+        stack.push({ name, id: nextId++ });
+      } else {
+        const position = stack.map(open => open.name).lastIndexOf(name);
+        if (position !== -1) stack.splice(position);
+      }
+    }
+    if (verbatim && !line.slice(line.indexOf(verbatim[0]) + verbatim[0].length).includes(`\\end{${verbatim[1]}}`)) {
+      verbatimEnd = `\\end{${verbatim[1]}}`;
+    }
+  });
+  flush();
+
+  if (options.alignTables) {
+    let group: FormattedLine[] = [];
+    const alignGroup = () => {
+      const rows = group.filter(line => line.alignable);
+      if (rows.length > 0) alignRows(rows);
+      group = [];
+    };
+    output.forEach(line => {
+      const environment = line.environment;
+      const aligned = environment && ALIGNED_ENVIRONMENTS.has(environment.name) && !line.text.startsWith('\\end');
+      if (group.length > 0 && (!aligned || group[0].environment !== environment)) alignGroup();
+      if (aligned) group.push(line);
+    });
+    alignGroup();
+  }
+
+  const result: string[] = [];
+  let blankRun = 0;
+  output.forEach(line => {
+    if (line.raw) {
+      result.push(line.text);
+      blankRun = 0;
+      return;
+    }
+    if (line.text === '') {
+      blankRun++;
+      if (blankRun <= Math.max(1, options.maxBlankLines) && result.length > 0) result.push('');
+      return;
+    }
+    blankRun = 0;
+    result.push(indentUnit.repeat(line.depth) + line.text);
+  });
+  while (result.length > 0 && result[result.length - 1] === '') result.pop();
+  return result.join(eol) + eol;
+};
@@ -0,0 +1,185 @@
+import { BibEntry, parseBibTeX } from './bibtex';
+import { extractMacroDefinitions, isCiteCommand, MacroDefinition, maskVerbatim, REFERENCE_COMMANDS } from './latexSymbols';
+import { stripLatexComments } from './rootDocument';
+
+/**
+ * Project-wide index of the things completion and navigation need from each file:
+ * `\label`s, citations, macro definitions and bibliography references in `.tex` files,
+ * entries in `.bib` files. Each file is indexed on its own so a change only re-reads that file.
+ */
+
+export interface IndexedLabel {
+  key: string;
+  file: string;
+  line: number;
+  column: number;
+  // The source line the label sits on, trimmed.
+  context: string;
+}
+
+export interface IndexedCitation {
+  // `*` for `\nocite{*}`.
+  key: string;
+  command: string;
+  file: string;
+  line: number;
+  column: number;
+}
+
+export interface IndexedBibEntry extends BibEntry {
+  file: string;
+}
+
+export interface IndexedMacro extends MacroDefinition {
+  file: string;
+}
+
+export interface IndexedFile {
+  path: string;
+  labels: IndexedLabel[];
+  citations: IndexedCitation[];
+  macros: IndexedMacro[];
+  // `\bibliography` / `\addbibresource` targets as written, with `.bib` added where omitted.
+  bibliographies: string[];
+  entries: IndexedBibEntry[];
+}
+
+export type ProjectIndex = Map<string, IndexedFile>;
+
+export const INDEXED_EXTENSIONS = ['tex', 'ltx', 'sty', 'cls', 'bib'];
+
+const getExtension = (filePath: string) => {
+  const match = filePath.match(/\.([^./\\]+)$/);
+  return match ? match[1].toLowerCase() : '';
+};
+
+export const isIndexedFile = (filePath: string) => INDEXED_EXTENSIONS.includes(getExtension(filePath));
+
+export const extractLabels = (content: string, file: string): IndexedLabel[] => {
+  const labels: IndexedLabel[] = [];
+  const lines = stripLatexComments(maskVerbatim(content)).split('\n');
+  const sourceLines = content.split('\n');
+  lines.forEach((line, index) => {
+    const pattern = /\\label\s*\{([^}]+)\}/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(line))) {
+      labels.push({
+        key: match[1].trim(),
+        file,
+        line: index + 1,
+        column: match.index + 1,
+        context: sourceLines[index].trim(),
+      });
+    }
+  });
+  return labels;
+};
+
+export const extractCitations = (content: string, file: string): IndexedCitation[] => {
+  const citations: IndexedCitation[] = [];
+  const lines = stripLatexComments(maskVerbatim(content)).split('\n');
+  lines.forEach((line, index) => {
+    const pattern = /\\([A-Za-z]+)\*?\s*(?:\[[^\]]*\]\s*)*\{([^{}]*)\}/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(line))) {
+      if (!isCiteCommand(match[1])) continue;
+      let column = match.index + match[0].length - match[2].length;
+      match[2].split(',').forEach(item => {
+        const key = item.trim();
+        if (key) {
+          citations.push({ key, command: match![1], file, line: index + 1, column: column + item.indexOf(key) });
+        }
+        column += item.length + 1;
+      });
+    }
+  });
+  return citations;
+};
+
+export const extractBibliographyTargets = (content: string): string[] => {
+  const targets: string[] = [];
+  const pattern = /\\(bibliography|addbibresource|addglobalbib|addsectionbib)\s*(?:\[[^\]]*\])?\s*\{([^}]+)\}/g;
+  const text = stripLatexComments(content);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    // \bibliography takes a comma list without extensions; biblatex takes one file name.
+    const names = match[1] === 'bibliography' ? match[2].split(',') : [match[2]];
+    names
+      .map(name => name.trim())
+      .filter(Boolean)
+      .forEach(name => targets.push(/\.bib$/i.test(name) ? name : `${name}.bib`));
+  }
+  return Array.from(new Set(targets));
+};
+
+export const indexFile = (filePath: string, content: string): IndexedFile => {
+  if (getExtension(filePath) === 'bib') {
+    return {
+      path: filePath,
+      labels: [],
+      citations: [],
+      macros: [],
+      bibliographies: [],
+      entries: parseBibTeX(content).map(entry => ({ ...entry, file: filePath })),
+    };
+  }
+  return {
+    path: filePath,
+    labels: extractLabels(content, filePath),
+    citations: extractCitations(content, filePath),
+    macros: extractMacroDefinitions(content).map(macro => ({ ...macro, file: filePath })),
+    bibliographies: extractBibliographyTargets(content),
+    entries: [],
+  };
+};
+
+export const collectLabels = (index: ProjectIndex): IndexedLabel[] => (
+  Array.from(index.values()).flatMap(file => file.labels)
+);
+
+export const collectCitations = (index: ProjectIndex): IndexedCitation[] => (
+  Array.from(index.values()).flatMap(file => file.citations)
+);
+
+export const collectMacros = (index: ProjectIndex): IndexedMacro[] => (
+  Array.from(index.values()).flatMap(file => file.macros)
+);
+
+export const collectBibEntries = (index: ProjectIndex): IndexedBibEntry[] => {
+  // The first definition of a key wins, as in BibTeX.
+  const seen = new Set<string>();
+  const entries: IndexedBibEntry[] = [];
+  index.forEach(file => {
+    file.entries.forEach(entry => {
+      if (seen.has(entry.key)) return;
+      seen.add(entry.key);
+      entries.push(entry);
+    });
+  });
+  return entries;
+};
+
+export interface CompletionContext {
+  kind: 'reference' | 'citation';
+  command: string;
+  // Text typed so far for the current key.
+  prefix: string;
+}
+
+/**
+ * Whether the cursor (at the end of `linePrefix`) is inside the key argument of a
+ * reference or citation command, e.g. `\cref{fig:a,fig:` or `\parencite[p.~4]{kn`.
+ */
+export const getCompletionContext = (linePrefix: string): CompletionContext | null => {
+  const match = linePrefix.match(/\\([A-Za-z]+)\*?\s*(?:\[[^\]]*\]\s*){0,2}\{([^{}]*)$/);
+  if (!match) return null;
+  const command = match[1];
+  const prefix = match[2].split(',').pop()!.trimStart();
+  if (REFERENCE_COMMANDS.includes(command)) {
+    return { kind: 'reference', command, prefix };
+  }
+  if (isCiteCommand(command)) {
+    return { kind: 'citation', command, prefix };
+  }
+  return null;
+};
@@ -0,0 +1,337 @@
+import type { LatexDiagnostic, LatexDiagnosticSeverity } from './latexDiagnostics';
+import type { IndexedLabel } from './latexIndex';
+import { maskVerbatim } from './latexSymbols';
+import { samePath, stripLatexComments } from './rootDocument';
+
+/**
+ * Lint checks that run on the editor text while typing, modelled on ChkTeX's warnings.
+ */
+
+export type LintRuleId =
+  | 'unbalanced-braces'
+  | 'environment-mismatch'
+  | 'ref-without-tie'
+  | 'straight-quotes'
+  | 'display-dollars'
+  | 'deprecated-font-commands'
+  | 'label-before-caption'
+  | 'duplicate-label';
+
+export type LintRuleSetting = 'off' | LatexDiagnosticSeverity;
+export const LINT_RULE_SETTINGS: LintRuleSetting[] = ['off', 'info', 'warning', 'error'];
+
+export interface LintSettings {
+  rules: Record<LintRuleId, LintRuleSetting>;
+  // Also run the `chktex` program when it is installed.
+  chktex: boolean;
+}
+
+export const LINT_RULE_LABELS: Record<LintRuleId, string> = {
+  'unbalanced-braces': 'Unbalanced braces',
+  'environment-mismatch': '\\begin/\\end mismatch',
+  'ref-without-tie': '\\ref without a non-breaking space',
+  'straight-quotes': '" instead of `` and \'\'',
+  'display-dollars': '$$ display math',
+  'deprecated-font-commands': 'Deprecated \\bf, \\it and similar',
+  'label-before-caption': '\\label before \\caption',
+  'duplicate-label': 'Duplicate labels',
+};
+
+export const LINT_RULE_IDS = Object.keys(LINT_RULE_LABELS) as LintRuleId[];
+
+export const DEFAULT_LINT_SETTINGS: LintSettings = {
+  rules: {
+    'unbalanced-braces': 'error',
+    'environment-mismatch': 'error',
+    'ref-without-tie': 'info',
+    'straight-quotes': 'warning',
+    'display-dollars': 'warning',
+    'deprecated-font-commands': 'warning',
+    'label-before-caption': 'warning',
+    'duplicate-label': 'warning',
+  },
+  chktex: false,
+};
+
+export interface LintOptions {
+  settings?: LintSettings;
+  // File the text belongs to; set on every diagnostic and used to skip its own indexed labels.
+  filePath?: string;
+  // Labels from the rest of the project, for duplicates across files.
+  projectLabels?: IndexedLabel[];
+}
+
+interface Finding {
+  rule: LintRuleId;
+  message: string;
+  offset: number;
+  length: number;
+}
+
+const FLOAT_ENVIRONMENTS = new Set([
+  'figure', 'figure*', 'table', 'table*', 'wrapfigure', 'wraptable', 'sidewaysfigure', 'sidewaystable',
+  'subfigure', 'subtable', 'minipage',
+]);
+
+const TIED_REFERENCES = 'ref|eqref|pageref|vref|vpageref';
+
+const DEPRECATED_FONT_COMMANDS: Record<string, string> = {
+  bf: '\\textbf{...} or \\bfseries',
+  it: '\\textit{...} or \\itshape',
+  rm: '\\textrm{...} or \\rmfamily',
+  sf: '\\textsf{...} or \\sffamily',
+  tt: '\\texttt{...} or \\ttfamily',
+  sl: '\\textsl{...} or \\slshape',
+  sc: '\\textsc{...} or \\scshape',
+};
+
+// babel languages that make " a shorthand character.
+const QUOTE_SHORTHAND_LANGUAGES = /\b(?:n?german|n?austrian|n?swissgerman|dutch|afrikaans|danish|icelandic|norsk|nynorsk|swedish|finnish|estonian|slovene|serbian|croatian|czech|slovak|russian|ukrainian|bulgarian|polish|portuges|portuguese|brazil|brazilian|catalan|galician|basque|italian)\b/;
+
+// Arguments holding paths or URLs, where a " is not a quotation mark.
+const PATH_ARGUMENTS = /\\(?:url|href|input|include|includegraphics|includesvg|includepdf|subfile|import|subimport|bibliography|addbibresource)\*?\s*(?:\[[^\]]*\]\s*)?\{[^{}]*\}/g;
+const MATH_PATTERN = /\$\$[\s\S]*?\$\$|\\\[[\s\S]*?\\\]|\\\([\s\S]*?\\\)|(?<!\\)\$(?:\\\$|[^$])*?\$/g;
+
+const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+/** Offset to 1-based line and column. */
+export const createPositionLookup = (text: string) => {
+  const lineStarts = [0];
+  for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) {
+    lineStarts.push(index + 1);
+  }
+  return (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+};
+
+/**
+ * Braces, environments and float labels in one pass, since all three follow nesting.
+ */
+const checkStructure = (text: string, findings: Finding[]) => {
+  const braces: number[] = [];
+  const environments: Array<{ name: string; offset: number; length: number }> = [];
+  // Labels seen in each open float before its caption.
+  const floats: Array<{ captioned: boolean; labels: Array<{ offset: number; length: number }> }> = [];
+  const token = /\\(begin|end)\s*\{([^{}]*)\}|\\(caption|label)(?![A-Za-z])|\\.|[{}]/g;
+  let match: RegExpExecArray | null;
+
+  const closeFloat = () => {
+    const float = floats.pop();
+    if (!float?.captioned) return;
+    float.labels.forEach(label => findings.push({
+      rule: 'label-before-caption',
+      message: 'Put \\label after \\caption, or it refers to the enclosing section',
+      offset: label.offset,
+      length: label.length,
+    }));
+  };
+
+  while ((match = token.exec(text)) !== null) {
+    const [source, kind, name, command] = match;
+    if (source === '{') {
+      braces.push(match.index);
+    } else if (source === '}') {
+      if (braces.pop() === undefined) {
+        findings.push({ rule: 'unbalanced-braces', message: 'Unmatched closing brace', offset: match.index, length: 1 });
+      }
+    } else if (kind === 'begin') {
+      environments.push({ name: name.trim(), offset: match.index, length: source.length });
+      if (FLOAT_ENVIRONMENTS.has(name.trim())) floats.push({ captioned: false, labels: [] });
+    } else if (kind === 'end') {
+      const environment = name.trim();
+      const depth = environments.map(open => open.name).lastIndexOf(environment);
+      if (depth === -1) {
+        findings.push({
+          rule: 'environment-mismatch',
+          message: `\\end{${environment}} has no matching \\begin{${environment}}`,
+          offset: match.index,
+          length: source.length,
+        });
+        continue;
+      }
+      // Anything opened after the matching \begin was never closed.
+      environments.splice(depth).slice(1).reverse().forEach(open => {
+        findings.push({
+          rule: 'environment-mismatch',
+          message: `\\begin{${open.name}} is closed by \\end{${environment}}`,
+          offset: open.offset,
+          length: open.length,
+        });
+        if (FLOAT_ENVIRONMENTS.has(open.name)) floats.pop();
+      });
+      if (FLOAT_ENVIRONMENTS.has(environment)) closeFloat();
+    } else if (command === 'caption' && floats.length > 0) {
+      floats[floats.length - 1].captioned = true;
+    } else if (command === 'label' && floats.length > 0 && !floats[floats.length - 1].captioned) {
+      floats[floats.length - 1].labels.push({ offset: match.index, length: source.length });
+    }
+  }
+
+  braces.forEach(offset => findings.push({ rule: 'unbalanced-braces', message: 'Unclosed brace', offset, length: 1 }));
+  environments.forEach(open => findings.push({
+    rule: 'environment-mismatch',
+    message: `\\begin{${open.name}} is never closed`,
+    offset: open.offset,
+    length: open.length,
+  }));
+};
+
+const checkReferences = (text: string, findings: Finding[]) => {
+  const pattern = new RegExp(`(\\S)([ \\t]+)(\\\\(?:${TIED_REFERENCES})\\s*\\{)`, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    // `(\ref{x})` and `, \ref{x}` are fine; the tie belongs after a word.
+    if (!/[\p{L}\p{N}.]/u.test(match[1])) continue;
+    const command = match[3].replace(/\s*\{$/, '');
+    findings.push({
+      rule: 'ref-without-tie',
+      message: `Use a non-breaking space (~) before ${command}`,
+      offset: match.index + 1,
+      length: match[2].length,
+    });
+  }
+};
+
+const checkQuotes = (text: string, findings: Finding[]) => {
+  const languageOptions = [/\\documentclass\s*\[([^\]]*)\]/, /\\usepackage\s*\[([^\]]*)\]\s*\{babel\}/]
+    .map(pattern => pattern.exec(text)?.[1] ?? '')
+    .join(',');
+  if (QUOTE_SHORTHAND_LANGUAGES.test(languageOptions)) return;
+  const prose = text.replace(MATH_PATTERN, blank).replace(PATH_ARGUMENTS, blank);
+  for (let index = prose.indexOf('"'); index !== -1; index = prose.indexOf('"', index + 1)) {
+    if (prose[index - 1] === '\\') continue;
+    findings.push({ rule: 'straight-quotes', message: "Use `` and '' for quotation marks instead of \"", offset: index, length: 1 });
+  }
+};
+
+const checkDisplayDollars = (text: string, findings: Finding[]) => {
+  const pattern = /(?<!\\)\$\$([\s\S]*?)(?<!\\)\$\$/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    findings.push({ rule: 'display-dollars', message: 'Use \\[ ... \\] instead of $$ ... $$', offset: match.index, length: 2 });
+  }
+};
+
+const checkFontCommands = (text: string, findings: Finding[]) => {
+  const pattern = new RegExp(`\\\\(${Object.keys(DEPRECATED_FONT_COMMANDS).join('|')})(?![A-Za-z@])`, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    findings.push({
+      rule: 'deprecated-font-commands',
+      message: `\\${match[1]} is deprecated; use ${DEPRECATED_FONT_COMMANDS[match[1]]}`,
+      offset: match.index,
+      length: match[0].length,
+    });
+  }
+};
+
+const checkDuplicateLabels = (
+  text: string,
+  options: LintOptions,
+  toPosition: (offset: number) => { line: number },
+  findings: Finding[]
+) => {
+  const seen = new Map<string, number>();
+  const elsewhere = new Map<string, string>();
+  (options.projectLabels ?? []).forEach(label => {
+    if (!options.filePath || !samePath(label.file, options.filePath)) elsewhere.set(label.key, label.file);
+  });
+  const pattern = /\\label\s*\{([^{}]+)\}/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const key = match[1].trim();
+    // Labels built from macro parameters are defined once per use.
+    if (key.includes('#')) continue;
+    const { line } = toPosition(match.index);
+    const other = elsewhere.get(key);
+    if (seen.has(key)) {
+      findings.push({ rule: 'duplicate-label', message: `Label '${key}' is already defined on line ${seen.get(key)}`, offset: match.index, length: match[0].length });
+    } else if (other) {
+      const name = other.split(/[\\/]/).pop();
+      findings.push({ rule: 'duplicate-label', message: `Label '${key}' is also defined in ${name}`, offset: match.index, length: match[0].length });
+    }
+    if (!seen.has(key)) seen.set(key, line);
+  }
+};
+
+/**
+ * Run the enabled lint rules over a file. Comments and verbatim text are ignored; each
+ * diagnostic's code is the rule id.
+ */
+export const lintLatex = (content: string, options: LintOptions = {}): LatexDiagnostic[] => {
+  const rules = (options.settings ?? DEFAULT_LINT_SETTINGS).rules;
+  const text = stripLatexComments(maskVerbatim(content));
+  const toPosition = createPositionLookup(text);
+  const findings: Finding[] = [];
+
+  checkStructure(text, findings);
+  checkReferences(text, findings);
+  checkQuotes(text, findings);
+  checkDisplayDollars(text, findings);
+  checkFontCommands(text, findings);
+  checkDuplicateLabels(text, options, toPosition, findings);
+
+  return findings
+    .filter(finding => rules[finding.rule] !== 'off')
+    .sort((a, b) => a.offset - b.offset)
+    .map(finding => {
+      const { line, column } = toPosition(finding.offset);
+      return {
+        severity: rules[finding.rule] as LatexDiagnosticSeverity,
+        message: finding.message,
+        file: options.filePath,
+        line,
+        column,
+        endColumn: column + finding.length,
+        code: finding.rule,
+      };
+    });
+};
+
+// ChkTeX warnings the built-in rules already cover, so they are not reported twice.
+const CHKTEX_EQUIVALENTS: Record<number, LintRuleId> = {
+  2: 'ref-without-tie',
+  18: 'straight-quotes',
+};
+
+const CHKTEX_SEVERITIES: Record<string, LatexDiagnosticSeverity> = {
+  error: 'error',
+  warning: 'warning',
+  message: 'info',
+};
+
+/** Output format passed to `chktex -f`; the message comes last since it may contain colons. */
+export const CHKTEX_FORMAT = '%l:%c:%d:%k:%n:%m\\n';
+
+/**
+ * Parse `chktex` output written with CHKTEX_FORMAT. Covered warnings are dropped whether their
+ * built-in rule is on (it already reports them) or off (the project does not want them).
+ */
+export const parseChktexOutput = (output: string, filePath?: string): LatexDiagnostic[] => {
+  const diagnostics: LatexDiagnostic[] = [];
+  output.split(/\r?\n/).forEach(line => {
+    const match = /^(\d+):(\d+):(\d+):(\w+):(\d+):(.*)$/.exec(line);
+    if (!match) return;
+    const number = Number(match[5]);
+    if (CHKTEX_EQUIVALENTS[number]) return;
+    const column = Math.max(1, Number(match[2]));
+    diagnostics.push({
+      severity: CHKTEX_SEVERITIES[match[4].toLowerCase()] ?? 'warning',
+      message: match[6].trim(),
+      file: filePath,
+      line: Number(match[1]),
+      column,
+      endColumn: column + Math.max(1, Number(match[3])),
+      code: `chktex-${number}`,
+    });
+  });
+  return diagnostics;
+};
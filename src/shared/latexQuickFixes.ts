@@ -0,0 +1,320 @@
+import { LatexDiagnostic } from './latexDiagnostics';
+import { stripLatexComments } from './rootDocument';
+
+// Commands people most often use without loading the package that defines them.
+const COMMAND_PACKAGES: Record<string, string> = {
+  includegraphics: 'graphicx',
+  graphicspath: 'graphicx',
+  rotatebox: 'graphicx',
+  scalebox: 'graphicx',
+  resizebox: 'graphicx',
+  href: 'hyperref',
+  url: 'hyperref',
+  autoref: 'hyperref',
+  hypersetup: 'hyperref',
+  cref: 'cleveref',
+  Cref: 'cleveref',
+  toprule: 'booktabs',
+  midrule: 'booktabs',
+  bottomrule: 'booktabs',
+  cmidrule: 'booktabs',
+  multirow: 'multirow',
+  textcolor: 'xcolor',
+  color: 'xcolor',
+  colorbox: 'xcolor',
+  definecolor: 'xcolor',
+  eqref: 'amsmath',
+  text: 'amsmath',
+  DeclareMathOperator: 'amsmath',
+  numberwithin: 'amsmath',
+  mathbb: 'amssymb',
+  mathfrak: 'amssymb',
+  therefore: 'amssymb',
+  mathscr: 'mathrsfs',
+  bm: 'bm',
+  SI: 'siunitx',
+  si: 'siunitx',
+  qty: 'siunitx',
+  unit: 'siunitx',
+  num: 'siunitx',
+  sisetup: 'siunitx',
+  todo: 'todonotes',
+  listoftodos: 'todonotes',
+  lipsum: 'lipsum',
+  blindtext: 'blindtext',
+  lstinputlisting: 'listings',
+  lstset: 'listings',
+  inputminted: 'minted',
+  mintinline: 'minted',
+  tikz: 'tikz',
+  usetikzlibrary: 'tikz',
+  subcaption: 'subcaption',
+  captionsetup: 'caption',
+  geometry: 'geometry',
+  newgeometry: 'geometry',
+  onehalfspacing: 'setspace',
+  doublespacing: 'setspace',
+  ding: 'pifont',
+  checkmark: 'amssymb',
+  xspace: 'xspace',
+  ce: 'mhchem',
+  citep: 'natbib',
+  citet: 'natbib',
+  addbibresource: 'biblatex',
+  printbibliography: 'biblatex',
+  parencite: 'biblatex',
+  textcite: 'biblatex',
+  enquote: 'csquotes',
+  ifthenelse: 'ifthen',
+  pagestyle: 'fancyhdr',
+  fancyhead: 'fancyhdr',
+  fancyfoot: 'fancyhdr',
+  thispagestyle: 'fancyhdr',
+  FloatBarrier: 'placeins',
+  includepdf: 'pdfpages',
+  sout: 'ulem',
+  uline: 'ulem',
+  hl: 'soul',
+  euro: 'eurosym',
+  degree: 'gensymb',
+  celsius: 'gensymb',
+};
+
+const ENVIRONMENT_PACKAGES: Record<string, string> = {
+  align: 'amsmath',
+  'align*': 'amsmath',
+  gather: 'amsmath',
+  multline: 'amsmath',
+  split: 'amsmath',
+  cases: 'amsmath',
+  pmatrix: 'amsmath',
+  bmatrix: 'amsmath',
+  vmatrix: 'amsmath',
+  proof: 'amsthm',
+  algorithm: 'algorithm',
+  algorithmic: 'algpseudocode',
+  lstlisting: 'listings',
+  minted: 'minted',
+  tikzpicture: 'tikz',
+  axis: 'pgfplots',
+  subfigure: 'subcaption',
+  subtable: 'subcaption',
+  longtable: 'longtable',
+  tabularx: 'tabularx',
+  multicols: 'multicol',
+  wrapfigure: 'wrapfig',
+  landscape: 'pdflscape',
+  comment: 'comment',
+  spacing: 'setspace',
+  adjustbox: 'adjustbox',
+  tcolorbox: 'tcolorbox',
+};
+
+export const suggestPackageForCommand = (command: string): string | null => (
+  COMMAND_PACKAGES[command.replace(/^\\/, '')] ?? null
+);
+
+export const suggestPackageForEnvironment = (environment: string): string | null => (
+  ENVIRONMENT_PACKAGES[environment] ?? null
+);
+
+/**
+ * The label, citation key, file, command or environment a diagnostic is about,
+ * read back from the message `parseLatexDiagnostics` produced.
+ */
+export const getDiagnosticSubject = (diagnostic: Pick<LatexDiagnostic, 'code' | 'message'>): string | null => {
+  const patterns: Record<string, RegExp> = {
+    'undefined-reference': /^Undefined reference: (.+)$/,
+    'undefined-citation': /^Undefined citation: (.+)$/,
+    'missing-file': /^Missing image or input file: (.+)$/,
+    'undefined-control-sequence': /^Undefined control sequence: (\\\S+)$/,
+    'undefined-environment': /Environment (\S+) undefined/,
+    'duplicate-label': /^Label multiply defined: (.+)$/,
+  };
+  const pattern = diagnostic.code ? patterns[diagnostic.code] : undefined;
+  const match = pattern ? diagnostic.message.match(pattern) : null;
+  return match ? match[1].trim() : null;
+};
+
+/**
+ * Columns (1-based, end exclusive) to underline for a diagnostic on `lineText`: its own
+ * range when it has one, the subject when it appears on the line, otherwise the line's text.
+ */
+export const getDiagnosticColumns = (
+  lineText: string,
+  diagnostic: Pick<LatexDiagnostic, 'code' | 'message' | 'column' | 'endColumn'>
+): { startColumn: number; endColumn: number } => {
+  if (diagnostic.column && diagnostic.endColumn && diagnostic.endColumn > diagnostic.column) {
+    return { startColumn: diagnostic.column, endColumn: diagnostic.endColumn };
+  }
+  const subject = getDiagnosticSubject(diagnostic);
+  if (subject) {
+    const index = lineText.indexOf(subject);
+    if (index >= 0) {
+      return { startColumn: index + 1, endColumn: index + 1 + subject.length };
+    }
+  }
+  if (diagnostic.column) {
+    return { startColumn: diagnostic.column, endColumn: diagnostic.column + 1 };
+  }
+  const indent = lineText.length - lineText.trimStart().length;
+  return { startColumn: indent + 1, endColumn: Math.max(indent + 2, lineText.trimEnd().length + 1) };
+};
+
+export const hasPackage = (content: string, packageName: string): boolean => {
+  const pattern = /\\(?:usepackage|RequirePackage)\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g;
+  const source = stripLatexComments(content);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    if (match[1].split(',').some(name => name.trim() === packageName)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Line (1-based) after which a new `\usepackage` belongs: after the last package in the
+ * preamble, or after `\documentclass`. Null when the file has no preamble.
+ */
+export const findUsepackageInsertLine = (content: string): number | null => {
+  const lines = stripLatexComments(content).split('\n');
+  let documentClassLine: number | null = null;
+  let lastPackageLine: number | null = null;
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    if (/\\begin\s*\{document\}/.test(line)) break;
+    if (documentClassLine === null && /\\documentclass\b/.test(line)) {
+      documentClassLine = index + 1;
+    }
+    if (/\\(?:usepackage|RequirePackage)\b/.test(line)) {
+      lastPackageLine = index + 1;
+    }
+  }
+  if (documentClassLine === null) return null;
+  return lastPackageLine !== null && lastPackageLine > documentClassLine ? lastPackageLine : documentClassLine;
+};
+
+const SECTION_COMMAND = /\\(?:part|chapter|section|subsection|subsubsection|paragraph)\*?\s*(?:\[[^\]]*\])?\s*\{/;
+const EQUATION_BEGIN = /\\begin\s*\{(?:equation|align|gather|multline|flalign|eqnarray)\*?\}/;
+const CAPTION_COMMAND = /\\caption\s*(?:\[[^\]]*\])?\s*\{/;
+
+const anchorPatternForLabel = (key: string): RegExp => {
+  const prefix = key.includes(':') ? key.split(':')[0].toLowerCase() : '';
+  if (['fig', 'tab', 'lst', 'alg', 'listing'].includes(prefix)) return CAPTION_COMMAND;
+  if (['eq', 'eqn', 'equation'].includes(prefix)) return EQUATION_BEGIN;
+  return SECTION_COMMAND;
+};
+
+// Index just past the group opened by the `{` at openIndex, or -1 if it is not closed on this line.
+const skipBraceGroup = (text: string, openIndex: number): number => {
+  let depth = 0;
+  for (let index = openIndex; index < text.length; index++) {
+    const char = text[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) return index + 1;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Where to create `\label{key}`: right after the caption, equation or heading the key's
+ * prefix (`fig:`, `eq:`, `sec:` ...) points at, choosing the one nearest `nearLine`
+ * that has no label yet.
+ */
+export const findLabelAnchor = (
+  content: string,
+  key: string,
+  nearLine: number
+): { lineNumber: number; column: number } | null => {
+  const pattern = anchorPatternForLabel(key);
+  const lines = stripLatexComments(content).split('\n');
+  let best: { lineNumber: number; column: number } | null = null;
+  for (let index = 0; index < lines.length; index++) {
+    const match = lines[index].match(pattern);
+    if (!match || match.index === undefined) continue;
+    const following = `${lines[index].slice(match.index)}\n${lines[index + 1] ?? ''}`;
+    if (/\\label\s*\{/.test(following)) continue;
+    const matchEnd = match.index + match[0].length;
+    const column = pattern === EQUATION_BEGIN ? matchEnd : skipBraceGroup(lines[index], matchEnd - 1);
+    if (column < 0) continue;
+    const candidate = { lineNumber: index + 1, column: column + 1 };
+    if (!best || Math.abs(candidate.lineNumber - nearLine) < Math.abs(best.lineNumber - nearLine)) {
+      best = candidate;
+    }
+  }
+  return best;
+};
+
+const levenshtein = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+/**
+ * Edit distance scaled to the longer string: 0 for equal strings, 1 for nothing in common.
+ */
+export const stringDistance = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : levenshtein(a, b) / longest;
+};
+
+const normalizeSlashes = (value: string) => value.replace(/\\/g, '/');
+const stripExtension = (value: string) => value.replace(/\.[^./]+$/, '');
+
+/**
+ * Project files that look like what a broken `\includegraphics`/`\input` path meant,
+ * as paths relative to `baseDir`, best match first. The extension is dropped when
+ * the original path had none.
+ */
+export const findSimilarFilePaths = (
+  missingPath: string,
+  candidates: string[],
+  baseDir: string,
+  limit = 3
+): string[] => {
+  const base = normalizeSlashes(baseDir).replace(/\/+$/, '');
+  const wanted = normalizeSlashes(missingPath).replace(/^\.\//, '');
+  const keepExtension = /\.[^./]+$/.test(wanted);
+  const wantedName = stripExtension(wanted.split('/').pop() || wanted).toLowerCase();
+
+  const scored: Array<{ path: string; score: number }> = [];
+  for (const candidate of candidates) {
+    const normalized = normalizeSlashes(candidate);
+    if (!normalized.toLowerCase().startsWith(`${base.toLowerCase()}/`)) continue;
+    const relative = normalized.slice(base.length + 1);
+    if (relative === wanted) continue;
+    const name = stripExtension(relative.split('/').pop() || relative).toLowerCase();
+    const nameDistance = stringDistance(wantedName, name);
+    if (nameDistance > 0.4) continue;
+    // Prefer the right name first, then the path closest to what was typed.
+    const score = nameDistance + stringDistance(stripExtension(wanted).toLowerCase(), stripExtension(relative).toLowerCase()) / 10;
+    scored.push({ path: keepExtension ? relative : stripExtension(relative), score });
+  }
+
+  const seen = new Set<string>();
+  return scored
+    .sort((a, b) => a.score - b.score)
+    .map(item => item.path)
+    .filter(item => {
+      if (seen.has(item)) return false;
+      seen.add(item);
+      return true;
+    })
+    .slice(0, limit);
+};
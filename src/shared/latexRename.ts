@@ -0,0 +1,125 @@
+import { scanBibTeX } from './bibtex';
+import { findSymbolOccurrences, LatexSymbolKind } from './latexSymbols';
+
+/**
+ * Project-wide renaming of labels, citation keys and user macros. A plan lists every
+ * edit per file so it can be previewed before anything is written.
+ */
+
+export type RenameKind = 'label' | 'citation' | 'macro';
+
+export interface RenameSource {
+  path: string;
+  content: string;
+}
+
+export interface RenameTextEdit {
+  line: number;
+  column: number;
+  length: number;
+  text: string;
+}
+
+export interface RenamePreviewLine {
+  line: number;
+  before: string;
+  after: string;
+}
+
+export interface RenameFileChange {
+  path: string;
+  // The content the edits were computed against.
+  original: string;
+  edits: RenameTextEdit[];
+  preview: RenamePreviewLine[];
+}
+
+export interface RenamePlan {
+  kind: RenameKind;
+  oldName: string;
+  newName: string;
+  changes: RenameFileChange[];
+}
+
+export const getRenameKind = (kind: LatexSymbolKind): RenameKind | null => {
+  if (kind === 'label' || kind === 'reference') return 'label';
+  if (kind === 'citation' || kind === 'macro') return kind;
+  return null;
+};
+
+export const validateRenameName = (kind: RenameKind, name: string): string | null => {
+  if (!name) return 'The new name is empty.';
+  if (kind === 'macro') {
+    return /^[A-Za-z]+$/.test(name) ? null : 'Macro names can only contain letters.';
+  }
+  if (kind === 'citation') {
+    return /[\s"#%'(),={}\\~]/.test(name) ? 'Citation keys cannot contain spaces or any of " # % \' ( ) , = { } \\ ~.' : null;
+  }
+  return /[\s,{}%#\\]/.test(name) ? 'Labels cannot contain spaces or any of , { } % # \\.' : null;
+};
+
+export const applyTextEdits = (content: string, edits: RenameTextEdit[]): string => {
+  const lines = content.split('\n');
+  [...edits]
+    .sort((a, b) => b.line - a.line || b.column - a.column)
+    .forEach(edit => {
+      const text = lines[edit.line - 1];
+      if (text === undefined) return;
+      lines[edit.line - 1] = text.slice(0, edit.column - 1) + edit.text + text.slice(edit.column - 1 + edit.length);
+    });
+  return lines.join('\n');
+};
+
+const isBibFile = (filePath: string) => /\.bib$/i.test(filePath);
+
+export const planRename = (
+  sources: RenameSource[],
+  symbol: { kind: LatexSymbolKind; name: string },
+  newName: string
+): { plan?: RenamePlan; error?: string } => {
+  const kind = getRenameKind(symbol.kind);
+  if (!kind) return { error: 'Only labels, citation keys and macros can be renamed.' };
+  const name = kind === 'macro' ? newName.replace(/^\\/, '') : newName.trim();
+  if (name === symbol.name) return { error: 'The new name is the same as the old one.' };
+  const invalid = validateRenameName(kind, name);
+  if (invalid) return { error: invalid };
+
+  const occurrencesIn = (source: RenameSource, target: string) => (
+    findSymbolOccurrences(source.content, { kind, name: target }, { bib: isBibFile(source.path) })
+  );
+  if (sources.some(source => occurrencesIn(source, name).some(occurrence => occurrence.isDefinition))) {
+    return { error: `\`${name}\` is already defined.` };
+  }
+  // BibTeX treats keys that differ only in case as the same entry.
+  if (kind === 'citation') {
+    const clash = sources
+      .filter(source => isBibFile(source.path))
+      .flatMap(source => scanBibTeX(source.content).map(entry => entry.key))
+      .find(key => key !== null && key !== symbol.name && key.toLowerCase() === name.toLowerCase());
+    if (clash) return { error: `\`${clash}\` is already defined.` };
+  }
+
+  const changes: RenameFileChange[] = [];
+  sources.forEach(source => {
+    const occurrences = occurrencesIn(source, symbol.name);
+    if (occurrences.length === 0) return;
+    const edits = occurrences.map(occurrence => ({
+      line: occurrence.line,
+      column: occurrence.column,
+      length: occurrence.length,
+      text: kind === 'macro' ? `\\${name}` : name,
+    }));
+    const before = source.content.split('\n');
+    const after = applyTextEdits(source.content, edits).split('\n');
+    const lines = Array.from(new Set(edits.map(edit => edit.line))).sort((a, b) => a - b);
+    changes.push({
+      path: source.path,
+      original: source.content,
+      edits,
+      preview: lines.map(line => ({ line, before: before[line - 1], after: after[line - 1] })),
+    });
+  });
+
+  if (changes.length === 0) return { error: `No occurrences of \`${symbol.name}\` found.` };
+  return { plan: { kind, oldName: symbol.name, newName: name, changes } };
+};
@@ -0,0 +1,215 @@
+import { isCiteCommand, maskVerbatim, REFERENCE_COMMANDS } from './latexSymbols';
+import { stripLatexComments } from './rootDocument';
+
+export interface SpellingWord {
+  word: string;
+  // 1-based, like Monaco positions.
+  line: number;
+  column: number;
+}
+
+export const DEFAULT_SPELLING_LANGUAGE = 'en_US';
+
+// babel and polyglossia language names with the Hunspell dictionary for them.
+const LANGUAGE_DICTIONARIES: Record<string, string> = {
+  english: 'en_US',
+  american: 'en_US',
+  usenglish: 'en_US',
+  british: 'en_GB',
+  ukenglish: 'en_GB',
+  canadian: 'en_CA',
+  australian: 'en_AU',
+  newzealand: 'en_NZ',
+  german: 'de_DE',
+  ngerman: 'de_DE',
+  austrian: 'de_AT',
+  naustrian: 'de_AT',
+  swissgerman: 'de_CH',
+  nswissgerman: 'de_CH',
+  french: 'fr_FR',
+  francais: 'fr_FR',
+  acadian: 'fr_CA',
+  canadien: 'fr_CA',
+  spanish: 'es_ES',
+  catalan: 'ca_ES',
+  italian: 'it_IT',
+  portuguese: 'pt_PT',
+  portuges: 'pt_PT',
+  brazil: 'pt_BR',
+  brazilian: 'pt_BR',
+  dutch: 'nl_NL',
+  polish: 'pl_PL',
+  czech: 'cs_CZ',
+  slovak: 'sk_SK',
+  slovene: 'sl_SI',
+  croatian: 'hr_HR',
+  serbian: 'sr_RS',
+  bulgarian: 'bg_BG',
+  russian: 'ru_RU',
+  ukrainian: 'uk_UA',
+  greek: 'el_GR',
+  turkish: 'tr_TR',
+  hungarian: 'hu_HU',
+  magyar: 'hu_HU',
+  romanian: 'ro_RO',
+  swedish: 'sv_SE',
+  danish: 'da_DK',
+  norsk: 'nb_NO',
+  norwegian: 'nb_NO',
+  nynorsk: 'nn_NO',
+  finnish: 'fi_FI',
+  estonian: 'et_EE',
+  latvian: 'lv_LV',
+  lithuanian: 'lt_LT',
+  irish: 'ga_IE',
+  welsh: 'cy_GB',
+  hebrew: 'he_IL',
+  indonesian: 'id_ID',
+};
+
+// polyglossia's `variant=` option, per language.
+const POLYGLOSSIA_VARIANTS: Record<string, Record<string, string>> = {
+  english: { american: 'en_US', us: 'en_US', usmax: 'en_US', british: 'en_GB', uk: 'en_GB', canadian: 'en_CA', australian: 'en_AU', newzealand: 'en_NZ' },
+  german: { austrian: 'de_AT', swiss: 'de_CH', german: 'de_DE' },
+  portuguese: { brazilian: 'pt_BR', portuguese: 'pt_PT' },
+  french: { canadian: 'fr_CA' },
+};
+
+// Commands whose arguments are keys, paths, code or settings rather than prose; the number is
+// how many `{...}` arguments to skip (optional `[...]` arguments in between are skipped too).
+// References and citations are added below.
+const SKIPPED_ARGUMENTS: Record<string, number> = {
+  label: 1, usepackage: 1, RequirePackage: 1, documentclass: 1, input: 1, include: 1, includeonly: 1, subfile: 1,
+  import: 2, subimport: 2, includegraphics: 1, includesvg: 1, includepdf: 1, graphicspath: 1,
+  bibliography: 1, bibliographystyle: 1, addbibresource: 1, bibitem: 1, nocite: 1,
+  url: 1, href: 1, hypersetup: 1, end: 1,
+  // Environment arguments such as tabular column specs and minipage widths.
+  begin: Infinity,
+  newcommand: 2, renewcommand: 2, providecommand: 2, newenvironment: 3, renewenvironment: 3,
+  DeclareMathOperator: 2, newtheorem: 2, setlength: 2, addtolength: 2, setcounter: 2, addtocounter: 2,
+  hspace: 1, vspace: 1, color: 1, textcolor: 1, colorbox: 1, definecolor: 3, pagestyle: 1,
+  thispagestyle: 1, pagenumbering: 1, geometry: 1, lstinputlisting: 1, inputminted: 2, lstset: 1,
+  setmainfont: 1, setsansfont: 1, setmonofont: 1, selectlanguage: 1, foreignlanguage: 1,
+  setdefaultlanguage: 1, setmainlanguage: 1, setotherlanguage: 1, setotherlanguages: 1, tikz: 1,
+  usetikzlibrary: 1, SI: 2, si: 1, num: 1,
+};
+REFERENCE_COMMANDS.forEach(command => {
+  SKIPPED_ARGUMENTS[command] = 1;
+});
+
+const MATH_ENVIRONMENTS = 'equation|align|alignat|flalign|gather|multline|eqnarray|displaymath|math|tikzpicture';
+const MATH_PATTERN = new RegExp(
+  `\\\\begin\\s*\\{(${MATH_ENVIRONMENTS})(\\*?)\\}[\\s\\S]*?\\\\end\\s*\\{\\1\\2\\}|\\$\\$[\\s\\S]*?\\$\\$|\\\\\\[[\\s\\S]*?\\\\\\]|\\\\\\([\\s\\S]*?\\\\\\)|(?<!\\\\)\\$(?:\\\\\\$|[^$])*?\\$`,
+  'g'
+);
+// Accents and special letters are part of a word, e.g. `na\"ive` or `Stra\ss e`.
+const ACCENT_PATTERN = /\\(?:[`'^"~=.]|[cvuHkrdb](?![A-Za-z])|(?:ss|o|O|aa|AA|ae|AE|oe|OE|l|L|i|j)(?![A-Za-z]))/g;
+const COMMAND_PATTERN = /\\(?:[A-Za-z@]+\*?|.)/g;
+// Marks where an accent command was, so the words around it are not checked in pieces.
+const ACCENT_MARK = '\u0000';
+const WORD_PATTERN = /[\p{L}\u0000]+(?:['’][\p{L}\u0000]+)*/gu;
+
+const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+const skipSpaces = (text: string, index: number) => {
+  while (index < text.length && /\s/.test(text[index])) index++;
+  return index;
+};
+
+// End of a `{...}` or `[...]` group opening at `start`, allowing nesting.
+const groupEnd = (text: string, start: number): number => {
+  const open = text[start];
+  const close = open === '[' ? ']' : '}';
+  let depth = 0;
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close && --depth === 0) {
+      return index + 1;
+    }
+  }
+  return text.length;
+};
+
+const maskSkippedArguments = (text: string): string => {
+  let output = '';
+  let cursor = 0;
+  const pattern = /\\([A-Za-z]+)\*?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const count = SKIPPED_ARGUMENTS[match[1]] ?? (isCiteCommand(match[1]) ? 1 : 0);
+    if (!count) continue;
+    let end = match.index + match[0].length;
+    let remaining = count;
+    for (let next = skipSpaces(text, end); remaining > 0 && (text[next] === '{' || text[next] === '['); next = skipSpaces(text, end)) {
+      if (text[next] === '{') remaining--;
+      end = groupEnd(text, next);
+    }
+    // Trailing optional arguments, e.g. `\begin{figure}[htbp]`.
+    while (text[skipSpaces(text, end)] === '[') {
+      end = groupEnd(text, skipSpaces(text, end));
+    }
+    output += text.slice(cursor, match.index) + blank(text.slice(match.index, end));
+    cursor = end;
+    pattern.lastIndex = end;
+  }
+  return output + text.slice(cursor);
+};
+
+// The preamble is configuration, not prose; only the body of a full document is checked.
+const maskPreamble = (text: string) => {
+  const begin = /\\begin\s*\{document\}/.exec(text);
+  return begin ? blank(text.slice(0, begin.index)) + text.slice(begin.index) : text;
+};
+
+/**
+ * Words of running text with their positions. The preamble, commands, arguments that hold keys
+ * or paths, math, comments and verbatim text are skipped, as are words with accent commands
+ * inside, all-capital abbreviations and single letters.
+ */
+export const extractSpellingWords = (content: string): SpellingWord[] => {
+  const masked = maskSkippedArguments(maskPreamble(stripLatexComments(maskVerbatim(content))).replace(MATH_PATTERN, blank))
+    .replace(ACCENT_PATTERN, match => ACCENT_MARK.repeat(match.length))
+    .replace(COMMAND_PATTERN, blank);
+
+  const words: SpellingWord[] = [];
+  masked.split('\n').forEach((line, index) => {
+    for (const match of line.matchAll(WORD_PATTERN)) {
+      const word = match[0];
+      const start = match.index ?? 0;
+      if (word.includes(ACCENT_MARK) || line[start - 1] === ACCENT_MARK || line[start + word.length] === ACCENT_MARK) continue;
+      if (word.length < 2 || word === word.toUpperCase()) continue;
+      words.push({ word, line: index + 1, column: start + 1 });
+    }
+  });
+  return words;
+};
+
+/**
+ * The Hunspell dictionary for a document's main language, from its babel or polyglossia setup.
+ * babel's main language is the one given as `main=`, else the last one listed.
+ */
+export const detectSpellingLanguage = (content: string): string | null => {
+  const preamble = stripLatexComments(content.split(/\\begin\s*\{document\}/)[0]);
+
+  const polyglossia = /\\set(?:default|main)language\s*(?:\[([^\]]*)\])?\s*\{([^}]*)\}/.exec(preamble);
+  if (polyglossia) {
+    const language = polyglossia[2].trim().toLowerCase();
+    const variant = /variant\s*=\s*([A-Za-z]+)/.exec(polyglossia[1] ?? '')?.[1].toLowerCase();
+    return (variant && POLYGLOSSIA_VARIANTS[language]?.[variant]) || LANGUAGE_DICTIONARIES[language] || null;
+  }
+
+  const babel = /\\usepackage\s*\[([^\]]*)\]\s*\{[^}]*\bbabel\b[^}]*\}/.exec(preamble);
+  const classOptions = /\\documentclass\s*\[([^\]]*)\]/.exec(preamble)?.[1] ?? '';
+  if (!babel && !/\\usepackage\s*(?:\[[^\]]*\])?\s*\{[^}]*\bbabel\b/.test(preamble)) return null;
+  const options = `${classOptions},${babel?.[1] ?? ''}`.split(',').map(option => option.trim()).filter(Boolean);
+  const main = options.find(option => /^main\s*=/.test(option));
+  if (main) {
+    return LANGUAGE_DICTIONARIES[main.split('=')[1].trim().toLowerCase()] ?? null;
+  }
+  const languages = options.map(option => LANGUAGE_DICTIONARIES[option.toLowerCase()]).filter(Boolean);
+  return languages.length > 0 ? languages[languages.length - 1] : null;
+};
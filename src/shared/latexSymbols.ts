@@ -0,0 +1,302 @@
+import { scanBibTeX } from './bibtex';
+import { stripLatexComments } from './rootDocument';
+
+/**
+ * Locating LaTeX symbols (file arguments, labels, reference and citation keys, user
+ * macros) in source text, for navigation and renaming.
+ */
+
+export type LatexSymbolKind = 'file' | 'label' | 'reference' | 'citation' | 'macro';
+
+export interface LatexSymbol {
+  kind: LatexSymbolKind;
+  // Key, file argument or macro name (without the backslash).
+  name: string;
+  // Command the symbol is an argument of; for macros the macro itself.
+  command: string;
+  // 1-based columns on the line; `endColumn` is exclusive. Macro ranges include the backslash.
+  startColumn: number;
+  endColumn: number;
+}
+
+export interface SymbolOccurrence {
+  line: number;
+  column: number;
+  length: number;
+  // The `\label`, `.bib` entry key or `\newcommand` that defines the symbol.
+  isDefinition: boolean;
+}
+
+// How each file-taking command resolves its argument.
+export const FILE_COMMANDS: Record<string, 'tex' | 'graphics' | 'bib'> = {
+  input: 'tex',
+  include: 'tex',
+  subfile: 'tex',
+  includeonly: 'tex',
+  includegraphics: 'graphics',
+  includesvg: 'graphics',
+  bibliography: 'bib',
+  addbibresource: 'bib',
+};
+
+export const GRAPHICS_EXTENSIONS = ['.pdf', '.png', '.jpg', '.jpeg', '.eps', '.svg'];
+
+export const REFERENCE_COMMANDS = [
+  'ref', 'eqref', 'autoref', 'Autoref', 'cref', 'Cref', 'pageref', 'nameref', 'vref', 'Vref', 'cpageref', 'Cpageref', 'labelcref',
+];
+
+// Commands whose argument is a list of citation keys: \cite, \citep, \parencite, \textcite, \footcite, \nocite, ...
+const CITE_COMMAND = /^(?:[a-z]*cite[a-z]*|[A-Z][a-z]*cite[a-z]*|Cite[a-z]*)$/;
+
+export const isCiteCommand = (command: string) => CITE_COMMAND.test(command);
+
+// Commands whose argument is a comma separated list.
+const LIST_COMMANDS = new Set(['bibliography', 'includeonly', 'cref', 'Cref', 'cpageref', 'Cpageref', 'labelcref']);
+
+// `\newcommand{\foo}`, `\DeclareMathOperator*{\foo}`, `\def\foo`, ...
+const DEFINING_COMMANDS = '(?:(?:re)?newcommand|providecommand|DeclareRobustCommand|DeclareMathOperator|(?:New|Renew|Provide|Declare)DocumentCommand)\\*?\\s*\\{?\\s*';
+const DEFINING_PRIMITIVES = '(?:[gex]?def|let)\\s*';
+const MACRO_DEFINITION = new RegExp(`\\\\${DEFINING_COMMANDS}\\\\([A-Za-z@]+)|\\\\${DEFINING_PRIMITIVES}\\\\([A-Za-z@]+)`, 'g');
+const ENDS_WITH_DEFINING_COMMAND = new RegExp(`\\\\(?:${DEFINING_COMMANDS}|${DEFINING_PRIMITIVES})$`);
+
+// Environments whose body TeX reads as literal text.
+export const VERBATIM_ENVIRONMENTS = ['verbatim', 'Verbatim', 'BVerbatim', 'LVerbatim', 'spverbatim', 'lstlisting', 'minted', 'comment'];
+
+const VERBATIM_BEGIN = new RegExp(`\\\\begin\\{((?:${VERBATIM_ENVIRONMENTS.join('|')})\\*?)\\}(?:\\s*\\[[^\\]]*\\]|\\s*\\{[^}]*\\})*`);
+// \verb|x|, \verb*+x+, \lstinline!x! and \lstinline{x}, \mintinline{lang}{x}
+const INLINE_VERBATIM = /\\(?:verb\*?|lstinline(?:\[[^\]]*\])?|mintinline\{[^}]*\})(?:\{([^}]*)\}|([^A-Za-z\s{])(.*?)\2)/;
+
+const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+/**
+ * Replace the contents of verbatim environments and inline `\verb` arguments with spaces,
+ * keeping line and column positions.
+ */
+export const maskVerbatim = (content: string): string => {
+  let environment: string | null = null;
+  return content.split('\n').map(line => {
+    let output = '';
+    let rest = line;
+    while (rest) {
+      if (environment) {
+        const end = rest.indexOf(`\\end{${environment}}`);
+        if (end === -1) return output + blank(rest);
+        output += blank(rest.slice(0, end));
+        rest = rest.slice(end);
+        environment = null;
+        continue;
+      }
+      // Only look for openings before a comment starts.
+      const code = stripLatexComments(rest);
+      const begin = VERBATIM_BEGIN.exec(code);
+      const inline = INLINE_VERBATIM.exec(code);
+      if (!begin && !inline) return output + rest;
+      if (begin && (!inline || begin.index <= inline.index)) {
+        const openEnd = begin.index + begin[0].length;
+        output += rest.slice(0, openEnd);
+        rest = rest.slice(openEnd);
+        environment = begin[1];
+        continue;
+      }
+      const argument = inline![1] ?? inline![3];
+      const argumentStart = inline!.index + inline![0].length - argument.length - 1;
+      output += rest.slice(0, argumentStart) + blank(argument);
+      rest = rest.slice(argumentStart + argument.length);
+    }
+    return output;
+  }).join('\n');
+};
+
+// Source lines with comments and verbatim text blanked out.
+const codeLines = (content: string) => stripLatexComments(maskVerbatim(content)).split('\n');
+
+const symbolKindForCommand = (command: string): LatexSymbolKind | null => {
+  if (command === 'label') return 'label';
+  if (REFERENCE_COMMANDS.includes(command)) return 'reference';
+  if (isCiteCommand(command)) return 'citation';
+  if (FILE_COMMANDS[command]) return 'file';
+  return null;
+};
+
+const isListArgument = (command: string, kind: LatexSymbolKind) => kind === 'citation' || LIST_COMMANDS.has(command);
+
+/**
+ * The symbol under a 1-based column of a line, if any.
+ */
+export const findSymbolAt = (lineText: string, column: number): LatexSymbol | null => {
+  const offset = column - 1;
+  const commandPattern = /\\([A-Za-z@]+)\*?/g;
+  let match: RegExpExecArray | null;
+  while ((match = commandPattern.exec(lineText))) {
+    const command = match[1];
+    const nameEnd = match.index + match[0].length;
+    const kind = symbolKindForCommand(command);
+    const argument = lineText.slice(nameEnd).match(/^\s*(?:\[[^\]]*\]\s*)*\{([^}]*)\}/);
+
+    if (kind && argument) {
+      const argumentStart = nameEnd + argument[0].length - 1 - argument[1].length;
+      const argumentEnd = argumentStart + argument[1].length;
+      if (offset >= argumentStart && offset <= argumentEnd) {
+        // Pick the list item under the cursor.
+        const items = isListArgument(command, kind) ? argument[1].split(',') : [argument[1]];
+        let itemStart = argumentStart;
+        for (const item of items) {
+          const itemEnd = itemStart + item.length;
+          if (offset >= itemStart && offset <= itemEnd) {
+            const name = item.trim();
+            if (!name) return null;
+            const nameStart = itemStart + item.indexOf(name);
+            return { kind, name, command, startColumn: nameStart + 1, endColumn: nameStart + name.length + 1 };
+          }
+          itemStart = itemEnd + 1;
+        }
+        return null;
+      }
+    }
+
+    if (offset >= match.index && offset < nameEnd && !kind) {
+      return { kind: 'macro', name: command, command, startColumn: match.index + 1, endColumn: match.index + 1 + command.length + 1 };
+    }
+  }
+  return null;
+};
+
+const findListItems = (argument: string, argumentColumn: number, name: string, split: boolean) => {
+  const columns: number[] = [];
+  const items = split ? argument.split(',') : [argument];
+  let itemColumn = argumentColumn;
+  for (const item of items) {
+    if (item.trim() === name) {
+      columns.push(itemColumn + item.indexOf(name));
+    }
+    itemColumn += item.length + 1;
+  }
+  return columns;
+};
+
+// `.bib` fields whose value is a list of other entries' keys.
+const KEY_REFERENCE_FIELDS = new Set(['crossref', 'xref', 'xdata', 'related', 'ids']);
+
+/**
+ * Every place `symbol` occurs in a `.tex` file (or, for citation keys, a `.bib` file,
+ * including `crossref`, `xdata` and similar fields naming other entries).
+ * Comments and verbatim text are skipped.
+ */
+export const findSymbolOccurrences = (
+  content: string,
+  symbol: Pick<LatexSymbol, 'kind' | 'name'>,
+  options: { bib?: boolean } = {}
+): SymbolOccurrence[] => {
+  const occurrences: SymbolOccurrence[] = [];
+
+  if (options.bib) {
+    if (symbol.kind !== 'citation') return occurrences;
+    const push = (offset: number, isDefinition: boolean) => {
+      const before = content.slice(0, offset);
+      occurrences.push({
+        line: before.split('\n').length,
+        column: offset - before.lastIndexOf('\n'),
+        length: symbol.name.length,
+        isDefinition,
+      });
+    };
+    scanBibTeX(content).forEach(entry => {
+      if (entry.key === symbol.name) push(entry.keyOffset, true);
+      entry.fields.forEach(field => {
+        const part = field.parts[0];
+        if (!KEY_REFERENCE_FIELDS.has(field.name.toLowerCase()) || !part) return;
+        const valueOffset = content.indexOf(part.text, content.indexOf('=', field.start) + 1);
+        findListItems(part.text, valueOffset, symbol.name, true).forEach(offset => push(offset, false));
+      });
+    });
+    return occurrences;
+  }
+
+  codeLines(content).forEach((lineText, index) => {
+    const line = index + 1;
+    if (symbol.kind === 'macro') {
+      const pattern = new RegExp(`\\\\${symbol.name}(?![A-Za-z@])`, 'g');
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(lineText))) {
+        const isDefinition = ENDS_WITH_DEFINING_COMMAND.test(lineText.slice(0, match.index));
+        occurrences.push({ line, column: match.index + 1, length: match[0].length, isDefinition });
+      }
+      return;
+    }
+
+    const commandPattern = /\\([A-Za-z@]+)\*?\s*(?:\[[^\]]*\]\s*)*\{([^}]*)\}/g;
+    let match: RegExpExecArray | null;
+    while ((match = commandPattern.exec(lineText))) {
+      const command = match[1];
+      const kind = symbolKindForCommand(command);
+      const matchesSymbol = symbol.kind === 'citation'
+        ? kind === 'citation'
+        : (kind === 'label' || kind === 'reference') && (symbol.kind === 'label' || symbol.kind === 'reference');
+      if (!matchesSymbol) continue;
+      const argumentColumn = match.index + match[0].length - match[2].length;
+      findListItems(match[2], argumentColumn, symbol.name, isListArgument(command, kind!)).forEach(column => {
+        occurrences.push({ line, column, length: symbol.name.length, isDefinition: kind === 'label' });
+      });
+    }
+  });
+  return occurrences;
+};
+
+export interface MacroDefinition {
+  name: string;
+  line: number;
+  column: number;
+  // The defining source line, trimmed.
+  context: string;
+}
+
+export const extractMacroDefinitions = (content: string): MacroDefinition[] => {
+  const definitions: MacroDefinition[] = [];
+  const sourceLines = content.split('\n');
+  codeLines(content).forEach((lineText, index) => {
+    const pattern = new RegExp(MACRO_DEFINITION);
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(lineText))) {
+      const name = match[1] || match[2];
+      definitions.push({
+        name,
+        line: index + 1,
+        column: lineText.indexOf(`\\${name}`, match.index + 1) + 1,
+        context: sourceLines[index].trim(),
+      });
+    }
+  });
+  return definitions;
+};
+
+/**
+ * Paths (relative to the compile directory) a file argument may refer to, in the order
+ * TeX would try them.
+ */
+export const getIncludeCandidates = (command: string, target: string, graphicsPaths: string[] = []): string[] => {
+  const type = FILE_COMMANDS[command];
+  const cleaned = target.trim().replace(/^"(.*)"$/, '$1');
+  if (!type || !cleaned) return [];
+  const hasExtension = /\.[A-Za-z0-9]+$/.test(cleaned.split(/[\\/]/).pop() || '');
+  if (type === 'tex') {
+    return hasExtension ? [cleaned, `${cleaned}.tex`] : [`${cleaned}.tex`, cleaned];
+  }
+  if (type === 'bib') {
+    return hasExtension ? [cleaned] : [`${cleaned}.bib`];
+  }
+  const names = hasExtension ? [cleaned] : GRAPHICS_EXTENSIONS.map(extension => `${cleaned}${extension}`);
+  const prefixes = ['', ...graphicsPaths];
+  return prefixes.flatMap(prefix => names.map(name => `${prefix}${name}`));
+};
+
+/**
+ * Directories from `\graphicspath{{figures/}{img/}}`.
+ */
+export const extractGraphicsPaths = (content: string): string[] => {
+  const match = stripLatexComments(content).match(/\\graphicspath\s*\{((?:\s*\{[^}]*\})*)\s*\}/);
+  if (!match) return [];
+  return Array.from(match[1].matchAll(/\{([^}]*)\}/g))
+    .map(group => group[1].trim())
+    .filter(Boolean)
+    .map(directory => (directory.endsWith('/') ? directory : `${directory}/`));
+};
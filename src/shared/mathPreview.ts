@@ -0,0 +1,154 @@
+import { maskVerbatim } from './latexSymbols';
+import { stripLatexComments } from './rootDocument';
+
+/**
+ * Finding the formula around the cursor and the user macros it may use, for rendering a
+ * preview with MathJax.
+ */
+
+// MathJax's `tex.macros` option: a body, or a body with an argument count and optional default.
+export type MathMacros = Record<string, string | [string, number] | [string, number, string]>;
+
+// 'floating' follows the cursor; 'below' sits under the formula's last line.
+export type MathPreviewMode = 'off' | 'floating' | 'below';
+
+export interface MathRegion {
+  // TeX for MathJax: the formula itself, or a whole starred alignment environment.
+  tex: string;
+  display: boolean;
+  // 1-based; the end is just past the closing delimiter.
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+// Environments MathJax renders whole; their starred form avoids equation numbers.
+const ALIGNMENT_ENVIRONMENTS = 'align|alignat|gather|multline|flalign|eqnarray';
+const MATH_PATTERN = new RegExp([
+  `\\\\begin\\s*\\{(equation|displaymath|math|${ALIGNMENT_ENVIRONMENTS})(\\*?)\\}([\\s\\S]*?)\\\\end\\s*\\{\\1\\2\\}`,
+  '\\$\\$([\\s\\S]*?)\\$\\$',
+  '\\\\\\[([\\s\\S]*?)\\\\\\]',
+  '\\\\\\(([\\s\\S]*?)\\\\\\)',
+  // Inline math does not run over a paragraph break.
+  '(?<!\\\\)\\$((?:\\\\\\$|[^$\\n]|\\n(?![ \\t]*\\n))+?)\\$',
+].join('|'), 'g');
+
+const cleanFormula = (tex: string) => (
+  tex
+    .replace(/\\label\s*\{[^{}]*\}/g, '')
+    .replace(/\\(?:nonumber|notag)(?![A-Za-z])/g, '')
+    .trim()
+);
+
+const offsetOf = (content: string, line: number, column: number) => {
+  let offset = 0;
+  for (let current = 1; current < line; current++) {
+    const next = content.indexOf('\n', offset);
+    if (next === -1) return content.length;
+    offset = next + 1;
+  }
+  return offset + column - 1;
+};
+
+const positionOf = (content: string, offset: number) => {
+  const before = content.slice(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - before.lastIndexOf('\n') };
+};
+
+const matchMathAt = (text: string, offset: number): RegExpExecArray | null => {
+  const pattern = new RegExp(MATH_PATTERN);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > offset) break;
+    if (offset <= match.index + match[0].length) return match;
+  }
+  return null;
+};
+
+/**
+ * The formula containing a 1-based position, with comments removed; null outside math.
+ */
+export const findMathAt = (content: string, line: number, column: number): MathRegion | null => {
+  const text = stripLatexComments(maskVerbatim(content));
+  const match = matchMathAt(text, offsetOf(text, line, column));
+  if (!match) return null;
+
+  const [, environment, , body, dollars, brackets, parens, inline] = match;
+  let tex: string;
+  let display = true;
+  if (environment && new RegExp(`^(?:${ALIGNMENT_ENVIRONMENTS})$`).test(environment)) {
+    tex = `\\begin{${environment}*}${cleanFormula(body)}\\end{${environment}*}`;
+  } else if (environment) {
+    tex = cleanFormula(body);
+    display = environment !== 'math';
+  } else {
+    tex = cleanFormula(dollars ?? brackets ?? parens ?? inline ?? '');
+    display = dollars !== undefined || brackets !== undefined;
+  }
+  if (!tex) return null;
+  const from = positionOf(text, match.index);
+  const to = positionOf(text, match.index + match[0].length);
+  return { tex, display, startLine: from.line, startColumn: from.column, endLine: to.line, endColumn: to.column };
+};
+
+/**
+ * Whether text typed at a 1-based position lands in math mode, including an empty `$$`
+ * pair with the cursor between the dollars.
+ */
+export const isInMath = (content: string, line: number, column: number): boolean => {
+  const text = stripLatexComments(maskVerbatim(content));
+  const offset = offsetOf(text, line, column);
+  const match = matchMathAt(text, offset);
+  if (match) return offset > match.index && offset < match.index + match[0].length;
+  return text[offset - 1] === '$' && text[offset] === '$' && text[offset - 2] !== '\\';
+};
+
+/**
+ * Offset just past the `{...}` group opening at `start`, or -1 when it is not closed.
+ */
+const groupEnd = (text: string, start: number) => {
+  let depth = 0;
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return index + 1;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Macros from `\newcommand`, `\renewcommand`, `\providecommand`, `\DeclareRobustCommand`,
+ * `\def` and `\DeclareMathOperator`, in MathJax's macro format. Later definitions win.
+ */
+export const collectMathMacros = (content: string): MathMacros => {
+  const text = stripLatexComments(maskVerbatim(content));
+  const macros: MathMacros = {};
+  const pattern = /\\(?:(?:re)?newcommand|providecommand|DeclareRobustCommand)\*?\s*(?:\{\s*\\([A-Za-z@]+)\s*\}|\\([A-Za-z@]+))\s*(?:\[(\d)\])?\s*(?:\[([^\]]*)\])?\s*(?=\{)|\\[gex]?def\s*\\([A-Za-z@]+)((?:#\d)*)\s*(?=\{)|\\DeclareMathOperator(\*?)\s*(?:\{\s*\\([A-Za-z@]+)\s*\}|\\([A-Za-z@]+))\s*(?=\{)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const bodyStart = match.index + match[0].length;
+    const bodyEnd = groupEnd(text, bodyStart);
+    if (bodyEnd === -1) continue;
+    const body = text.slice(bodyStart + 1, bodyEnd - 1);
+    pattern.lastIndex = bodyEnd;
+
+    const [, braced, bare, count, optional, defName, defParams, operatorStar, operatorBraced, operatorBare] = match;
+    if (braced || bare) {
+      const args = Number(count || 0);
+      macros[braced || bare] = optional !== undefined && args > 0 ? [body, args, optional] : args > 0 ? [body, args] : body;
+    } else if (defName) {
+      const args = (defParams.match(/#/g) || []).length;
+      macros[defName] = args > 0 ? [body, args] : body;
+    } else {
+      macros[operatorBraced || operatorBare] = `\\operatorname${operatorStar}{${body}}`;
+    }
+  }
+  return macros;
+};
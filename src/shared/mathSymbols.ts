@@ -0,0 +1,285 @@
+import { hasPackage } from './latexQuickFixes';
+
+/**
+ * The symbol palette's catalogue and the matrix/cases builder. Each symbol carries the
+ * package it needs, so inserting it can add the `\usepackage` line as well.
+ */
+
+export type SymbolCategory = 'greek' | 'relations' | 'arrows' | 'operators' | 'delimiters' | 'accents' | 'alphabets' | 'misc';
+
+export const SYMBOL_CATEGORIES: SymbolCategory[] = [
+  'greek', 'relations', 'arrows', 'operators', 'delimiters', 'accents', 'alphabets', 'misc',
+];
+
+export const SYMBOL_CATEGORY_LABELS: Record<SymbolCategory, string> = {
+  greek: 'Greek',
+  relations: 'Relations',
+  arrows: 'Arrows',
+  operators: 'Operators',
+  delimiters: 'Delimiters',
+  accents: 'Accents',
+  alphabets: 'Alphabets',
+  misc: 'Miscellaneous',
+};
+
+export interface MathSymbol {
+  // What is rendered in the palette; also what is inserted when there is no snippet.
+  latex: string;
+  name: string;
+  category: SymbolCategory;
+  // Monaco snippet for commands that take arguments; `$1`, `$2` are the tab stops and a
+  // literal `}` after a backslash is written `\\}`.
+  snippet?: string;
+  package?: string;
+  keywords?: string[];
+}
+
+const symbol = (
+  category: SymbolCategory,
+  latex: string,
+  name: string,
+  extra: Partial<Omit<MathSymbol, 'category' | 'latex' | 'name'>> = {}
+): MathSymbol => ({ category, latex, name, ...extra });
+
+const greek = (letters: string[], prefix = '') => letters.map(letter => symbol('greek', `\\${prefix}${letter}`, prefix ? `${prefix} ${letter}` : letter));
+
+const AMSSYMB = { package: 'amssymb' };
+const AMSMATH = { package: 'amsmath' };
+const MATHTOOLS = { package: 'mathtools' };
+
+export const MATH_SYMBOLS: MathSymbol[] = [
+  ...greek([
+    'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta', 'eta', 'theta', 'iota', 'kappa', 'lambda', 'mu', 'nu', 'xi',
+    'pi', 'rho', 'sigma', 'tau', 'upsilon', 'phi', 'chi', 'psi', 'omega',
+  ]),
+  ...greek(['epsilon', 'theta', 'pi', 'rho', 'sigma', 'phi'], 'var'),
+  symbol('greek', '\\varkappa', 'var kappa', AMSSYMB),
+  symbol('greek', '\\digamma', 'digamma', AMSSYMB),
+  ...['Gamma', 'Delta', 'Theta', 'Lambda', 'Xi', 'Pi', 'Sigma', 'Upsilon', 'Phi', 'Psi', 'Omega']
+    .map(letter => symbol('greek', `\\${letter}`, `capital ${letter.toLowerCase()}`)),
+
+  symbol('relations', '\\leq', 'less or equal', { keywords: ['le', '<='] }),
+  symbol('relations', '\\geq', 'greater or equal', { keywords: ['ge', '>='] }),
+  symbol('relations', '\\neq', 'not equal', { keywords: ['ne', '!='] }),
+  symbol('relations', '\\approx', 'approximately'),
+  symbol('relations', '\\equiv', 'equivalent'),
+  symbol('relations', '\\sim', 'similar'),
+  symbol('relations', '\\simeq', 'similar or equal'),
+  symbol('relations', '\\cong', 'congruent'),
+  symbol('relations', '\\propto', 'proportional'),
+  symbol('relations', '\\ll', 'much less'),
+  symbol('relations', '\\gg', 'much greater'),
+  symbol('relations', '\\in', 'element of'),
+  symbol('relations', '\\notin', 'not element of'),
+  symbol('relations', '\\ni', 'contains'),
+  symbol('relations', '\\subset', 'subset'),
+  symbol('relations', '\\subseteq', 'subset or equal'),
+  symbol('relations', '\\supset', 'superset'),
+  symbol('relations', '\\supseteq', 'superset or equal'),
+  symbol('relations', '\\subsetneq', 'proper subset', AMSSYMB),
+  symbol('relations', '\\mid', 'divides'),
+  symbol('relations', '\\parallel', 'parallel'),
+  symbol('relations', '\\perp', 'perpendicular'),
+  symbol('relations', '\\vdash', 'proves'),
+  symbol('relations', '\\models', 'models'),
+  symbol('relations', '\\prec', 'precedes'),
+  symbol('relations', '\\succ', 'succeeds'),
+  symbol('relations', '\\leqslant', 'slanted less or equal', AMSSYMB),
+  symbol('relations', '\\geqslant', 'slanted greater or equal', AMSSYMB),
+  symbol('relations', '\\lesssim', 'less or similar', AMSSYMB),
+  symbol('relations', '\\gtrsim', 'greater or similar', AMSSYMB),
+  symbol('relations', '\\coloneqq', 'defined as', { ...MATHTOOLS, keywords: [':='] }),
+
+  symbol('arrows', '\\to', 'to', { keywords: ['rightarrow', '->'] }),
+  symbol('arrows', '\\gets', 'gets', { keywords: ['leftarrow', '<-'] }),
+  symbol('arrows', '\\leftrightarrow', 'left right arrow'),
+  symbol('arrows', '\\Rightarrow', 'implies', { keywords: ['=>'] }),
+  symbol('arrows', '\\Leftarrow', 'is implied by'),
+  symbol('arrows', '\\Leftrightarrow', 'if and only if', { keywords: ['iff', '<=>'] }),
+  symbol('arrows', '\\implies', 'implies (long)', AMSMATH),
+  symbol('arrows', '\\iff', 'if and only if (long)'),
+  symbol('arrows', '\\mapsto', 'maps to'),
+  symbol('arrows', '\\longmapsto', 'long maps to'),
+  symbol('arrows', '\\longrightarrow', 'long right arrow'),
+  symbol('arrows', '\\longleftarrow', 'long left arrow'),
+  symbol('arrows', '\\hookrightarrow', 'hook right arrow', { keywords: ['injection'] }),
+  symbol('arrows', '\\twoheadrightarrow', 'two-headed right arrow', { ...AMSSYMB, keywords: ['surjection'] }),
+  symbol('arrows', '\\rightharpoonup', 'right harpoon'),
+  symbol('arrows', '\\rightleftharpoons', 'equilibrium'),
+  symbol('arrows', '\\uparrow', 'up arrow'),
+  symbol('arrows', '\\downarrow', 'down arrow'),
+  symbol('arrows', '\\nearrow', 'north-east arrow'),
+  symbol('arrows', '\\searrow', 'south-east arrow'),
+  symbol('arrows', '\\xrightarrow{f}', 'extensible right arrow', { ...AMSMATH, snippet: '\\xrightarrow{${1:f}}' }),
+  symbol('arrows', '\\xleftarrow{f}', 'extensible left arrow', { ...AMSMATH, snippet: '\\xleftarrow{${1:f}}' }),
+  symbol('arrows', '\\xmapsto{f}', 'extensible maps to', { ...MATHTOOLS, snippet: '\\xmapsto{${1:f}}' }),
+
+  symbol('operators', '\\pm', 'plus minus'),
+  symbol('operators', '\\mp', 'minus plus'),
+  symbol('operators', '\\times', 'times', { keywords: ['multiply', 'cross'] }),
+  symbol('operators', '\\div', 'divide'),
+  symbol('operators', '\\cdot', 'dot', { keywords: ['multiply'] }),
+  symbol('operators', '\\ast', 'asterisk'),
+  symbol('operators', '\\circ', 'compose'),
+  symbol('operators', '\\oplus', 'direct sum'),
+  symbol('operators', '\\otimes', 'tensor product'),
+  symbol('operators', '\\cup', 'union'),
+  symbol('operators', '\\cap', 'intersection'),
+  symbol('operators', '\\setminus', 'set minus'),
+  symbol('operators', '\\wedge', 'and', { keywords: ['land', 'wedge'] }),
+  symbol('operators', '\\vee', 'or', { keywords: ['lor'] }),
+  symbol('operators', '\\neg', 'not', { keywords: ['lnot'] }),
+  symbol('operators', '\\forall', 'for all'),
+  symbol('operators', '\\exists', 'exists'),
+  symbol('operators', '\\nabla', 'nabla', { keywords: ['gradient'] }),
+  symbol('operators', '\\partial', 'partial derivative'),
+  symbol('operators', '\\frac{a}{b}', 'fraction', { snippet: '\\frac{${1:a}}{${2:b}}' }),
+  symbol('operators', '\\dfrac{a}{b}', 'display fraction', { ...AMSMATH, snippet: '\\dfrac{${1:a}}{${2:b}}' }),
+  symbol('operators', '\\binom{n}{k}', 'binomial', { ...AMSMATH, snippet: '\\binom{${1:n}}{${2:k}}' }),
+  symbol('operators', '\\sqrt{x}', 'square root', { snippet: '\\sqrt{${1:x}}' }),
+  symbol('operators', '\\sqrt[n]{x}', 'n-th root', { snippet: '\\sqrt[${1:n}]{${2:x}}' }),
+  symbol('operators', '\\sum_{i=1}^{n}', 'sum', { snippet: '\\sum_{${1:i=1}}^{${2:n}}' }),
+  symbol('operators', '\\prod_{i=1}^{n}', 'product', { snippet: '\\prod_{${1:i=1}}^{${2:n}}' }),
+  symbol('operators', '\\int_{a}^{b}', 'integral', { snippet: '\\int_{${1:a}}^{${2:b}}' }),
+  symbol('operators', '\\iint', 'double integral', AMSMATH),
+  symbol('operators', '\\oint', 'contour integral'),
+  symbol('operators', '\\lim_{x \\to \\infty}', 'limit', { snippet: '\\lim_{${1:x \\to \\infty}}' }),
+  symbol('operators', '\\bigcup_{i}', 'big union', { snippet: '\\bigcup_{${1:i}}' }),
+  symbol('operators', '\\bigcap_{i}', 'big intersection', { snippet: '\\bigcap_{${1:i}}' }),
+  symbol('operators', '\\operatorname{op}', 'operator name', { ...AMSMATH, snippet: '\\operatorname{${1:op}}' }),
+
+  symbol('delimiters', '\\left( x \\right)', 'parentheses', { snippet: '\\left( $1 \\right)' }),
+  symbol('delimiters', '\\left[ x \\right]', 'brackets', { snippet: '\\left[ $1 \\right]' }),
+  symbol('delimiters', '\\left\\{ x \\right\\}', 'braces', { snippet: '\\left\\{ $1 \\right\\\\}' }),
+  symbol('delimiters', '\\left\\langle x \\right\\rangle', 'angle brackets', { snippet: '\\left\\langle $1 \\right\\rangle' }),
+  symbol('delimiters', '\\left| x \\right|', 'absolute value', { snippet: '\\left| $1 \\right|' }),
+  symbol('delimiters', '\\left\\| x \\right\\|', 'norm', { snippet: '\\left\\| $1 \\right\\|' }),
+  symbol('delimiters', '\\lfloor x \\rfloor', 'floor', { snippet: '\\lfloor $1 \\rfloor' }),
+  symbol('delimiters', '\\lceil x \\rceil', 'ceiling', { snippet: '\\lceil $1 \\rceil' }),
+  symbol('delimiters', '\\langle', 'left angle'),
+  symbol('delimiters', '\\rangle', 'right angle'),
+  symbol('delimiters', '\\{', 'left brace'),
+  symbol('delimiters', '\\}', 'right brace'),
+
+  symbol('accents', '\\hat{a}', 'hat', { snippet: '\\hat{${1:a}}' }),
+  symbol('accents', '\\widehat{ab}', 'wide hat', { snippet: '\\widehat{${1:ab}}' }),
+  symbol('accents', '\\bar{a}', 'bar', { snippet: '\\bar{${1:a}}' }),
+  symbol('accents', '\\overline{ab}', 'overline', { snippet: '\\overline{${1:ab}}' }),
+  symbol('accents', '\\underline{ab}', 'underline', { snippet: '\\underline{${1:ab}}' }),
+  symbol('accents', '\\tilde{a}', 'tilde', { snippet: '\\tilde{${1:a}}' }),
+  symbol('accents', '\\widetilde{ab}', 'wide tilde', { snippet: '\\widetilde{${1:ab}}' }),
+  symbol('accents', '\\vec{a}', 'vector', { snippet: '\\vec{${1:a}}' }),
+  symbol('accents', '\\overrightarrow{AB}', 'arrow over', { snippet: '\\overrightarrow{${1:AB}}' }),
+  symbol('accents', '\\dot{a}', 'dot', { snippet: '\\dot{${1:a}}', keywords: ['derivative'] }),
+  symbol('accents', '\\ddot{a}', 'double dot', { snippet: '\\ddot{${1:a}}' }),
+  symbol('accents', '\\acute{a}', 'acute', { snippet: '\\acute{${1:a}}' }),
+  symbol('accents', '\\grave{a}', 'grave', { snippet: '\\grave{${1:a}}' }),
+  symbol('accents', '\\breve{a}', 'breve', { snippet: '\\breve{${1:a}}' }),
+  symbol('accents', '\\check{a}', 'check', { snippet: '\\check{${1:a}}' }),
+  symbol('accents', '\\overbrace{ab}^{n}', 'overbrace', { snippet: '\\overbrace{${1:ab}}^{${2:n}}' }),
+  symbol('accents', '\\underbrace{ab}_{n}', 'underbrace', { snippet: '\\underbrace{${1:ab}}_{${2:n}}' }),
+
+  symbol('alphabets', '\\mathbb{R}', 'blackboard bold', { ...AMSSYMB, snippet: '\\mathbb{${1:R}}', keywords: ['reals', 'double struck'] }),
+  symbol('alphabets', '\\mathcal{A}', 'calligraphic', { snippet: '\\mathcal{${1:A}}' }),
+  symbol('alphabets', '\\mathscr{A}', 'script', { package: 'mathrsfs', snippet: '\\mathscr{${1:A}}' }),
+  symbol('alphabets', '\\mathfrak{g}', 'fraktur', { ...AMSSYMB, snippet: '\\mathfrak{${1:g}}' }),
+  symbol('alphabets', '\\mathbf{v}', 'bold', { snippet: '\\mathbf{${1:v}}' }),
+  symbol('alphabets', '\\boldsymbol{\\alpha}', 'bold symbol', { ...AMSMATH, snippet: '\\boldsymbol{${1:\\alpha}}' }),
+  symbol('alphabets', '\\mathrm{d}', 'roman', { snippet: '\\mathrm{${1:d}}' }),
+  symbol('alphabets', '\\mathit{x}', 'italic', { snippet: '\\mathit{${1:x}}' }),
+  symbol('alphabets', '\\mathsf{x}', 'sans serif', { snippet: '\\mathsf{${1:x}}' }),
+  symbol('alphabets', '\\mathtt{x}', 'typewriter', { snippet: '\\mathtt{${1:x}}' }),
+  symbol('alphabets', '\\text{text}', 'text', { ...AMSMATH, snippet: '\\text{${1:text}}' }),
+
+  symbol('misc', '\\infty', 'infinity'),
+  symbol('misc', '\\emptyset', 'empty set'),
+  symbol('misc', '\\varnothing', 'empty set (round)', AMSSYMB),
+  symbol('misc', '\\aleph', 'aleph'),
+  symbol('misc', '\\hbar', 'h bar', { keywords: ['planck'] }),
+  symbol('misc', '\\ell', 'script l'),
+  symbol('misc', '\\Re', 'real part'),
+  symbol('misc', '\\Im', 'imaginary part'),
+  symbol('misc', '\\angle', 'angle'),
+  symbol('misc', '\\triangle', 'triangle'),
+  symbol('misc', '\\therefore', 'therefore', AMSSYMB),
+  symbol('misc', '\\because', 'because', AMSSYMB),
+  symbol('misc', '\\ldots', 'low dots'),
+  symbol('misc', '\\cdots', 'centered dots'),
+  symbol('misc', '\\vdots', 'vertical dots'),
+  symbol('misc', '\\ddots', 'diagonal dots'),
+  symbol('misc', '\\prime', 'prime'),
+  symbol('misc', '\\dagger', 'dagger'),
+  symbol('misc', '\\checkmark', 'check mark', AMSSYMB),
+  symbol('misc', '\\square', 'square', { ...AMSSYMB, keywords: ['qed'] }),
+  symbol('misc', '\\quad', 'quad space', { keywords: ['space'] }),
+];
+
+/**
+ * Symbols matching every word of `query` (in the command, name or keywords), optionally
+ * within one category. An empty query lists the category, or everything.
+ */
+export const searchSymbols = (query: string, category?: SymbolCategory | null): MathSymbol[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return MATH_SYMBOLS.filter(entry => {
+    if (category && entry.category !== category) return false;
+    const haystack = [entry.latex, entry.name, ...(entry.keywords ?? [])].join(' ').toLowerCase();
+    return words.every(word => haystack.includes(word.replace(/^\\/, '')));
+  });
+};
+
+// Packages that load another one, so it need not be added as well.
+const PACKAGE_PROVIDERS: Record<string, string[]> = {
+  amsmath: ['mathtools'],
+  amsfonts: ['amssymb'],
+};
+
+export const loadsPackage = (content: string, packageName: string): boolean => (
+  [packageName, ...(PACKAGE_PROVIDERS[packageName] ?? [])].some(name => hasPackage(content, name))
+);
+
+export type MatrixEnvironment =
+  | 'pmatrix' | 'bmatrix' | 'Bmatrix' | 'vmatrix' | 'Vmatrix' | 'matrix' | 'smallmatrix' | 'array' | 'cases' | 'dcases';
+
+export const MATRIX_ENVIRONMENTS: Array<{ id: MatrixEnvironment; label: string; package?: string }> = [
+  { id: 'pmatrix', label: '( ) pmatrix', package: 'amsmath' },
+  { id: 'bmatrix', label: '[ ] bmatrix', package: 'amsmath' },
+  { id: 'Bmatrix', label: '{ } Bmatrix', package: 'amsmath' },
+  { id: 'vmatrix', label: '| | vmatrix', package: 'amsmath' },
+  { id: 'Vmatrix', label: '‖ ‖ Vmatrix', package: 'amsmath' },
+  { id: 'matrix', label: 'matrix (no delimiters)', package: 'amsmath' },
+  { id: 'smallmatrix', label: 'smallmatrix (inline)', package: 'amsmath' },
+  { id: 'array', label: 'array' },
+  { id: 'cases', label: 'cases', package: 'amsmath' },
+  { id: 'dcases', label: 'dcases (display style)', package: 'mathtools' },
+];
+
+export const isCasesEnvironment = (environment: MatrixEnvironment) => environment === 'cases' || environment === 'dcases';
+
+export interface MatrixSpec {
+  environment: MatrixEnvironment;
+  // Rows of cells; for cases, each row is a value and its condition.
+  cells: string[][];
+  // Column specification for `array`, e.g. `cc|c`; defaults to centred columns.
+  columns?: string;
+}
+
+/**
+ * LaTeX for a matrix or cases block, with `&` columns aligned and an indented body.
+ * Empty cells are kept empty.
+ */
+export const buildMatrix = ({ environment, cells, columns }: MatrixSpec, indent = '  '): string => {
+  const width = Math.max(1, ...cells.map(row => row.length));
+  const rows = cells.map(row => Array.from({ length: width }, (_, column) => (row[column] ?? '').trim()));
+  const widths = Array.from({ length: width }, (_, column) => Math.max(...rows.map(row => row[column].length)));
+  const body = rows.map((row, index) => {
+    const text = row
+      .map((cell, column) => (column < width - 1 ? cell.padEnd(widths[column]) : cell))
+      .join(' & ')
+      .trimEnd();
+    return `${indent}${text}${index < rows.length - 1 ? ' \\\\' : ''}`;
+  });
+  const begin = environment === 'array'
+    ? `\\begin{array}{${columns?.trim() || 'c'.repeat(width)}}`
+    : `\\begin{${environment}}`;
+  return [begin, ...body, `\\end{${environment}}`].join('\n');
+};
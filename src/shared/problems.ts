@@ -0,0 +1,146 @@
+import { LatexDiagnostic, LatexDiagnosticSeverity } from './latexDiagnostics';
+
+/**
+ * A diagnostic as listed in the Problems panel. Problems outlive the build that
+ * reported them until a complete build shows they are gone.
+ */
+export interface Problem extends LatexDiagnostic {
+  id: string;
+  // Build number that first reported the problem.
+  firstSeen: number;
+  // Carried over from an earlier build that the latest (failed) build did not get far enough to repeat.
+  stale?: boolean;
+}
+
+export interface ProblemFileGroup {
+  file: string | null;
+  problems: Problem[];
+}
+
+export interface ProblemFilter {
+  severities: LatexDiagnosticSeverity[];
+  // Categories from `getProblemCategory`; empty means all.
+  categories: string[];
+}
+
+export const DEFAULT_PROBLEM_FILTER: ProblemFilter = {
+  severities: ['error', 'warning', 'info'],
+  categories: [],
+};
+
+export const PROBLEM_CATEGORY_LABELS: Record<string, string> = {
+  'undefined-reference': 'Undefined references',
+  'undefined-citation': 'Undefined citations',
+  'duplicate-label': 'Duplicate labels',
+  'missing-file': 'Missing files',
+  'missing-package': 'Missing packages',
+  'undefined-control-sequence': 'Undefined commands',
+  'undefined-environment': 'Undefined environments',
+  box: 'Box warnings',
+  'font-warning': 'Font warnings',
+  'package-warning': 'Package warnings',
+  'package-error': 'Package errors',
+  'latex-warning': 'LaTeX warnings',
+  'latex-error': 'LaTeX errors',
+  'pdftex-warning': 'pdfTeX warnings',
+  bibliography: 'Bibliography',
+  other: 'Other',
+};
+
+const SEVERITY_ORDER: Record<LatexDiagnosticSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Filter category of a diagnostic code; overfull and underfull boxes share one.
+ */
+export const getProblemCategory = (code?: string): string => {
+  if (!code) return 'other';
+  if (code === 'overfull-box' || code === 'underfull-box') return 'box';
+  return code;
+};
+
+// Line numbers are left out so a problem keeps its identity while edits move it around.
+const problemKey = (diagnostic: LatexDiagnostic) => (
+  `${diagnostic.severity}|${(diagnostic.file || '').replace(/\\/g, '/').toLowerCase()}|${diagnostic.code || ''}|${diagnostic.message}`
+);
+
+/**
+ * Fold the diagnostics of build number `build` into the current problems.
+ * A complete build (one that produced a PDF) is authoritative. After a failed build,
+ * warnings from earlier builds that were not reported again stay listed as stale,
+ * since TeX stopped before it could report them.
+ */
+export const mergeBuildProblems = (
+  previous: Problem[],
+  diagnostics: LatexDiagnostic[],
+  build: number,
+  options: { complete: boolean }
+): Problem[] => {
+  const previousByKey = new Map<string, Problem[]>();
+  for (const problem of previous) {
+    const key = problemKey(problem);
+    previousByKey.set(key, [...(previousByKey.get(key) || []), problem]);
+  }
+
+  const counters = new Map<string, number>();
+  const merged: Problem[] = diagnostics.map(diagnostic => {
+    const key = problemKey(diagnostic);
+    const occurrence = counters.get(key) || 0;
+    counters.set(key, occurrence + 1);
+    const earlier = previousByKey.get(key)?.[occurrence];
+    return {
+      ...diagnostic,
+      id: `${key}#${occurrence}`,
+      firstSeen: earlier ? earlier.firstSeen : build,
+    };
+  });
+
+  if (!options.complete) {
+    for (const problem of previous) {
+      if (problem.severity === 'error') continue;
+      const key = problemKey(problem);
+      const occurrence = Number(problem.id.slice(problem.id.lastIndexOf('#') + 1));
+      if ((counters.get(key) || 0) > occurrence) continue;
+      merged.push({ ...problem, stale: true });
+    }
+  }
+
+  return merged;
+};
+
+export const filterProblems = (problems: Problem[], filter: ProblemFilter): Problem[] => (
+  problems.filter(problem => (
+    filter.severities.includes(problem.severity)
+    && (filter.categories.length === 0 || filter.categories.includes(getProblemCategory(problem.code)))
+  ))
+);
+
+/**
+ * Group problems by file: files with errors first, then by path; within a file by line.
+ * Problems without a file (e.g. from Biber) come last.
+ */
+export const groupProblemsByFile = (problems: Problem[]): ProblemFileGroup[] => {
+  const groups = new Map<string, ProblemFileGroup>();
+  for (const problem of problems) {
+    const key = problem.file ? problem.file.replace(/\\/g, '/').toLowerCase() : '';
+    const group = groups.get(key);
+    if (group) {
+      group.problems.push(problem);
+    } else {
+      groups.set(key, { file: problem.file || null, problems: [problem] });
+    }
+  }
+
+  const rank = (group: ProblemFileGroup) => (
+    group.file === null ? 2 : group.problems.some(problem => problem.severity === 'error') ? 0 : 1
+  );
+
+  return Array.from(groups.values())
+    .map(group => ({
+      ...group,
+      problems: [...group.problems].sort((a, b) => (
+        (a.line ?? Number.MAX_SAFE_INTEGER) - (b.line ?? Number.MAX_SAFE_INTEGER)
+        || SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+      )),
+    }))
+    .sort((a, b) => rank(a) - rank(b) || (a.file || '').localeCompare(b.file || ''));
+};
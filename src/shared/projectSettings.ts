@@ -0,0 +1,605 @@
+import { dump as yamlDump, load as yamlLoad } from 'js-yaml';
+import { DEFAULT_WORD_COUNT_OPTIONS, WordCountOptions } from './wordCount';
+import { DEFAULT_FORMAT_SETTINGS, FORMAT_BACKENDS, FormatBackend, FormatSettings } from './latexFormat';
+import { DEFAULT_LINT_SETTINGS, LINT_RULE_SETTINGS, LintRuleId, LintRuleSetting, LintSettings } from './latexLint';
+import {
+  BuildRecipe,
+  createRecipeStep,
+  DEFAULT_RECIPE,
+  describeBuildRecipe,
+  isBuiltinRecipe,
+  isLatexStep,
+  MAX_RECIPE_REPEAT,
+  RECIPE_DIRECTORIES,
+  RECIPE_TOOLS,
+  RecipeCondition,
+  RecipeDirectory,
+  RecipeStep,
+  RecipeTool,
+} from './buildRecipes';
+
+export const PROJECT_SETTINGS_FILENAME = '.openotex.yml';
+export const PROJECT_SETTINGS_VERSION = 1;
+
+export type LatexEngine = 'pdflatex' | 'xelatex' | 'lualatex';
+export const LATEX_ENGINES: LatexEngine[] = ['pdflatex', 'xelatex', 'lualatex'];
+export const LATEX_ENGINE_LABELS: Record<LatexEngine, string> = {
+  pdflatex: 'pdfLaTeX',
+  xelatex: 'XeLaTeX',
+  lualatex: 'LuaLaTeX',
+};
+
+export type BibliographyTool = 'auto' | 'biber' | 'bibtex' | 'none';
+export const BIBLIOGRAPHY_TOOLS: BibliographyTool[] = ['auto', 'biber', 'bibtex', 'none'];
+
+export interface SpellcheckSettings {
+  enabled: boolean;
+  // Hunspell dictionary name such as en_GB; null detects it from babel or polyglossia.
+  language: string | null;
+  // Project dictionary: words accepted in this project on top of the language dictionary.
+  words: string[];
+}
+
+/** Per-step limits in seconds. */
+export interface ProjectTimeouts {
+  compile: number;
+  bibliography: number;
+  index: number;
+}
+
+export interface ProjectSettings {
+  version: number;
+  // Root document relative to the project folder; null lets detection decide.
+  root: string | null;
+  engine: LatexEngine;
+  // Build output relative to the root document's folder; null keeps the default location.
+  outputDirectory: string | null;
+  engineArgs: string[];
+  bibliography: BibliographyTool;
+  // Name of the build recipe to run: a built-in or one of `recipes`.
+  recipe: string;
+  recipes: BuildRecipe[];
+  timeouts: ProjectTimeouts;
+  env: Record<string, string>;
+  autoCompile: boolean;
+  autoSave: boolean;
+  // Target word counts for the Structure Map, keyed by section title.
+  wordTargets: Record<string, number>;
+  // Which parts of the document count as words besides running text.
+  wordCount: WordCountOptions;
+  spellcheck: SpellcheckSettings;
+  // Severity of each lint rule (or off), and whether chktex runs as well.
+  lint: LintSettings;
+  // Source formatting, by the built-in formatter or latexindent.
+  format: FormatSettings;
+}
+
+export interface ProjectSettingsParseResult {
+  settings: ProjectSettings;
+  warnings: string[];
+}
+
+export const DEFAULT_PROJECT_TIMEOUTS: ProjectTimeouts = {
+  compile: 300,
+  bibliography: 120,
+  index: 60,
+};
+
+const MAX_TIMEOUT_SECONDS = 3600;
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export const createDefaultProjectSettings = (overrides: Partial<ProjectSettings> = {}): ProjectSettings => ({
+  version: PROJECT_SETTINGS_VERSION,
+  root: null,
+  engine: 'pdflatex',
+  outputDirectory: null,
+  engineArgs: [],
+  bibliography: 'auto',
+  recipe: DEFAULT_RECIPE,
+  recipes: [],
+  timeouts: { ...DEFAULT_PROJECT_TIMEOUTS },
+  env: {},
+  autoCompile: true,
+  autoSave: true,
+  wordTargets: {},
+  wordCount: { ...DEFAULT_WORD_COUNT_OPTIONS },
+  spellcheck: { enabled: true, language: null, words: [] },
+  lint: { ...DEFAULT_LINT_SETTINGS, rules: { ...DEFAULT_LINT_SETTINGS.rules } },
+  format: { ...DEFAULT_FORMAT_SETTINGS },
+  ...overrides,
+});
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => (
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+const optionalPath = (value: unknown, key: string, warnings: string[]): string | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') {
+    warnings.push(`"${key}" must be a path string.`);
+    return null;
+  }
+  return value.trim() || null;
+};
+
+const readBoolean = (value: unknown, key: string, fallback: boolean, warnings: string[]): boolean => {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'boolean') {
+    warnings.push(`"${key}" must be true or false.`);
+    return fallback;
+  }
+  return value;
+};
+
+const readTimeouts = (value: unknown, warnings: string[]): ProjectTimeouts => {
+  const timeouts = { ...DEFAULT_PROJECT_TIMEOUTS };
+  if (value === undefined || value === null) return timeouts;
+  if (!isPlainObject(value)) {
+    warnings.push('"timeouts" must be a mapping of step names to seconds.');
+    return timeouts;
+  }
+  for (const key of Object.keys(timeouts) as Array<keyof ProjectTimeouts>) {
+    const raw = value[key];
+    if (raw === undefined) continue;
+    if (typeof raw !== 'number' || !Number.isFinite(raw) || raw <= 0) {
+      warnings.push(`"timeouts.${key}" must be a positive number of seconds.`);
+      continue;
+    }
+    timeouts[key] = Math.min(raw, MAX_TIMEOUT_SECONDS);
+  }
+  return timeouts;
+};
+
+const readEnv = (value: unknown, warnings: string[]): Record<string, string> => {
+  if (value === undefined || value === null) return {};
+  if (!isPlainObject(value)) {
+    warnings.push('"env" must be a mapping of variable names to values.');
+    return {};
+  }
+  const env: Record<string, string> = {};
+  for (const [name, raw] of Object.entries(value)) {
+    if (!ENV_NAME_PATTERN.test(name)) {
+      warnings.push(`Ignoring invalid environment variable name "${name}".`);
+      continue;
+    }
+    if (typeof raw === 'string' || typeof raw === 'number' || typeof raw === 'boolean') {
+      env[name] = String(raw);
+    } else {
+      warnings.push(`Environment variable "${name}" must be a scalar value.`);
+    }
+  }
+  return env;
+};
+
+const readWordTargets = (value: unknown, warnings: string[]): Record<string, number> => {
+  if (value === undefined || value === null) return {};
+  if (!isPlainObject(value)) {
+    warnings.push('"wordTargets" must be a mapping of section titles to word counts.');
+    return {};
+  }
+  const targets: Record<string, number> = {};
+  for (const [title, raw] of Object.entries(value)) {
+    if (typeof raw !== 'number' || !Number.isFinite(raw) || raw <= 0) {
+      warnings.push(`Word target for "${title}" must be a positive number.`);
+      continue;
+    }
+    targets[title] = Math.round(raw);
+  }
+  return targets;
+};
+
+const readWordCountOptions = (value: unknown, warnings: string[]): WordCountOptions => {
+  const options = { ...DEFAULT_WORD_COUNT_OPTIONS };
+  if (value === undefined || value === null) return options;
+  if (!isPlainObject(value)) {
+    warnings.push('"wordCount" must be a mapping of categories to true or false.');
+    return options;
+  }
+  for (const key of Object.keys(options) as Array<keyof WordCountOptions>) {
+    options[key] = readBoolean(value[key], `wordCount.${key}`, options[key], warnings);
+  }
+  return options;
+};
+
+const readSpellcheck = (value: unknown, warnings: string[]): SpellcheckSettings => {
+  const spellcheck: SpellcheckSettings = { enabled: true, language: null, words: [] };
+  if (value === undefined || value === null) return spellcheck;
+  if (!isPlainObject(value)) {
+    warnings.push('"spellcheck" must be a mapping with enabled, language and words.');
+    return spellcheck;
+  }
+  spellcheck.enabled = readBoolean(value.enabled, 'spellcheck.enabled', spellcheck.enabled, warnings);
+  if (value.language !== undefined && value.language !== null && value.language !== '') {
+    if (typeof value.language === 'string' && /^[A-Za-z]{2,3}(?:[_-][A-Za-z0-9]+)*$/.test(value.language.trim())) {
+      spellcheck.language = value.language.trim();
+    } else {
+      warnings.push('"spellcheck.language" must be a dictionary name such as en_US.');
+    }
+  }
+  if (value.words !== undefined && value.words !== null) {
+    if (Array.isArray(value.words)) {
+      const words = value.words
+        .filter(word => typeof word === 'string' || typeof word === 'number')
+        .map(word => String(word).trim())
+        .filter(Boolean);
+      if (words.length < value.words.length) {
+        warnings.push('Ignoring entries of "spellcheck.words" that are not words.');
+      }
+      spellcheck.words = Array.from(new Set(words));
+    } else {
+      warnings.push('"spellcheck.words" must be a list of words.');
+    }
+  }
+  return spellcheck;
+};
+
+const readLint = (value: unknown, warnings: string[]): LintSettings => {
+  const lint: LintSettings = { ...DEFAULT_LINT_SETTINGS, rules: { ...DEFAULT_LINT_SETTINGS.rules } };
+  if (value === undefined || value === null) return lint;
+  if (!isPlainObject(value)) {
+    warnings.push('"lint" must be a mapping with rules and chktex.');
+    return lint;
+  }
+  lint.chktex = readBoolean(value.chktex, 'lint.chktex', lint.chktex, warnings);
+  if (value.rules === undefined || value.rules === null) return lint;
+  if (!isPlainObject(value.rules)) {
+    warnings.push('"lint.rules" must be a mapping of rule names to off, info, warning or error.');
+    return lint;
+  }
+  for (const [rule, setting] of Object.entries(value.rules)) {
+    if (!(rule in lint.rules)) {
+      warnings.push(`Unknown lint rule "${rule}".`);
+    } else if (LINT_RULE_SETTINGS.includes(setting as LintRuleSetting)) {
+      lint.rules[rule as LintRuleId] = setting as LintRuleSetting;
+    } else {
+      warnings.push(`"lint.rules.${rule}" must be one of ${LINT_RULE_SETTINGS.join(', ')}.`);
+    }
+  }
+  return lint;
+};
+
+const readInteger = (value: unknown, key: string, fallback: number, min: number, max: number, warnings: string[]): number => {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    warnings.push(`"${key}" must be a whole number from ${min} to ${max}.`);
+    return fallback;
+  }
+  return value;
+};
+
+const readFormat = (value: unknown, warnings: string[]): FormatSettings => {
+  const format = { ...DEFAULT_FORMAT_SETTINGS };
+  if (value === undefined || value === null) return format;
+  if (!isPlainObject(value)) {
+    warnings.push('"format" must be a mapping of formatter options.');
+    return format;
+  }
+  if (value.backend !== undefined) {
+    if (FORMAT_BACKENDS.includes(value.backend as FormatBackend)) {
+      format.backend = value.backend as FormatBackend;
+    } else {
+      warnings.push(`Unknown formatter "${String(value.backend)}"; expected one of ${FORMAT_BACKENDS.join(', ')}.`);
+    }
+  }
+  format.indent = readInteger(value.indent, 'format.indent', format.indent, 0, 8, warnings);
+  format.lineWidth = readInteger(value.lineWidth, 'format.lineWidth', format.lineWidth, 0, 500, warnings);
+  format.maxBlankLines = readInteger(value.maxBlankLines, 'format.maxBlankLines', format.maxBlankLines, 1, 10, warnings);
+  format.alignTables = readBoolean(value.alignTables, 'format.alignTables', format.alignTables, warnings);
+  format.oneSentencePerLine = readBoolean(value.oneSentencePerLine, 'format.oneSentencePerLine', format.oneSentencePerLine, warnings);
+  format.formatOnSave = readBoolean(value.formatOnSave, 'format.formatOnSave', format.formatOnSave, warnings);
+  return format;
+};
+
+const readStringList = (value: unknown, key: string, warnings: string[]): string[] | null => {
+  if (typeof value === 'string') return splitArguments(value);
+  if (Array.isArray(value) && value.every(item => typeof item === 'string' || typeof item === 'number')) {
+    return value.map(item => String(item).trim()).filter(Boolean);
+  }
+  warnings.push(`"${key}" must be a list of strings.`);
+  return null;
+};
+
+const readRecipeCondition = (value: unknown, key: string, warnings: string[]): RecipeCondition | null => {
+  if (value === undefined || value === null) return null;
+  if (!isPlainObject(value)) {
+    warnings.push(`"${key}" must be a mapping with exists, missing, contains or rerun.`);
+    return null;
+  }
+  const condition: RecipeCondition = {};
+  for (const [name, raw] of Object.entries(value)) {
+    if ((name === 'exists' || name === 'missing') && typeof raw === 'string' && raw.trim()) {
+      condition[name] = raw.trim();
+    } else if (name === 'contains' && isPlainObject(raw) && typeof raw.file === 'string' && typeof raw.text === 'string') {
+      condition.contains = { file: raw.file.trim(), text: raw.text };
+    } else if (name === 'rerun' && typeof raw === 'boolean') {
+      condition.rerun = raw;
+    } else if (['exists', 'missing', 'contains', 'rerun'].includes(name)) {
+      warnings.push(`"${key}.${name}" has the wrong form; exists and missing take a path, contains a file and text, rerun true or false.`);
+    } else {
+      warnings.push(`Unknown condition "${key}.${name}".`);
+    }
+  }
+  return Object.keys(condition).length > 0 ? condition : null;
+};
+
+const readRecipeStep = (value: unknown, key: string, warnings: string[]): RecipeStep | null => {
+  if (!isPlainObject(value)) {
+    warnings.push(`"${key}" must be a mapping with a tool.`);
+    return null;
+  }
+  if (!RECIPE_TOOLS.includes(value.tool as RecipeTool)) {
+    warnings.push(`Unknown tool "${String(value.tool)}" in "${key}"; expected one of ${RECIPE_TOOLS.join(', ')}.`);
+    return null;
+  }
+  const step = createRecipeStep(value.tool as RecipeTool);
+  if (value.args !== undefined && value.args !== null) {
+    step.args = readStringList(value.args, `${key}.args`, warnings) ?? [];
+  }
+  if (value.cwd !== undefined) {
+    if (RECIPE_DIRECTORIES.includes(value.cwd as RecipeDirectory)) {
+      step.cwd = value.cwd as RecipeDirectory;
+    } else {
+      warnings.push(`"${key}.cwd" must be one of ${RECIPE_DIRECTORIES.join(', ')}.`);
+    }
+  }
+  step.when = readRecipeCondition(value.when, `${key}.when`, warnings);
+  step.repeat = readInteger(value.repeat, `${key}.repeat`, step.repeat, 1, MAX_RECIPE_REPEAT, warnings);
+  return step;
+};
+
+const readRecipes = (value: unknown, warnings: string[]): BuildRecipe[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    warnings.push('"recipes" must be a list of recipes, each with a name and steps.');
+    return [];
+  }
+  const recipes: BuildRecipe[] = [];
+  value.forEach((raw, index) => {
+    const name = isPlainObject(raw) && typeof raw.name === 'string' ? raw.name.trim() : '';
+    if (!isPlainObject(raw) || !name) {
+      warnings.push(`Recipe ${index + 1} has no name.`);
+      return;
+    }
+    if (isBuiltinRecipe(name) || recipes.some(recipe => recipe.name === name)) {
+      warnings.push(`The recipe name "${name}" is already taken.`);
+      return;
+    }
+    if (!Array.isArray(raw.steps)) {
+      warnings.push(`Recipe "${name}" must have a list of steps.`);
+      return;
+    }
+    const parsed = raw.steps
+      .map((step, stepIndex) => readRecipeStep(step, `recipes.${name}.steps[${stepIndex}]`, warnings))
+      .filter((step): step is RecipeStep => step !== null);
+    if (!parsed.some(isLatexStep)) {
+      warnings.push(`Recipe "${name}" needs an engine or latexmk step.`);
+      return;
+    }
+    recipes.push({ name, steps: parsed });
+  });
+  return recipes;
+};
+
+/**
+ * Validate an already-parsed settings object, falling back to defaults for anything unusable.
+ */
+export const normalizeProjectSettings = (
+  raw: unknown,
+  defaults: ProjectSettings = createDefaultProjectSettings()
+): ProjectSettingsParseResult => {
+  const warnings: string[] = [];
+  if (raw === undefined || raw === null) {
+    return { settings: { ...defaults }, warnings };
+  }
+  if (!isPlainObject(raw)) {
+    return { settings: { ...defaults }, warnings: ['Project settings must be a YAML mapping.'] };
+  }
+
+  const version = typeof raw.version === 'number' ? raw.version : PROJECT_SETTINGS_VERSION;
+  if (version > PROJECT_SETTINGS_VERSION) {
+    warnings.push(`Settings were written by a newer version (format ${version}); unknown options are ignored.`);
+  }
+
+  let engine = defaults.engine;
+  if (raw.engine !== undefined) {
+    if (LATEX_ENGINES.includes(raw.engine as LatexEngine)) {
+      engine = raw.engine as LatexEngine;
+    } else {
+      warnings.push(`Unknown engine "${String(raw.engine)}"; expected one of ${LATEX_ENGINES.join(', ')}.`);
+    }
+  }
+
+  let bibliography = defaults.bibliography;
+  if (raw.bibliography !== undefined) {
+    if (BIBLIOGRAPHY_TOOLS.includes(raw.bibliography as BibliographyTool)) {
+      bibliography = raw.bibliography as BibliographyTool;
+    } else {
+      warnings.push(`Unknown bibliography tool "${String(raw.bibliography)}"; expected one of ${BIBLIOGRAPHY_TOOLS.join(', ')}.`);
+    }
+  }
+
+  const recipes = readRecipes(raw.recipes, warnings);
+  let recipe = defaults.recipe;
+  if (raw.recipe !== undefined && raw.recipe !== null) {
+    const name = String(raw.recipe).trim();
+    if (isBuiltinRecipe(name) || recipes.some(item => item.name === name)) {
+      recipe = name;
+    } else {
+      warnings.push(`Unknown recipe "${name}"; using ${DEFAULT_RECIPE}.`);
+      recipe = DEFAULT_RECIPE;
+    }
+  }
+
+  let engineArgs = defaults.engineArgs;
+  if (raw.engineArgs !== undefined && raw.engineArgs !== null) {
+    if (typeof raw.engineArgs === 'string') {
+      engineArgs = splitArguments(raw.engineArgs);
+    } else if (Array.isArray(raw.engineArgs) && raw.engineArgs.every(arg => typeof arg === 'string')) {
+      engineArgs = (raw.engineArgs as string[]).map(arg => arg.trim()).filter(Boolean);
+    } else {
+      warnings.push('"engineArgs" must be a list of strings.');
+    }
+  }
+
+  return {
+    settings: {
+      version: PROJECT_SETTINGS_VERSION,
+      root: optionalPath(raw.root, 'root', warnings),
+      engine,
+      outputDirectory: optionalPath(raw.outputDirectory, 'outputDirectory', warnings),
+      engineArgs,
+      bibliography,
+      recipe,
+      recipes,
+      timeouts: readTimeouts(raw.timeouts, warnings),
+      env: readEnv(raw.env, warnings),
+      autoCompile: readBoolean(raw.autoCompile, 'autoCompile', defaults.autoCompile, warnings),
+      autoSave: readBoolean(raw.autoSave, 'autoSave', defaults.autoSave, warnings),
+      wordTargets: readWordTargets(raw.wordTargets, warnings),
+      wordCount: readWordCountOptions(raw.wordCount, warnings),
+      spellcheck: readSpellcheck(raw.spellcheck, warnings),
+      lint: readLint(raw.lint, warnings),
+      format: readFormat(raw.format, warnings),
+    },
+    warnings,
+  };
+};
+
+export const parseProjectSettings = (
+  text: string,
+  defaults: ProjectSettings = createDefaultProjectSettings()
+): ProjectSettingsParseResult => {
+  let raw: unknown;
+  try {
+    raw = yamlLoad(text || '');
+  } catch (error) {
+    return {
+      settings: { ...defaults },
+      warnings: [`Invalid YAML in ${PROJECT_SETTINGS_FILENAME}: ${(error as Error).message}`],
+    };
+  }
+  return normalizeProjectSettings(raw, defaults);
+};
+
+// Defaults are left out so the file stays short.
+const serializeRecipes = (recipes: BuildRecipe[]) => recipes.map(recipe => ({
+  name: recipe.name,
+  steps: recipe.steps.map(step => ({
+    tool: step.tool,
+    ...(step.args.length > 0 ? { args: step.args } : {}),
+    ...(step.cwd !== 'output' ? { cwd: step.cwd } : {}),
+    ...(step.when ? { when: step.when } : {}),
+    ...(step.repeat !== 1 ? { repeat: step.repeat } : {}),
+  })),
+}));
+
+/**
+ * The `recipes` list on its own as YAML, for editing outside the settings file.
+ */
+export const formatBuildRecipes = (recipes: BuildRecipe[]): string => (
+  recipes.length > 0 ? yamlDump(serializeRecipes(recipes)) : ''
+);
+
+export const parseBuildRecipes = (text: string): { recipes: BuildRecipe[]; warnings: string[] } => {
+  const warnings: string[] = [];
+  try {
+    return { recipes: readRecipes(yamlLoad(text || ''), warnings), warnings };
+  } catch (error) {
+    return { recipes: [], warnings: [`Invalid YAML: ${(error as Error).message}`] };
+  }
+};
+
+export const serializeProjectSettings = (settings: ProjectSettings): string => {
+  const payload: Record<string, unknown> = {
+    version: PROJECT_SETTINGS_VERSION,
+    root: settings.root,
+    engine: settings.engine,
+    outputDirectory: settings.outputDirectory,
+    engineArgs: settings.engineArgs,
+    bibliography: settings.bibliography,
+    recipe: settings.recipe,
+    recipes: serializeRecipes(settings.recipes),
+    timeouts: settings.timeouts,
+    env: settings.env,
+    autoCompile: settings.autoCompile,
+    autoSave: settings.autoSave,
+    wordTargets: settings.wordTargets,
+    wordCount: settings.wordCount,
+    spellcheck: settings.spellcheck,
+    lint: settings.lint,
+    format: settings.format,
+  };
+  return `# Openotex project settings\n${yamlDump(payload, { skipInvalid: true })}`;
+};
+
+/**
+ * The settings that let a project run programs of its choosing: extra engine arguments
+ * (`-shell-escape`), environment variables (`PATH`) and the selected project recipe. A build
+ * uses them only once the user trusts them. Null when the settings have none.
+ */
+export const describeProjectCommands = (settings: ProjectSettings): string[] | null => {
+  const lines: string[] = [];
+  if (settings.engineArgs.length > 0) {
+    lines.push(`Engine arguments: ${joinArguments(settings.engineArgs)}`);
+  }
+  const envNames = Object.keys(settings.env);
+  if (envNames.length > 0) {
+    lines.push(`Environment: ${envNames.map(name => `${name}=${settings.env[name]}`).join(', ')}`);
+  }
+  const recipe = isBuiltinRecipe(settings.recipe)
+    ? undefined
+    : settings.recipes.find(candidate => candidate.name === settings.recipe);
+  if (recipe) {
+    lines.push(describeBuildRecipe(recipe));
+  }
+  return lines.length > 0 ? lines : null;
+};
+
+/** The settings with the project's engine arguments, environment and recipe left out. */
+export const withoutProjectCommands = (settings: ProjectSettings): ProjectSettings => ({
+  ...settings,
+  engineArgs: [],
+  env: {},
+  recipe: isBuiltinRecipe(settings.recipe) ? settings.recipe : DEFAULT_RECIPE,
+  recipes: [],
+});
+
+/**
+ * Split a command-line style string into arguments, honouring single and double quotes.
+ */
+export const splitArguments = (value: string): string[] => {
+  const args: string[] = [];
+  let current = '';
+  let quote: '"' | "'" | null = null;
+  let hasToken = false;
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken) {
+        args.push(current);
+        current = '';
+        hasToken = false;
+      }
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+  if (hasToken) {
+    args.push(current);
+  }
+  return args;
+};
+
+export const joinArguments = (args: string[]): string => (
+  args.map(arg => (/[\s"']/.test(arg) || arg === '' ? `"${arg.replace(/"/g, '')}"` : arg)).join(' ')
+);
@@ -0,0 +1,261 @@
+export type RootDocumentReason =
+  | 'magic-comment'
+  | 'subfiles'
+  | 'self'
+  | 'included-by'
+  | 'project-default'
+  | 'fallback';
+
+export interface RootDocumentResult {
+  rootPath: string;
+  reason: RootDocumentReason;
+}
+
+export interface PathHelpers {
+  dirname: (p: string) => string;
+  join: (...parts: string[]) => string;
+  extname: (p: string) => string;
+}
+
+export interface RootDocumentHost {
+  path: PathHelpers;
+  readFile: (filePath: string) => Promise<string | null>;
+  listTexFiles: (projectRoot: string) => Promise<string[]>;
+}
+
+export interface RootDocumentOptions {
+  projectRoot?: string;
+  // Explicit per-project root, relative to projectRoot or absolute.
+  defaultRoot?: string;
+}
+
+export const DEFAULT_ROOT_FILENAMES = ['main.tex', 'thesis.tex', 'paper.tex', 'document.tex'];
+
+// Only leading lines are checked, matching TeXShop/TeXstudio behaviour.
+const MAGIC_COMMENT_SCAN_LINES = 30;
+
+const INCLUDE_COMMANDS: Array<{ pattern: RegExp; hasDirectory: boolean }> = [
+  { pattern: /\\(?:input|include|subfile|subfileinclude|InputIfFileExists)\s*\{([^}]+)\}/g, hasDirectory: false },
+  { pattern: /\\(?:import|subimport|inputfrom|subinputfrom|includefrom|subincludefrom)\*?\s*\{([^}]*)\}\s*\{([^}]+)\}/g, hasDirectory: true },
+];
+
+const normalizeSlashes = (p: string) => p.replace(/\\/g, '/');
+
+export const samePath = (a: string, b: string) => (
+  normalizeSlashes(a).toLowerCase() === normalizeSlashes(b).toLowerCase()
+);
+
+/**
+ * Remove `%` comments while keeping escaped percent signs and line numbers intact.
+ */
+export const stripLatexComments = (content: string): string => (
+  content
+    .split('\n')
+    .map(line => line.replace(/(^|[^\\])((?:\\\\)*)%.*$/, '$1$2'))
+    .join('\n')
+);
+
+const withTexExtension = (target: string, pathHelpers: PathHelpers) => (
+  pathHelpers.extname(target) ? target : `${target}.tex`
+);
+
+const resolveRelative = (baseDir: string, target: string, pathHelpers: PathHelpers) => {
+  const cleaned = target.trim().replace(/^"(.*)"$/, '$1');
+  if (/^([a-zA-Z]:[\\/]|[\\/])/.test(cleaned)) {
+    return cleaned;
+  }
+  return pathHelpers.join(baseDir, cleaned);
+};
+
+/**
+ * Read a `% !TEX root = ...` (or `%!TeX root`) magic comment from the top of a file.
+ */
+export const findMagicRootComment = (content: string): string | null => {
+  const lines = content.split(/\r?\n/).slice(0, MAGIC_COMMENT_SCAN_LINES);
+  for (const line of lines) {
+    const match = line.match(/^\s*%\s*!\s*tex\s+root\s*=\s*(.+?)\s*$/i);
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+};
+
+export const hasDocumentClass = (content: string): boolean => (
+  /\\documentclass\s*(\[[^\]]*\])?\s*\{[^}]+\}/.test(stripLatexComments(content))
+);
+
+/**
+ * `\documentclass[../main.tex]{subfiles}` names its parent document in the option.
+ */
+export const findSubfilesParent = (content: string): string | null => {
+  const match = stripLatexComments(content).match(/\\documentclass\s*\[([^\]]+)\]\s*\{subfiles\}/);
+  return match ? match[1].trim() : null;
+};
+
+/**
+ * List files pulled in with `\input`, `\include`, `\subfile` and the `import` package commands,
+ * resolved against the including file's directory. TeX resolves plain `\input` against the
+ * directory of the compiled document, so when `rootDir` is given those are listed for both.
+ */
+export const findIncludedFiles = (
+  content: string,
+  fromDir: string,
+  pathHelpers: PathHelpers,
+  rootDir?: string
+): string[] => {
+  const source = stripLatexComments(content);
+  const results: string[] = [];
+  for (const { pattern, hasDirectory } of INCLUDE_COMMANDS) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source)) !== null) {
+      const target = hasDirectory ? pathHelpers.join(match[1], match[2]) : match[1];
+      if (!target.trim() || target.includes('#')) continue;
+      const resolved = withTexExtension(resolveRelative(fromDir, target, pathHelpers), pathHelpers);
+      results.push(resolved);
+      if (!hasDirectory && rootDir && !samePath(rootDir, fromDir)) {
+        const fromRoot = withTexExtension(resolveRelative(rootDir, target, pathHelpers), pathHelpers);
+        if (!samePath(fromRoot, resolved)) {
+          results.push(fromRoot);
+        }
+      }
+    }
+  }
+  return results;
+};
+
+const findProjectDefault = async (
+  host: RootDocumentHost,
+  options: RootDocumentOptions,
+  texFiles: string[],
+  contents: Map<string, string | null>
+): Promise<string | null> => {
+  const { projectRoot, defaultRoot } = options;
+  const readCached = async (filePath: string) => {
+    if (!contents.has(filePath)) {
+      contents.set(filePath, await host.readFile(filePath));
+    }
+    return contents.get(filePath) ?? null;
+  };
+
+  if (defaultRoot) {
+    const candidate = projectRoot ? resolveRelative(projectRoot, defaultRoot, host.path) : defaultRoot;
+    if ((await readCached(candidate)) !== null) {
+      return candidate;
+    }
+  }
+  if (!projectRoot) {
+    return null;
+  }
+
+  for (const name of DEFAULT_ROOT_FILENAMES) {
+    const candidate = host.path.join(projectRoot, name);
+    const content = await readCached(candidate);
+    if (content !== null && hasDocumentClass(content)) {
+      return candidate;
+    }
+  }
+
+  const topLevel = texFiles.filter(file => samePath(host.path.dirname(file), projectRoot));
+  const topLevelRoots: string[] = [];
+  for (const file of topLevel) {
+    const content = await readCached(file);
+    if (content !== null && hasDocumentClass(content) && !findSubfilesParent(content)) {
+      topLevelRoots.push(file);
+    }
+  }
+  return topLevelRoots.length === 1 ? topLevelRoots[0] : null;
+};
+
+/**
+ * Work out which document has to be compiled when `filePath` is being edited.
+ *
+ * Order: magic comment, subfiles parent, the file itself when it has a
+ * `\documentclass`, the nearest document that includes it, the per-project default.
+ */
+export const resolveRootDocument = async (
+  filePath: string,
+  host: RootDocumentHost,
+  options: RootDocumentOptions = {}
+): Promise<RootDocumentResult> => {
+  const visited = new Set<string>();
+  const contents = new Map<string, string | null>();
+  let current = filePath;
+  let hopReason: RootDocumentReason | null = null;
+
+  // Follow magic comments and subfiles parents, which may chain.
+  for (let depth = 0; depth < 10; depth++) {
+    const key = normalizeSlashes(current).toLowerCase();
+    if (visited.has(key)) break;
+    visited.add(key);
+
+    const content = await host.readFile(current);
+    contents.set(current, content);
+    if (content === null) break;
+
+    const magic = findMagicRootComment(content);
+    const subfilesParent = magic ? null : findSubfilesParent(content);
+    const target = magic ?? subfilesParent;
+    if (target) {
+      hopReason = hopReason ?? (magic ? 'magic-comment' : 'subfiles');
+      current = withTexExtension(resolveRelative(host.path.dirname(current), target, host.path), host.path);
+      continue;
+    }
+    break;
+  }
+
+  const currentContent = contents.get(current);
+  if (currentContent != null) {
+    if (hopReason && !samePath(current, filePath)) {
+      return { rootPath: current, reason: hopReason };
+    }
+    if (hasDocumentClass(currentContent)) {
+      return { rootPath: current, reason: 'self' };
+    }
+  }
+
+  const texFiles = options.projectRoot ? await host.listTexFiles(options.projectRoot) : [];
+  const projectDefault = await findProjectDefault(host, options, texFiles, contents);
+
+  // Build a reverse include graph and walk back towards a file with \documentclass.
+  const includedBy = new Map<string, string[]>();
+  for (const file of texFiles) {
+    const content = contents.has(file) ? contents.get(file) ?? null : await host.readFile(file);
+    contents.set(file, content);
+    if (!content) continue;
+    for (const included of findIncludedFiles(content, host.path.dirname(file), host.path, options.projectRoot)) {
+      const key = normalizeSlashes(included).toLowerCase();
+      const list = includedBy.get(key) ?? [];
+      list.push(file);
+      includedBy.set(key, list);
+    }
+  }
+
+  const queue = [filePath];
+  const seen = new Set<string>([normalizeSlashes(filePath).toLowerCase()]);
+  const candidates: string[] = [];
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    for (const parent of includedBy.get(normalizeSlashes(next).toLowerCase()) ?? []) {
+      const key = normalizeSlashes(parent).toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const parentContent = contents.get(parent);
+      if (parentContent && hasDocumentClass(parentContent) && !findSubfilesParent(parentContent)) {
+        candidates.push(parent);
+      } else {
+        queue.push(parent);
+      }
+    }
+  }
+
+  if (candidates.length > 0) {
+    const preferred = projectDefault ? candidates.find(candidate => samePath(candidate, projectDefault)) : undefined;
+    return { rootPath: preferred ?? candidates[0], reason: 'included-by' };
+  }
+  if (projectDefault) {
+    return { rootPath: projectDefault, reason: 'project-default' };
+  }
+  return { rootPath: filePath, reason: 'fallback' };
+};
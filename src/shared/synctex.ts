@@ -0,0 +1,262 @@
+/**
+ * Reader for SyncTeX files (the uncompressed text of `<job>.synctex.gz`).
+ *
+ * Records in the Content section look like `(1,12:4736286,49855201:25690112,786432,262144`:
+ * a type character, input tag, line (and optionally column), then position and size in
+ * scaled points. Results are reported in PDF points measured from the top left of the page,
+ * matching what `synctex view` / `synctex edit` print.
+ */
+
+export type SyncTexRect = { page: number; h: number; v: number; W: number; H: number };
+
+export interface SyncTexSourceLocation {
+  input: string;
+  line: number;
+  column: number;
+}
+
+type SyncTexNodeKind = 'vbox' | 'hbox' | 'void-vbox' | 'void-hbox' | 'current' | 'kern' | 'glue' | 'math';
+
+interface SyncTexNode {
+  kind: SyncTexNodeKind;
+  tag: number;
+  line: number;
+  column: number;
+  page: number;
+  h: number;
+  v: number;
+  width: number;
+  height: number;
+  depth: number;
+  // Index of the enclosing box in `SyncTexData.nodes`, or -1 at page level.
+  parent: number;
+}
+
+export interface SyncTexData {
+  inputs: Map<number, string>;
+  nodes: SyncTexNode[];
+  // Node indices per page, in file order.
+  pages: Map<number, number[]>;
+}
+
+const NODE_KINDS: Record<string, SyncTexNodeKind> = {
+  '[': 'vbox',
+  '(': 'hbox',
+  v: 'void-vbox',
+  h: 'void-hbox',
+  x: 'current',
+  k: 'kern',
+  g: 'glue',
+  $: 'math',
+};
+
+const NODE_PATTERN = /^([[(vhxkg$])(\d+),(-?\d+)(?:,(-?\d+))?:(-?\d+),(-?\d+)(?::(-?\d+)(?:,(-?\d+),(-?\d+))?)?/;
+
+const isBox = (kind: SyncTexNodeKind) => kind === 'hbox' || kind === 'void-hbox' || kind === 'vbox' || kind === 'void-vbox';
+
+// 1 sp = 1/65536 pt and 1 bp = 72.27/72 pt.
+const SP_PER_BP = 65781.76;
+
+export const parseSyncTex = (text: string): SyncTexData => {
+  const inputs = new Map<number, string>();
+  const nodes: SyncTexNode[] = [];
+  const pages = new Map<number, number[]>();
+  const settings = { unit: 1, magnification: 1000, xOffset: 0, yOffset: 0 };
+
+  let page = 0;
+  let inContent = false;
+  const openBoxes: number[] = [];
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.replace(/\r$/, '');
+    if (!line) continue;
+
+    // Inputs are declared in the preamble and again whenever TeX opens a new file.
+    const input = line.match(/^Input:(\d+):(.*)$/);
+    if (input) {
+      inputs.set(Number(input[1]), input[2]);
+      continue;
+    }
+
+    if (!inContent) {
+      const setting = line.match(/^(Unit|Magnification|X Offset|Y Offset):(-?[\d.]+)/);
+      if (setting) {
+        const value = Number(setting[2]);
+        if (setting[1] === 'Unit') settings.unit = value || 1;
+        else if (setting[1] === 'Magnification') settings.magnification = value || 1000;
+        else if (setting[1] === 'X Offset') settings.xOffset = value;
+        else settings.yOffset = value;
+      } else if (line.startsWith('Content:')) {
+        inContent = true;
+      }
+      continue;
+    }
+
+    if (line.startsWith('Postamble:')) {
+      // The post scriptum may still adjust magnification and offsets.
+      inContent = false;
+      continue;
+    }
+
+    const first = line[0];
+    if (first === '{') {
+      page = Number(line.slice(1));
+      openBoxes.length = 0;
+      if (!pages.has(page)) pages.set(page, []);
+      continue;
+    }
+    if (first === '}') {
+      openBoxes.length = 0;
+      continue;
+    }
+    if (first === ')' || first === ']') {
+      openBoxes.pop();
+      continue;
+    }
+
+    const match = line.match(NODE_PATTERN);
+    if (!match || page === 0) continue;
+    const kind = NODE_KINDS[match[1]];
+    const node: SyncTexNode = {
+      kind,
+      tag: Number(match[2]),
+      line: Number(match[3]),
+      column: match[4] !== undefined ? Number(match[4]) : -1,
+      page,
+      h: Number(match[5]),
+      v: Number(match[6]),
+      width: match[7] !== undefined ? Number(match[7]) : 0,
+      height: match[8] !== undefined ? Number(match[8]) : 0,
+      depth: match[9] !== undefined ? Number(match[9]) : 0,
+      parent: openBoxes.length > 0 ? openBoxes[openBoxes.length - 1] : -1,
+    };
+    const index = nodes.push(node) - 1;
+    pages.get(page)!.push(index);
+    if (kind === 'hbox' || kind === 'vbox') {
+      openBoxes.push(index);
+    }
+  }
+
+  const scale = settings.unit * (settings.magnification / 1000) / SP_PER_BP;
+  const xOffset = settings.xOffset * settings.unit / SP_PER_BP;
+  const yOffset = settings.yOffset * settings.unit / SP_PER_BP;
+  for (const node of nodes) {
+    node.h = node.h * scale + xOffset;
+    node.v = node.v * scale + yOffset;
+    node.width = Math.abs(node.width) * scale;
+    node.height = node.height * scale;
+    node.depth = node.depth * scale;
+  }
+
+  return { inputs, nodes, pages };
+};
+
+const nodeRect = (node: SyncTexNode): SyncTexRect => ({
+  page: node.page,
+  h: node.h,
+  // Cover the descenders as well: the rectangle's bottom is the box's depth below the baseline.
+  v: node.v + node.depth,
+  W: node.width,
+  H: node.height + node.depth,
+});
+
+const enclosingHbox = (data: SyncTexData, index: number): SyncTexNode | null => {
+  let current = index;
+  while (current >= 0) {
+    const node = data.nodes[current];
+    if (node.kind === 'hbox' || node.kind === 'void-hbox') return node;
+    current = node.parent;
+  }
+  return null;
+};
+
+/**
+ * PDF rectangles for a source line. `matchesInput` decides which Input entries are the
+ * requested file. When TeX recorded nothing for the exact line, the closest following
+ * line is used, then the closest preceding one.
+ */
+export const syncTexForward = (
+  data: SyncTexData,
+  matchesInput: (inputPath: string) => boolean,
+  line: number
+): SyncTexRect[] => {
+  const tags = new Set<number>();
+  data.inputs.forEach((inputPath, tag) => {
+    if (matchesInput(inputPath)) tags.add(tag);
+  });
+  if (tags.size === 0) return [];
+
+  const linesWithNodes = new Set<number>();
+  data.nodes.forEach(node => {
+    if (tags.has(node.tag) && node.line > 0) linesWithNodes.add(node.line);
+  });
+  if (linesWithNodes.size === 0) return [];
+
+  let target = -1;
+  if (linesWithNodes.has(line)) {
+    target = line;
+  } else {
+    const sorted = Array.from(linesWithNodes).sort((a, b) => a - b);
+    target = sorted.find(candidate => candidate > line) ?? sorted[sorted.length - 1];
+  }
+
+  const rects: SyncTexRect[] = [];
+  const seen = new Set<SyncTexNode>();
+  data.nodes.forEach((node, index) => {
+    if (!tags.has(node.tag) || node.line !== target) return;
+    const box = enclosingHbox(data, index);
+    if (!box || seen.has(box) || box.width === 0) return;
+    seen.add(box);
+    rects.push(nodeRect(box));
+  });
+  return rects;
+};
+
+const containsPoint = (node: SyncTexNode, h: number, v: number) => (
+  h >= node.h && h <= node.h + node.width && v >= node.v - node.height && v <= node.v + node.depth
+);
+
+/**
+ * Source location for a point on a PDF page (points from the top left).
+ */
+export const syncTexInverse = (data: SyncTexData, page: number, h: number, v: number): SyncTexSourceLocation | null => {
+  const indices = data.pages.get(page);
+  if (!indices || indices.length === 0) return null;
+
+  // The innermost horizontal box under the point: the one with the smallest area.
+  let best: { index: number; area: number } | null = null;
+  for (const index of indices) {
+    const node = data.nodes[index];
+    if ((node.kind !== 'hbox' && node.kind !== 'void-hbox') || !containsPoint(node, h, v)) continue;
+    const area = node.width * (node.height + node.depth);
+    if (!best || area < best.area) best = { index, area };
+  }
+
+  let chosen: SyncTexNode | null = null;
+  if (best) {
+    // Prefer the last content node inside the box that starts at or before the point.
+    const children = indices
+      .map(index => ({ index, node: data.nodes[index] }))
+      .filter(({ node }) => node.parent === best!.index && !isBox(node.kind) && node.line > 0);
+    const before = children.filter(({ node }) => node.h <= h);
+    const pick = before.length > 0 ? before[before.length - 1] : children[0];
+    chosen = pick ? pick.node : data.nodes[best.index];
+  } else {
+    // Outside every box (e.g. in a margin): take the nearest node on the page.
+    let nearest: { node: SyncTexNode; distance: number } | null = null;
+    for (const index of indices) {
+      const node = data.nodes[index];
+      if (node.line <= 0) continue;
+      const dx = h < node.h ? node.h - h : h > node.h + node.width ? h - node.h - node.width : 0;
+      const dy = v < node.v - node.height ? node.v - node.height - v : v > node.v + node.depth ? v - node.v - node.depth : 0;
+      const distance = dx * dx + dy * dy;
+      if (!nearest || distance < nearest.distance) nearest = { node, distance };
+    }
+    chosen = nearest ? nearest.node : null;
+  }
+
+  if (!chosen || chosen.line <= 0) return null;
+  const input = data.inputs.get(chosen.tag);
+  if (!input) return null;
+  return { input, line: chosen.line, column: chosen.column > 0 ? chosen.column : 1 };
+};
@@ -0,0 +1,195 @@
+import { maskVerbatim } from './latexSymbols';
+import { stripLatexComments } from './rootDocument';
+
+/**
+ * Word counts for LaTeX source in the manner of TeXcount: running text is counted, commands,
+ * math, float bodies and comments are not, and headings, captions, footnotes and a
+ * `thebibliography` list are counted separately so a project can choose which of them count.
+ */
+
+export interface WordCountOptions {
+  headers: boolean;
+  captions: boolean;
+  footnotes: boolean;
+  bibliography: boolean;
+}
+
+export const DEFAULT_WORD_COUNT_OPTIONS: WordCountOptions = {
+  headers: true,
+  captions: false,
+  footnotes: true,
+  bibliography: false,
+};
+
+export const WORD_COUNT_OPTION_LABELS: Record<keyof WordCountOptions, string> = {
+  headers: 'Headings',
+  captions: 'Captions',
+  footnotes: 'Footnotes',
+  bibliography: 'Bibliography',
+};
+
+export interface WordCount {
+  // Running text plus whichever optional categories are switched on.
+  words: number;
+  // Letters and digits in those same words.
+  characters: number;
+  text: number;
+  headers: number;
+  captions: number;
+  footnotes: number;
+  bibliography: number;
+  inlineMath: number;
+  displayMath: number;
+}
+
+type Category = 'text' | keyof WordCountOptions;
+
+const DISPLAY_MATH_ENVIRONMENTS = 'equation|align|alignat|flalign|gather|multline|eqnarray|displaymath|math';
+const FLOAT_ENVIRONMENTS = 'figure|table|wrapfigure|wraptable|sidewaysfigure|sidewaystable';
+
+const DISPLAY_MATH_PATTERN = new RegExp(
+  `\\\\begin\\s*\\{(${DISPLAY_MATH_ENVIRONMENTS})(\\*?)\\}[\\s\\S]*?\\\\end\\s*\\{\\1\\2\\}|\\$\\$[\\s\\S]*?\\$\\$|\\\\\\[[\\s\\S]*?\\\\\\]`,
+  'g'
+);
+const INLINE_MATH_PATTERN = /\\\([\s\S]*?\\\)|(?<!\\)\$(?:\\\$|[^$])*?\$/g;
+const FLOAT_PATTERN = new RegExp(`\\\\begin\\s*\\{(${FLOAT_ENVIRONMENTS})(\\*?)\\}[\\s\\S]*?\\\\end\\s*\\{\\1\\2\\}`, 'g');
+const BIBLIOGRAPHY_PATTERN = /\\begin\s*\{thebibliography\}[\s\S]*?(?:\\end\s*\{thebibliography\}|$)/g;
+
+// Commands whose arguments are keys, paths or code rather than prose.
+const NON_TEXT_COMMANDS = [
+  'label', 'ref', 'eqref', 'autoref', 'cref', 'Cref', 'pageref', 'nameref', 'cite[A-Za-z]*', '[A-Za-z]*cite',
+  'include', 'input', 'includegraphics', 'includesvg', 'subfile', 'import', 'subimport', 'bibliography',
+  'bibliographystyle', 'addbibresource', 'usepackage', 'documentclass', 'RequirePackage', 'url', 'href',
+  'begin', 'end', 'newcommand', 'renewcommand', 'providecommand', 'DeclareMathOperator', 'setlength',
+  'addtolength', 'setcounter', 'addtocounter', 'vspace', 'hspace', 'graphicspath', 'todo', 'missingfigure',
+  'index', 'hypersetup', 'pagestyle', 'thispagestyle', 'color', 'textcolor', 'bibitem',
+];
+
+const NON_TEXT_PATTERN = new RegExp(
+  `\\\\(?:${NON_TEXT_COMMANDS.join('|')})\\*?(?:\\s*\\[[^\\]]*\\])*(?:\\s*\\{[^{}]*\\})*`,
+  'g'
+);
+
+// Commands whose argument is counted in a category of its own; the short form in `[...]` is not counted.
+const CATEGORY_COMMANDS: Array<{ category: Category; pattern: RegExp }> = [
+  { category: 'headers', pattern: /\\(?:part|chapter|section|subsection|subsubsection|paragraph|subparagraph)(?![A-Za-z])\*?\s*(?:\[[^\]]*\]\s*)?(?=\{)/g },
+  { category: 'captions', pattern: /\\caption(?:of\s*\{[^{}]*\}|(?![A-Za-z])\*?)\s*(?:\[[^\]]*\]\s*)?(?=\{)/g },
+  { category: 'footnotes', pattern: /\\footnote(?:text)?(?![A-Za-z])\s*(?:\[[^\]]*\]\s*)?(?=\{)/g },
+];
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+/**
+ * Offset just past the `{...}` group that opens at `start`, allowing nested braces.
+ */
+const findGroupEnd = (text: string, start: number): number => {
+  let depth = 0;
+  for (let index = start; index < text.length; index++) {
+    if (text[index] === '\\') {
+      index++;
+    } else if (text[index] === '{') {
+      depth++;
+    } else if (text[index] === '}' && --depth === 0) {
+      return index + 1;
+    }
+  }
+  return text.length;
+};
+
+/**
+ * Remove everything that is not running text, leaving words separated by spaces.
+ */
+export const stripToText = (latex: string): string => (
+  stripLatexComments(maskVerbatim(latex))
+    .replace(DISPLAY_MATH_PATTERN, ' ')
+    .replace(FLOAT_PATTERN, ' ')
+    .replace(INLINE_MATH_PATTERN, ' ')
+    .replace(NON_TEXT_PATTERN, ' ')
+    // Accents and escaped characters are part of the word they sit in.
+    .replace(/\\[`'^"~=.]\s*\{?([A-Za-z])\}?/g, '$1')
+    .replace(/\\([&%#_])/g, ' ')
+    .replace(/\\[A-Za-z@]+\*?/g, ' ')
+    .replace(/\\./g, ' ')
+    .replace(/[{}~]/g, ' ')
+);
+
+const matchWords = (latex: string): string[] => stripToText(latex).match(WORD_PATTERN) || [];
+
+export const emptyWordCount = (): WordCount => ({
+  words: 0,
+  characters: 0,
+  text: 0,
+  headers: 0,
+  captions: 0,
+  footnotes: 0,
+  bibliography: 0,
+  inlineMath: 0,
+  displayMath: 0,
+});
+
+export const addWordCounts = (a: WordCount, b: WordCount): WordCount => ({
+  words: a.words + b.words,
+  characters: a.characters + b.characters,
+  text: a.text + b.text,
+  headers: a.headers + b.headers,
+  captions: a.captions + b.captions,
+  footnotes: a.footnotes + b.footnotes,
+  bibliography: a.bibliography + b.bibliography,
+  inlineMath: a.inlineMath + b.inlineMath,
+  displayMath: a.displayMath + b.displayMath,
+});
+
+/**
+ * Count words by category. Captions are read before float bodies are dropped, and footnotes
+ * and headings are taken out of the running text before it is counted.
+ */
+export const countLatex = (latex: string, options: WordCountOptions = DEFAULT_WORD_COUNT_OPTIONS): WordCount => {
+  const count = emptyWordCount();
+  const pieces: Record<Category, string[]> = { text: [], headers: [], captions: [], footnotes: [], bibliography: [] };
+
+  let rest = stripLatexComments(maskVerbatim(latex)).replace(BIBLIOGRAPHY_PATTERN, list => {
+    pieces.bibliography.push(list);
+    return ' ';
+  });
+  count.displayMath = (rest.match(DISPLAY_MATH_PATTERN) || []).length;
+  rest = rest.replace(DISPLAY_MATH_PATTERN, ' ');
+
+  CATEGORY_COMMANDS.forEach(({ category, pattern }) => {
+    let result = '';
+    let cursor = 0;
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(rest)) !== null) {
+      const groupStart = match.index + match[0].length;
+      const groupEnd = findGroupEnd(rest, groupStart);
+      pieces[category].push(rest.slice(groupStart + 1, groupEnd - 1));
+      result += `${rest.slice(cursor, match.index)} `;
+      cursor = groupEnd;
+      pattern.lastIndex = groupEnd;
+    }
+    rest = result + rest.slice(cursor);
+  });
+
+  count.inlineMath = (rest.replace(FLOAT_PATTERN, ' ').match(INLINE_MATH_PATTERN) || []).length;
+  pieces.text.push(rest);
+
+  (Object.keys(pieces) as Category[]).forEach(category => {
+    const words = pieces[category].flatMap(matchWords);
+    count[category] = words.length;
+    if (category === 'text' || options[category]) {
+      count.words += words.length;
+      count.characters += words.reduce((total, word) => total + word.replace(/['’-]/g, '').length, 0);
+    }
+  });
+  return count;
+};
+
+export const countWords = (latex: string, options?: WordCountOptions): number => countLatex(latex, options).words;
+
+export const countFigures = (latex: string): number => (
+  (stripLatexComments(maskVerbatim(latex)).match(/\\begin\s*\{(?:figure|wrapfigure|sidewaysfigure)\*?\}/g) || []).length
+);
+
+export const countTodos = (latex: string): number => (
+  (stripLatexComments(maskVerbatim(latex)).match(/\\(?:todo|missingfigure)(?![A-Za-z])/g) || []).length
+);
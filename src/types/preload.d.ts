@@ -7,10 +7,21 @@ declare global {
       readFileBase64: (filePath: string) => Promise<any>;
       writeFile: (filePath: string, content: string) => Promise<any>;
       saveZipFile: (opts: { defaultPath: string; data: string }) => Promise<any>;
+      saveFileAs: (opts: {
+        title: string;
+        defaultPath: string;
+        data: string;
+        encoding: 'utf-8' | 'base64';
+        filters: Array<{ name: string; extensions: string[] }>;
+      }) => Promise<{ success: boolean; canceled?: boolean; filePath?: string; error?: string }>;
       createFile: (filePath: string) => Promise<any>;
       deletePath: (filePath: string) => Promise<any>;
       renamePath: (oldPath: string, newPath: string) => Promise<any>;
       readDirectory: (dirPath: string) => Promise<any>;
+      listProjectFiles: (
+        projectRoot: string,
+        extensions?: string[]
+      ) => Promise<{ success: boolean; files?: string[]; error?: string }>;
       createDirectory: (dirPath: string) => Promise<any>;
       copyPaths: (sources: string[], destination: string) => Promise<any>;
       readBinaryFile: (filePath: string) => Promise<any>;
@@ -22,14 +33,42 @@ declare global {
       checkPackageInstalled: (packageName: string) => Promise<any>;
       installLatexPackage: (packageName: string) => Promise<any>;
       openLatexDownload: () => Promise<any>;
-      compileLatex: (texFilePath: string, engine: 'pdflatex' | 'xelatex' | 'lualatex') => Promise<any>;
+      compileLatex: (
+        texFilePath: string,
+        engine: 'pdflatex' | 'xelatex' | 'lualatex',
+        options?: { projectRoot?: string; requestId?: number }
+      ) => Promise<any>;
+      cancelCompile: () => Promise<{ success: boolean; error?: string }>;
+      resolveRootDocument: (
+        filePath: string,
+        projectRoot?: string
+      ) => Promise<{ success: boolean; rootFile?: string; reason?: string; error?: string }>;
+      resolveIncludePath: (
+        filePath: string,
+        command: string,
+        target: string,
+        projectRoot?: string
+      ) => Promise<{ success: boolean; path?: string; error?: string }>;
+      readAuxLabels: (
+        filePath: string,
+        projectRoot?: string
+      ) => Promise<{
+        success: boolean;
+        labels?: Record<string, { number: string; page: string; title?: string }>;
+        auxFile?: string;
+        error?: string;
+      }>;
       onCompilationStatus: (listener: (status: { stage: string; message: string }) => void) => () => void;
+      onCompilationOutput: (
+        listener: (batch: { requestId?: number; tool: string; pass: number; lines: string[] }) => void
+      ) => () => void;
       synctex: {
         forward: (
           texFile: string,
           line: number,
           column: number,
-          pdfFile?: string
+          pdfFile?: string,
+          projectRoot?: string
         ) => Promise<{
           success: boolean;
           rects?: Array<{ page: number; h: number; v: number; W: number; H: number }>;
@@ -49,6 +88,42 @@ declare global {
           error?: string;
         }>;
       };
+      spellcheck: {
+        listDictionaries: () => Promise<{
+          success: boolean;
+          dictionaries?: Array<{ language: string; affPath: string; dicPath: string; source: 'user' | 'bundled' | 'system' }>;
+          error?: string;
+        }>;
+        loadDictionary: (language: string) => Promise<{
+          success: boolean;
+          language?: string;
+          aff?: string;
+          dic?: string;
+          error?: string;
+        }>;
+      };
+      runChktex: (filePath: string, content: string) => Promise<{
+        success: boolean;
+        diagnostics?: Array<{
+          severity: 'error' | 'warning' | 'info';
+          message: string;
+          file?: string;
+          line?: number;
+          column?: number;
+          endColumn?: number;
+          code?: string;
+        }>;
+        // chktex is not installed.
+        missing?: boolean;
+        error?: string;
+      }>;
+      runLatexindent: (filePath: string, content: string, indent: number) => Promise<{
+        success: boolean;
+        content?: string;
+        // latexindent is not installed.
+        missing?: boolean;
+        error?: string;
+      }>;
       gitTerminal: {
         start: (options?: { cwd?: string }) => Promise<{ success: boolean; shell?: string; error?: string }>;
         stop: () => Promise<any>;
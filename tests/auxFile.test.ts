@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+import { findAuxInputs, parseAuxLabels } from '../src/shared/auxFile';
+
+const aux = [
+  '\\relax',
+  '\\providecommand\\hyper@newdestlabel[2]{}',
+  '\\@input{chapters/intro.aux}',
+  '\\newlabel{sec:intro}{{1}{1}{Introduction}{section.1}{}}',
+  '\\newlabel{fig:plot}{{2.1}{4}{A {\\em nice} plot}{figure.caption.3}{}}',
+  '\\newlabel{fig:plot@cref}{{[figure][1][2]2.1}{[1][4][]4}}',
+  '\\newlabel{eq:one}{{3}{5}}',
+  '\\@writefile{toc}{\\contentsline {section}{\\numberline {1}Introduction}{1}{section.1}}',
+].join('\n');
+
+{
+  const labels = parseAuxLabels(aux);
+  assert.deepEqual(Array.from(labels.keys()), ['sec:intro', 'fig:plot', 'eq:one']);
+  assert.deepEqual(labels.get('sec:intro'), { number: '1', page: '1', title: 'Introduction' });
+  assert.deepEqual(labels.get('fig:plot'), { number: '2.1', page: '4', title: 'A {\\em nice} plot' });
+  assert.deepEqual(labels.get('eq:one'), { number: '3', page: '5' });
+  assert.deepEqual(findAuxInputs(aux), ['chapters/intro.aux']);
+}
+
+console.log('auxFile tests passed');
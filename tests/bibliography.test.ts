@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import { parseBibTeX } from '../src/shared/bibtex';
+import {
+  findDuplicateEntries,
+  findUncitedEntries,
+  getBibEntryType,
+  getBibEntryYear,
+  normalizeDoi,
+  normalizeTitle,
+  removeBibEntries,
+  serializeBibEntry,
+  sortBibEntries,
+  validateBibEntry,
+  writeBibEntry,
+} from '../src/shared/bibliography';
+
+{
+  assert.deepEqual(validateBibEntry({ type: 'article', key: 'knuth84', fields: { author: 'Knuth', title: 'Literate', journal: 'CJ', year: '1984' } }), []);
+  assert.deepEqual(validateBibEntry({ type: 'article', key: 'k', fields: { author: 'A', title: 'T', journaltitle: 'J', date: '2020-01' } }), []);
+  assert.deepEqual(validateBibEntry({ type: 'book', key: 'dup', fields: { title: 'T {x', year: ' ' } }, ['dup', 'other']), [
+    "The key 'dup' is already used by another entry",
+    'author or editor is required for @book',
+    'publisher is required for @book',
+    'year or date is required for @book',
+    'The title field has unbalanced braces',
+  ]);
+  assert.deepEqual(validateBibEntry({ type: 'misc', key: 'bad key', fields: {} }), [
+    'The citation key cannot contain spaces or any of , { } ( ) " = # % \' \\ ~',
+  ]);
+  assert.deepEqual(validateBibEntry({ type: 'misc', key: '', fields: {} }), ['The citation key is required']);
+  assert.deepEqual(validateBibEntry({ type: 'misc', key: 'knuth', fields: {} }, ['Knuth']), ["The key 'knuth' is already used by another entry"]);
+  assert.deepEqual(getBibEntryType('Conference'), getBibEntryType('inproceedings'));
+  assert.deepEqual(getBibEntryType('patent').required, []);
+}
+
+{
+  const text = serializeBibEntry({ type: 'Article', key: ' knuth84 ', fields: { author: 'Donald E. Knuth', title: '{Literate} Programming', journal: '', year: '1984' } });
+  assert.equal(text, [
+    '@article{knuth84,',
+    '  author = {Donald E. Knuth},',
+    '  title  = {{Literate} Programming},',
+    '  year   = {1984}',
+    '}',
+  ].join('\n'));
+  assert.deepEqual(parseBibTeX(text)[0].fields, { author: 'Donald E. Knuth', title: '{Literate} Programming', year: '1984' });
+  assert.equal(serializeBibEntry({ type: 'misc', key: 'x', fields: {} }), '@misc{x,\n}');
+}
+
+{
+  const content = '% refs\n@book{a, title={A}}\n\n@misc{b, note={B}}\n';
+  assert.equal(writeBibEntry(content, '@misc{b2,\n  note = {B2}\n}', 'b'), '% refs\n@book{a, title={A}}\n\n@misc{b2,\n  note = {B2}\n}\n');
+  assert.equal(writeBibEntry(content, '@misc{c,\n}'), '% refs\n@book{a, title={A}}\n\n@misc{b, note={B}}\n\n@misc{c,\n}\n');
+  assert.equal(writeBibEntry('', '@misc{c,\n}', 'missing'), '@misc{c,\n}\n');
+}
+
+{
+  const content = '% refs\n@book{a, title={A}}\n\n@misc{b, note={B}}\n@misc{c, note={C}}\n';
+  assert.deepEqual(removeBibEntries(content, ['b']), {
+    content: '% refs\n@book{a, title={A}}\n\n@misc{c, note={C}}\n',
+    removed: ['@misc{b, note={B}}'],
+  });
+  assert.deepEqual(removeBibEntries(content, ['a', 'c']).content, '% refs\n@misc{b, note={B}}\n');
+  assert.deepEqual(removeBibEntries(content, ['missing']), { content, removed: [] });
+  assert.equal(removeBibEntries('@misc{only,}\n', ['only']).content, '');
+}
+
+{
+  assert.equal(normalizeDoi('https://doi.org/10.1000/ABC\\_1'), '10.1000/abc_1');
+  assert.equal(normalizeDoi('doi: 10.1/x'), '10.1/x');
+  assert.equal(normalizeTitle('The {\\TeX}book: A \\"{U}ber-Guide!'), 'the texbook a uber guide');
+
+  const entries = parseBibTeX([
+    '@article{a, title={Deep Learning}, doi={10.1/X}}',
+    '@article{b, title={{D}eep learning.}}',
+    '@misc{c, title={Other}, doi={https://doi.org/10.1/x}}',
+    '@misc{a, title={Another}}',
+  ].join('\n'));
+  assert.deepEqual(findDuplicateEntries(entries).map(group => [group.reason, group.value, group.entries.map(entry => entry.key)]), [
+    ['key', 'a', ['a', 'a']],
+    ['doi', '10.1/x', ['a', 'c']],
+    ['title', 'deep learning', ['a', 'b']],
+  ]);
+
+  assert.deepEqual(findUncitedEntries(entries, [{ key: 'a' }, { key: 'c' }, { key: 'zzz' }]).map(entry => entry.key), ['b']);
+  assert.deepEqual(findUncitedEntries(entries, [{ key: '*' }]), []);
+  // Keys that differ only in case clash.
+  const cased = parseBibTeX('@misc{Knuth, title={One}}\n@misc{knuth, title={Two}}');
+  assert.deepEqual(findDuplicateEntries(cased).map(group => [group.reason, group.entries.map(entry => entry.key)]), [['key', ['Knuth', 'knuth']]]);
+}
+
+{
+  const entries = parseBibTeX([
+    '@book{z, author={Zed, A. and Bee, B.}, year={2001}, title={Beta}}',
+    '@article{m, author={Mu, C.}, date={1999-05}, title={alpha}}',
+    '@misc{n, title={Gamma}}',
+    '@book{y10, author={Why}, year={2010}}',
+  ].join('\n'));
+  assert.equal(getBibEntryYear(entries[1]), '1999');
+  const keys = (field: Parameters<typeof sortBibEntries>[1], descending?: boolean) => (
+    sortBibEntries(entries, field, descending).map(entry => entry.key)
+  );
+  assert.deepEqual(keys('year'), ['m', 'z', 'y10', 'n']);
+  assert.deepEqual(keys('year', true), ['y10', 'z', 'm', 'n']);
+  assert.deepEqual(keys('author'), ['m', 'y10', 'z', 'n']);
+  assert.deepEqual(keys('title'), ['m', 'z', 'n', 'y10']);
+  assert.deepEqual(keys('type'), ['m', 'y10', 'z', 'n']);
+  assert.deepEqual(keys('key'), ['m', 'n', 'y10', 'z']);
+}
+
+console.log('bibliography tests passed');
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import { cleanBibValue, formatBibAuthors, formatBibEntry, parseBibTeX, scanBibTeX } from '../src/shared/bibtex';
+
+const bib = [
+  '@string{tug = "TeX Users Group"}',
+  '% a comment line',
+  '@comment{ignored, title={nothing}}',
+  '',
+  '@Book{knuth84,',
+  '  author    = {Donald E. Knuth},',
+  '  title     = {The {\\TeX}book},',
+  '  publisher = tug # " and " # {Addison-Wesley},',
+  '  year      = 1984,',
+  '}',
+  '@article(lamport94,',
+  '  author = "Leslie Lamport and Jane {van Doe} and Ann Smith",',
+  '  title = "{LaTeX}: A Document {Preparation} System",',
+  '  journal = {J. {\\"U}ber Typesetting}',
+  ')',
+  '@misc{broken',
+  '@online{web, url = {https://example.org/a,b}, note = {x}}',
+].join('\n');
+
+{
+  const entries = parseBibTeX(bib);
+  assert.deepEqual(entries.map(entry => entry.key), ['knuth84', 'lamport94', 'web']);
+
+  const [knuth, lamport, web] = entries;
+  assert.equal(knuth.type, 'book');
+  assert.equal(knuth.line, 5);
+  assert.equal(knuth.fields.title, 'The {\\TeX}book');
+  assert.equal(knuth.fields.publisher, 'tug and Addison-Wesley');
+  assert.equal(knuth.fields.year, '1984');
+  assert.ok(bib.slice(knuth.start, knuth.end).startsWith('@Book{knuth84,'));
+  assert.ok(bib.slice(knuth.start, knuth.end).endsWith('}'));
+
+  assert.equal(lamport.type, 'article');
+  assert.equal(lamport.fields.title, '{LaTeX}: A Document {Preparation} System');
+  assert.equal(cleanBibValue(lamport.fields.journal), 'J. Uber Typesetting');
+  assert.equal(formatBibAuthors(lamport.fields.author), 'Lamport et al.');
+  assert.equal(formatBibAuthors(knuth.fields.author), 'Knuth');
+  assert.equal(formatBibAuthors('Knuth, Donald and Lamport, Leslie'), 'Knuth and Lamport');
+
+  assert.equal(formatBibEntry(knuth), 'Donald E. Knuth (1984). *The TeXbook*. tug and Addison-Wesley.');
+  assert.equal(
+    formatBibEntry({ type: 'article', fields: { author: 'A. Author and B. Writer', title: 'On {Things}', journal: 'J. Stuff', volume: '3', number: '2', pages: '10--20', date: '2001-05' } }),
+    'A. Author; B. Writer (2001). On Things. *J. Stuff*, 3(2), 10–20.'
+  );
+  assert.equal(formatBibEntry({ type: 'misc', fields: {} }), '@misc');
+
+  assert.equal(web.fields.url, 'https://example.org/a,b');
+  assert.equal(web.fields.note, 'x');
+}
+
+{
+  const entries = scanBibTeX(bib);
+  assert.deepEqual(entries.map(entry => [entry.type, entry.key]), [
+    ['string', null],
+    ['comment', null],
+    ['book', 'knuth84'],
+    ['article', 'lamport94'],
+    ['misc', 'broken'],
+    ['online', 'web'],
+  ]);
+  const [tug, , knuth, lamport, broken, web] = entries;
+  assert.deepEqual(tug.fields.map(field => field.name), ['tug']);
+  assert.deepEqual(knuth.fields.find(field => field.name === 'publisher')?.parts, [
+    { kind: 'bare', text: 'tug' },
+    { kind: 'quoted', text: ' and ' },
+    { kind: 'braced', text: 'Addison-Wesley' },
+  ]);
+  assert.deepEqual(knuth.fields.find(field => field.name === 'year')?.parts, [{ kind: 'bare', text: '1984' }]);
+  assert.equal(bib.slice(knuth.fields[0].start, knuth.fields[0].end), 'author    = {Donald E. Knuth}');
+  assert.deepEqual(knuth.errors, []);
+  assert.deepEqual(lamport.errors, []);
+  assert.deepEqual(lamport.fields.map(field => field.name), ['author', 'title', 'journal']);
+
+  // The unclosed entry stops before the next one, which still scans.
+  assert.equal(broken.errors[0].message, 'This @misc entry is never closed');
+  assert.equal(bib.slice(broken.start, broken.end), '@misc{broken\n');
+  assert.deepEqual(web.errors, []);
+  assert.equal(web.fields[0].parts[0].text, 'https://example.org/a,b');
+}
+
+{
+  const messages = (source: string) => scanBibTeX(source).flatMap(entry => entry.errors.map(error => error.message));
+  assert.deepEqual(messages('@article{title = {x}}'), ['This entry has no citation key']);
+  assert.deepEqual(messages('@article{, title = {x}}'), ['This entry has no citation key']);
+  assert.deepEqual(messages('@article{a title = {x}}'), ['Expected a comma after the key a']);
+  assert.deepEqual(messages('@article{a, title = {x} year = 2000}'), ['Missing comma after the title field']);
+  assert.deepEqual(messages('@article{a, title {x}, year = 2000}'), ['Expected = after title']);
+  assert.deepEqual(messages('@article{a, title = , year = 2000}'), ['The title field has no value']);
+  assert.deepEqual(messages('@article(a, title = "x, year = 2000)'), ['This value is missing a closing quote']);
+  assert.deepEqual(messages('@misc{a,\n  % a biber comment\n  title = {x},\n}'), []);
+
+  const [entry] = scanBibTeX('@article{a, title {x}, year = 2000}');
+  assert.deepEqual(entry.fields.map(field => field.name), ['year']);
+  assert.equal(entry.errors[0].offset, '@article{a, '.length);
+}
+
+console.log('bibtex tests passed');
@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import { DEFAULT_BIB_FORMAT_OPTIONS, formatBibTeX } from '../src/shared/bibtexFormat';
+
+const lines = (...items: string[]) => `${items.join('\n')}\n`;
+
+{
+  const source = lines(
+    '% Sources for chapter 2',
+    '@Article{smith20,  title="A {Study}",',
+    'year = 2020, author = {Smith, Jo},',
+    '  journal = jphys # " Letters",',
+    '    Note = {Preprint},',
+    '}',
+    '',
+    '',
+    '',
+    '@misc{web, url = {https://example.org}}   ',
+  );
+  assert.equal(formatBibTeX(source), lines(
+    '% Sources for chapter 2',
+    '@article{smith20,',
+    '  author  = {Smith, Jo},',
+    '  title   = {A {Study}},',
+    '  journal = jphys # { Letters},',
+    '  year    = 2020,',
+    '  note    = {Preprint}',
+    '}',
+    '',
+    '@misc{web,',
+    '  url = {https://example.org}',
+    '}',
+  ));
+  // Formatting is stable.
+  assert.equal(formatBibTeX(formatBibTeX(source)), formatBibTeX(source));
+}
+
+{
+  const source = '@book{b, year = {1984}, title = {T}, zeta = {1}, alpha = {2}}';
+  assert.equal(formatBibTeX(source, { indent: 0, sortFields: false }), lines(
+    '@book{b,',
+    '\tyear  = {1984},',
+    '\ttitle = {T},',
+    '\tzeta  = {1},',
+    '\talpha = {2}',
+    '}',
+  ));
+  // Unknown fields keep their order after the known ones.
+  assert.equal(formatBibTeX(source, DEFAULT_BIB_FORMAT_OPTIONS).split('\n').slice(1, 5).join('|'),
+    '  title = {T},|  year  = {1984},|  zeta  = {1},|  alpha = {2}');
+}
+
+{
+  // Blocks that are not plain entries, broken entries and entries with comments stay as written.
+  const source = lines(
+    '@string{jphys = "J. Phys."}',
+    '@preamble{ "\\newcommand{\\noop}[1]{}" }',
+    '@misc{broken, title = {x} year = 2000}',
+    '@misc{commented,',
+    '  % keep me',
+    '  title = "x"}',
+    '@misc{unclosed, title = {x},',
+  );
+  assert.equal(formatBibTeX(source), lines(
+    '@string{jphys = "J. Phys."}',
+    '',
+    '@preamble{ "\\newcommand{\\noop}[1]{}" }',
+    '',
+    '@misc{broken, title = {x} year = 2000}',
+    '',
+    '@misc{commented,',
+    '  % keep me',
+    '  title = "x"}',
+    '',
+    '@misc{unclosed, title = {x},',
+  ));
+}
+
+{
+  // A trailing comment after a field keeps the entry as written; a `%` inside a value does not.
+  const source = '@article{k3,\n  title = {T} % comment\n}';
+  assert.equal(formatBibTeX(source), `${source}\n`);
+  assert.equal(
+    formatBibTeX('@misc{k4, url = {https://x.org/a%20b}}'),
+    '@misc{k4,\n  url = {https://x.org/a%20b}\n}\n'
+  );
+}
+
+{
+  // A comment after an entry's closing brace stays on that line.
+  assert.equal(
+    formatBibTeX('@misc{a,title={x}} % keep with a\n@book{b,title={y}}'),
+    '@misc{a,\n  title = {x}\n} % keep with a\n\n@book{b,\n  title = {y}\n}\n'
+  );
+}
+
+{
+  // A comment separated by a blank line stays separated; line endings follow the input.
+  assert.equal(
+    formatBibTeX('Note\r\n\r\n@misc{a,title={x}}'),
+    'Note\r\n\r\n@misc{a,\r\n  title = {x}\r\n}\r\n'
+  );
+  assert.equal(formatBibTeX('@misc{a}'), '@misc{a,\n}\n');
+  assert.equal(formatBibTeX('  \n'), '');
+}
+
+console.log('bibtexFormat tests passed');
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { lintBibTeX } from '../src/shared/bibtexLint';
+
+{
+  const source = [
+    '@article{smith20,',
+    '  title = {One},',
+    '  Title = {Two},',
+    '  year  = 2020',
+    '}',
+    '@book{smith20, title = {Three} year = 2001}',
+    '@misc{web',
+  ].join('\n');
+  const diagnostics = lintBibTeX(source, '/p/refs.bib');
+  assert.deepEqual(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.severity, diagnostic.line, diagnostic.column]), [
+    ['bib-duplicate-field', 'warning', 3, 3],
+    ['bib-syntax', 'error', 6, 31],
+    ['bib-duplicate-key', 'error', 6, 7],
+    ['bib-syntax', 'error', 7, 1],
+  ]);
+  assert.equal(diagnostics[0].message, 'title is set more than once in this entry');
+  assert.equal(diagnostics[0].endColumn, 8);
+  assert.equal(diagnostics[1].message, 'Missing comma after the title field');
+  assert.equal(diagnostics[2].message, 'The key smith20 is already defined on line 1');
+  assert.equal(diagnostics[2].endColumn, 14);
+  assert.equal(diagnostics[3].message, 'This @misc entry is never closed');
+  assert.ok(diagnostics.every(diagnostic => diagnostic.file === '/p/refs.bib'));
+}
+
+{
+  assert.deepEqual(lintBibTeX(''), []);
+  assert.deepEqual(lintBibTeX('@string{a = {b}}\n@comment{anything = at all}\n@misc{x, title = a # {b}}'), []);
+  // Keys that differ only in case clash, as they do for BibTeX.
+  const mixedCase = lintBibTeX('@article{Knuth, title = {a}}\n@book{knuth, title = {b}}');
+  assert.deepEqual(mixedCase.map(diagnostic => [diagnostic.code, diagnostic.line, diagnostic.message]), [
+    ['bib-duplicate-key', 2, 'The key knuth is already defined on line 1 as Knuth'],
+  ]);
+}
+
+console.log('bibtexLint tests passed');
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import {
+  expandRecipePlaceholders,
+  getBuiltinRecipe,
+  listRecipeChoices,
+  recipeConditionHolds,
+  recipeStepRepeat,
+  resolveBuildRecipe,
+} from '../src/shared/buildRecipes';
+
+const variables = { DOC: '/p/thesis', DOCFILE: 'thesis', DIR: '/p', OUTDIR: '/p/out' };
+
+{
+  assert.equal(expandRecipePlaceholders('-d %OUTDIR% %DOCFILE%.glo %DOC%.tex %DIR%', variables), '-d /p/out thesis.glo /p/thesis.tex /p');
+  assert.equal(expandRecipePlaceholders('%UNKNOWN%', variables), '%UNKNOWN%');
+}
+
+{
+  const tools = (recipe: ReturnType<typeof getBuiltinRecipe>) => recipe.steps.map(step => step.tool);
+  assert.deepEqual(tools(getBuiltinRecipe('auto', 'auto', true)), ['latexmk']);
+  assert.deepEqual(tools(getBuiltinRecipe('auto', 'auto', false)), ['engine', 'biber', 'bibtex', 'makeindex', 'engine']);
+  assert.deepEqual(tools(getBuiltinRecipe('latex', 'none', true)), ['engine', 'makeindex', 'engine']);
+  assert.deepEqual(tools(getBuiltinRecipe('latex', 'bibtex', true)), ['engine', 'bibtex', 'makeindex', 'engine']);
+  assert.deepEqual(tools(getBuiltinRecipe('latexmk', 'auto', false)), ['latexmk']);
+  assert.deepEqual(getBuiltinRecipe('latex', 'auto', false).steps[4].when, { rerun: true });
+  // Up to three final passes after a tool ran, five when only the log asked for them.
+  const finalPass = getBuiltinRecipe('latex', 'auto', false).steps[4];
+  assert.equal(recipeStepRepeat(finalPass, true), 3);
+  assert.equal(recipeStepRepeat(finalPass, false), 5);
+  assert.equal(recipeStepRepeat({ repeat: 2 }, false), 2);
+
+  const custom = { name: 'minted', steps: getBuiltinRecipe('latex', 'none', false).steps };
+  assert.equal(resolveBuildRecipe('minted', [custom], 'auto', true), custom);
+  assert.deepEqual(tools(resolveBuildRecipe('gone', [custom], 'auto', true)), ['latexmk']);
+  assert.deepEqual(listRecipeChoices([custom]).map(choice => choice.name), ['auto', 'latexmk', 'latex', 'minted']);
+}
+
+(async () => {
+  const files: Record<string, string> = { '/p/out/thesis.aux': '\\relax\n\\bibdata{refs}\n', '/p/out/thesis.glo': '' };
+  const context = { variables, rerun: false, readFile: async (filePath: string) => files[filePath] ?? null };
+  assert.equal(await recipeConditionHolds(null, context), true);
+  assert.equal(await recipeConditionHolds({ exists: '%OUTDIR%/%DOCFILE%.glo' }, context), true);
+  assert.equal(await recipeConditionHolds({ exists: '%OUTDIR%/%DOCFILE%.idx' }, context), false);
+  assert.equal(await recipeConditionHolds({ missing: '%OUTDIR%/%DOCFILE%.bcf', contains: { file: '%OUTDIR%/%DOCFILE%.aux', text: '\\bibdata' } }, context), true);
+  assert.equal(await recipeConditionHolds({ contains: { file: '%OUTDIR%/%DOCFILE%.aux', text: '\\abx' } }, context), false);
+  assert.equal(await recipeConditionHolds({ rerun: true }, context), false);
+  assert.equal(await recipeConditionHolds({ rerun: true }, { ...context, rerun: true }), true);
+  console.log('buildRecipes tests passed');
+})().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
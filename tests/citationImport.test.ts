@@ -0,0 +1,174 @@
+import * as assert from 'assert';
+import {
+  detectCitationFormat,
+  generateCitationKey,
+  parseCitations,
+  prepareCitationImport,
+} from '../src/shared/citationImport';
+
+const ris = [
+  'TY  - JOUR',
+  'AU  - Smith, Jane',
+  'AU  - Müller, Karl',
+  'TI  - The Deep Learning of R&D',
+  'T2  - Journal of Things',
+  'PY  - 2020/05/01/',
+  'VL  - 12',
+  'IS  - 3',
+  'SP  - 100',
+  'EP  - 120',
+  'DO  - https://doi.org/10.1000/xyz',
+  'KW  - learning',
+  'KW  - deep',
+  'ER  - ',
+  '',
+  'TY  - BOOK',
+  'A2  - Doe, John',
+  'TI  - Edited Volume',
+  'PB  - Press',
+  'SN  - 978-3-16',
+  'PY  - 1999',
+  'ER  - ',
+].join('\r\n');
+
+const endnote = `<?xml version="1.0" encoding="UTF-8"?><xml><records>
+<record><ref-type name="Book Section">5</ref-type>
+<contributors><authors><author><style face="normal">Lee, Ann</style></author></authors>
+<secondary-authors><author>Editor, Ed</author></secondary-authors></contributors>
+<titles><title><style>On Graphs &amp; Trees</style></title><secondary-title>Handbook of Graphs</secondary-title></titles>
+<pages>5-9</pages><dates><year>2011</year></dates><publisher>Springer</publisher><pub-location>Berlin</pub-location>
+<electronic-resource-num>10.1/abc</electronic-resource-num>
+<urls><related-urls><url>https://example.org/lee</url></related-urls></urls>
+</record>
+<record><ref-type name="Thesis">32</ref-type><titles><title>A Thesis</title></titles><publisher>MIT</publisher><dates><year>2001</year></dates></record>
+</records></xml>`;
+
+const csl = JSON.stringify([
+  {
+    id: 'http://zotero.org/items/ABC',
+    type: 'paper-conference',
+    title: 'An <i>Italic</i> Approach to 100% Coverage',
+    author: [{ family: 'Beethoven', given: 'Ludwig', 'non-dropping-particle': 'van' }, { literal: 'ACME Corp' }],
+    'container-title': 'Proc. of Things',
+    page: '1-10',
+    issued: { 'date-parts': [[2019, 6]] },
+    DOI: '10.2/def',
+  },
+  { id: 'kept2020', type: 'webpage', title: 'Site', URL: 'https://example.org/?a=1&b=2', issued: { raw: '2020' } },
+]);
+
+{
+  assert.equal(detectCitationFormat(ris), 'ris');
+  assert.equal(detectCitationFormat(endnote), 'endnote');
+  assert.equal(detectCitationFormat(csl), 'csl-json');
+  assert.equal(detectCitationFormat('@article{a, title = {x}}'), 'bibtex');
+  assert.equal(detectCitationFormat('{not json'), null);
+  assert.equal(detectCitationFormat('plain text'), null);
+}
+
+{
+  const { format, entries, errors } = parseCitations(ris);
+  assert.equal(format, 'ris');
+  assert.deepEqual(errors, []);
+  assert.deepEqual(entries[0], {
+    type: 'article',
+    key: '',
+    fields: {
+      author: 'Smith, Jane and Müller, Karl',
+      title: 'The Deep Learning of R\\&D',
+      journal: 'Journal of Things',
+      volume: '12',
+      number: '3',
+      pages: '100--120',
+      year: '2020',
+      doi: '10.1000/xyz',
+      keywords: 'learning, deep',
+    },
+  });
+  assert.deepEqual(entries[1], {
+    type: 'book',
+    key: '',
+    fields: { editor: 'Doe, John', title: 'Edited Volume', publisher: 'Press', year: '1999', isbn: '978-3-16' },
+  });
+}
+
+{
+  const { format, entries } = parseCitations(endnote);
+  assert.equal(format, 'endnote');
+  assert.equal(entries[0].type, 'incollection');
+  assert.deepEqual(entries[0].fields, {
+    author: 'Lee, Ann',
+    editor: 'Editor, Ed',
+    title: 'On Graphs \\& Trees',
+    booktitle: 'Handbook of Graphs',
+    pages: '5--9',
+    publisher: 'Springer',
+    address: 'Berlin',
+    year: '2011',
+    doi: '10.1/abc',
+    url: 'https://example.org/lee',
+  });
+  assert.deepEqual(entries[1], { type: 'phdthesis', key: '', fields: { title: 'A Thesis', school: 'MIT', year: '2001' } });
+}
+
+{
+  const { entries } = parseCitations(csl);
+  assert.equal(entries[0].type, 'inproceedings');
+  assert.equal(entries[0].key, '');
+  assert.equal(entries[1].key, 'kept2020');
+  assert.equal(entries[0].fields.author, 'van Beethoven, Ludwig and {ACME Corp}');
+  assert.equal(entries[0].fields.title, 'An Italic Approach to 100\\% Coverage');
+  assert.equal(entries[0].fields.booktitle, 'Proc. of Things');
+  assert.equal(entries[0].fields.year, '2019');
+  assert.equal(entries[1].type, 'online');
+  assert.equal(entries[1].fields.url, 'https://example.org/?a=1&b=2');
+  assert.equal(entries[1].fields.year, '2020');
+}
+
+{
+  const { entries } = parseCitations('@Book{knuth84, author = {Donald E. Knuth}, title = {The {\\TeX}book}, year = 1984}');
+  assert.deepEqual(entries, [{ type: 'book', key: 'knuth84', fields: { author: 'Donald E. Knuth', title: 'The {\\TeX}book', year: '1984' } }]);
+  assert.match(parseCitations('[1, 2').errors[0], /not in a format/);
+  assert.match(parseCitations('[1, 2', 'csl-json').errors[0], /^The CSL-JSON could not be read/);
+  assert.deepEqual(parseCitations('TY  - JOUR\nER  -', 'bibtex').errors, ['No BibTeX references were found']);
+  assert.deepEqual(parseCitations('   '), { format: null, entries: [], errors: [] });
+}
+
+{
+  const entry = { type: 'article', key: '', fields: { author: 'Müller, Karl and Smith, Jane', title: 'The Theory of {Everything} Else', year: '2020' } };
+  assert.equal(generateCitationKey(entry), 'muller2020Theory');
+  assert.equal(generateCitationKey(entry, 'Author_year'), 'Muller_2020');
+  assert.equal(generateCitationKey(entry, 'AUTHOR:shortyear'), 'MULLER:20');
+  assert.equal(generateCitationKey(entry, 'authorsTitle'), 'mullersmithTheoryEverythingElse');
+  assert.equal(generateCitationKey({ ...entry, fields: { ...entry.fields, author: 'A, a and B, b and C, c and D, d' } }, 'Authors'), 'AEtal');
+  assert.equal(generateCitationKey({ type: 'misc', key: '', fields: { editor: '{World Health Organization}' } }, 'authorYear'), 'worldhealthorganization');
+  assert.equal(generateCitationKey({ type: 'misc', key: '', fields: {} }), 'ref');
+}
+
+{
+  const entries = parseCitations(csl).entries;
+  const options = { pattern: 'authorYear', keepKeys: true, onConflict: 'suffix' as const };
+  const prepared = prepareCitationImport([...entries, entries[0]], ['vanbeethoven2019', 'kept2020'], options);
+  assert.deepEqual(prepared.map(item => [item.proposedKey, item.entry.key, item.status]), [
+    // The first CSL id is a URI, so its key is generated.
+    ['vanbeethoven2019', 'vanbeethoven2019a', 'renamed'],
+    ['kept2020', 'kept2020a', 'renamed'],
+    ['vanbeethoven2019', 'vanbeethoven2019b', 'renamed'],
+  ]);
+
+  const skipped = prepareCitationImport([...entries, entries[0]], ['kept2020'], { ...options, onConflict: 'skip' });
+  assert.deepEqual(skipped.map(item => [item.entry.key, item.status]), [
+    ['vanbeethoven2019', 'new'],
+    ['kept2020', 'skipped'],
+    ['vanbeethoven2019a', 'renamed'],
+  ]);
+
+  // Keys differing only in case clash.
+  const cased = prepareCitationImport([{ ...entries[1], key: 'Kept2020' }], ['kept2020', 'KEPT2020a'], options);
+  assert.deepEqual(cased.map(item => [item.entry.key, item.status]), [['Kept2020b', 'renamed']]);
+
+  const generated = prepareCitationImport(entries.slice(1), [], { ...options, keepKeys: false, pattern: 'firstword' });
+  assert.equal(generated[0].entry.key, 'site');
+}
+
+console.log('citationImport tests passed');
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import {
+  buildCitationReport,
+  replaceCitationKey,
+  suggestCitationKeys,
+} from '../src/shared/citationReport';
+import { indexFile } from '../src/shared/latexIndex';
+
+{
+  const keys = ['smith2020deep', 'smith2021deep', 'Knuth84', 'lamport94'];
+  assert.deepEqual(suggestCitationKeys('smith2020dep', keys), ['smith2020deep', 'smith2021deep']);
+  assert.deepEqual(suggestCitationKeys('knuth84', keys), ['Knuth84']);
+  assert.deepEqual(suggestCitationKeys('einstein05', keys), []);
+  assert.deepEqual(suggestCitationKeys('smith2020deep', keys, 1), ['smith2021deep']);
+}
+
+{
+  const tex = indexFile('/p/main.tex', [
+    '\\cite{knuth84,lamport}',
+    '\\parencite[p.~3]{knuth84} \\textcite{lamprot94}',
+    '% \\cite{commented}',
+  ].join('\n'));
+  const chapter = indexFile('/p/chapter.tex', '\\citeauthor{lamport}');
+  const bib = indexFile('/p/refs.bib', '@book{knuth84, title={T}}\n@book{lamport94, title={L}}\n@misc{unused, title={U}}\n');
+  const citations = [...tex.citations, ...chapter.citations];
+
+  const report = buildCitationReport(citations, bib.entries.map(entry => ({ ...entry, file: '/p/refs.bib' })));
+  assert.equal(report.citedKeys, 3);
+  assert.equal(report.citationCount, 5);
+  assert.equal(report.citesEverything, false);
+  assert.deepEqual(report.undefinedKeys.map(item => [item.key, item.uses.map(use => `${use.file}:${use.line}`), item.suggestions]), [
+    ['lamport', ['/p/chapter.tex:1', '/p/main.tex:1'], ['lamport94']],
+    ['lamprot94', ['/p/main.tex:2'], ['lamport94']],
+  ]);
+  assert.deepEqual(report.unusedEntries.map(entry => entry.key), ['lamport94', 'unused']);
+
+  const everything = buildCitationReport([...citations, { key: '*', command: 'nocite', file: '/p/main.tex', line: 4, column: 8 }], []);
+  assert.equal(everything.citesEverything, true);
+  assert.equal(everything.citedKeys, 3);
+  assert.deepEqual(everything.unusedEntries, []);
+}
+
+{
+  const content = '\\cite{knuth,lamport}\n\\cite{knuth}\n';
+  const uses = indexFile('/p/a.tex', content).citations.filter(citation => citation.key === 'knuth');
+  assert.deepEqual(replaceCitationKey(content, uses, 'knuth84'), {
+    content: '\\cite{knuth84,lamport}\n\\cite{knuth84}\n',
+    replaced: 2,
+  });
+  // A position that no longer holds the key is skipped.
+  assert.deepEqual(replaceCitationKey('\\cite{other}\n\\cite{knuth}\n', uses, 'knuth84'), {
+    content: '\\cite{other}\n\\cite{knuth84}\n',
+    replaced: 1,
+  });
+}
+
+console.log('citationReport tests passed');
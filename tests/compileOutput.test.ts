@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import {
+  extractShippedPages,
+  formatElapsed,
+  INITIAL_COMPILE_PROGRESS,
+  parseLatexmkRun,
+  updateCompileProgress,
+} from '../src/shared/compileOutput';
+
+{
+  assert.deepEqual(extractShippedPages('[1{/usr/share/texlive/texmf-dist/fonts/map/pdftex/updmap/pdftex.map}] [2] [3 <./figures/plot.pdf>]'), [1, 2, 3]);
+  assert.deepEqual(extractShippedPages('(./chapters/intro.tex [12] [13]'), [12, 13]);
+  assert.deepEqual(extractShippedPages('[Biber] [INFO] reading [2024-01-01]'), []);
+}
+
+{
+  assert.deepEqual(parseLatexmkRun("Run number 2 of rule 'pdflatex'"), { rule: 'pdflatex', run: 2 });
+  assert.deepEqual(parseLatexmkRun("Latexmk: Run number 1 of rule 'biber main'"), { rule: 'biber', run: 1 });
+  assert.equal(parseLatexmkRun('Latexmk: applying rule'), null);
+}
+
+{
+  let progress = updateCompileProgress(INITIAL_COMPILE_PROGRESS, { tool: 'pdflatex', pass: 1, lines: ['[1] [2]', '[3]'] });
+  assert.deepEqual(progress, { tool: 'pdflatex', pass: 1, pages: 3 });
+
+  progress = updateCompileProgress(progress, { tool: 'biber', pass: 0, lines: ['INFO - This is Biber 2.19'] });
+  assert.deepEqual(progress, { tool: 'biber', pass: 0, pages: 0 });
+
+  progress = updateCompileProgress(progress, { tool: 'pdflatex', pass: 2, lines: ['[1]'] });
+  assert.deepEqual(progress, { tool: 'pdflatex', pass: 2, pages: 1 });
+}
+
+{
+  let progress = updateCompileProgress(INITIAL_COMPILE_PROGRESS, {
+    tool: 'latexmk',
+    pass: 1,
+    lines: ["Run number 1 of rule 'lualatex'", '[1] [2]'],
+  });
+  assert.deepEqual(progress, { tool: 'lualatex', pass: 1, pages: 2 });
+
+  progress = updateCompileProgress(progress, {
+    tool: 'latexmk',
+    pass: 1,
+    lines: ['[3]', "Run number 1 of rule 'biber main'", '[4] would not be a page here'],
+  });
+  assert.deepEqual(progress, { tool: 'biber', pass: 1, pages: 0 });
+}
+
+{
+  assert.equal(formatElapsed(4200), '4s');
+  assert.equal(formatElapsed(125000), '2m 05s');
+}
+
+console.log('compileOutput tests passed');
@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import { createSpellChecker, getAffixEncoding, matchDictionary } from '../src/shared/hunspell';
+
+const aff = [
+  'SET UTF-8',
+  'TRY esianrtolcdugmphbyfvkwz',
+  'FORBIDDENWORD !',
+  'NOSUGGEST ?',
+  'KEEPCASE K',
+  'NEEDAFFIX N',
+  'REP 2',
+  'REP f ph',
+  'REP alot a_lot',
+  '',
+  'PFX U Y 1',
+  'PFX U 0 un .',
+  '',
+  'SFX S Y 3',
+  'SFX S y ies [^aeiou]y',
+  'SFX S 0 s [aeiou]y',
+  'SFX S 0 s [^y]',
+  '',
+  'SFX D Y 2',
+  'SFX D 0 ed [^e]',
+  'SFX D 0 d e',
+  '',
+  'SFX L Y 1',
+  'SFX L 0 ly/S .',
+  '',
+  'SFX M N 1',
+  'SFX M 0 ness .',
+].join('\n');
+
+const dic = [
+  '11',
+  'city/S',
+  'day/S',
+  'paper/SU',
+  'bake/D',
+  'lock/DU',
+  'friend/L',
+  'phone',
+  'a',
+  'lot',
+  'NASA/K',
+  'kind/NM',
+  'irregardless/!',
+  'shit/?',
+].join('\n');
+
+{
+  const checker = createSpellChecker(aff, dic);
+  ['city', 'cities', 'days', 'papers', 'unpaper', 'unpapers', 'baked', 'locked', 'unlocked', 'friendly'].forEach(word => {
+    assert.ok(checker.check(word), word);
+  });
+  ['citys', 'dayies', 'bakeed', 'unday', 'unbaked'].forEach(word => {
+    assert.ok(!checker.check(word), word);
+  });
+  // One level of suffix continuation: friend + ly + s.
+  assert.ok(checker.check('friendlies'));
+  // Case: capitals at the start and all-caps are fine; KEEPCASE words keep their case.
+  assert.ok(checker.check('City'));
+  assert.ok(checker.check('CITIES'));
+  assert.ok(checker.check('NASA'));
+  assert.ok(!checker.check('Nasa'));
+  // NEEDAFFIX stems only count with an affix; forbidden words never count.
+  assert.ok(!checker.check('kind'));
+  assert.ok(checker.check('kindness'));
+  assert.ok(!checker.check('irregardless'));
+  // Hyphenated words are checked part by part.
+  assert.ok(checker.check('city-paper'));
+  assert.ok(!checker.check('city-papr'));
+
+  assert.deepEqual(checker.suggest('fone'), ['phone']);
+  assert.equal(checker.suggest('citty')[0], 'city');
+  assert.equal(checker.suggest('Citty')[0], 'City');
+  assert.ok(checker.suggest('alot').includes('a lot'));
+  assert.ok(!checker.suggest('shiy').includes('shit'));
+}
+
+{
+  // Long flags and flag aliases.
+  const longAff = 'FLAG long\nAF 1\nAF SsDd\nSFX Ss Y 1\nSFX Ss 0 s .\nSFX Dd Y 1\nSFX Dd 0 ed .\n';
+  const checker = createSpellChecker(longAff, '1\nwalk/1\n');
+  assert.ok(checker.check('walks'));
+  assert.ok(checker.check('walked'));
+  assert.ok(!checker.check('walking'));
+}
+
+{
+  assert.equal(getAffixEncoding('SET ISO8859-1\nTRY abc'), 'iso-8859-1');
+  assert.equal(getAffixEncoding('# comment\nSET UTF-8\n'), 'utf-8');
+  assert.equal(getAffixEncoding('SET microsoft-cp1251'), 'windows-1251');
+  assert.equal(getAffixEncoding('TRY abc'), 'iso-8859-1');
+}
+
+{
+  const available = ['en_US', 'en_GB', 'de_DE_frami', 'fr'];
+  assert.equal(matchDictionary(available, 'en_GB'), 'en_GB');
+  assert.equal(matchDictionary(available, 'en-us'), 'en_US');
+  assert.equal(matchDictionary(available, 'de_DE'), 'de_DE_frami');
+  assert.equal(matchDictionary(available, 'en_AU'), 'en_US');
+  assert.equal(matchDictionary(available, 'fr_CA'), 'fr');
+  assert.equal(matchDictionary(available, 'nl_NL'), null);
+}
+
+console.log('hunspell tests passed');
@@ -1,8 +1,11 @@
 import * as assert from 'assert';
 import {
+  countDiagnostics,
   detectMissingLatexPackage,
+  isDiagnosticForFile,
   parseLatexDiagnostics,
   summarizeLatexError,
+  unwrapLogLines,
 } from '../src/shared/latexDiagnostics';
 
 const texFile = 'C:/work/paper/ieee.tex';
@@ -43,5 +46,144 @@ const texFile = 'C:/work/paper/ieee.tex';
   assert.equal(diagnostics[0].line, 99);
 }
 
+{
+  const log = [
+    'This is pdfTeX, Version 3.141592653-2.6-1.40.25 (TeX Live 2023) (preloaded format=pdflatex)',
+    '(./ieee.tex',
+    'LaTeX2e <2022-11-01> patch level 1',
+    '(/usr/share/texlive/texmf-dist/tex/latex/base/article.cls',
+    'Document Class: article 2022/07/02 v1.4n Standard LaTeX document class',
+    '(/usr/share/texlive/texmf-dist/tex/latex/base/size10.clo))',
+    '(./chapters/intro.tex',
+    'Overfull \\hbox (12.34pt too wide) in paragraph at lines 14--18',
+    '[]\\OT1/cmr/m/n/10 A very long line that does not fit (and has parentheses',
+    '',
+    '! Undefined control sequence.',
+    'l.21 Some text with \\foo',
+    '                        {bar} (and an open paren',
+    'Package hyperref Warning: Token not allowed in a PDF string (Unicode):',
+    '(hyperref)                removing `math shift\' on input line 30.',
+    '',
+    'Underfull \\vbox (badness 10000) has occurred while \\output is active []',
+    '',
+    'LaTeX Font Warning: Font shape `OT1/cmr/bx/it\' undefined',
+    '(Font)              using `OT1/cmr/bx/n\' instead on input line 42.',
+    '',
+    'Underfull \\hbox (badness 1163) in paragraph at lines 50--50',
+    '',
+    'LaTeX Warning: Label `sec:intro\' multiply defined.',
+    '',
+    ') [1] (./ieee.aux) )',
+  ].join('\n');
+  const diagnostics = parseLatexDiagnostics(log, texFile);
+  const byCode = (code: string) => diagnostics.filter(diagnostic => diagnostic.code === code);
+
+  const [overfull] = byCode('overfull-box');
+  assert.equal(overfull.severity, 'warning');
+  assert.equal(overfull.file, 'C:/work/paper/chapters/intro.tex');
+  assert.equal(overfull.line, 14);
+  assert.equal(overfull.endLine, 18);
+
+  const [undefinedCommand] = byCode('undefined-control-sequence');
+  assert.equal(undefinedCommand.file, 'C:/work/paper/chapters/intro.tex');
+  assert.equal(undefinedCommand.line, 21);
+  assert.equal(undefinedCommand.message, 'Undefined control sequence: \\foo');
+  assert.equal(undefinedCommand.context, 'l.21 Some text with \\foo {bar} (and an open paren');
+
+  // The excerpt's stray "(" must not be mistaken for a file, so later warnings stay in intro.tex.
+  const [hyperref] = byCode('package-warning');
+  assert.equal(hyperref.message, "hyperref: Token not allowed in a PDF string (Unicode): removing `math shift'");
+  assert.equal(hyperref.file, 'C:/work/paper/chapters/intro.tex');
+  assert.equal(hyperref.line, 30);
+
+  const [font] = byCode('font-warning');
+  assert.match(font.message, /using `OT1\/cmr\/bx\/n' instead$/);
+  assert.equal(font.line, 42);
+
+  const underfull = byCode('underfull-box');
+  assert.equal(underfull.length, 2);
+  assert.equal(underfull[0].severity, 'info');
+  assert.equal(underfull[0].line, undefined);
+  assert.equal(underfull[1].line, 50);
+  assert.equal(underfull[1].endLine, undefined);
+
+  const [duplicate] = byCode('duplicate-label');
+  assert.equal(duplicate.message, 'Label multiply defined: sec:intro');
+  assert.equal(duplicate.file, 'C:/work/paper/chapters/intro.tex');
+}
+
+{
+  // TeX hard-wraps log lines at 79 characters, splitting file names and messages.
+  const wrapped = 'LaTeX Warning: Reference `fig:a-rather-long-label-name-that-wraps\' on page 3 un';
+  assert.equal(wrapped.length, 79);
+  assert.deepEqual(unwrapLogLines([wrapped, 'defined on input line 88.', 'next']), [
+    `${wrapped}defined on input line 88.`,
+    'next',
+  ]);
+
+  const opened = '(./chapters/appendix-with-a-very-long-directory-name-that-the-log-wraps/part.tex';
+  const log = [
+    '(./ieee.tex',
+    opened.slice(0, 79),
+    opened.slice(79),
+    wrapped,
+    'defined on input line 88.',
+    ')',
+    'LaTeX Warning: There were undefined references.',
+    ')',
+  ].join('\n');
+  const diagnostics = parseLatexDiagnostics(log, texFile);
+  assert.equal(diagnostics[0].code, 'undefined-reference');
+  assert.equal(diagnostics[0].line, 88);
+  assert.equal(diagnostics[0].file, 'C:/work/paper/chapters/appendix-with-a-very-long-directory-name-that-the-log-wraps/part.tex');
+  assert.equal(diagnostics[1].code, 'latex-warning');
+  assert.equal(diagnostics[1].file, 'C:/work/paper/ieee.tex');
+}
+
+{
+  const log = [
+    '(./ieee.tex',
+    '! LaTeX Error: Environment algorithmic undefined.',
+    '',
+    'See the LaTeX manual or LaTeX Companion for explanation.',
+    'Type  H <return>  for immediate help.',
+    ' ...                                              ',
+    '',
+    'l.57 \\begin{algorithmic}',
+    '',
+    ')',
+    'This is BibTeX, Version 0.99d (TeX Live 2023)',
+    'Warning--empty journal in smith2020',
+    "I couldn't open database file refs.bib",
+  ].join('\n');
+  const diagnostics = parseLatexDiagnostics(log, texFile);
+  assert.equal(diagnostics[0].code, 'undefined-environment');
+  assert.equal(diagnostics[0].line, 57);
+  assert.equal(diagnostics[0].context, 'l.57 \\begin{algorithmic}');
+  assert.deepEqual(
+    diagnostics.slice(1).map(diagnostic => [diagnostic.severity, diagnostic.message]),
+    [
+      ['warning', 'BibTeX: empty journal in smith2020'],
+      ['error', "BibTeX: I couldn't open database file refs.bib"],
+    ]
+  );
+}
+
+{
+  const diagnostics = parseLatexDiagnostics([
+    '(./ieee.tex (./chapters/intro.tex',
+    'LaTeX Warning: Reference `x\' on page 1 undefined on input line 3.',
+    ')',
+    '! Emergency stop.',
+    ')',
+    'Warning--empty year in knuth84',
+  ].join('\n'), texFile);
+  assert.deepEqual(countDiagnostics(diagnostics), { errors: 1, warnings: 2, infos: 0 });
+  const onIntro = diagnostics.filter(diagnostic => isDiagnosticForFile(diagnostic, 'c:\\work\\paper\\chapters\\intro.tex', texFile));
+  assert.deepEqual(onIntro.map(diagnostic => diagnostic.code), ['undefined-reference']);
+  const onRoot = diagnostics.filter(diagnostic => isDiagnosticForFile(diagnostic, texFile, texFile));
+  assert.deepEqual(onRoot.map(diagnostic => diagnostic.code), ['latex-error', 'bibliography']);
+}
+
 console.log('latexDiagnostics tests passed');
 
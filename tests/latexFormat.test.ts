@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import { DEFAULT_FORMAT_SETTINGS, formatLatex, splitSentences, wrapText } from '../src/shared/latexFormat';
+
+const lines = (...items: string[]) => `${items.join('\n')}\n`;
+
+{
+  const source = lines(
+    '\\begin{document}',
+    '\\begin{itemize}',
+    '      \\item One',
+    '\\begin{enumerate}',
+    '\\item Nested',
+    '\\end{enumerate}\\end{itemize}',
+    '\\end{document}',
+  );
+  assert.equal(formatLatex(source), lines(
+    '\\begin{document}',
+    '\\begin{itemize}',
+    '  \\item One',
+    '  \\begin{enumerate}',
+    '    \\item Nested',
+    '\\end{enumerate}\\end{itemize}',
+    '\\end{document}',
+  ));
+  assert.equal(formatLatex(source, { ...DEFAULT_FORMAT_SETTINGS, indent: 0 }).split('\n')[4], '\t\t\\item Nested');
+}
+
+{
+  const source = lines(
+    '\\begin{tabular}{lll}',
+    'a & bbb & c \\\\ \\hline',
+    'cccc & d \\& e & {x & y} \\\\',
+    '% a & comment',
+    '\\end{tabular}',
+  );
+  assert.equal(formatLatex(source), lines(
+    '\\begin{tabular}{lll}',
+    '  a    & bbb    & c \\\\ \\hline',
+    '  cccc & d \\& e & {x & y} \\\\',
+    '  % a & comment',
+    '\\end{tabular}',
+  ));
+  assert.equal(formatLatex(source, { ...DEFAULT_FORMAT_SETTINGS, alignTables: false }).split('\n')[1], '  a & bbb & c \\\\ \\hline');
+}
+
+{
+  // `&` inside inline verbatim is text, not a cell boundary.
+  const source = lines(
+    '\\begin{tabular}{ll}',
+    'a & \\verb|x&y| \\\\',
+    'bbb & \\lstinline{p&q} \\\\',
+    '\\end{tabular}',
+  );
+  assert.equal(formatLatex(source), lines(
+    '\\begin{tabular}{ll}',
+    '  a   & \\verb|x&y| \\\\',
+    '  bbb & \\lstinline{p&q} \\\\',
+    '\\end{tabular}',
+  ));
+}
+
+{
+  const source = lines('\\begin{verbatim}', '   keep   this  ', '', '', '', '\\end{verbatim}', 'Text', '', '', '', 'More', '', '');
+  assert.equal(formatLatex(source), lines('\\begin{verbatim}', '   keep   this  ', '', '', '', '\\end{verbatim}', 'Text', '', 'More'));
+  // Paragraphs stay apart even when no blank lines are asked for.
+  assert.equal(formatLatex('Para one.\n\nPara two.\n', { ...DEFAULT_FORMAT_SETTINGS, maxBlankLines: 0 }), lines('Para one.', '', 'Para two.'));
+  assert.equal(formatLatex(source.replace(/\n/g, '\r\n')), lines('\\begin{verbatim}', '   keep   this  ', '', '', '', '\\end{verbatim}', 'Text', '', 'More').replace(/\n/g, '\r\n'));
+}
+
+{
+  assert.deepEqual(
+    splitSentences('First one. Second, e.g. this one! Fig. 3 shows \\emph{a. B} and $x. Y$. Done?'),
+    ['First one.', 'Second, e.g. this one!', 'Fig. 3 shows \\emph{a. B} and $x. Y$.', 'Done?']
+  );
+  assert.deepEqual(wrapText('aaa bbb ccc ddd', 7), ['aaa bbb', 'ccc ddd']);
+}
+
+{
+  const source = lines(
+    '\\documentclass{article}',
+    '\\title{A long title that is not prose to be wrapped}',
+    '\\begin{document}',
+    'One sentence here. Another sentence',
+    'continues here.',
+    'Kept apart % because of this comment',
+    '\\section{Heading}',
+    '\\begin{equation}',
+    'a = b. C = d',
+    '\\end{equation}',
+    '\\end{document}',
+  );
+  const options = { ...DEFAULT_FORMAT_SETTINGS, oneSentencePerLine: true, lineWidth: 24 };
+  assert.equal(formatLatex(source, options), lines(
+    '\\documentclass{article}',
+    '\\title{A long title that is not prose to be wrapped}',
+    '\\begin{document}',
+    'One sentence here.',
+    'Another sentence',
+    'continues here.',
+    'Kept apart % because of this comment',
+    '\\section{Heading}',
+    '\\begin{equation}',
+    '  a = b. C = d',
+    '\\end{equation}',
+    '\\end{document}',
+  ));
+  assert.equal(formatLatex(formatLatex(source, options), options), formatLatex(source, options));
+}
+
+console.log('latexFormat tests passed');
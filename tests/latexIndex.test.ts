@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import {
+  collectBibEntries,
+  collectCitations,
+  collectLabels,
+  extractBibliographyTargets,
+  extractCitations,
+  getCompletionContext,
+  indexFile,
+  isIndexedFile,
+  ProjectIndex,
+} from '../src/shared/latexIndex';
+
+const chapter = [
+  '\\section{Intro}\\label{sec:intro}',
+  '% \\label{sec:commented}',
+  '\\begin{figure}',
+  '  \\caption{Plot}\\label{fig:plot} \\label{ fig:plot2 }',
+  '\\end{figure}',
+  '100\\% done \\label{sec:done}',
+].join('\n');
+
+{
+  const file = indexFile('/p/intro.tex', chapter);
+  assert.deepEqual(file.labels.map(label => [label.key, label.line, label.column]), [
+    ['sec:intro', 1, 16],
+    ['fig:plot', 4, 17],
+    ['fig:plot2', 4, 34],
+    ['sec:done', 6, 12],
+  ]);
+  assert.equal(file.labels[1].context, '\\caption{Plot}\\label{fig:plot} \\label{ fig:plot2 }');
+  assert.ok(isIndexedFile('/p/refs.BIB'));
+  assert.ok(!isIndexedFile('/p/figure.png'));
+}
+
+{
+  assert.deepEqual(
+    extractBibliographyTargets('\\bibliography{refs, ../shared/more}\n% \\bibliography{old}\n\\addbibresource[label=x]{extra.bib}\n\\addbibresource{extra.bib}'),
+    ['refs.bib', '../shared/more.bib', 'extra.bib']
+  );
+}
+
+{
+  const citations = extractCitations('See \\cite{knuth84, lamport94 } and \\parencite[p.~4]{a}.\n% \\cite{old}\n\\nocite{*}\\ref{x}', '/p/a.tex');
+  assert.deepEqual(citations.map(c => [c.key, c.command, c.line, c.column]), [
+    ['knuth84', 'cite', 1, 11],
+    ['lamport94', 'cite', 1, 20],
+    ['a', 'parencite', 1, 53],
+    ['*', 'nocite', 3, 9],
+  ]);
+}
+
+{
+  const index: ProjectIndex = new Map([
+    ['/p/main.tex', indexFile('/p/main.tex', '\\label{eq:one}\n\\bibliography{refs}')],
+    ['/p/intro.tex', indexFile('/p/intro.tex', chapter)],
+    ['/p/refs.bib', indexFile('/p/refs.bib', '@book{a, title={A}}\n@book{b, title={B}}')],
+    ['/p/old.bib', indexFile('/p/old.bib', '@book{a, title={Old A}}')],
+  ]);
+  assert.equal(collectLabels(index).length, 5);
+  assert.deepEqual(collectCitations(index), []);
+  const entries = collectBibEntries(index);
+  assert.deepEqual(entries.map(entry => [entry.key, entry.file]), [['a', '/p/refs.bib'], ['b', '/p/refs.bib']]);
+}
+
+{
+  assert.deepEqual(getCompletionContext('see \\ref{fig:'), { kind: 'reference', command: 'ref', prefix: 'fig:' });
+  assert.deepEqual(getCompletionContext('\\cref{fig:a, eq'), { kind: 'reference', command: 'cref', prefix: 'eq' });
+  assert.deepEqual(getCompletionContext('\\parencite[see][p.~4]{kn'), { kind: 'citation', command: 'parencite', prefix: 'kn' });
+  assert.deepEqual(getCompletionContext('\\citep*{'), { kind: 'citation', command: 'citep', prefix: '' });
+  assert.deepEqual(getCompletionContext('\\Textcite{a,'), { kind: 'citation', command: 'Textcite', prefix: '' });
+  assert.equal(getCompletionContext('\\ref{done} and'), null);
+  assert.equal(getCompletionContext('\\section{Intro'), null);
+}
+
+console.log('latexIndex tests passed');
@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import { DEFAULT_LINT_SETTINGS, lintLatex, parseChktexOutput } from '../src/shared/latexLint';
+
+const codes = (content: string) => lintLatex(content).map(diagnostic => diagnostic.code);
+
+{
+  const diagnostics = lintLatex('Text {with} a brace}\nand {another\n');
+  assert.deepEqual(diagnostics.map(d => [d.code, d.message, d.line, d.column]), [
+    ['unbalanced-braces', 'Unmatched closing brace', 1, 20],
+    ['unbalanced-braces', 'Unclosed brace', 2, 5],
+  ]);
+  assert.deepEqual(codes('Escaped \\{ braces \\} and % comment }\n\\verb|{| are fine'), []);
+}
+
+{
+  const diagnostics = lintLatex('\\begin{itemize}\n\\begin{enumerate}\n\\end{itemize}\n\\end{center}\n\\begin{quote}');
+  assert.deepEqual(diagnostics.map(d => [d.message, d.line]), [
+    ['\\begin{enumerate} is closed by \\end{itemize}', 2],
+    ['\\end{center} has no matching \\begin{center}', 4],
+    ['\\begin{quote} is never closed', 5],
+  ]);
+  assert.equal(diagnostics[0].endColumn, diagnostics[0].column! + '\\begin{enumerate}'.length);
+}
+
+{
+  assert.deepEqual(codes('See Figure \\ref{fig:a} and Table~\\ref{tab:b} (\\ref{c}).'), ['ref-without-tie']);
+  const [diagnostic] = lintLatex('Figure \\ref{x}');
+  assert.deepEqual([diagnostic.column, diagnostic.endColumn], [7, 8]);
+}
+
+{
+  assert.deepEqual(codes('He said "hello" and ``goodbye\'\'.'), ['straight-quotes', 'straight-quotes']);
+  assert.deepEqual(codes('Math $a"$, \\url{a"b} and na\\"ive.'), []);
+  assert.deepEqual(codes('\\usepackage[ngerman]{babel}\nStra"se "`Zitat"\''), []);
+}
+
+{
+  assert.deepEqual(codes('$$x^2$$ and \\[y\\] and \\$\\$5'), ['display-dollars']);
+  assert.deepEqual(lintLatex('{\\bf bold} \\item \\textbf{b} {\\it x}').map(d => d.message), [
+    '\\bf is deprecated; use \\textbf{...} or \\bfseries',
+    '\\it is deprecated; use \\textit{...} or \\itshape',
+  ]);
+}
+
+{
+  const content = [
+    '\\begin{figure}',
+    '\\label{fig:early}',
+    '\\caption{Plot}',
+    '\\label{fig:late}',
+    '\\end{figure}',
+    '\\begin{table}',
+    '\\label{tab:nocaption}',
+    '\\end{table}',
+  ].join('\n');
+  const diagnostics = lintLatex(content);
+  assert.deepEqual(diagnostics.map(d => [d.code, d.line]), [['label-before-caption', 2]]);
+}
+
+{
+  const diagnostics = lintLatex('\\label{a}\n\\label{b}\n\\label{a}\n\\newcommand{\\x}[1]{\\label{#1}\\label{#1}}', {
+    filePath: '/p/ch1.tex',
+    projectLabels: [
+      { key: 'a', file: '/p/ch1.tex', line: 1, column: 1, context: '' },
+      { key: 'b', file: '/p/ch2.tex', line: 4, column: 1, context: '' },
+    ],
+  });
+  assert.deepEqual(diagnostics.map(d => [d.message, d.line, d.file]), [
+    ["Label 'b' is also defined in ch2.tex", 2, '/p/ch1.tex'],
+    ["Label 'a' is already defined on line 1", 3, '/p/ch1.tex'],
+  ]);
+}
+
+{
+  const settings = {
+    ...DEFAULT_LINT_SETTINGS,
+    rules: { ...DEFAULT_LINT_SETTINGS.rules, 'straight-quotes': 'off' as const, 'display-dollars': 'error' as const },
+  };
+  const diagnostics = lintLatex('"quoted" $$x$$', { settings });
+  assert.deepEqual(diagnostics.map(d => [d.code, d.severity]), [['display-dollars', 'error']]);
+}
+
+{
+  const output = [
+    '12:5:1:Warning:2:Non-breaking space (`~\') should have been used.',
+    '3:1:2:Warning:13:Intersentence spacing (`\\@\') should perhaps be used.',
+    '7:10:1:Error:16:Mathmode still on at end of LaTeX file.',
+    'chktex: unrelated noise',
+  ].join('\n');
+  assert.deepEqual(parseChktexOutput(output, '/p/main.tex'), [
+    {
+      severity: 'warning',
+      message: 'Intersentence spacing (`\\@\') should perhaps be used.',
+      file: '/p/main.tex',
+      line: 3,
+      column: 1,
+      endColumn: 3,
+      code: 'chktex-13',
+    },
+    {
+      severity: 'error',
+      message: 'Mathmode still on at end of LaTeX file.',
+      file: '/p/main.tex',
+      line: 7,
+      column: 10,
+      endColumn: 11,
+      code: 'chktex-16',
+    },
+  ]);
+}
+
+console.log('latexLint tests passed');
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import {
+  buildOutlineTree,
+  extractOutlineEntries,
+  findActiveEntry,
+  findSectionBlock,
+  moveSectionBlock,
+  OutlineEntry,
+} from '../src/renderer/utils/latexOutline';
+
+const document = [
+  '\\documentclass{article}',
+  '\\begin{document}',
+  '\\section{Introduction}',
+  'Intro text.\\todo{Cite {the} survey}',
+  '\\begin{figure}[t]',
+  '  \\includegraphics{plot}',
+  '  \\caption[Short]{Results with \\emph{nested {braces}}}',
+  '  \\label{fig:results}',
+  '\\end{figure}',
+  '\\subsection{Background}',
+  '\\begin{align*}',
+  '  a &= b \\label{eq:ab}',
+  '\\end{align*}',
+  '% \\todo{commented}',
+  '\\section{Methods}',
+  '\\input{chapters/methods}',
+  '\\begin{table}\\caption{Data}\\end{table}',
+  '\\end{document}',
+].join('\n');
+
+const describe = (entries: OutlineEntry[], depth = 0): string[] => entries.flatMap(entry => [
+  `${'  '.repeat(depth)}${entry.kind}:${entry.name}:${entry.title}${entry.label ? ` #${entry.label}` : ''} @${entry.lineNumber}`,
+  ...describe(entry.children, depth + 1),
+]);
+
+{
+  const entries = extractOutlineEntries(document);
+  assert.deepEqual(describe(buildOutlineTree(entries)), [
+    'section:section:Introduction @3',
+    '  todo:todo:Cite the survey @4',
+    '  figure:figure:Results with nested braces #fig:results @5',
+    '  section:subsection:Background @10',
+    '    equation:align*:a &= b #eq:ab @11',
+    'section:section:Methods @15',
+    '  include:input:chapters/methods @16',
+    '  table:table:Data @17',
+  ]);
+
+  assert.equal(entries.find(entry => entry.kind === 'figure')!.endLineNumber, 9);
+  assert.equal(findActiveEntry(entries, 7)!.kind, 'figure');
+  assert.equal(findActiveEntry(entries, 9)!.kind, 'figure');
+  assert.equal(findActiveEntry(entries, 10)!.title, 'Background');
+  assert.equal(findActiveEntry(entries, 14)!.title, 'Background');
+  assert.equal(findActiveEntry(entries, 2), null);
+}
+
+{
+  assert.deepEqual(findSectionBlock(document, 3), { start: 3, end: 15 });
+  assert.deepEqual(findSectionBlock(document, 10), { start: 10, end: 15 });
+  // The last section stops at \end{document}.
+  assert.deepEqual(findSectionBlock(document, 15), { start: 15, end: 18 });
+  assert.equal(findSectionBlock(document, 4), null);
+}
+
+{
+  const moved = moveSectionBlock(document, 15, 3, 'before')!.split('\n');
+  assert.deepEqual(moved.slice(2, 6), [
+    '\\section{Methods}',
+    '\\input{chapters/methods}',
+    '\\begin{table}\\caption{Data}\\end{table}',
+    '\\section{Introduction}',
+  ]);
+  assert.equal(moved[moved.length - 1], '\\end{document}');
+  assert.equal(moved.length, document.split('\n').length);
+
+  // Moving forward and back restores the original.
+  const forward = moveSectionBlock(document, 3, 15, 'after')!;
+  assert.equal(forward.split('\n')[2], '\\section{Methods}');
+  assert.equal(moveSectionBlock(forward, 6, 3, 'before'), document);
+
+  // A section cannot be moved into itself.
+  assert.equal(moveSectionBlock(document, 3, 10, 'after'), null);
+  assert.equal(moveSectionBlock(document, 3, 3, 'before'), null);
+}
+
+{
+  // Without \end{document} and without a trailing newline, the last section runs to the end.
+  const chapter = '\\section{A}\na\n\\section{B}\nb';
+  assert.equal(moveSectionBlock(chapter, 3, 1, 'before'), '\\section{B}\nb\n\\section{A}\na');
+  assert.equal(moveSectionBlock(`${chapter}\n`, 1, 3, 'after'), '\\section{B}\nb\n\\section{A}\na\n');
+}
+
+console.log('latexOutline tests passed');
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import {
+  findLabelAnchor,
+  findSimilarFilePaths,
+  findUsepackageInsertLine,
+  getDiagnosticColumns,
+  getDiagnosticSubject,
+  hasPackage,
+  suggestPackageForCommand,
+  suggestPackageForEnvironment,
+} from '../src/shared/latexQuickFixes';
+
+{
+  assert.equal(getDiagnosticSubject({ code: 'undefined-control-sequence', message: 'Undefined control sequence: \\toprule' }), '\\toprule');
+  assert.equal(getDiagnosticSubject({ code: 'undefined-reference', message: 'Undefined reference: fig:plot' }), 'fig:plot');
+  assert.equal(getDiagnosticSubject({ code: 'missing-file', message: 'Missing image or input file: figs/plot1.png' }), 'figs/plot1.png');
+  assert.equal(getDiagnosticSubject({ code: 'undefined-environment', message: 'LaTeX Error: Environment algorithmic undefined.' }), 'algorithmic');
+  assert.equal(getDiagnosticSubject({ code: 'latex-error', message: 'Emergency stop.' }), null);
+
+  assert.equal(suggestPackageForCommand('\\toprule'), 'booktabs');
+  assert.equal(suggestPackageForCommand('mathbb'), 'amssymb');
+  assert.equal(suggestPackageForCommand('\\frobnicate'), null);
+  assert.equal(suggestPackageForEnvironment('algorithmic'), 'algpseudocode');
+}
+
+{
+  const line = '  As shown in Figure~\\ref{fig:plot}, the';
+  assert.deepEqual(
+    getDiagnosticColumns(line, { code: 'undefined-reference', message: 'Undefined reference: fig:plot' }),
+    { startColumn: 27, endColumn: 35 }
+  );
+  assert.deepEqual(
+    getDiagnosticColumns('  Some text  ', { code: 'overfull-box', message: 'Overfull \\hbox (3pt too wide) in paragraph' }),
+    { startColumn: 3, endColumn: 12 }
+  );
+  assert.deepEqual(
+    getDiagnosticColumns(line, { code: 'ref-without-tie', message: 'Use a non-breaking space', column: 5, endColumn: 10 }),
+    { startColumn: 5, endColumn: 10 }
+  );
+}
+
+{
+  const content = [
+    '\\documentclass{article}',
+    '\\usepackage[utf8]{inputenc}',
+    '\\usepackage{amsmath, graphicx}',
+    '% \\usepackage{booktabs}',
+    '\\begin{document}',
+    '\\usepackage{late}',
+    '\\end{document}',
+  ].join('\n');
+  assert.equal(findUsepackageInsertLine(content), 3);
+  assert.equal(hasPackage(content, 'graphicx'), true);
+  assert.equal(hasPackage(content, 'booktabs'), false);
+  assert.equal(findUsepackageInsertLine('\\documentclass{article}\n\\begin{document}\n\\end{document}'), 1);
+  assert.equal(findUsepackageInsertLine('\\section{Intro}\nText.'), null);
+}
+
+{
+  const content = [
+    '\\section{Introduction}',       // 1
+    '\\label{sec:intro}',            // 2
+    '\\section{Method}',             // 3
+    'See Figure~\\ref{fig:setup}.',  // 4
+    '\\begin{figure}',               // 5
+    '\\caption{The {test} setup}',   // 6
+    '\\end{figure}',                 // 7
+    '\\begin{equation}',             // 8
+    'E = mc^2',                      // 9
+    '\\end{equation}',               // 10
+    '\\subsection[Short]{Results}',  // 11
+  ].join('\n');
+  assert.deepEqual(findLabelAnchor(content, 'fig:setup', 4), { lineNumber: 6, column: 27 });
+  assert.deepEqual(findLabelAnchor(content, 'eq:energy', 4), { lineNumber: 8, column: 17 });
+  // sec:intro's heading already has a label, so the nearest unlabelled heading is chosen.
+  assert.deepEqual(findLabelAnchor(content, 'sec:method', 1), { lineNumber: 3, column: 17 });
+  assert.deepEqual(findLabelAnchor(content, 'results', 10), { lineNumber: 11, column: 28 });
+  assert.equal(findLabelAnchor('No headings here.', 'sec:x', 1), null);
+}
+
+{
+  const files = [
+    '/work/paper/figures/plot-1.png',
+    '/work/paper/figures/plot-2.pdf',
+    '/work/paper/figures/setup.jpg',
+    '/work/paper/old/plot1.png',
+    '/work/other/plot1.png',
+  ];
+  assert.deepEqual(
+    findSimilarFilePaths('figures/plot1.png', files, '/work/paper'),
+    ['old/plot1.png', 'figures/plot-1.png', 'figures/plot-2.pdf']
+  );
+  assert.deepEqual(findSimilarFilePaths('figs/setup', files, '/work/paper/'), ['figures/setup']);
+  assert.deepEqual(findSimilarFilePaths('diagram', files, '/work/paper'), []);
+  assert.deepEqual(
+    findSimilarFilePaths('img/plot.png', ['C:\\work\\paper\\img\\plot1.png'], 'C:\\work\\paper'),
+    ['img/plot1.png']
+  );
+}
+
+console.log('latexQuickFixes tests passed');
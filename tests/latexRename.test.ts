@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { applyTextEdits, planRename, validateRenameName } from '../src/shared/latexRename';
+
+const main = {
+  path: '/p/main.tex',
+  content: [
+    '\\newcommand{\\R}{\\mathbb{R}}',
+    '\\begin{figure}\\caption{Old}\\label{fig:old}\\end{figure}',
+    'See \\cref{fig:old,fig:other} and \\ref{fig:old}. % \\ref{fig:old}',
+    '\\begin{verbatim}',
+    '\\ref{fig:old} \\R',
+    '\\end{verbatim}',
+    'Inline \\verb|\\ref{fig:old}| and $\\R^2$ \\cite{knuth84}.',
+  ].join('\n'),
+};
+const chapter = { path: '/p/chapters/results.tex', content: 'As in Figure~\\ref{fig:old}, \\citep[p.~3]{lamport94, knuth84}.' };
+const bib = { path: '/p/refs.bib', content: '@book{knuth84,\n  title = {The {\\TeX}book}\n}\n@book{lamport94, title={LaTeX}}' };
+const sources = [main, chapter, bib];
+
+{
+  const { plan, error } = planRename(sources, { kind: 'reference', name: 'fig:old' }, 'fig:results');
+  assert.equal(error, undefined);
+  assert.equal(plan!.kind, 'label');
+  assert.deepEqual(plan!.changes.map(change => [change.path, change.edits.length]), [['/p/main.tex', 3], ['/p/chapters/results.tex', 1]]);
+  assert.deepEqual(plan!.changes[0].preview.map(line => line.line), [2, 3]);
+  assert.equal(plan!.changes[0].preview[1].after, 'See \\cref{fig:results,fig:other} and \\ref{fig:results}. % \\ref{fig:old}');
+
+  const updated = applyTextEdits(main.content, plan!.changes[0].edits);
+  assert.ok(updated.includes('\\label{fig:results}'));
+  // Comments and verbatim text are left alone.
+  assert.equal((updated.match(/fig:old/g) || []).length, 3);
+}
+
+{
+  const { plan } = planRename(sources, { kind: 'citation', name: 'knuth84' }, 'knuth1984');
+  assert.deepEqual(plan!.changes.map(change => change.path), ['/p/main.tex', '/p/chapters/results.tex', '/p/refs.bib']);
+  assert.equal(applyTextEdits(bib.content, plan!.changes[2].edits).split('\n')[0], '@book{knuth1984,');
+  assert.equal(
+    applyTextEdits(chapter.content, plan!.changes[1].edits),
+    'As in Figure~\\ref{fig:old}, \\citep[p.~3]{lamport94, knuth1984}.'
+  );
+}
+
+{
+  // Keys other entries point at are renamed along with the entry.
+  const linked = {
+    path: '/p/linked.bib',
+    content: '@book{knuth84, title={T}}\n@inbook{ch1,\n  crossref = {knuth84},\n  related = "lamport94, knuth84",\n  xdata = knuth84\n}',
+  };
+  const { plan } = planRename([linked], { kind: 'citation', name: 'knuth84' }, 'knuth1984');
+  assert.equal(
+    applyTextEdits(linked.content, plan!.changes[0].edits),
+    '@book{knuth1984, title={T}}\n@inbook{ch1,\n  crossref = {knuth1984},\n  related = "lamport94, knuth1984",\n  xdata = knuth1984\n}'
+  );
+}
+
+{
+  const { plan } = planRename(sources, { kind: 'macro', name: 'R' }, '\\Reals');
+  assert.equal(plan!.newName, 'Reals');
+  const updated = applyTextEdits(main.content, plan!.changes[0].edits);
+  assert.ok(updated.startsWith('\\newcommand{\\Reals}{\\mathbb{R}}'));
+  assert.ok(updated.includes('$\\Reals^2$'));
+  assert.ok(updated.includes('\\ref{fig:old} \\R\n'));
+}
+
+{
+  assert.match(planRename(sources, { kind: 'citation', name: 'knuth84' }, 'lamport94').error!, /already defined/);
+  assert.equal(planRename(sources, { kind: 'citation', name: 'knuth84' }, 'Lamport94').error, '`lamport94` is already defined.');
+  assert.equal(planRename(sources, { kind: 'citation', name: 'knuth84' }, 'Knuth84').error, undefined);
+  assert.match(planRename(sources, { kind: 'label', name: 'fig:old' }, 'fig:old').error!, /same/);
+  assert.match(planRename(sources, { kind: 'file', name: 'x' }, 'y').error!, /Only labels/);
+  assert.match(planRename(sources, { kind: 'label', name: 'fig:none' }, 'fig:x').error!, /No occurrences/);
+  assert.ok(validateRenameName('label', 'a b'));
+  assert.ok(validateRenameName('citation', 'a,b'));
+  assert.ok(validateRenameName('macro', 'R2'));
+  assert.equal(validateRenameName('label', 'sec:é'), null);
+}
+
+console.log('latexRename tests passed');
@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { detectSpellingLanguage, extractSpellingWords } from '../src/shared/latexSpellcheck';
+
+const words = (content: string) => extractSpellingWords(content).map(item => item.word);
+
+{
+  assert.deepEqual(words('See \\ref{fig:plot} and \\cite[p.~4]{knuth84} in \\emph{this} paper.'), ['See', 'and', 'in', 'this', 'paper']);
+  assert.deepEqual(words('Math $x_{ab} + y$ and \\[ \\alpha \\] or \\begin{align}foo\\end{align} done'), ['Math', 'and', 'or', 'done']);
+  assert.deepEqual(words('Code \\verb|xyzzy| and\n\\begin{verbatim}\nqwerty\n\\end{verbatim}\nend % commentword'), ['Code', 'and', 'end']);
+  assert.deepEqual(words('\\includegraphics[width=\\textwidth]{figures/plotfile}\\label{fig:x} Caption'), ['Caption']);
+  assert.deepEqual(words('\\begin{tabular}{lcr} Cell \\end{tabular} \\begin{figure}[htbp] Text'), ['Cell', 'Text']);
+  assert.deepEqual(words('\\href{https://example.org}{Link text} \\url{http://foo.bar}'), ['Link', 'text']);
+  // Accent commands would split words; those words are left alone.
+  assert.deepEqual(words('A na\\"ive caf\\\'e in Stra\\ss e is nice'), ['in', 'is', 'nice']);
+  // Abbreviations, single letters and the preamble are skipped.
+  assert.deepEqual(words('\\documentclass{article}\n\\usepackage{amsmath}\n\\title{Titel}\n\\begin{document}\nThe NASA x don\'t'), ['The', "don't"]);
+}
+
+{
+  const [first, second] = extractSpellingWords('One\n  \\textbf{two}');
+  assert.deepEqual(first, { word: 'One', line: 1, column: 1 });
+  assert.deepEqual(second, { word: 'two', line: 2, column: 11 });
+}
+
+{
+  assert.equal(detectSpellingLanguage('\\documentclass{article}\n\\usepackage[english,ngerman]{babel}\n\\begin{document}'), 'de_DE');
+  assert.equal(detectSpellingLanguage('\\usepackage[main=british,french]{babel}'), 'en_GB');
+  assert.equal(detectSpellingLanguage('\\documentclass[a4paper,french]{article}\n\\usepackage{babel}'), 'fr_FR');
+  assert.equal(detectSpellingLanguage('\\usepackage{polyglossia}\n\\setdefaultlanguage[variant=british]{english}'), 'en_GB');
+  assert.equal(detectSpellingLanguage('\\setmainlanguage{spanish}'), 'es_ES');
+  assert.equal(detectSpellingLanguage('% \\usepackage[german]{babel}\n\\begin{document}'), null);
+  assert.equal(detectSpellingLanguage('\\documentclass[english]{article}'), null);
+}
+
+console.log('latexSpellcheck tests passed');
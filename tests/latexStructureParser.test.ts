@@ -0,0 +1,162 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+  extractInputPaths,
+  getSectionTotals,
+  parseLatexProjectStructure,
+  parseLatexStructure,
+  SectionStats,
+  StructureNode,
+} from '../src/renderer/utils/latexStructureParser';
+
+const summary = (stats?: SectionStats) => stats && {
+  words: stats.words,
+  headers: stats.headers,
+  figures: stats.figures,
+  todos: stats.todos,
+};
+
+const outline = (node: StructureNode): string[] => node.children.flatMap(child => [
+  `${'  '.repeat(child.level - 1)}${child.type}${child.starred ? '*' : ''}: ${child.title}${child.file ? ` (${path.basename(child.file)}:${child.lineNumber})` : ''}`,
+  ...outline(child),
+]);
+
+{
+  const result = parseLatexStructure([
+    '\\documentclass{book}',
+    '\\title{A {\\em Nested} Title}',
+    '\\begin{document}',
+    '\\part{Foundations}',
+    '\\chapter[Short]{A \\textbf{bold {and} nested} chapter}',
+    '% \\section{Commented out}',
+    '\\section*{Unnumbered $x^{2}$}',
+    '\\begin{verbatim}',
+    '\\section{Inside verbatim}',
+    '\\end{verbatim}',
+    '\\paragraph{Detail\\footnote{A {note}}}',
+    '\\sectionmark{Not a heading}',
+    '\\section',
+    '  {Split over lines}',
+    '\\end{document}',
+  ].join('\n'));
+  assert.ok(result.isValid);
+  assert.equal(result.structure!.title, 'A Nested Title');
+  const chapter = result.structure!.children[0].children[0];
+  assert.equal(chapter.shortTitle, 'Short');
+  assert.deepEqual(outline(result.structure!), [
+    'part: Foundations',
+    '  chapter: A bold and nested chapter',
+    '    section*: Unnumbered x^2',
+    '          paragraph: Detail',
+    '    section: Split over lines',
+  ]);
+  assert.equal(chapter.children[1].lineNumber, 13);
+}
+
+{
+  assert.equal(parseLatexStructure('').error, 'Empty document');
+  assert.equal(parseLatexStructure('\\section{Intro}').error, 'Not a valid LaTeX document');
+  assert.equal(parseLatexStructure('\\documentclass{article}\\author{Me}\\begin{document}\\end{document}').isValid, false);
+  const countedSource = [
+    '\\documentclass{article}',
+    '\\newcommand{\\note}{Preamble words are not counted}',
+    '\\begin{document}',
+    'Abstract words here.',
+    '\\section{One}',
+    'One two three.\\todo{later}',
+    '\\subsection{Sub}',
+    'Four five. \\begin{figure}\\caption{Not counted}\\end{figure}',
+    '\\section{Two}',
+    'Six.',
+    '\\end{document}',
+    'After the end.',
+  ].join('\n');
+  const counted = parseLatexStructure(countedSource, '/doc/main.tex');
+  const [one, two] = counted.structure!.children;
+  assert.deepEqual(summary(counted.structure!.stats), { words: 3, headers: 0, figures: 0, todos: 0 });
+  assert.deepEqual(summary(one.stats), { words: 4, headers: 1, figures: 0, todos: 1 });
+  assert.deepEqual(summary(getSectionTotals(one)), { words: 7, headers: 2, figures: 1, todos: 1 });
+  assert.deepEqual(summary(two.stats), { words: 2, headers: 1, figures: 0, todos: 0 });
+  assert.deepEqual(summary(getSectionTotals(counted.structure!)), { words: 12, headers: 3, figures: 1, todos: 1 });
+  assert.deepEqual(summary(counted.totals), summary(getSectionTotals(counted.structure!)));
+  assert.deepEqual(counted.fileStats!.map(entry => [entry.file, entry.stats.words]), [['/doc/main.tex', 12]]);
+  assert.equal(getSectionTotals(counted.structure!).captions, 2);
+  // Options decide which categories count as words.
+  const textOnly = parseLatexStructure(countedSource, undefined, { headers: false, captions: false, footnotes: false, bibliography: false });
+  assert.equal(getSectionTotals(textOnly.structure!).words, 9);
+  assert.equal(textOnly.fileStats, undefined);
+  const withCaptions = parseLatexStructure(countedSource, undefined, { headers: true, captions: true, footnotes: true, bibliography: false });
+  assert.equal(withCaptions.totals!.words, 14);
+  // Documents without headings still report totals.
+  const flat = parseLatexStructure('\\documentclass{article}\\begin{document}Just some words.\\end{document}');
+  assert.equal(flat.isValid, false);
+  assert.equal(flat.totals!.words, 3);
+  assert.deepEqual(extractInputPaths('\\makeatletter\n\\def\\input@path{{chapters/}{ appendix/ }}\n'), ['chapters/', 'appendix/']);
+}
+
+(async () => {
+  const files: Record<string, string> = {
+    '/book/main.tex': [
+      '\\documentclass{book}',
+      '\\makeatletter\\def\\input@path{{parts/}}\\makeatother',
+      '\\begin{document}',
+      '\\include{chapters/intro}',
+      '\\input{methods}',
+      '\\import{appendix/}{extra}',
+      '\\input{missing}',
+      '\\input{chapters/intro}',
+      '\\end{document}',
+    ].join('\n'),
+    '/book/chapters/intro.tex': '\\chapter{Introduction}\n\\input{chapters/background}',
+    '/book/chapters/background.tex': '\n\\section{Background}',
+    '/book/parts/methods.tex': '\\chapter{Methods}\n\\section{Setup}',
+    '/book/appendix/extra.tex': '\\chapter{Appendix}\n\\input{table}',
+    '/book/appendix/table.tex': '\\section{Tables}',
+  };
+  const host = {
+    path: { dirname: path.posix.dirname, join: path.posix.join, extname: path.posix.extname },
+    readFile: async (filePath: string) => files[filePath] ?? null,
+  };
+
+  const result = await parseLatexProjectStructure('/book/main.tex', host);
+  assert.ok(result.isValid);
+  assert.deepEqual(outline(result.structure!), [
+    '  chapter: Introduction (intro.tex:1)',
+    '    section: Background (background.tex:2)',
+    '  chapter: Methods (methods.tex:1)',
+    '    section: Setup (methods.tex:2)',
+    '  chapter: Appendix (extra.tex:1)',
+    '    section: Tables (table.tex:1)',
+  ]);
+  assert.deepEqual(result.files, [
+    '/book/main.tex',
+    '/book/chapters/intro.tex',
+    '/book/chapters/background.tex',
+    '/book/parts/methods.tex',
+    '/book/appendix/extra.tex',
+    '/book/appendix/table.tex',
+  ]);
+  assert.deepEqual(result.missingFiles, ['missing']);
+  // Text in included files counts towards the heading it follows.
+  const introduction = result.structure!.children[0];
+  assert.equal(getSectionTotals(introduction).text, 0);
+  files['/book/chapters/background.tex'] += '\nSome background text.';
+  const updated = await parseLatexProjectStructure('/book/main.tex', host);
+  assert.equal(updated.structure!.children[0].children[0].stats!.text, 3);
+  assert.deepEqual(updated.fileStats!.map(entry => [path.basename(entry.file), entry.stats.words]), [
+    ['intro.tex', 1],
+    ['background.tex', 4],
+    ['methods.tex', 2],
+    ['extra.tex', 1],
+    ['table.tex', 1],
+  ]);
+  assert.equal(updated.totals!.words, 9);
+
+  const unreadable = await parseLatexProjectStructure('/book/none.tex', host);
+  assert.equal(unreadable.isValid, false);
+
+  console.log('latexStructureParser tests passed');
+})().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import {
+  extractGraphicsPaths,
+  extractMacroDefinitions,
+  findSymbolAt,
+  findSymbolOccurrences,
+  getIncludeCandidates,
+  maskVerbatim,
+} from '../src/shared/latexSymbols';
+
+{
+  const line = 'See \\cref{fig:a, eq:b} and \\citep[p.~2]{knuth84,lamport94} in \\input{chapters/intro}.';
+  assert.deepEqual(findSymbolAt(line, 13), { kind: 'reference', name: 'fig:a', command: 'cref', startColumn: 11, endColumn: 16 });
+  assert.deepEqual(findSymbolAt(line, 20), { kind: 'reference', name: 'eq:b', command: 'cref', startColumn: 18, endColumn: 22 });
+  assert.equal(findSymbolAt(line, 50)?.name, 'lamport94');
+  assert.equal(findSymbolAt(line, 50)?.kind, 'citation');
+  assert.deepEqual(findSymbolAt(line, 75), { kind: 'file', name: 'chapters/intro', command: 'input', startColumn: 70, endColumn: 84 });
+  // On a known command's name there is nothing to navigate to.
+  assert.equal(findSymbolAt(line, 6), null);
+  assert.equal(findSymbolAt(line, 2), null);
+
+  assert.deepEqual(findSymbolAt('$\\R^n$ and \\label{x}', 3), { kind: 'macro', name: 'R', command: 'R', startColumn: 2, endColumn: 4 });
+  assert.equal(findSymbolAt('\\label{sec:a}', 9)?.kind, 'label');
+  assert.equal(findSymbolAt('\\includegraphics[width=3cm]{plot}', 30)?.name, 'plot');
+}
+
+{
+  const tex = [
+    '\\newcommand{\\R}{\\mathbb{R}}',
+    '\\section{A}\\label{sec:a}',
+    'In $\\R$ see \\ref{sec:a}, \\cref{sec:b,sec:a}. % \\ref{sec:a}',
+    '\\Rset \\R \\cite{k1, k2}',
+  ].join('\n');
+  assert.deepEqual(
+    findSymbolOccurrences(tex, { kind: 'label', name: 'sec:a' }).map(item => [item.line, item.column, item.isDefinition]),
+    [[2, 19, true], [3, 18, false], [3, 38, false]]
+  );
+  assert.deepEqual(
+    findSymbolOccurrences(tex, { kind: 'macro', name: 'R' }).map(item => [item.line, item.column, item.length, item.isDefinition]),
+    [[1, 13, 2, true], [3, 5, 2, false], [4, 7, 2, false]]
+  );
+  assert.deepEqual(findSymbolOccurrences(tex, { kind: 'citation', name: 'k2' }).map(item => [item.line, item.column]), [[4, 20]]);
+
+  const bib = '@article{k2,\n  title = {T}\n}\n@book{ k1 , title={k2}}';
+  assert.deepEqual(findSymbolOccurrences(bib, { kind: 'citation', name: 'k2' }, { bib: true }), [{ line: 1, column: 10, length: 2, isDefinition: true }]);
+  assert.deepEqual(findSymbolOccurrences(bib, { kind: 'citation', name: 'k1' }, { bib: true }).map(item => [item.line, item.column]), [[4, 8]]);
+}
+
+{
+  const definitions = extractMacroDefinitions([
+    '\\newcommand*{\\vect}[1]{\\mathbf{#1}}',
+    '\\renewcommand\\phi{\\varphi}',
+    '\\DeclareMathOperator{\\Tr}{Tr} % \\newcommand{\\gone}{}',
+    '\\def\\half{\\frac12}',
+    '\\NewDocumentCommand{\\norm}{m}{\\lVert#1\\rVert}',
+  ].join('\n'));
+  assert.deepEqual(definitions.map(item => [item.name, item.line, item.column]), [
+    ['vect', 1, 14], ['phi', 2, 14], ['Tr', 3, 22], ['half', 4, 5], ['norm', 5, 21],
+  ]);
+}
+
+{
+  assert.deepEqual(getIncludeCandidates('input', 'chapters/intro'), ['chapters/intro.tex', 'chapters/intro']);
+  assert.deepEqual(getIncludeCandidates('bibliography', 'refs'), ['refs.bib']);
+  assert.deepEqual(getIncludeCandidates('includegraphics', 'plot.png', ['figures/']), ['plot.png', 'figures/plot.png']);
+  assert.equal(getIncludeCandidates('includegraphics', 'plot').length, 6);
+  assert.deepEqual(getIncludeCandidates('section', 'x'), []);
+  assert.deepEqual(extractGraphicsPaths('\\graphicspath{{figures/}{./img}}'), ['figures/', './img/']);
+}
+
+{
+  const masked = maskVerbatim([
+    'a \\verb|\\x{y}| b \\lstinline{\\z} c',
+    '% \\begin{verbatim}',
+    '\\begin{lstlisting}[language=TeX]\\label{in}',
+    '\\label{in}',
+    'x\\end{lstlisting}\\label{out}',
+  ].join('\n'));
+  assert.deepEqual(masked.split('\n'), [
+    'a \\verb|     | b \\lstinline{  } c',
+    '% \\begin{verbatim}',
+    '\\begin{lstlisting}[language=TeX]          ',
+    '          ',
+    ' \\end{lstlisting}\\label{out}',
+  ]);
+}
+
+console.log('latexSymbols tests passed');
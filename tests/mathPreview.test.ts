@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import { collectMathMacros, findMathAt, isInMath } from '../src/shared/mathPreview';
+
+{
+  const content = 'Let $x^2 + \\$y$ be % $not math$\ngiven.';
+  assert.deepEqual(findMathAt(content, 1, 7), {
+    tex: 'x^2 + \\$y',
+    display: false,
+    startLine: 1,
+    startColumn: 5,
+    endLine: 1,
+    endColumn: 16,
+  });
+  assert.equal(findMathAt(content, 1, 2), null);
+  assert.equal(findMathAt(content, 1, 25), null);
+}
+
+{
+  const content = [
+    'Text \\[ a = b \\]',
+    '\\begin{equation}\\label{eq:one}',
+    '  E = mc^2 % energy',
+    '\\end{equation}',
+    '\\begin{align}',
+    '  x &= 1 \\nonumber \\\\',
+    '\\end{align}',
+    '$$ c $$ and \\( d \\) and \\begin{math}e\\end{math}',
+  ].join('\n');
+  assert.equal(findMathAt(content, 1, 9)?.tex, 'a = b');
+  const equation = findMathAt(content, 3, 4)!;
+  assert.deepEqual([equation.tex, equation.display, equation.startLine, equation.endLine, equation.endColumn], ['E = mc^2', true, 2, 4, 15]);
+  assert.equal(findMathAt(content, 6, 3)?.tex, '\\begin{align*}x &= 1  \\\\\\end{align*}');
+  assert.deepEqual([findMathAt(content, 8, 4)?.tex, findMathAt(content, 8, 4)?.display], ['c', true]);
+  assert.deepEqual([findMathAt(content, 8, 16)?.tex, findMathAt(content, 8, 16)?.display], ['d', false]);
+  assert.deepEqual([findMathAt(content, 8, 38)?.tex, findMathAt(content, 8, 38)?.display], ['e', false]);
+}
+
+{
+  assert.equal(findMathAt('An amount of $5\n\nand $6 later', 1, 15), null);
+  assert.equal(findMathAt('\\begin{verbatim}\n$x$\n\\end{verbatim}', 2, 2), null);
+}
+
+{
+  const line = 'Text $a$ and \\[ b \\] or $$ and';
+  assert.deepEqual([1, 6, 7, 9, 16, 21, 26].map(column => isInMath(line, 1, column)), [false, false, true, false, true, false, true]);
+  assert.equal(isInMath('\\begin{align}\nx &= 1\n\\end{align}', 2, 3), true);
+  assert.equal(isInMath('A \\$$ sign', 1, 5), false);
+}
+
+{
+  const macros = collectMathMacros([
+    '\\newcommand{\\R}{\\mathbb{R}}',
+    '\\renewcommand\\vec[1]{\\mathbf{#1}}',
+    '\\newcommand{\\norm}[2][2]{\\|#2\\|_{#1}}',
+    '\\def\\pair#1#2{(#1, #2)}',
+    '\\DeclareMathOperator{\\tr}{tr}',
+    '\\DeclareMathOperator*{\\argmax}{arg\\,max}',
+    '% \\newcommand{\\ignored}{x}',
+    '\\newcommand{\\broken}{',
+  ].join('\n'));
+  assert.deepEqual(macros, {
+    R: '\\mathbb{R}',
+    vec: ['\\mathbf{#1}', 1],
+    norm: ['\\|#2\\|_{#1}', 2, '2'],
+    pair: ['(#1, #2)', 2],
+    tr: '\\operatorname{tr}',
+    argmax: '\\operatorname*{arg\\,max}',
+  });
+}
+
+console.log('mathPreview tests passed');
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { buildMatrix, loadsPackage, MATH_SYMBOLS, searchSymbols, SYMBOL_CATEGORIES } from '../src/shared/mathSymbols';
+
+{
+  SYMBOL_CATEGORIES.forEach(category => assert.ok(searchSymbols('', category).length > 0, category));
+  assert.equal(searchSymbols('').length, MATH_SYMBOLS.length);
+  const keys = MATH_SYMBOLS.map(entry => entry.latex);
+  assert.equal(new Set(keys).size, keys.length);
+}
+
+{
+  assert.deepEqual(searchSymbols('\\mathbb').map(entry => [entry.latex, entry.package]), [['\\mathbb{R}', 'amssymb']]);
+  assert.deepEqual(searchSymbols('xright').map(entry => entry.name), ['extensible right arrow']);
+  assert.ok(searchSymbols('iff').some(entry => entry.latex === '\\Leftrightarrow'));
+  assert.deepEqual(searchSymbols('alpha', 'relations'), []);
+  assert.deepEqual(searchSymbols('var   theta').map(entry => entry.latex), ['\\vartheta']);
+}
+
+{
+  assert.equal(buildMatrix({ environment: 'pmatrix', cells: [['1', '0'], ['-10', 'a_{22}']] }), [
+    '\\begin{pmatrix}',
+    '  1   & 0 \\\\',
+    '  -10 & a_{22}',
+    '\\end{pmatrix}',
+  ].join('\n'));
+  assert.equal(buildMatrix({ environment: 'array', cells: [['a', 'b', 'c'], ['d']], columns: 'c|cc' }, '\t'), [
+    '\\begin{array}{c|cc}',
+    '\ta & b & c \\\\',
+    '\td &   &',
+    '\\end{array}',
+  ].join('\n'));
+  assert.ok(buildMatrix({ environment: 'array', cells: [['a', 'b']] }).startsWith('\\begin{array}{cc}'));
+  assert.equal(buildMatrix({ environment: 'cases', cells: [['x', '\\text{if } x \\geq 0'], ['-x', '\\text{otherwise}']] }), [
+    '\\begin{cases}',
+    '  x  & \\text{if } x \\geq 0 \\\\',
+    '  -x & \\text{otherwise}',
+    '\\end{cases}',
+  ].join('\n'));
+}
+
+{
+  const preamble = '\\documentclass{article}\n\\usepackage[utf8]{inputenc}\n\\usepackage{mathtools, amssymb}\n% \\usepackage{mathrsfs}';
+  assert.deepEqual(['amsmath', 'mathtools', 'amssymb', 'amsfonts', 'mathrsfs'].map(name => loadsPackage(preamble, name)), [
+    true, true, true, true, false,
+  ]);
+}
+
+console.log('mathSymbols tests passed');
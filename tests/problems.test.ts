@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { LatexDiagnostic } from '../src/shared/latexDiagnostics';
+import {
+  DEFAULT_PROBLEM_FILTER,
+  filterProblems,
+  getProblemCategory,
+  groupProblemsByFile,
+  mergeBuildProblems,
+} from '../src/shared/problems';
+
+const main = '/work/paper/main.tex';
+const intro = '/work/paper/chapters/intro.tex';
+
+const reference: LatexDiagnostic = { severity: 'warning', file: intro, line: 12, code: 'undefined-reference', message: 'Undefined reference: fig:a' };
+const overfull: LatexDiagnostic = { severity: 'warning', file: main, line: 40, endLine: 42, code: 'overfull-box', message: 'Overfull \\hbox (3.2pt too wide) in paragraph' };
+const underfull: LatexDiagnostic = { severity: 'info', file: main, line: 7, code: 'underfull-box', message: 'Underfull \\hbox (badness 10000) in paragraph' };
+const fatal: LatexDiagnostic = { severity: 'error', file: intro, line: 30, code: 'undefined-control-sequence', message: 'Undefined control sequence: \\foo' };
+
+{
+  const first = mergeBuildProblems([], [reference, overfull, underfull], 1, { complete: true });
+  assert.equal(first.length, 3);
+  assert.ok(first.every(problem => problem.firstSeen === 1 && !problem.stale));
+
+  // A failed build stops early: its error is new, earlier warnings are kept but marked stale.
+  const second = mergeBuildProblems(first, [{ ...underfull, line: 9 }, fatal], 2, { complete: false });
+  assert.deepEqual(
+    second.map(problem => [problem.code, problem.firstSeen, Boolean(problem.stale)]),
+    [
+      ['underfull-box', 1, false],
+      ['undefined-control-sequence', 2, false],
+      ['undefined-reference', 1, true],
+      ['overfull-box', 1, true],
+    ]
+  );
+  assert.equal(second[0].line, 9);
+
+  // Once a build completes, fixed problems and old errors disappear.
+  const third = mergeBuildProblems(second, [reference], 3, { complete: true });
+  assert.deepEqual(third.map(problem => [problem.code, problem.firstSeen, Boolean(problem.stale)]), [['undefined-reference', 1, false]]);
+
+  // Errors are never carried over from a previous build.
+  const fourth = mergeBuildProblems(second, [], 3, { complete: false });
+  assert.ok(fourth.every(problem => problem.severity !== 'error'));
+}
+
+{
+  // Repeated identical warnings are tracked one by one.
+  const twice = mergeBuildProblems([], [overfull, overfull], 1, { complete: true });
+  assert.notEqual(twice[0].id, twice[1].id);
+  const once = mergeBuildProblems(twice, [overfull], 2, { complete: false });
+  assert.deepEqual(once.map(problem => Boolean(problem.stale)), [false, true]);
+}
+
+{
+  const problems = mergeBuildProblems([], [underfull, reference, overfull, fatal, { severity: 'warning', code: 'bibliography', message: 'BibTeX: empty year in knuth84' }], 1, { complete: true });
+  assert.equal(getProblemCategory('overfull-box'), 'box');
+  assert.equal(getProblemCategory(undefined), 'other');
+
+  assert.equal(filterProblems(problems, DEFAULT_PROBLEM_FILTER).length, 5);
+  assert.deepEqual(
+    filterProblems(problems, { severities: ['warning', 'info'], categories: ['box'] }).map(problem => problem.code),
+    ['underfull-box', 'overfull-box']
+  );
+  assert.deepEqual(filterProblems(problems, { severities: ['error'], categories: [] }).map(problem => problem.code), ['undefined-control-sequence']);
+
+  const groups = groupProblemsByFile(problems);
+  assert.deepEqual(groups.map(group => group.file), [intro, main, null]);
+  assert.deepEqual(groups[0].problems.map(problem => problem.line), [12, 30]);
+  assert.deepEqual(groups[1].problems.map(problem => problem.line), [7, 40]);
+}
+
+console.log('problems tests passed');
@@ -0,0 +1,207 @@
+import * as assert from 'assert';
+import {
+  createDefaultProjectSettings,
+  describeProjectCommands,
+  formatBuildRecipes,
+  joinArguments,
+  parseBuildRecipes,
+  parseProjectSettings,
+  serializeProjectSettings,
+  splitArguments,
+  withoutProjectCommands,
+} from '../src/shared/projectSettings';
+import { createRecipeStep } from '../src/shared/buildRecipes';
+
+{
+  const { settings, warnings } = parseProjectSettings([
+    'version: 1',
+    'root: thesis.tex',
+    'engine: lualatex',
+    'outputDirectory: build',
+    'engineArgs: [-shell-escape]',
+    'bibliography: biber',
+    'timeouts:',
+    '  compile: 600',
+    'env:',
+    '  TEXINPUTS: "./styles//:"',
+    'autoCompile: false',
+  ].join('\n'));
+  assert.deepEqual(warnings, []);
+  assert.equal(settings.root, 'thesis.tex');
+  assert.equal(settings.engine, 'lualatex');
+  assert.equal(settings.outputDirectory, 'build');
+  assert.deepEqual(settings.engineArgs, ['-shell-escape']);
+  assert.equal(settings.bibliography, 'biber');
+  assert.deepEqual(settings.timeouts, { compile: 600, bibliography: 120, index: 60 });
+  assert.deepEqual(settings.env, { TEXINPUTS: './styles//:' });
+  assert.equal(settings.autoCompile, false);
+  assert.equal(settings.autoSave, true);
+}
+
+{
+  const defaults = createDefaultProjectSettings({ engine: 'xelatex' });
+  const { settings, warnings } = parseProjectSettings('engine: context\ntimeouts:\n  index: -1\nenv:\n  "BAD NAME": x', defaults);
+  assert.equal(settings.engine, 'xelatex');
+  assert.equal(settings.timeouts.index, 60);
+  assert.deepEqual(settings.env, {});
+  assert.equal(warnings.length, 3);
+}
+
+{
+  const { settings, warnings } = parseProjectSettings('engine: [unclosed');
+  assert.equal(settings.engine, 'pdflatex');
+  assert.equal(warnings.length, 1);
+  assert.ok(warnings[0].startsWith('Invalid YAML'));
+}
+
+{
+  const { settings, warnings } = parseProjectSettings('wordTargets:\n  Introduction: 1200.4\n  Methods: lots\n');
+  assert.deepEqual(settings.wordTargets, { Introduction: 1200 });
+  assert.equal(warnings.length, 1);
+}
+
+{
+  const { settings, warnings } = parseProjectSettings('wordCount:\n  captions: true\n  headers: sometimes\n');
+  assert.deepEqual(settings.wordCount, { headers: true, captions: true, footnotes: true, bibliography: false });
+  assert.deepEqual(warnings, ['"wordCount.headers" must be true or false.']);
+}
+
+{
+  const { settings, warnings } = parseProjectSettings('spellcheck:\n  language: "en GB"\n  words: [LaTeX, 42, {a: 1}, LaTeX]\n');
+  assert.deepEqual(settings.spellcheck, { enabled: true, language: null, words: ['LaTeX', '42'] });
+  assert.equal(warnings.length, 2);
+}
+
+{
+  const { settings, warnings } = parseProjectSettings('lint:\n  chktex: true\n  rules:\n    display-dollars: off\n    straight-quotes: loud\n    no-such-rule: error\n');
+  assert.equal(settings.lint.chktex, true);
+  assert.equal(settings.lint.rules['display-dollars'], 'off');
+  assert.equal(settings.lint.rules['straight-quotes'], 'warning');
+  assert.deepEqual(warnings, [
+    '"lint.rules.straight-quotes" must be one of off, info, warning, error.',
+    'Unknown lint rule "no-such-rule".',
+  ]);
+}
+
+{
+  const { settings, warnings } = parseProjectSettings('format:\n  backend: prettier\n  indent: 4\n  lineWidth: -1\n  maxBlankLines: 0\n  formatOnSave: true\n');
+  assert.deepEqual(settings.format, {
+    backend: 'builtin',
+    indent: 4,
+    alignTables: true,
+    lineWidth: 0,
+    oneSentencePerLine: false,
+    maxBlankLines: 1,
+    formatOnSave: true,
+  });
+  assert.deepEqual(warnings, [
+    'Unknown formatter "prettier"; expected one of builtin, latexindent.',
+    '"format.lineWidth" must be a whole number from 0 to 500.',
+    '"format.maxBlankLines" must be a whole number from 1 to 10.',
+  ]);
+}
+
+{
+  const { warnings } = parseProjectSettings('version: 99\nengine: pdflatex');
+  assert.equal(warnings.length, 1);
+}
+
+{
+  const original = createDefaultProjectSettings({
+    root: 'main.tex',
+    engine: 'lualatex',
+    engineArgs: ['-shell-escape', '--jobname=draft copy'],
+    env: { SOURCE_DATE_EPOCH: '0' },
+    wordTargets: { Introduction: 1500, 'Results: part 1': 3000 },
+    wordCount: { headers: false, captions: true, footnotes: true, bibliography: true },
+    spellcheck: { enabled: false, language: 'de_CH', words: ['Openotex', 'biber'] },
+    recipe: 'glossaries',
+    recipes: [{
+      name: 'glossaries',
+      steps: [
+        createRecipeStep('engine', { args: ['-shell-escape'] }),
+        createRecipeStep('makeglossaries', { args: ['%DOCFILE%'], when: { exists: '%OUTDIR%/%DOCFILE%.glo' } }),
+        createRecipeStep('engine', { cwd: 'root', when: { rerun: true }, repeat: 3 }),
+      ],
+    }],
+  });
+  original.lint.rules['ref-without-tie'] = 'off';
+  original.lint.chktex = true;
+  original.format = { ...original.format, backend: 'latexindent', lineWidth: 80, oneSentencePerLine: true };
+  const { settings, warnings } = parseProjectSettings(serializeProjectSettings(original));
+  assert.deepEqual(warnings, []);
+  assert.deepEqual(settings, original);
+}
+
+{
+  const { settings, warnings } = parseProjectSettings([
+    'recipe: missing',
+    'recipes:',
+    '  - name: minted',
+    '    steps:',
+    '      - tool: engine',
+    '        args: -shell-escape',
+    '      - tool: pythontex',
+    '        args: [\'%DOCFILE%\']',
+    '        cwd: root',
+    '        when: { contains: { file: \'%OUTDIR%/%DOCFILE%.aux\', text: pytx }, missing: out.pdf }',
+    '      - tool: rm',
+    '      - tool: engine',
+    '        repeat: 9',
+    '        when: { rerun: yes, later: true }',
+    '  - name: latexmk',
+    '    steps: [{ tool: engine }]',
+    '  - name: tools-only',
+    '    steps: [{ tool: bibtex }]',
+  ].join('\n'));
+  assert.equal(settings.recipe, 'auto');
+  assert.deepEqual(settings.recipes, [{
+    name: 'minted',
+    steps: [
+      createRecipeStep('engine', { args: ['-shell-escape'] }),
+      createRecipeStep('pythontex', {
+        args: ['%DOCFILE%'],
+        cwd: 'root',
+        when: { contains: { file: '%OUTDIR%/%DOCFILE%.aux', text: 'pytx' }, missing: 'out.pdf' },
+      }),
+      createRecipeStep('engine'),
+    ],
+  }]);
+  assert.equal(warnings.length, 7);
+  assert.match(warnings[0], /Unknown tool "rm"/);
+  assert.match(warnings[1], /when\.rerun" has the wrong form/);
+  assert.match(warnings[2], /Unknown condition ".*when\.later"/);
+  assert.match(warnings[3], /repeat" must be a whole number from 1 to 5/);
+  assert.match(warnings[4], /"latexmk" is already taken/);
+  assert.match(warnings[5], /"tools-only" needs an engine or latexmk step/);
+  assert.match(warnings[6], /Unknown recipe "missing"/);
+  assert.deepEqual(parseBuildRecipes(formatBuildRecipes(settings.recipes)), { recipes: settings.recipes, warnings: [] });
+  assert.deepEqual(parseBuildRecipes('- name: [').warnings.length, 1);
+}
+
+{
+  assert.deepEqual(splitArguments('-shell-escape  "-jobname=my draft" \'-8bit\''), ['-shell-escape', '-jobname=my draft', '-8bit']);
+  assert.deepEqual(splitArguments(joinArguments(['a b', '-c'])), ['a b', '-c']);
+}
+
+{
+  // A project's engine arguments, environment and recipe need the user's trust.
+  assert.equal(describeProjectCommands(createDefaultProjectSettings({ recipe: 'latex' })), null);
+  const settings = createDefaultProjectSettings({
+    recipe: 'evil',
+    recipes: [{ name: 'evil', steps: [createRecipeStep('latexmk', { args: ['-e', 'system("x")'] })] }],
+    engineArgs: ['-shell-escape'],
+    env: { PATH: '/tmp' },
+  });
+  assert.deepEqual(describeProjectCommands(settings), [
+    'Engine arguments: -shell-escape',
+    'Environment: PATH=/tmp',
+    'Recipe "evil": latexmk -e system("x")',
+  ]);
+  const untrusted = withoutProjectCommands(settings);
+  assert.equal(untrusted.recipe, 'auto');
+  assert.deepEqual([untrusted.recipes, untrusted.engineArgs, untrusted.env], [[], [], {}]);
+  assert.equal(describeProjectCommands(untrusted), null);
+}
+
+console.log('projectSettings tests passed');
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+  findIncludedFiles,
+  findMagicRootComment,
+  resolveRootDocument,
+  RootDocumentHost,
+} from '../src/shared/rootDocument';
+
+const project = path.join(path.sep, 'work', 'thesis');
+const at = (...parts: string[]) => path.join(project, ...parts);
+
+const createHost = (files: Record<string, string>): RootDocumentHost => ({
+  path,
+  readFile: async (filePath: string) => (filePath in files ? files[filePath] : null),
+  listTexFiles: async () => Object.keys(files).filter(file => file.endsWith('.tex')),
+});
+
+(async () => {
+  {
+    assert.equal(findMagicRootComment('% !TEX root = ../main.tex\n\\section{Intro}'), '../main.tex');
+    assert.equal(findMagicRootComment('%!TeX root=main\n'), 'main');
+    assert.equal(findMagicRootComment('\\section{Intro}'), null);
+  }
+
+  {
+    const included = findIncludedFiles(
+      '\\input{chapters/intro}\n% \\include{ignored}\n\\subimport{parts/}{appendix.tex}',
+      project,
+      path
+    );
+    assert.deepEqual(included, [at('chapters', 'intro.tex'), at('parts', 'appendix.tex')]);
+  }
+
+  {
+    const host = createHost({
+      [at('main.tex')]: '\\documentclass{book}\n\\begin{document}\n\\include{chapters/intro}\n\\end{document}',
+      [at('chapters', 'intro.tex')]: '% !TEX root = ../main.tex\n\\chapter{Intro}',
+    });
+    const result = await resolveRootDocument(at('chapters', 'intro.tex'), host, { projectRoot: project });
+    assert.equal(result.rootPath, at('main.tex'));
+    assert.equal(result.reason, 'magic-comment');
+  }
+
+  {
+    const host = createHost({
+      [at('thesis.tex')]: '\\documentclass{book}\n\\input{chapters/part}',
+      [at('chapters', 'part.tex')]: '\\input{chapters/deep}',
+      [at('chapters', 'deep.tex')]: 'Text only.',
+    });
+    const result = await resolveRootDocument(at('chapters', 'deep.tex'), host, { projectRoot: project });
+    assert.equal(result.rootPath, at('thesis.tex'));
+    assert.equal(result.reason, 'included-by');
+  }
+
+  {
+    const host = createHost({
+      [at('main.tex')]: '\\documentclass{article}',
+      [at('notes.tex')]: 'Loose notes that nothing includes.',
+    });
+    const result = await resolveRootDocument(at('notes.tex'), host, { projectRoot: project });
+    assert.equal(result.rootPath, at('main.tex'));
+    assert.equal(result.reason, 'project-default');
+  }
+
+  {
+    const host = createHost({
+      [at('main.tex')]: '\\documentclass{article}',
+      [at('sections', 'results.tex')]: '\\documentclass[../main.tex]{subfiles}\n\\begin{document}\\end{document}',
+    });
+    const result = await resolveRootDocument(at('sections', 'results.tex'), host, { projectRoot: project });
+    assert.equal(result.rootPath, at('main.tex'));
+    assert.equal(result.reason, 'subfiles');
+  }
+
+  {
+    const host = createHost({
+      [at('letter.tex')]: '\\documentclass{letter}',
+    });
+    const result = await resolveRootDocument(at('letter.tex'), host, { projectRoot: project });
+    assert.equal(result.rootPath, at('letter.tex'));
+    assert.equal(result.reason, 'self');
+  }
+
+  console.log('rootDocument tests passed');
+})().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import { parseSyncTex, syncTexForward, syncTexInverse } from '../src/shared/synctex';
+
+const fixture = [
+  'SyncTeX Version:1',
+  'Input:1:/work/paper/./main.tex',
+  'Input:2:/usr/share/texlive/texmf-dist/tex/latex/base/article.cls',
+  'Output:pdf',
+  'Magnification:1000',
+  'Unit:1',
+  'X Offset:0',
+  'Y Offset:0',
+  'Content:',
+  '!220',
+  'Input:3:/work/paper/./chapters/intro.tex',
+  '{1',
+  '[1,10:4736286,45000000:25690112,41353831,0',
+  '(1,10:4736286,8397435:25690112,786432,262144',
+  'x1,10:4736286,8397435',
+  'k1,10:5000000,8397435:-100',
+  ')',
+  '(3,5:4736286,9397435:20000000,786432,262144',
+  'g3,5:4736286,9397435',
+  'g3,6:14736286,9397435',
+  ')',
+  'h3,8:4736286,12000000:25690112,1000000,0',
+  ']',
+  '}1',
+  '!1234',
+  'Postamble:',
+  'Count:10',
+  '!25',
+  'Post scriptum:',
+].join('\n');
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 0.01, `${actual} != ${expected}`);
+
+{
+  const data = parseSyncTex(fixture);
+  assert.equal(data.inputs.get(3), '/work/paper/./chapters/intro.tex');
+  assert.deepEqual(Array.from(data.pages.keys()), [1]);
+
+  const isMain = (input: string) => input.endsWith('/main.tex');
+  const isIntro = (input: string) => input.endsWith('/intro.tex');
+
+  const [line10] = syncTexForward(data, isMain, 10);
+  assert.equal(line10.page, 1);
+  close(line10.h, 72);
+  close(line10.v, 127.656 + 3.985);
+  close(line10.W, 390.536);
+  close(line10.H, 11.955 + 3.985);
+
+  // A glue node on line 6 maps to the line box it sits in.
+  const [line6] = syncTexForward(data, isIntro, 6);
+  close(line6.W, 304.036);
+
+  // Lines TeX recorded nothing for fall forward to the next recorded line, or back to the last.
+  close(syncTexForward(data, isIntro, 7)[0].v, 182.422);
+  close(syncTexForward(data, isIntro, 100)[0].v, 182.422);
+  assert.deepEqual(syncTexForward(data, input => input.endsWith('missing.tex'), 1), []);
+
+  assert.deepEqual(syncTexInverse(data, 1, 73, 127), { input: '/work/paper/./main.tex', line: 10, column: 1 });
+  assert.deepEqual(syncTexInverse(data, 1, 230, 142), { input: '/work/paper/./chapters/intro.tex', line: 6, column: 1 });
+  assert.deepEqual(syncTexInverse(data, 1, 10, 500), { input: '/work/paper/./main.tex', line: 10, column: 1 });
+  assert.equal(syncTexInverse(data, 2, 10, 10), null);
+}
+
+{
+  // Magnification and offsets from the post scriptum scale every coordinate.
+  const data = parseSyncTex([
+    'SyncTeX Version:1',
+    'Input:1:doc.tex',
+    'Content:',
+    '{1',
+    '(1,3,7:65781760,65781760:65781760,0,0',
+    ')',
+    '}1',
+    'Postamble:',
+    'Post scriptum:',
+    'Magnification:2000',
+    'X Offset:6578176',
+  ].join('\n'));
+  const [rect] = syncTexForward(data, input => input === 'doc.tex', 3);
+  close(rect.h, 2100);
+  close(rect.W, 2000);
+  assert.deepEqual(syncTexInverse(data, 1, 2500, 2000), { input: 'doc.tex', line: 3, column: 7 });
+}
+
+console.log('synctex tests passed');
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { countFigures, countLatex, countTodos, countWords, DEFAULT_WORD_COUNT_OPTIONS } from '../src/shared/wordCount';
+
+{
+  assert.equal(countWords('Hello, world! It\'s a well-known fact.'), 6);
+  assert.equal(countWords('See Figure~\\ref{fig:a} and \\cite[p.~4]{knuth84}.'), 3);
+  assert.equal(countWords('An \\emph{important} result with $x^2 + y^2$ and \\[ E = mc^2 \\] math.'), 6);
+  assert.equal(countWords('Caf\\\'e na\\"ive % a comment here\nnext'), 3);
+  assert.equal(countWords('\\begin{figure}\\caption{Ignored caption words}\\end{figure}Kept'), 1);
+  assert.equal(countWords('\\begin{verbatim}\nnot counted at all\n\\end{verbatim}\nText'), 1);
+  assert.equal(countWords('Costs \\$5 and 50\\% more'), 5);
+  assert.equal(countWords('\\begin{itemize}\\item One \\item Two\\end{itemize}'), 2);
+  assert.equal(countWords('Über naïve Ωmega'), 3);
+}
+
+{
+  const source = [
+    '\\section[Short]{A Long Heading}',
+    'Body text\\footnote{A note with \\emph{nested} braces.} continues $x$ here.',
+    '\\begin{figure}\\caption[Short]{Three caption words}\\end{figure}',
+    '\\captionof{table}{Two words}',
+    '\\[ a + b \\]',
+    '\\begin{thebibliography}{9}\\bibitem{knuth} Donald Knuth.\\end{thebibliography}',
+  ].join('\n');
+  const count = countLatex(source);
+  assert.equal(count.text, 4);
+  assert.equal(count.headers, 3);
+  assert.equal(count.footnotes, 5);
+  assert.equal(count.captions, 5);
+  assert.equal(count.bibliography, 2);
+  assert.equal(count.inlineMath, 1);
+  assert.equal(count.displayMath, 1);
+  // Defaults: text, headings and footnotes.
+  assert.equal(count.words, 12);
+  assert.equal(countWords(source, { ...DEFAULT_WORD_COUNT_OPTIONS, captions: true, bibliography: true }), 19);
+  assert.equal(countWords(source, { headers: false, captions: false, footnotes: false, bibliography: false }), 4);
+  assert.equal(countLatex('Don’t well-known 42').characters, 15);
+}
+
+{
+  const text = '\\begin{figure}\\end{figure}\\begin{figure*}\\end{figure*}% \\begin{figure}\n\\todo{a}\\todo[inline]{b}\\missingfigure{c}';
+  assert.equal(countFigures(text), 2);
+  assert.equal(countTodos(text), 3);
+}
+
+console.log('wordCount tests passed');